@@ -2,6 +2,7 @@
 
 var libQ = require('kew');
 var vconf = require('v-conf');
+var path = require('path');
 
 module.exports = ControllerPlex;
 
@@ -13,7 +14,10 @@ function ControllerPlex(context) {
   this.config = new vconf();
   this.adapter = null;
   this._plexLoginState = null;
+  this._plexHomeUsers = null;
+  this._refusedToken = null;
   this._started = false;
+  this._backgroundTasks = [];
 }
 
 // ── Plex Login Helpers ───────────────────────────────────────────────
@@ -40,7 +44,9 @@ function plexTvRequest(method, path, headers, postBody) {
           try { resolve(JSON.parse(data)); }
           catch (e) { reject(new Error('Failed to parse Plex.tv response')); }
         } else {
-          reject(new Error('Plex.tv API error: HTTP ' + res.statusCode + ' body: ' + data.slice(0, 200)));
+          var err = new Error('Plex.tv API error: HTTP ' + res.statusCode + ' body: ' + data.slice(0, 200));
+          err.statusCode = res.statusCode;
+          reject(err);
         }
       });
     });
@@ -53,6 +59,12 @@ function plexTvRequest(method, path, headers, postBody) {
   });
 }
 
+// How a plex.tv connection entry reaches the server: 'local', 'remote' or 'relay'.
+function connectionKind(c) {
+  if (c.relay) return 'relay';
+  return c.local ? 'local' : 'remote';
+}
+
 function generateClientId() {
   return require('crypto').randomBytes(16).toString('hex');
 }
@@ -121,6 +133,7 @@ ControllerPlex.prototype.onVolumioStart = function () {
 
 ControllerPlex.prototype.onStart = function () {
   this._started = true;
+  this._backgroundTasks.forEach(function (task) { task.start(); });
   if (this.adapter) {
     this.adapter.onStart();
   }
@@ -129,6 +142,7 @@ ControllerPlex.prototype.onStart = function () {
 
 ControllerPlex.prototype.onStop = function () {
   this._started = false;
+  this._backgroundTasks.forEach(function (task) { task.stop(); });
   if (this.adapter) {
     this.adapter.onStop();
   }
@@ -156,8 +170,8 @@ ControllerPlex.prototype.getUIConfig = function () {
       var loginState = self._plexLoginState;
       uiconf.sections[0].content[1].value = (loginState && loginState.authUrl) ? loginState.authUrl : '';
       if (loginState && loginState.connectionOptions && loginState.connectionOptions.length > 0) {
-        uiconf.sections[0].content[3].options = loginState.connectionOptions;
-        uiconf.sections[0].content[3].value = loginState.connectionOptions[0];
+        uiconf.sections[0].content[4].options = loginState.connectionOptions;
+        uiconf.sections[0].content[4].value = loginState.connectionOptions[0];
       }
 
       // plex_connection section (sections[1])
@@ -169,12 +183,36 @@ ControllerPlex.prototype.getUIConfig = function () {
       // plex_browse section (sections[2])
       uiconf.sections[2].content[0].value = self.config.get('shuffle') || false;
       uiconf.sections[2].content[1].value = self.config.get('pageSize') || 100;
+      uiconf.sections[2].content[2].value = self.config.get('diskCache') || false;
+      uiconf.sections[2].content[3].value = self.config.get('audiobookLibraries') || '';
+      uiconf.sections[2].content[4].value = self.config.get('podcastLibraries') || '';
 
       // plex_playback section (sections[3])
       uiconf.sections[3].content[0].value = self.config.get('gaplessPlayback') !== false;
       uiconf.sections[3].content[1].value = self.config.get('crossfadeEnabled') || false;
       uiconf.sections[3].content[2].value = self.config.get('crossfadeDuration') || 5;
       uiconf.sections[3].content[3].value = self.config.get('scrobble') || false;
+      uiconf.sections[3].content[4].value = self.config.get('companion') === true;
+      uiconf.sections[3].content[5].value = self.config.get('companionPort') || 32500;
+      var selects = { streamingMode: 6, transcodeFormat: 7, preferredVersion: 9, normalization: 10, resumeMode: 11 };
+      Object.keys(selects).forEach(function (key) {
+        var field = uiconf.sections[3].content[selects[key]];
+        var selected = field.options.find(function (o) { return o.value === self.config.get(key); });
+        if (selected) field.value = selected;
+      });
+      uiconf.sections[3].content[8].value = self.config.get('transcodeBitrate') || 320;
+      uiconf.sections[3].content[12].value = self.config.get('resumeMinMinutes') || 20;
+      uiconf.sections[3].content[13].value = self.config.get('chapterSkip') || false;
+
+      // plex_home section (sections[4])
+      var homeUserId = self.config.get('homeUserId') || '';
+      var homeUserOptions = (self._plexHomeUsers || []).map(function (u) {
+        return { value: u.uuid, label: u.title + (u.protected ? ' (PIN)' : '') };
+      });
+      var currentUser = homeUserOptions.find(function (o) { return o.value === homeUserId; })
+        || (homeUserId ? { value: homeUserId, label: self.config.get('homeUser') || homeUserId } : homeUserOptions[0]);
+      uiconf.sections[4].content[1].options = homeUserOptions;
+      if (currentUser) uiconf.sections[4].content[1].value = currentUser;
       defer.resolve(uiconf);
     })
     .fail(function (error) {
@@ -203,10 +241,18 @@ ControllerPlex.prototype.saveConfig = function (data) {
   port = Number(port) || 32400;
   https = !!https;
 
+  // A hand-entered token belongs to no known Home user.
+  if (token !== this.config.get('token')) {
+    this.config.set('homeUserId', '');
+    this.config.set('homeUser', '');
+  }
   this.config.set('host', host);
   this.config.set('port', port);
   this.config.set('token', token);
   this.config.set('https', https);
+  this.config.set('serverId', '');
+  // A hand-entered address replaces the connection candidates found at login.
+  this.config.set('connections', '[]');
 
   var shuffle = this.config.get('shuffle') || false;
   var pageSize = this.config.get('pageSize') || 100;
@@ -231,8 +277,17 @@ ControllerPlex.prototype.saveBrowseOptions = function (data) {
   if (pageSize < 10) pageSize = 10;
   if (pageSize > 1000) pageSize = 1000;
 
+  var diskCache = (data.diskCache && data.diskCache.value !== undefined) ? data.diskCache.value : data.diskCache;
+  diskCache = !!diskCache;
+
+  var audiobookLibraries = (data.audiobookLibraries && data.audiobookLibraries.value !== undefined) ? data.audiobookLibraries.value : data.audiobookLibraries;
+  var podcastLibraries = (data.podcastLibraries && data.podcastLibraries.value !== undefined) ? data.podcastLibraries.value : data.podcastLibraries;
+
   this.config.set('shuffle', shuffle);
   this.config.set('pageSize', pageSize);
+  this.config.set('diskCache', diskCache);
+  this.config.set('audiobookLibraries', String(audiobookLibraries || '').trim());
+  this.config.set('podcastLibraries', String(podcastLibraries || '').trim());
 
   var host = this.config.get('host') || '';
   var port = this.config.get('port') || 32400;
@@ -266,10 +321,53 @@ ControllerPlex.prototype.savePlaybackOptions = function (data) {
   var scrobble = (data.scrobble && data.scrobble.value !== undefined) ? data.scrobble.value : data.scrobble;
   scrobble = !!scrobble;
 
+  var companion = (data.companion && data.companion.value !== undefined) ? data.companion.value : data.companion;
+  companion = !!companion;
+
+  var companionPort = (data.companionPort && data.companionPort.value !== undefined) ? data.companionPort.value : data.companionPort;
+  companionPort = Number(companionPort) || 32500;
+
+  var streamingMode = (data.streamingMode && data.streamingMode.value !== undefined) ? data.streamingMode.value : data.streamingMode;
+  if (['direct', 'transcode', 'auto'].indexOf(streamingMode) === -1) streamingMode = 'direct';
+
+  var transcodeFormat = (data.transcodeFormat && data.transcodeFormat.value !== undefined) ? data.transcodeFormat.value : data.transcodeFormat;
+  if (['mp3', 'aac', 'flac'].indexOf(transcodeFormat) === -1) transcodeFormat = 'mp3';
+
+  var transcodeBitrate = (data.transcodeBitrate && data.transcodeBitrate.value !== undefined) ? data.transcodeBitrate.value : data.transcodeBitrate;
+  transcodeBitrate = Number(transcodeBitrate) || 320;
+  if (transcodeBitrate < 64) transcodeBitrate = 64;
+  if (transcodeBitrate > 320) transcodeBitrate = 320;
+
+  var preferredVersion = (data.preferredVersion && data.preferredVersion.value !== undefined) ? data.preferredVersion.value : data.preferredVersion;
+  if (['quality', 'smallest', 'flac', 'alac', 'aac', 'mp3'].indexOf(preferredVersion) === -1) preferredVersion = 'quality';
+
+  var normalization = (data.normalization && data.normalization.value !== undefined) ? data.normalization.value : data.normalization;
+  if (['off', 'track', 'album', 'smart'].indexOf(normalization) === -1) normalization = 'off';
+
+  var resumeMode = (data.resumeMode && data.resumeMode.value !== undefined) ? data.resumeMode.value : data.resumeMode;
+  if (['never', 'always', 'long'].indexOf(resumeMode) === -1) resumeMode = 'long';
+
+  var resumeMinMinutes = (data.resumeMinMinutes && data.resumeMinMinutes.value !== undefined) ? data.resumeMinMinutes.value : data.resumeMinMinutes;
+  resumeMinMinutes = Number(resumeMinMinutes) || 20;
+  if (resumeMinMinutes < 1) resumeMinMinutes = 1;
+
+  var chapterSkip = (data.chapterSkip && data.chapterSkip.value !== undefined) ? data.chapterSkip.value : data.chapterSkip;
+  chapterSkip = !!chapterSkip;
+
   this.config.set('gaplessPlayback', gaplessPlayback);
   this.config.set('crossfadeEnabled', crossfadeEnabled);
   this.config.set('crossfadeDuration', crossfadeDuration);
   this.config.set('scrobble', scrobble);
+  this.config.set('companion', companion);
+  this.config.set('companionPort', companionPort);
+  this.config.set('streamingMode', streamingMode);
+  this.config.set('transcodeFormat', transcodeFormat);
+  this.config.set('transcodeBitrate', transcodeBitrate);
+  this.config.set('preferredVersion', preferredVersion);
+  this.config.set('normalization', normalization);
+  this.config.set('resumeMode', resumeMode);
+  this.config.set('resumeMinMinutes', resumeMinMinutes);
+  this.config.set('chapterSkip', chapterSkip);
 
   var host = this.config.get('host') || '';
   var port = this.config.get('port') || 32400;
@@ -378,6 +476,86 @@ ControllerPlex.prototype.goto = function (data) {
   return this.adapter.goto(data);
 };
 
+// ── Playlists ───────────────────────────────────────────────────────
+
+ControllerPlex.prototype.addToPlaylist = function (data) {
+  if (!this.adapter) {
+    return libQ.reject(new Error('Plex plugin not initialized'));
+  }
+  return this.adapter.addToPlaylist(data);
+};
+
+ControllerPlex.prototype.removeFromPlaylist = function (data) {
+  if (!this.adapter) {
+    return libQ.reject(new Error('Plex plugin not initialized'));
+  }
+  return this.adapter.removeFromPlaylist(data);
+};
+
+ControllerPlex.prototype.saveQueueToPlaylist = function (data) {
+  if (!this.adapter) {
+    return libQ.reject(new Error('Plex plugin not initialized'));
+  }
+  return this.adapter.saveQueueToPlaylist(data);
+};
+
+ControllerPlex.prototype.movePlaylistItem = function (data) {
+  if (!this.adapter) {
+    return libQ.reject(new Error('Plex plugin not initialized'));
+  }
+  return this.adapter.movePlaylistItem(data);
+};
+
+ControllerPlex.prototype.renamePlaylist = function (data) {
+  if (!this.adapter) {
+    return libQ.reject(new Error('Plex plugin not initialized'));
+  }
+  return this.adapter.renamePlaylist(data);
+};
+
+ControllerPlex.prototype.deletePlaylist = function (data) {
+  if (!this.adapter) {
+    return libQ.reject(new Error('Plex plugin not initialized'));
+  }
+  return this.adapter.deletePlaylist(data);
+};
+
+// ── Favourites ──────────────────────────────────────────────────────
+
+ControllerPlex.prototype.addToFavourites = function (data) {
+  if (!this.adapter) {
+    return libQ.reject(new Error('Plex plugin not initialized'));
+  }
+  return this.adapter.addToFavourites(data);
+};
+
+ControllerPlex.prototype.removeFromFavourites = function (data) {
+  if (!this.adapter) {
+    return libQ.reject(new Error('Plex plugin not initialized'));
+  }
+  return this.adapter.removeFromFavourites(data);
+};
+
+// ── Library refresh ─────────────────────────────────────────────────
+
+ControllerPlex.prototype.refreshLibrary = function () {
+  if (!this.adapter) {
+    return libQ.reject(new Error('Plex plugin not initialized'));
+  }
+  this.adapter.refreshLibrary();
+  this.commandRouter.pushToastMessage('success', 'Plex', 'Library cache cleared');
+  return libQ.resolve();
+};
+
+// ── Lyrics ──────────────────────────────────────────────────────────
+
+ControllerPlex.prototype.getLyrics = function () {
+  if (!this.adapter) {
+    return libQ.reject(new Error('Plex plugin not initialized'));
+  }
+  return this.adapter.getLyrics();
+};
+
 // ── Plex Login ──────────────────────────────────────────────────────
 
 ControllerPlex.prototype._getPlexClientId = function () {
@@ -432,6 +610,7 @@ ControllerPlex.prototype.startPlexLogin = function () {
           clientId: clientId,
           authUrl: authUrl,
           servers: [],
+          discovered: [],
         };
 
         self.logger.info('[Plex] PIN created: ' + pin.code);
@@ -468,7 +647,7 @@ ControllerPlex.prototype.checkPlexLogin = function () {
         }
 
         var resourceHeaders = Object.assign({}, headers, { 'X-Plex-Token': pin.authToken });
-        return plexTvRequest('GET', '/api/v2/resources?includeHttps=1&includeRelay=0&includeIPv6=0', resourceHeaders)
+        return plexTvRequest('GET', '/api/v2/resources?includeHttps=1&includeRelay=1&includeIPv6=0', resourceHeaders)
           .then(function (resources) {
             var servers = resources.filter(function (r) {
               return r.provides && r.provides.indexOf('server') >= 0;
@@ -515,12 +694,25 @@ ControllerPlex.prototype.checkPlexLogin = function () {
               return connSortScore(a.host) - connSortScore(b.host);
             });
 
-            // 3. Deduplicate: keep only the first (best) connection per
-            //    (server × local/remote × protocol) group.
+            // 3. Keep every distinct address per server as a failover candidate,
+            //    so the plugin can move between local, remote and relay addresses.
+            var failoverCandidates = Object.create(null);
+            candidates.forEach(function (item) {
+              var list = failoverCandidates[item.s.clientIdentifier] = failoverCandidates[item.s.clientIdentifier] || [];
+              var duplicate = list.some(function (other) {
+                return other.host === item.host && other.port === item.port && other.https === (item.protocol === 'https');
+              });
+              if (!duplicate) {
+                list.push({ host: item.host, port: item.port, https: item.protocol === 'https', kind: connectionKind(item.c) });
+              }
+            });
+
+            // 4. Deduplicate: keep only the first (best) connection per
+            //    (server × local/remote/relay × protocol) group.
             var seen = Object.create(null);
             var connectionOptions = [];
             candidates.forEach(function (item) {
-              var scope = item.c.local ? 'local' : 'remote';
+              var scope = connectionKind(item.c);
               var key = item.s.clientIdentifier + '|' + scope + '|' + item.protocol;
               if (seen[key]) return;
               seen[key] = true;
@@ -544,10 +736,22 @@ ControllerPlex.prototype.checkPlexLogin = function () {
             }
 
             state.authToken = pin.authToken;
+            self.config.set('accountToken', pin.authToken);
             state.servers = servers;
+            state.failoverCandidates = failoverCandidates;
             state.connectionOptions = connectionOptions;
             self.commandRouter.pushToastMessage('success', 'Plex', 'Found ' + connectionOptions.length + ' connection(s) — select one and click Apply Server');
             self._refreshUI();
+
+            // Home users are listed too, so a profile can be picked right after login.
+            return plexTvRequest('GET', '/api/v2/home/users', self._plexTvHeaders(pin.authToken))
+              .then(function (home) {
+                self._plexHomeUsers = (home && home.users) || [];
+                self._refreshUI();
+              })
+              .catch(function (err) {
+                self.logger.warn('[Plex] Could not list Home users: ' + err.message);
+              });
           });
       })
       .catch(function (err) {
@@ -557,12 +761,49 @@ ControllerPlex.prototype.checkPlexLogin = function () {
   );
 };
 
+// Finds Plex Media Servers on the local network over GDM, without plex.tv.
+// Their LAN addresses are offered in the server select next to any from login.
+ControllerPlex.prototype.discoverPlexServers = function () {
+  var self = this;
+  var discoverServers = require('./dist/index.js').discoverServers;
+
+  self.logger.info('[Plex] Searching the local network for Plex servers');
+
+  return libQ.resolve(
+    discoverServers()
+      .then(function (found) {
+        if (found.length === 0) {
+          self.commandRouter.pushToastMessage('warning', 'Plex', 'No Plex Media Servers answered on this network');
+          return;
+        }
+
+        var state = self._plexLoginState = self._plexLoginState || { servers: [], connectionOptions: [] };
+        state.discovered = found;
+        var known = Object.create(null);
+        (state.connectionOptions || []).forEach(function (option) { known[option.value] = true; });
+        var discoveredOptions = found.map(function (s) {
+          var label = s.name + ' \u2014 LAN HTTP (' + s.host + ':' + s.port + ')';
+          var value = [s.machineIdentifier, s.host, String(s.port), 'http'].join('|');
+          return { value: value, label: label };
+        }).filter(function (option) { return !known[option.value]; });
+        state.connectionOptions = (state.connectionOptions || []).concat(discoveredOptions);
+
+        self.commandRouter.pushToastMessage('success', 'Plex', 'Found ' + found.length + ' server(s) on this network — select one and click Apply Server');
+        self._refreshUI();
+      })
+      .catch(function (err) {
+        self.logger.error('[Plex] discoverPlexServers failed: ' + err);
+        self.commandRouter.pushToastMessage('error', 'Plex', 'Server search failed: ' + err.message);
+      })
+  );
+};
+
 ControllerPlex.prototype.applyPlexServer = function (data) {
   var self = this;
   var state = self._plexLoginState;
 
-  if (!state || !state.servers || state.servers.length === 0) {
-    self.commandRouter.pushToastMessage('warning', 'Plex', 'No servers available — complete login first');
+  if (!state || ((!state.servers || state.servers.length === 0) && (!state.discovered || state.discovered.length === 0))) {
+    self.commandRouter.pushToastMessage('warning', 'Plex', 'No servers available — complete login or find local servers first');
     return libQ.resolve();
   }
 
@@ -581,16 +822,90 @@ ControllerPlex.prototype.applyPlexServer = function (data) {
     return libQ.resolve();
   }
 
-  var server = state.servers.find(function (s) { return s.clientIdentifier === serverId; })
-    || state.servers[0];
+  var additional = (data.plexServerAdditional && data.plexServerAdditional.value !== undefined)
+    ? data.plexServerAdditional.value
+    : data.plexServerAdditional;
 
-  var token = server.accessToken || state.authToken;
-  var useHttps = proto === 'https';
+  var server = (state.servers || []).find(function (s) { return s.clientIdentifier === serverId; });
+  if (!server) {
+    var discovered = (state.discovered || []).find(function (s) { return s.machineIdentifier === serverId; });
+    if (discovered) return self._applyDiscoveredServer(discovered, host, port, additional);
+    server = (state.servers || [])[0];
+  }
+  if (!server) {
+    self.commandRouter.pushToastMessage('warning', 'Plex', 'Select a server from the list first');
+    return libQ.resolve();
+  }
+
+  // Server tokens from the login belong to the account owner, not a Home user.
+  self.config.set('homeUserId', '');
+  self.config.set('homeUser', '');
+  var known = (state.failoverCandidates && state.failoverCandidates[server.clientIdentifier]) || [];
+  self._useServer(server.clientIdentifier, server.name, server.accessToken || state.authToken, host, port, proto === 'https', known, additional);
+  return libQ.resolve();
+};
+
+// A server found over GDM but not on the signed-in account. Without a
+// token it is used token-less, provided the server allows that.
+ControllerPlex.prototype._applyDiscoveredServer = function (discovered, host, port, additional) {
+  var self = this;
+  var id = discovered.machineIdentifier;
+  var token = self._plexLoginState.authToken
+    || (self.config.get('serverId') === id ? self.config.get('token') : '')
+    || '';
+
+  if (token) {
+    self._useServer(id, discovered.name, token, host, port, false, [], additional);
+    return libQ.resolve();
+  }
+
+  var PlexApiClient = require('./dist/index.js').PlexApiClient;
+  return libQ.resolve(
+    new PlexApiClient({ host: host, port: port, token: '' }).getLibraries()
+      .then(function () {
+        self._useServer(id, discovered.name, '', host, port, false, [], additional);
+      })
+      .catch(function (err) {
+        if (err && err.name === 'PlexAuthError') {
+          self.commandRouter.pushToastMessage('warning', 'Plex', discovered.name + ' requires sign-in — use Login with Plex or enter a token');
+          return;
+        }
+        self.logger.error('[Plex] Could not reach ' + discovered.name + ': ' + err);
+        self.commandRouter.pushToastMessage('error', 'Plex', 'Could not reach ' + discovered.name + ': ' + err.message);
+      })
+  );
+};
+
+// Make the selected address of a server the default server, or add it as an additional one.
+ControllerPlex.prototype._useServer = function (serverId, name, token, host, port, useHttps, known, additional) {
+  var self = this;
+
+  // The selected address is tried first among those of its kind; the rest are failover candidates.
+  var connections = [{ host: host, port: port, https: useHttps, kind: 'local' }].concat(known.filter(function (c) {
+    return !(c.host === host && c.port === port && c.https === useHttps);
+  }));
+  var selected = known.find(function (c) { return c.host === host && c.port === port && c.https === useHttps; });
+  if (selected) connections[0].kind = selected.kind;
+
+  // An additional server joins the list browsed under plex/s/{machineId};
+  // otherwise the selection replaces the default server.
+  var others = self._getAdditionalServers().filter(function (s) { return s.id !== serverId; });
+  if (additional && serverId !== self.config.get('serverId')) {
+    others.push({ id: serverId, name: name, host: host, port: port, token: token, https: useHttps, connections: connections });
+    self.config.set('servers', JSON.stringify(others));
+    self._reinitAdapter();
+    self.commandRouter.pushToastMessage('success', 'Plex', 'Added ' + name);
+    self._refreshUI();
+    return;
+  }
 
   self.config.set('host', host);
   self.config.set('port', port);
   self.config.set('token', token);
   self.config.set('https', useHttps);
+  self.config.set('serverId', serverId);
+  self.config.set('connections', JSON.stringify(connections));
+  self.config.set('servers', JSON.stringify(others));
 
   var shuffle = self.config.get('shuffle') || false;
   var pageSize = self.config.get('pageSize') || 100;
@@ -600,23 +915,282 @@ ControllerPlex.prototype.applyPlexServer = function (data) {
 
   var scrobble = self.config.get('scrobble') || false;
   self._initAdapter(host, port, token, useHttps, shuffle, pageSize, gaplessPlayback, crossfadeEnabled, crossfadeDuration, scrobble);
-  self.commandRouter.pushToastMessage('success', 'Plex', 'Connected to ' + server.name);
+  self.commandRouter.pushToastMessage('success', 'Plex', 'Connected to ' + name);
   self._refreshUI();
+};
+
+// ── Plex Home ───────────────────────────────────────────────────────
+
+ControllerPlex.prototype.listPlexHomeUsers = function () {
+  var self = this;
+  var accountToken = self.config.get('accountToken');
+  if (!accountToken) {
+    self.commandRouter.pushToastMessage('warning', 'Plex', 'Log in with Plex first to list Home users');
+    return libQ.resolve();
+  }
+
+  return libQ.resolve(
+    plexTvRequest('GET', '/api/v2/home/users', self._plexTvHeaders(accountToken))
+      .then(function (home) {
+        self._plexHomeUsers = (home && home.users) || [];
+        if (self._plexHomeUsers.length === 0) {
+          self.commandRouter.pushToastMessage('info', 'Plex', 'This Plex account has no Home users');
+          return;
+        }
+        self.commandRouter.pushToastMessage('success', 'Plex', 'Found ' + self._plexHomeUsers.length + ' Home user(s) — select one and click Switch User');
+        self._refreshUI();
+      })
+      .catch(function (err) {
+        self.logger.error('[Plex] listPlexHomeUsers failed: ' + err);
+        self.commandRouter.pushToastMessage('error', 'Plex', 'Could not list Home users: ' + err.message);
+      })
+  );
+};
+
+// Switching gets the user's plex.tv token, then that user's access token for
+// each configured server, so ratings, history and scrobbles go to them.
+ControllerPlex.prototype.switchPlexHomeUser = function (data) {
+  var self = this;
+  var accountToken = self.config.get('accountToken');
+  var serverId = self.config.get('serverId');
+  if (!accountToken || !serverId) {
+    self.commandRouter.pushToastMessage('warning', 'Plex', 'Log in with Plex and apply a server first');
+    return libQ.resolve();
+  }
+
+  var userId = (data.plexHomeUser && data.plexHomeUser.value !== undefined) ? data.plexHomeUser.value : data.plexHomeUser;
+  var pin = (data.plexHomePin && data.plexHomePin.value !== undefined) ? data.plexHomePin.value : data.plexHomePin;
+  var user = (self._plexHomeUsers || []).find(function (u) { return u.uuid === userId; });
+  if (!user) {
+    self.commandRouter.pushToastMessage('error', 'Plex', 'No user selected — click Load Home Users first');
+    return libQ.resolve();
+  }
+
+  var switchPath = '/api/v2/home/users/' + encodeURIComponent(user.uuid) + '/switch'
+    + (pin ? '?pin=' + encodeURIComponent(pin) : '');
+
+  return libQ.resolve(
+    plexTvRequest('POST', switchPath, self._plexTvHeaders(accountToken))
+      .then(function (switched) {
+        return plexTvRequest('GET', '/api/v2/resources?includeHttps=1&includeRelay=1&includeIPv6=0', self._plexTvHeaders(switched.authToken));
+      })
+      .then(function (resources) {
+        var tokens = Object.create(null);
+        resources.forEach(function (r) {
+          if (r.provides && r.provides.indexOf('server') >= 0 && r.accessToken) tokens[r.clientIdentifier] = r.accessToken;
+        });
+        if (!tokens[serverId]) {
+          self.commandRouter.pushToastMessage('error', 'Plex', user.title + ' has no access to this Plex server');
+          return;
+        }
+
+        // Additional servers the user can't reach are dropped rather than left on the previous user's token.
+        var others = self._getAdditionalServers().filter(function (s) {
+          if (tokens[s.id]) return true;
+          self.logger.warn('[Plex] Removing ' + s.name + ': ' + user.title + ' has no access to it');
+          return false;
+        }).map(function (s) {
+          return Object.assign({}, s, { token: tokens[s.id] });
+        });
+
+        self.config.set('token', tokens[serverId]);
+        self.config.set('servers', JSON.stringify(others));
+        self.config.set('homeUserId', user.uuid);
+        self.config.set('homeUser', user.title);
+        self._reinitAdapter();
+        // Cached responses (On Deck, ratings, history) belong to the previous user.
+        if (self.adapter) self.adapter.refreshLibrary();
+        self.commandRouter.pushToastMessage('success', 'Plex', 'Now listening as ' + user.title);
+        self._refreshUI();
+      })
+      .catch(function (err) {
+        self.logger.error('[Plex] switchPlexHomeUser failed: ' + err);
+        if (err.statusCode === 401 || err.statusCode === 403) {
+          self.commandRouter.pushToastMessage('error', 'Plex', 'Wrong or missing PIN for ' + user.title);
+          return;
+        }
+        self.commandRouter.pushToastMessage('error', 'Plex', 'Could not switch user: ' + err.message);
+      })
+  );
+};
+
+ControllerPlex.prototype._plexTvHeaders = function (token) {
+  return {
+    'X-Plex-Client-Identifier': this._getPlexClientId(),
+    'X-Plex-Product': 'Volumio Plex Plugin',
+    'X-Plex-Token': token,
+  };
+};
+
+ControllerPlex.prototype.clearPlexServers = function () {
+  this.config.set('servers', '[]');
+  this._reinitAdapter();
+  this.commandRouter.pushToastMessage('success', 'Plex', 'Additional servers removed');
   return libQ.resolve();
 };
 
 // ── Internal ────────────────────────────────────────────────────────
 
+// Additional servers are stored as a JSON list of { id, name, host, port, token, https, connections }.
+ControllerPlex.prototype._getAdditionalServers = function () {
+  try {
+    var servers = JSON.parse(this.config.get('servers') || '[]');
+    return Array.isArray(servers) ? servers : [];
+  } catch (e) {
+    this.logger.error('[Plex] Ignoring malformed servers config: ' + e);
+    return [];
+  }
+};
+
+// Connection candidates of the default server: a JSON list of { host, port, https, kind }.
+ControllerPlex.prototype._getConnectionCandidates = function () {
+  try {
+    var connections = JSON.parse(this.config.get('connections') || '[]');
+    return Array.isArray(connections) ? connections : [];
+  } catch (e) {
+    this.logger.error('[Plex] Ignoring malformed connections config: ' + e);
+    return [];
+  }
+};
+
+// A server refused its token: explain why browsing stopped working and start
+// a new plex.tv login. Each refused token restarts the login only once.
+ControllerPlex.prototype._handleAuthError = function (serverId) {
+  var server = serverId === null ? null : this._getAdditionalServers().find(function (s) { return s.id === serverId; });
+  var name = server ? server.name : 'Your Plex server';
+  var refused = (serverId || '') + '|' + (server ? server.token : this.config.get('token'));
+  if (this._refusedToken === refused) return;
+  this._refusedToken = refused;
+
+  this.logger.warn('[Plex] ' + name + ' refused the saved token, starting a new Plex login');
+  this.commandRouter.pushToastMessage('warning', 'Plex', name + ' no longer accepts the saved sign-in. A new Plex login has started — finish it in the plugin settings.');
+  this.startPlexLogin();
+};
+
+ControllerPlex.prototype._reinitAdapter = function () {
+  this._initAdapter(
+    this.config.get('host') || '',
+    this.config.get('port') || 32400,
+    this.config.get('token') || '',
+    this.config.get('https') || false,
+    this.config.get('shuffle') || false,
+    this.config.get('pageSize') || 100,
+    this.config.get('gaplessPlayback') !== false,
+    this.config.get('crossfadeEnabled') || false,
+    this.config.get('crossfadeDuration') || 5,
+    this.config.get('scrobble') || false
+  );
+};
+
 ControllerPlex.prototype._initAdapter = function (host, port, token, https, shuffle, pageSize, gaplessPlayback, crossfadeEnabled, crossfadeDuration, scrobble) {
   var compiled = require('./dist/index.js');
   var VolumioAdapter = compiled.VolumioAdapter;
   var PlexApiClient = compiled.PlexApiClient;
   var PlexService = compiled.PlexService;
+  var ConnectionManager = compiled.ConnectionManager;
+  var ResponseCache = compiled.ResponseCache;
+  var DiskCacheStore = compiled.DiskCacheStore;
+  var PlexNotificationClient = compiled.PlexNotificationClient;
+  var PlexCompanionServer = compiled.PlexCompanionServer;
+  var GdmAdvertiser = compiled.GdmAdvertiser;
+  var TokenMonitor = compiled.TokenMonitor;
+  var self = this;
+
+  // Each server gets its own response cache; with diskCache on, it is kept under <config dir>/cache/<server>.
+  var diskCache = this.config.get('diskCache') || false;
+  var configFile = this.commandRouter.pluginManager.getConfigurationFile(this.context, 'config.json');
+  var cacheRoot = path.join(path.dirname(configFile), 'cache');
+  function responseCacheFor(key) {
+    var store = diskCache ? new DiskCacheStore(path.join(cacheRoot, String(key).replace(/[^\w.-]/g, '_'))) : undefined;
+    return new ResponseCache({ store: store });
+  }
+
+  // Connection managers and notification clients run while the plugin is started.
+  this._backgroundTasks.forEach(function (task) { task.stop(); });
+  this._backgroundTasks = [];
+  function addBackgroundTask(task) {
+    self._backgroundTasks.push(task);
+    if (self._started) task.start();
+    return task;
+  }
+
+  // A server with known connection candidates gets a manager that fails over between them.
+  function connectionManagerFor(name, serverToken, candidates) {
+    if (!candidates || candidates.length === 0) return undefined;
+    var manager = new ConnectionManager({
+      token: serverToken,
+      candidates: candidates,
+      onChange: function (c) {
+        self.logger.info('[Plex] ' + name + ': now connected via ' + c.kind + ' address ' + c.host + ':' + c.port);
+      },
+    });
+    return addBackgroundTask(manager);
+  }
+
+  // Library changes pushed by the server refresh the affected browse views and cache entries.
+  function subscribeToNotifications(serverId, name, serverConnection, serverConnections) {
+    if (!serverConnection.host) return;
+    addBackgroundTask(new PlexNotificationClient(Object.assign({}, serverConnection, {
+      connections: serverConnections,
+      onNotification: function (notification) {
+        if (self.adapter) self.adapter.handleNotification(serverId, notification);
+      },
+      onError: function (err) {
+        self.logger.warn('[Plex] ' + name + ': notifications disconnected, reconnecting: ' + err.message);
+      },
+    })));
+  }
+
+  // The token is checked when the plugin starts and periodically after that, so a revoked one is caught early.
+  function monitorToken(serverId, service, serverConnection) {
+    if (!serverConnection.host) return;
+    addBackgroundTask(new TokenMonitor({
+      check: function () { return service.checkToken(); },
+      onInvalid: function () { self._handleAuthError(serverId); },
+    }));
+  }
 
   var systemName = (this.commandRouter.sharedVars && this.commandRouter.sharedVars.get('system.name')) || 'Volumio';
   var connection = { host: host, port: port, token: token, https: !!https, deviceName: systemName };
-  var apiClient = new PlexApiClient(connection);
-  var plexService = new PlexService(apiClient, connection);
+  var connections = connectionManagerFor('Plex server', token, this._getConnectionCandidates());
+  var apiClient = new PlexApiClient(Object.assign({}, connection, {
+    connections: connections,
+    cache: responseCacheFor(this.config.get('serverId') || host),
+  }));
+  // "quality" and "smallest" are preferences of their own; anything else names a codec.
+  var preferredVersion = this.config.get('preferredVersion') || 'quality';
+  var versionPreference = preferredVersion === 'quality' || preferredVersion === 'smallest'
+    ? { prefer: preferredVersion }
+    : { prefer: 'codec', codec: preferredVersion };
+
+  // Library kinds are lists of library names (or section keys) separated by commas.
+  var libraryNames = function (key) {
+    return String(self.config.get(key) || '').split(',')
+      .map(function (name) { return name.trim(); })
+      .filter(function (name) { return name.length > 0; });
+  };
+  var libraryKinds = { audiobooks: libraryNames('audiobookLibraries'), podcasts: libraryNames('podcastLibraries') };
+
+  var plexService = new PlexService(apiClient, connection, connections);
+  plexService.setVersionPreference(versionPreference);
+  plexService.setLibraryKinds(libraryKinds);
+  subscribeToNotifications(null, 'Plex server', connection, connections);
+  monitorToken(null, plexService, connection);
+
+  var servers = this._getAdditionalServers().map(function (s) {
+    var serverConnection = { host: s.host, port: Number(s.port) || 32400, token: s.token, https: !!s.https, deviceName: systemName };
+    var serverConnections = connectionManagerFor(s.name, s.token, s.connections);
+    var serverClient = new PlexApiClient(Object.assign({}, serverConnection, {
+      connections: serverConnections,
+      cache: responseCacheFor(s.id),
+    }));
+    subscribeToNotifications(s.id, s.name, serverConnection, serverConnections);
+    var serverService = new PlexService(serverClient, serverConnection, serverConnections);
+    serverService.setVersionPreference(versionPreference);
+    serverService.setLibraryKinds(libraryKinds);
+    monitorToken(s.id, serverService, serverConnection);
+    return { id: s.id, name: s.name, service: serverService, apiClient: serverClient };
+  });
 
   if (!this.adapter) {
     this.adapter = new VolumioAdapter(this.context, libQ);
@@ -627,9 +1201,57 @@ ControllerPlex.prototype._initAdapter = function (host, port, token, https, shuf
     gaplessPlayback: gaplessPlayback !== false,
     crossfadeEnabled: !!crossfadeEnabled,
     crossfadeDuration: Number(crossfadeDuration) || 5,
+    streaming: {
+      mode: this.config.get('streamingMode') || 'direct',
+      format: this.config.get('transcodeFormat') || 'mp3',
+      maxBitrateKbps: Number(this.config.get('transcodeBitrate')) || 320,
+    },
+    normalization: this.config.get('normalization') || 'off',
+    resume: {
+      mode: this.config.get('resumeMode') || 'long',
+      minMinutes: Number(this.config.get('resumeMinMinutes')) || 20,
+    },
+    chapterSkip: !!this.config.get('chapterSkip'),
     scrobble: !!scrobble,
     apiClient: apiClient,
+    servers: servers,
   });
+  this.adapter.onAuthError(function (serverId) { self._handleAuthError(serverId); });
+
+  // Plex apps can pick this device as a player (Plex Companion), found on the LAN through GDM.
+  if (this.config.get('companion') === true) {
+    var clientId = this._getPlexClientId();
+    var companionPort = Number(this.config.get('companionPort')) || 32500;
+    // Plex Web served by one of the servers, at any of their addresses, may control the player from a browser.
+    var serverHosts = [host];
+    this._getConnectionCandidates().forEach(function (c) { serverHosts.push(c.host); });
+    this._getAdditionalServers().forEach(function (s) {
+      serverHosts.push(s.host);
+      (s.connections || []).forEach(function (c) { serverHosts.push(c.host); });
+    });
+    serverHosts = serverHosts.filter(function (h) { return typeof h === 'string' && h.length > 0; });
+    var companion = addBackgroundTask(new PlexCompanionServer({
+      clientIdentifier: clientId,
+      deviceName: systemName,
+      player: this.adapter.companionPlayer(),
+      port: companionPort,
+      serverHosts: serverHosts,
+      onError: function (err) {
+        self.logger.warn('[Plex] Companion: ' + err.message);
+      },
+    }));
+    addBackgroundTask(new GdmAdvertiser({
+      clientIdentifier: clientId,
+      deviceName: systemName,
+      port: companionPort,
+      onError: function (err) {
+        self.logger.warn('[Plex] GDM advertisement stopped: ' + err.message);
+      },
+    }));
+    this.adapter.onPlaybackStateChange(function () { companion.notifyTimelineChanged(); });
+  } else {
+    this.adapter.onPlaybackStateChange(null);
+  }
 
   if (this._started) {
     this.adapter.onStart();
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { HI_RES_TIERS, qualityBadge } from "./audio-quality.js";
+import type { Track } from "../types/index.js";
+
+function track(format: Pick<Track, "trackType" | "samplerate" | "bitdepth">): Track {
+  return {
+    id: "1",
+    title: "Track",
+    artist: "Artist",
+    album: "Album",
+    duration: 1000,
+    artworkUrl: null,
+    streamKey: "/library/parts/1/file",
+    userRating: null,
+    viewOffset: null,
+    chapters: [],
+    lyricsStream: null,
+    loudness: null,
+    versions: [],
+    ...format,
+  };
+}
+
+describe("qualityBadge", () => {
+  it("shows bit depth over sample rate for 24-bit tracks", () => {
+    expect(qualityBadge(track({ trackType: "flac", samplerate: "96 kHz", bitdepth: "24 bit" }))).toBe("24/96");
+    expect(qualityBadge(track({ trackType: "flac", samplerate: "44.1 kHz", bitdepth: "24 bit" }))).toBe("24/44.1");
+  });
+
+  it("shows DSD for DSD streams whatever their bit depth", () => {
+    expect(qualityBadge(track({ trackType: "dsd_lsbf", samplerate: "2822.4 kHz", bitdepth: "1 bit" }))).toBe("DSD");
+  });
+
+  it("shows only the bit depth when the sample rate is unknown", () => {
+    expect(qualityBadge(track({ trackType: "flac", samplerate: null, bitdepth: "32 bit" }))).toBe("32-bit");
+  });
+
+  it("has no badge for CD quality, lossy or unknown formats", () => {
+    expect(qualityBadge(track({ trackType: "flac", samplerate: "44.1 kHz", bitdepth: "16 bit" }))).toBeNull();
+    expect(qualityBadge(track({ trackType: "mp3", samplerate: "44.1 kHz", bitdepth: null }))).toBeNull();
+    expect(qualityBadge(track({ trackType: null, samplerate: null, bitdepth: null }))).toBeNull();
+  });
+});
+
+describe("HI_RES_TIERS", () => {
+  it("lists tiers best first with unique ids", () => {
+    expect(HI_RES_TIERS.map((tier) => tier.id)).toEqual(["dsd", "24-192", "24-96", "24-48"]);
+  });
+
+  it("selects PCM tiers by bit depth and non-overlapping sample rate ranges", () => {
+    const [, ultra, high, standard] = HI_RES_TIERS;
+    expect(ultra!.filters).toContainEqual({ field: "samplingRate", operator: ">=", value: "176400" });
+    expect(high!.filters).toEqual([
+      { field: "bitDepth", operator: ">=", value: "24" },
+      { field: "samplingRate", operator: ">=", value: "88200" },
+      { field: "samplingRate", operator: "<", value: "176400" },
+      { field: "bitrate", operator: ">=", value: "600" },
+    ]);
+    expect(standard!.filters).toContainEqual({ field: "samplingRate", operator: "<", value: "88200" });
+  });
+
+  it("keeps lossy files out of the PCM tiers with a bitrate floor", () => {
+    for (const tier of HI_RES_TIERS.slice(1)) {
+      expect(tier.filters).toContainEqual({ field: "bitrate", operator: ">=", value: "600" });
+    }
+  });
+});
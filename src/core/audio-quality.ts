@@ -0,0 +1,96 @@
+/**
+ * Audio Quality — pure functions that classify tracks into hi-res quality
+ * tiers from their stream metadata, and the Plex filters that select each
+ * tier on the server.
+ *
+ * No network calls or side effects.
+ */
+
+import type { LibraryFilter, Track } from "../types/index.js";
+
+/** A hi-res quality tier and the server-side filters that select it. */
+export interface QualityTier {
+  /** Stable id used in browse URIs (e.g. "24-96") */
+  id: string;
+  /** Display name of the tier */
+  label: string;
+  /** Short badge for albums in the tier (e.g. "24/88.2–96") */
+  badge: string;
+  /** Conditions on the track's media (codec, bit depth, sample rate in Hz, bitrate in kbps) */
+  filters: LibraryFilter[];
+}
+
+/**
+ * Bitrate floor (kbps) of the PCM tiers: above any lossy encoding, so lossy
+ * files that report a high bit depth or sample rate aren't listed as hi-res.
+ */
+const LOSSLESS_FLOOR: LibraryFilter = { field: "bitrate", operator: ">=", value: "600" };
+
+/**
+ * Hi-res tiers, best first. Plex reports DSD as "dsd_lsbf"/"dsd_msbf", and
+ * `=` on a text field matches a substring, so one condition covers both.
+ */
+export const HI_RES_TIERS: readonly QualityTier[] = [
+  {
+    id: "dsd",
+    label: "DSD",
+    badge: "DSD",
+    filters: [{ field: "audioCodec", operator: "=", value: "dsd" }],
+  },
+  {
+    id: "24-192",
+    label: "24-bit / 176.4 kHz and up",
+    badge: "24/176.4+",
+    filters: [
+      { field: "bitDepth", operator: ">=", value: "24" },
+      { field: "samplingRate", operator: ">=", value: "176400" },
+      LOSSLESS_FLOOR,
+    ],
+  },
+  {
+    id: "24-96",
+    label: "24-bit / 88.2–96 kHz",
+    badge: "24/88.2–96",
+    filters: [
+      { field: "bitDepth", operator: ">=", value: "24" },
+      { field: "samplingRate", operator: ">=", value: "88200" },
+      { field: "samplingRate", operator: "<", value: "176400" },
+      LOSSLESS_FLOOR,
+    ],
+  },
+  {
+    id: "24-48",
+    label: "24-bit / 44.1–48 kHz",
+    badge: "24/44.1–48",
+    filters: [
+      { field: "bitDepth", operator: ">=", value: "24" },
+      { field: "samplingRate", operator: "<", value: "88200" },
+      LOSSLESS_FLOOR,
+    ],
+  },
+];
+
+/**
+ * A short badge for hi-res tracks — "DSD", or bit depth over sample rate
+ * such as "24/96" — or null when the track isn't hi-res.
+ */
+export function qualityBadge(track: Track): string | null {
+  if (isDsd(track)) return "DSD";
+  const { bits, kHz } = streamFormat(track);
+  if (bits === null || bits < 24) return null;
+  return kHz === null ? `${bits}-bit` : `${bits}/${kHz}`;
+}
+
+function isDsd(track: Track): boolean {
+  return track.trackType?.toLowerCase().startsWith("dsd") ?? false;
+}
+
+/** Read back the numbers from the parser's display strings ("24 bit", "96 kHz"). */
+function streamFormat(track: Track): { bits: number | null; kHz: number | null } {
+  const bits = track.bitdepth ? parseInt(track.bitdepth, 10) : NaN;
+  const kHz = track.samplerate ? parseFloat(track.samplerate) : NaN;
+  return {
+    bits: Number.isFinite(bits) ? bits : null,
+    kHz: Number.isFinite(kHz) ? kHz : null,
+  };
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { nextChapterStart, previousChapterStart } from "./chapters.js";
+import type { Chapter } from "../types/index.js";
+
+const MINUTE = 60_000;
+
+const chapters: Chapter[] = [
+  { title: "Chapter 1", startMs: 0, endMs: 10 * MINUTE },
+  { title: "Chapter 2", startMs: 10 * MINUTE, endMs: 25 * MINUTE },
+  { title: "Chapter 3", startMs: 25 * MINUTE, endMs: 40 * MINUTE },
+];
+
+describe("nextChapterStart", () => {
+  it("returns the start of the following chapter", () => {
+    expect(nextChapterStart(chapters, 0)).toBe(10 * MINUTE);
+    expect(nextChapterStart(chapters, 12 * MINUTE)).toBe(25 * MINUTE);
+  });
+
+  it("returns null in the last chapter or without chapters", () => {
+    expect(nextChapterStart(chapters, 30 * MINUTE)).toBeNull();
+    expect(nextChapterStart([], 0)).toBeNull();
+  });
+});
+
+describe("previousChapterStart", () => {
+  it("restarts the current chapter when a few seconds into it", () => {
+    expect(previousChapterStart(chapters, 12 * MINUTE)).toBe(10 * MINUTE);
+  });
+
+  it("goes to the chapter before in the opening seconds of a chapter", () => {
+    expect(previousChapterStart(chapters, 10 * MINUTE + 2_000)).toBe(0);
+  });
+
+  it("returns null in the opening seconds of the first chapter or without chapters", () => {
+    expect(previousChapterStart(chapters, 1_000)).toBeNull();
+    expect(previousChapterStart([], 5 * MINUTE)).toBeNull();
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Chapters — pure functions that find where to seek when skipping by
+ * chapter within a long track instead of to the next or previous track.
+ *
+ * No network calls or side effects.
+ */
+
+import type { Chapter } from "../types/index.js";
+
+/** Skipping back this far into a chapter restarts it instead of going to the one before. */
+const RESTART_THRESHOLD_MS = 3_000;
+
+/** Start of the chapter after the one playing at `positionMs`, or null in the last chapter. */
+export function nextChapterStart(chapters: Chapter[], positionMs: number): number | null {
+  return chapters.find((chapter) => chapter.startMs > positionMs)?.startMs ?? null;
+}
+
+/**
+ * Where skipping back from `positionMs` goes: the start of the current
+ * chapter when more than a few seconds into it, otherwise the start of the
+ * chapter before. Null in the opening seconds of the first chapter, so
+ * skipping goes to the previous track.
+ */
+export function previousChapterStart(chapters: Chapter[], positionMs: number): number | null {
+  for (let i = chapters.length - 1; i >= 0; i--) {
+    const start = chapters[i]!.startMs;
+    if (start > positionMs) continue;
+    if (positionMs - start > RESTART_THRESHOLD_MS) return start;
+    return chapters[i - 1]?.startMs ?? null;
+  }
+  return null;
+}
@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_LIBRARY_KINDS, libraryKind } from "./library-kinds.js";
+
+describe("libraryKind", () => {
+  const books = { id: "7", title: "Audiobooks" };
+
+  it("treats every library as music by default", () => {
+    expect(libraryKind(books, DEFAULT_LIBRARY_KINDS)).toBe("music");
+  });
+
+  it("matches marked libraries by title, ignoring case, or by section key", () => {
+    expect(libraryKind(books, { audiobooks: ["audiobooks"], podcasts: [] })).toBe("audiobooks");
+    expect(libraryKind(books, { audiobooks: [], podcasts: ["7"] })).toBe("podcasts");
+    expect(libraryKind(books, { audiobooks: ["Audio"], podcasts: [] })).toBe("music");
+  });
+
+  it("prefers audiobooks when a library is marked as both", () => {
+    expect(libraryKind(books, { audiobooks: ["7"], podcasts: ["Audiobooks"] })).toBe("audiobooks");
+  });
+});
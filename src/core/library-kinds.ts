@@ -0,0 +1,27 @@
+/**
+ * Library Kinds — pure functions that tell music libraries from the
+ * audiobook and podcast libraries marked in settings. Plex keeps all of
+ * them as music ("artist") sections, so the user's marks are all we go by.
+ *
+ * No network calls or side effects.
+ */
+
+import type { Library, LibraryKind } from "../types/index.js";
+
+/** Libraries marked as audiobooks or podcasts, by title or section key; every other library is music. */
+export interface LibraryKindAssignments {
+  audiobooks: string[];
+  podcasts: string[];
+}
+
+/** The default: every library is music. */
+export const DEFAULT_LIBRARY_KINDS: LibraryKindAssignments = { audiobooks: [], podcasts: [] };
+
+/** The kind of a library. Titles match case-insensitively; a library marked as both is an audiobook library. */
+export function libraryKind(library: Pick<Library, "id" | "title">, assignments: LibraryKindAssignments): LibraryKind {
+  const matches = (names: string[]) =>
+    names.some((name) => name === library.id || name.toLowerCase() === library.title.toLowerCase());
+  if (matches(assignments.audiobooks)) return "audiobooks";
+  if (matches(assignments.podcasts)) return "podcasts";
+  return "music";
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { selectVersion, splitParts, withVersion } from "./media-versions.js";
+import type { MediaVersion, Track } from "../types/index.js";
+
+function version(overrides: Partial<MediaVersion>): MediaVersion {
+  return {
+    codec: "flac",
+    container: "flac",
+    bitrate: 1000,
+    samplingRate: 44100,
+    bitDepth: 16,
+    channels: 2,
+    loudness: null,
+    parts: [{ key: "/library/parts/1/file", duration: null }],
+    ...overrides,
+  };
+}
+
+const mp3 = version({ codec: "mp3", container: "mp3", bitrate: 320, bitDepth: null, parts: [{ key: "/p/mp3", duration: null }] });
+const cd = version({ parts: [{ key: "/p/cd", duration: null }] });
+const hiRes = version({ bitrate: 3000, samplingRate: 96000, bitDepth: 24, parts: [{ key: "/p/hires", duration: null }] });
+
+const track: Track = {
+  id: "1",
+  title: "Echoes",
+  artist: "Pink Floyd",
+  album: "Meddle",
+  duration: 1_400_000,
+  artworkUrl: null,
+  streamKey: "/p/mp3",
+  trackType: "mp3",
+  samplerate: "44.1 kHz",
+  bitdepth: null,
+  userRating: null,
+  viewOffset: null,
+  chapters: [],
+  lyricsStream: null,
+  loudness: null,
+  versions: [mp3, cd, hiRes],
+};
+
+describe("selectVersion", () => {
+  it("prefers lossless, then bit depth and sample rate, for quality", () => {
+    expect(selectVersion([mp3, cd, hiRes], { prefer: "quality" })).toBe(hiRes);
+    expect(selectVersion([mp3, cd], { prefer: "quality" })).toBe(cd);
+  });
+
+  it("prefers the lowest bitrate for smallest, with unknown bitrates last", () => {
+    expect(selectVersion([hiRes, cd, mp3], { prefer: "smallest" })).toBe(mp3);
+    expect(selectVersion([version({ bitrate: null }), cd], { prefer: "smallest" })).toBe(cd);
+  });
+
+  it("prefers the requested codec, falling back to the best quality", () => {
+    expect(selectVersion([hiRes, mp3], { prefer: "codec", codec: "mp3" })).toBe(mp3);
+    expect(selectVersion([mp3, cd], { prefer: "codec", codec: "aac" })).toBe(cd);
+  });
+
+  it("skips versions without files and keeps Plex's order on ties", () => {
+    const first = version({});
+    expect(selectVersion([version({ parts: [] }), first, version({})], { prefer: "quality" })).toBe(first);
+    expect(selectVersion([], { prefer: "quality" })).toBeNull();
+  });
+});
+
+describe("withVersion", () => {
+  it("points the stream key and quality fields at the version", () => {
+    expect(withVersion(track, hiRes)).toMatchObject({
+      streamKey: "/p/hires",
+      trackType: "flac",
+      samplerate: "96 kHz",
+      bitdepth: "24 bit",
+    });
+  });
+});
+
+describe("splitParts", () => {
+  it("returns single-part tracks unchanged", () => {
+    expect(splitParts(track)).toEqual([track]);
+  });
+
+  it("makes one entry per part of the current version", () => {
+    const sides = version({
+      parts: [
+        { key: "/p/side-a", duration: 600_000 },
+        { key: "/p/side-b", duration: null },
+      ],
+    });
+    const split = splitParts({ ...track, streamKey: "/p/side-a", versions: [sides] });
+
+    expect(split.map((part) => [part.title, part.streamKey, part.duration, part.partOffsetMs])).toEqual([
+      ["Echoes (Part 1 of 2)", "/p/side-a", 600_000, 0],
+      ["Echoes (Part 2 of 2)", "/p/side-b", 700_000, 600_000],
+    ]);
+    expect(split.every((part) => part.wholeDurationMs === 1_400_000)).toBe(true);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Media Versions — pure functions that pick which version of a track to
+ * play when Plex has several (e.g. a FLAC rip and an MP3 copy), and split
+ * multi-part versions into one playable entry per file.
+ *
+ * No network calls or side effects.
+ */
+
+import type { MediaVersion, Track } from "../types/index.js";
+
+/**
+ * Which version of a track to play: the best sounding, the smallest, or the
+ * first in a given codec (falling back to the best sounding when none is).
+ */
+export type VersionPreference =
+  | { prefer: "quality" }
+  | { prefer: "smallest" }
+  | { prefer: "codec"; codec: string };
+
+/** The default preference: the best sounding version. */
+export const DEFAULT_VERSION_PREFERENCE: VersionPreference = { prefer: "quality" };
+
+const LOSSLESS_CODECS: ReadonlySet<string> = new Set([
+  "flac", "alac", "pcm", "wav", "aiff", "ape", "wavpack", "dsd_lsbf", "dsd_msbf",
+]);
+
+/** Pick a version by preference. Ties keep Plex's order; null when there are no playable versions. */
+export function selectVersion(versions: MediaVersion[], preference: VersionPreference): MediaVersion | null {
+  const playable = versions.filter((version) => version.parts.length > 0);
+  if (preference.prefer === "codec") {
+    const codec = preference.codec.toLowerCase();
+    const match = playable.find((version) => version.codec?.toLowerCase() === codec);
+    if (match) return match;
+  }
+  const compare = preference.prefer === "smallest" ? compareSize : compareQuality;
+  return playable.reduce<MediaVersion | null>((best, version) => (best && compare(best, version) <= 0 ? best : version), null);
+}
+
+/** Point a track's streamKey and quality fields at one of its versions. */
+export function withVersion(track: Track, version: MediaVersion): Track {
+  return { ...track, ...versionDetails(version) };
+}
+
+/** The Track fields that describe a version: its first file, its format for display and its loudness. */
+export function versionDetails(
+  version: MediaVersion | undefined,
+): Pick<Track, "streamKey" | "trackType" | "samplerate" | "bitdepth" | "loudness"> {
+  return {
+    streamKey: version?.parts[0]?.key ?? "",
+    trackType: version?.codec ?? version?.container ?? null,
+    samplerate: version?.samplingRate != null ? `${version.samplingRate / 1000} kHz` : null,
+    bitdepth: version?.bitDepth != null ? `${version.bitDepth} bit` : null,
+    loudness: version?.loudness ?? null,
+  };
+}
+
+/**
+ * One track per file of the version the track currently points at, titled
+ * "… (Part n of m)", timed by the part's own duration and placed within the
+ * whole track. Tracks with a single file (or whose version is unknown) come
+ * back as they are.
+ */
+export function splitParts(track: Track): Track[] {
+  const version = track.versions.find((v) => v.parts[0]?.key === track.streamKey);
+  if (!version || version.parts.length < 2) return [track];
+  const count = version.parts.length;
+  let offsetMs = 0;
+  return version.parts.map((part, index) => {
+    const duration = part.duration ?? Math.round(track.duration / count);
+    const entry = {
+      ...track,
+      title: `${track.title} (Part ${index + 1} of ${count})`,
+      streamKey: part.key,
+      duration,
+      partOffsetMs: offsetMs,
+      wholeDurationMs: track.duration,
+    };
+    offsetMs += duration;
+    return entry;
+  });
+}
+
+/** Negative when `a` sounds better: lossless first, then bit depth, sample rate and bitrate. */
+function compareQuality(a: MediaVersion, b: MediaVersion): number {
+  return (
+    Number(isLossless(b)) - Number(isLossless(a)) ||
+    (b.bitDepth ?? 0) - (a.bitDepth ?? 0) ||
+    (b.samplingRate ?? 0) - (a.samplingRate ?? 0) ||
+    (b.bitrate ?? 0) - (a.bitrate ?? 0)
+  );
+}
+
+/** Negative when `a` is smaller; versions of unknown bitrate sort last. */
+function compareSize(a: MediaVersion, b: MediaVersion): number {
+  if (a.bitrate === null || b.bitrate === null) return Number(a.bitrate === null) - Number(b.bitrate === null);
+  return a.bitrate - b.bitrate;
+}
+
+function isLossless(version: MediaVersion): boolean {
+  return version.codec !== null && LOSSLESS_CODECS.has(version.codec.toLowerCase());
+}
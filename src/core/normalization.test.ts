@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { isAlbumInOrder, plexGainDb, replayGainMode, volumeOffset } from "./normalization.js";
+
+describe("replayGainMode", () => {
+  it("passes fixed modes through", () => {
+    expect(replayGainMode("off", true)).toBe("off");
+    expect(replayGainMode("track", true)).toBe("track");
+    expect(replayGainMode("album", false)).toBe("album");
+  });
+
+  it("uses album gain in smart mode only for an album played in order", () => {
+    expect(replayGainMode("smart", true)).toBe("album");
+    expect(replayGainMode("smart", false)).toBe("track");
+  });
+});
+
+describe("isAlbumInOrder", () => {
+  const okc = { service: "plex", album: "OK Computer" };
+  const kidA = { service: "plex", album: "Kid A" };
+
+  it("is true when a neighbour in the queue is from the same album", () => {
+    expect(isAlbumInOrder([okc, okc, kidA], 0, false)).toBe(true);
+    expect(isAlbumInOrder([okc, okc, kidA], 1, false)).toBe(true);
+  });
+
+  it("is false for a track between other albums", () => {
+    expect(isAlbumInOrder([okc, kidA, okc], 1, false)).toBe(false);
+    expect(isAlbumInOrder([kidA], 0, false)).toBe(false);
+  });
+
+  it("is false while shuffling", () => {
+    expect(isAlbumInOrder([okc, okc], 0, true)).toBe(false);
+  });
+
+  it("ignores neighbours from other services and entries without an album", () => {
+    expect(isAlbumInOrder([okc, { ...okc, service: "mpd" }], 0, false)).toBe(false);
+    expect(isAlbumInOrder([{ service: "webradio" }, { service: "webradio" }], 0, false)).toBe(false);
+  });
+
+  it("is false past the end of the queue", () => {
+    expect(isAlbumInOrder([okc, okc], 5, false)).toBe(false);
+  });
+});
+
+describe("plexGainDb", () => {
+  const loudness = { gain: -6.5, albumGain: -5.9, peak: 0.5, albumPeak: 0.6 };
+
+  it("uses track gain in track mode and album gain in album mode", () => {
+    expect(plexGainDb("track", loudness)).toBe(-6.5);
+    expect(plexGainDb("album", loudness)).toBe(-5.9);
+  });
+
+  it("falls back to track gain when the album wasn't analysed", () => {
+    expect(plexGainDb("album", { ...loudness, albumGain: null, albumPeak: null })).toBe(-6.5);
+  });
+
+  it("lowers a boost that would clip the peak", () => {
+    expect(plexGainDb("track", { ...loudness, gain: 9, peak: 0.5 })).toBeCloseTo(6.02, 2);
+  });
+
+  it("applies nothing while off", () => {
+    expect(plexGainDb("off", loudness)).toBe(0);
+  });
+});
+
+describe("volumeOffset", () => {
+  it("turns dB into MPD volume steps, about three a dB", () => {
+    expect(volumeOffset(-6.5)).toBe(-19);
+    expect(volumeOffset(0)).toBe(0);
+    expect(volumeOffset(2)).toBe(6);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Normalization — pure functions that pick the replay gain mode MPD plays a
+ * track with, from the user's setting and how the track is being played, and
+ * turn Plex's loudness analysis into a volume offset for files without
+ * ReplayGain tags.
+ *
+ * No network calls or side effects.
+ */
+
+import type { Loudness } from "../types/index.js";
+
+/**
+ * How the user wants loudness evened out: not at all, per track, per album,
+ * or "smart" (per album while an album is played in order, per track otherwise).
+ */
+export type NormalizationMode = "off" | "track" | "album" | "smart";
+
+/** The values of MPD's `replay_gain_mode` that normalization uses. */
+export type ReplayGainMode = "off" | "track" | "album";
+
+/** The fields of a queue entry that tell whether neighbours share an album. */
+export interface QueueEntry {
+  service: string;
+  album?: string | undefined;
+}
+
+/** The replay gain mode for a track, given whether it's part of an album played in order. */
+export function replayGainMode(mode: NormalizationMode, albumInOrder: boolean): ReplayGainMode {
+  if (mode === "smart") return albumInOrder ? "album" : "track";
+  return mode;
+}
+
+/**
+ * Whether the queue entry at `position` is part of an album played in order:
+ * shuffle is off and the entry before or after it is from the same album.
+ * Artists aren't compared, so compilations count as albums too.
+ */
+export function isAlbumInOrder(queue: QueueEntry[], position: number, random: boolean): boolean {
+  const entry = queue[position];
+  if (random || !entry?.album) return false;
+  return [queue[position - 1], queue[position + 1]].some(
+    (neighbour) =>
+      neighbour !== undefined &&
+      neighbour.service === entry.service &&
+      neighbour.album === entry.album,
+  );
+}
+
+/**
+ * The gain in dB Plex's analysis calls for in a replay gain mode: album gain
+ * in album mode when the album was analysed, track gain otherwise, lowered so
+ * the peak doesn't clip. 0 when the mode is off.
+ */
+export function plexGainDb(mode: ReplayGainMode, loudness: Pick<Loudness, "gain" | "albumGain" | "peak" | "albumPeak">): number {
+  if (mode === "off") return 0;
+  const album = mode === "album" && loudness.albumGain !== null;
+  const gain = album ? loudness.albumGain! : loudness.gain;
+  const peak = album ? loudness.albumPeak : loudness.peak;
+  const headroom = peak !== null && peak > 0 ? -20 * Math.log10(peak) : Infinity;
+  return Math.min(gain, headroom);
+}
+
+/**
+ * MPD volume steps per dB near full volume. MPD's software mixer scales by
+ * (e^(v/25) − 1) / (e^4 − 1), which changes by 20·log10(e)/25 ≈ 0.35 dB a step.
+ */
+const VOLUME_STEPS_PER_DB = 25 / (20 * Math.LOG10E);
+
+/** The MPD volume change, in steps, that plays a track `gainDb` louder (negative: quieter). */
+export function volumeOffset(gainDb: number): number {
+  return Math.round(gainDb * VOLUME_STEPS_PER_DB);
+}
@@ -1,10 +1,14 @@
 import { describe, it, expect } from "vitest";
-import { parseLibraries, parseAlbums, parseTracks, parsePlaylists } from "./parser.js";
+import { parseLibraries, parseAlbums, parseTracks, parsePlaylists, parseGenres, parseHubs, parsePlayQueue, parseLyrics, parseNotification } from "./parser.js";
 import type {
   RawLibraryResponse,
   RawAlbumResponse,
   RawTrackResponse,
   RawPlaylistResponse,
+  RawGenreResponse,
+  RawHubResponse,
+  RawPlayQueueResponse,
+  RawNotificationResponse,
 } from "../types/index.js";
 import librariesFixture from "../../test/fixtures/libraries.json";
 import albumsFixture from "../../test/fixtures/albums.json";
@@ -21,11 +25,13 @@ describe("parseLibraries", () => {
       id: "1",
       title: "Music",
       type: "artist",
+      kind: "music",
     });
     expect(result[1]).toEqual({
       id: "3",
       title: "Podcasts",
       type: "artist",
+      kind: "music",
     });
   });
 
@@ -104,6 +110,31 @@ describe("parsePlaylists", () => {
   });
 });
 
+// ── parseGenres ──────────────────────────────────────────────────────
+
+describe("parseGenres", () => {
+  it("parses genre directories and tags them with the library ID", () => {
+    const raw: RawGenreResponse = {
+      MediaContainer: {
+        size: 2,
+        Directory: [
+          { key: "123", title: "Jazz", fastKey: "/library/sections/1/all?genre=123" },
+          { key: "124", title: "Rock" },
+        ],
+      },
+    };
+    expect(parseGenres(raw, "1")).toEqual([
+      { id: "123", title: "Jazz", libraryId: "1" },
+      { id: "124", title: "Rock", libraryId: "1" },
+    ]);
+  });
+
+  it("handles a response without a Directory array", () => {
+    const empty = { MediaContainer: { size: 0 } } as RawGenreResponse;
+    expect(parseGenres(empty, "1")).toEqual([]);
+  });
+});
+
 // ── parseAlbums ──────────────────────────────────────────────────────
 
 describe("parseAlbums", () => {
@@ -117,6 +148,7 @@ describe("parseAlbums", () => {
       year: 1997,
       artworkUrl: "/library/metadata/1001/thumb/1609459200",
       trackListKey: "/library/metadata/1001/children",
+      userRating: 4.5,
     });
   });
 
@@ -124,6 +156,7 @@ describe("parseAlbums", () => {
     const result = parseAlbums(albumsFixture as RawAlbumResponse);
     const unknownAlbum = result[1]!;
     expect(unknownAlbum.year).toBeNull();
+    expect(unknownAlbum.userRating).toBeNull();
     expect(unknownAlbum.artworkUrl).toBeNull();
   });
 
@@ -152,7 +185,154 @@ describe("parseTracks", () => {
       trackType: "flac",
       samplerate: "44.1 kHz",
       bitdepth: "24 bit",
+      userRating: 5,
+      viewOffset: null,
+      chapters: [],
+      lyricsStream: null,
+      loudness: null,
+      versions: [{
+        codec: "flac",
+        container: "flac",
+        bitrate: 1411,
+        samplingRate: 44100,
+        bitDepth: 24,
+        channels: 2,
+        loudness: null,
+        parts: [{ key: "/library/parts/2001/1234567/file.flac", duration: null }],
+      }],
+    });
+  });
+
+  it("parses every media version and its parts, describing the track by the first", () => {
+    const raw = tracksFixture as RawTrackResponse;
+    const track = raw.MediaContainer.Metadata[0]!;
+    const result = parseTracks({
+      MediaContainer: {
+        size: 1,
+        Metadata: [{
+          ...track,
+          Media: [
+            {
+              audioCodec: "mp3",
+              bitrate: 320,
+              audioChannels: 2,
+              Part: [{ key: "/library/parts/1/file.mp3", Stream: [{ streamType: 2, samplingRate: 44100 }] }],
+            },
+            {
+              audioCodec: "flac",
+              bitrate: 2800,
+              Part: [
+                { key: "/library/parts/2/side-a.flac", duration: 1_200_000, Stream: [{ streamType: 2, samplingRate: 96000, bitDepth: 24, channels: 2 }] },
+                { key: "/library/parts/3/side-b.flac", duration: 1_100_000 },
+              ],
+            },
+          ],
+        }],
+      },
+    });
+
+    expect(result[0]!.streamKey).toBe("/library/parts/1/file.mp3");
+    expect(result[0]!.trackType).toBe("mp3");
+    expect(result[0]!.versions).toEqual([
+      {
+        codec: "mp3", container: null, bitrate: 320, samplingRate: 44100, bitDepth: null, channels: 2, loudness: null,
+        parts: [{ key: "/library/parts/1/file.mp3", duration: null }],
+      },
+      {
+        codec: "flac", container: null, bitrate: 2800, samplingRate: 96000, bitDepth: 24, channels: 2, loudness: null,
+        parts: [
+          { key: "/library/parts/2/side-a.flac", duration: 1_200_000 },
+          { key: "/library/parts/3/side-b.flac", duration: 1_100_000 },
+        ],
+      },
+    ]);
+  });
+
+  it("parses Plex's loudness analysis from the audio stream", () => {
+    const raw = tracksFixture as RawTrackResponse;
+    const track = raw.MediaContainer.Metadata[0]!;
+    const result = parseTracks({
+      MediaContainer: {
+        size: 1,
+        Metadata: [{
+          ...track,
+          Media: [{
+            Part: [{
+              key: "/library/parts/2001/file.flac",
+              Stream: [{ streamType: 2, gain: -6.5, albumGain: -5.9, peak: 0.98, albumPeak: 1, loudness: -11.2, lra: 7.1 }],
+            }],
+          }],
+        }],
+      },
+    });
+
+    expect(result[0]!.loudness).toEqual({ gain: -6.5, albumGain: -5.9, peak: 0.98, albumPeak: 1, loudness: -11.2, lra: 7.1 });
+  });
+
+  it("parses where a partially played track was left off", () => {
+    const raw = tracksFixture as RawTrackResponse;
+    const track = raw.MediaContainer.Metadata[0]!;
+    const result = parseTracks({ MediaContainer: { size: 2, Metadata: [{ ...track, viewOffset: 95_000 }, track] } });
+
+    expect(result.map((t) => t.viewOffset)).toEqual([95_000, null]);
+  });
+
+  it("parses chapter markers in playback order, naming untitled chapters", () => {
+    const raw = tracksFixture as RawTrackResponse;
+    const track = raw.MediaContainer.Metadata[0]!;
+    const result = parseTracks({
+      MediaContainer: {
+        size: 1,
+        Metadata: [{
+          ...track,
+          Chapter: [
+            { index: 2, startTimeOffset: 600_000, endTimeOffset: 1_200_000 },
+            { tag: "Opening Credits", index: 1, startTimeOffset: 0, endTimeOffset: 600_000 },
+          ],
+        }],
+      },
     });
+
+    expect(result[0]!.chapters).toEqual([
+      { title: "Opening Credits", startMs: 0, endMs: 600_000 },
+      { title: "Chapter 2", startMs: 600_000, endMs: 1_200_000 },
+    ]);
+  });
+
+  it("references the track's lyrics stream, preferring synced LRC", () => {
+    const raw = tracksFixture as RawTrackResponse;
+    const track = raw.MediaContainer.Metadata[0]!;
+    const result = parseTracks({
+      MediaContainer: {
+        size: 1,
+        Metadata: [{
+          ...track,
+          Media: [{
+            Part: [{
+              key: "/library/parts/2001/file.flac",
+              Stream: [
+                { streamType: 2, samplingRate: 44100, bitDepth: 16 },
+                { streamType: 4, codec: "txt", key: "/library/streams/11" },
+                { streamType: 4, codec: "lrc", key: "/library/streams/12" },
+              ],
+            }],
+          }],
+        }],
+      },
+    });
+    expect(result[0]!.lyricsStream).toEqual({ key: "/library/streams/12", format: "lrc" });
+    expect(result[0]!.samplerate).toBe("44.1 kHz");
+  });
+
+  it("keeps the playlist entry ID of playlist items", () => {
+    const raw = tracksFixture as RawTrackResponse;
+    const result = parseTracks({
+      MediaContainer: {
+        size: 1,
+        Metadata: [{ ...raw.MediaContainer.Metadata[0]!, playlistItemID: 77 }],
+      },
+    });
+    expect(result[0]!.playlistItemId).toBe("77");
   });
 
   it("extracts audio quality fields from Media[0]", () => {
@@ -249,3 +429,220 @@ describe("parseTracks", () => {
     expect(result[0]!.bitdepth).toBeNull();
   });
 });
+
+// ── parseHubs ────────────────────────────────────────────────────────
+
+describe("parseHubs", () => {
+  const hubsResponse: RawHubResponse = {
+    MediaContainer: {
+      size: 3,
+      Hub: [
+        {
+          hubIdentifier: "music.recent.added",
+          title: "Recently Added",
+          type: "album",
+          size: 1,
+          Metadata: [
+            {
+              type: "album",
+              ratingKey: "1001",
+              key: "/library/metadata/1001/children",
+              title: "OK Computer",
+              parentTitle: "Radiohead",
+              year: 1997,
+            },
+          ],
+        },
+        {
+          hubIdentifier: "music.recent.played",
+          title: "Recently Played",
+          type: "track",
+          size: 1,
+          Metadata: [
+            {
+              type: "track",
+              ratingKey: "2001",
+              key: "/library/metadata/2001",
+              title: "Airbag",
+              grandparentTitle: "Radiohead",
+              grandparentKey: "/library/metadata/1000/children",
+              parentTitle: "OK Computer",
+              parentKey: "/library/metadata/1001/children",
+              duration: 282000,
+              Media: [{ Part: [{ key: "/library/parts/2001/file.flac" }] }],
+            },
+          ],
+        },
+        {
+          hubIdentifier: "music.recent.playlists",
+          title: "Recent Playlists",
+          type: "playlist",
+          size: 1,
+          Metadata: [{ type: "playlist", ratingKey: "5001", key: "/playlists/5001/items", title: "Mix" } as never],
+        },
+      ],
+    },
+  };
+
+  it("routes hub items to the parser for their type", () => {
+    const result = parseHubs(hubsResponse);
+    expect(result[0]!.id).toBe("music.recent.added");
+    expect(result[0]!.albums.map((a) => a.title)).toEqual(["OK Computer"]);
+    expect(result[0]!.tracks).toEqual([]);
+    expect(result[1]!.id).toBe("music.recent.played");
+    expect(result[1]!.tracks[0]!.streamKey).toBe("/library/parts/2001/file.flac");
+  });
+
+  it("drops hubs with no album, artist, or track items", () => {
+    const result = parseHubs(hubsResponse);
+    expect(result).toHaveLength(2);
+    expect(result.every((hub) => hub.id !== "music.recent.playlists")).toBe(true);
+  });
+
+  it("handles a response without hubs", () => {
+    expect(parseHubs({ MediaContainer: { size: 0 } })).toEqual([]);
+  });
+});
+
+// ── parsePlayQueue ───────────────────────────────────────────────────
+
+describe("parsePlayQueue", () => {
+  it("parses queue IDs as strings and pairs each track with its item ID", () => {
+    const raw: RawPlayQueueResponse = {
+      MediaContainer: {
+        size: 2,
+        playQueueID: 7001,
+        playQueueSelectedItemID: 9001,
+        playQueueTotalCount: 25,
+        Metadata: (tracksFixture as RawTrackResponse).MediaContainer.Metadata.slice(0, 2).map((track, index) => ({
+          ...track,
+          playQueueItemID: 9001 + index,
+        })),
+      },
+    };
+
+    const queue = parsePlayQueue(raw);
+
+    expect(queue.id).toBe("7001");
+    expect(queue.selectedItemId).toBe("9001");
+    expect(queue.totalCount).toBe(25);
+    expect(queue.items.map((item) => item.itemId)).toEqual(["9001", "9002"]);
+    expect(queue.items[0]!.track.title).toBe("Airbag");
+  });
+
+  it("handles an empty queue without a selected item", () => {
+    const queue = parsePlayQueue({
+      MediaContainer: { size: 0, playQueueID: 7001, playQueueTotalCount: 0 },
+    });
+    expect(queue.selectedItemId).toBeNull();
+    expect(queue.items).toEqual([]);
+  });
+});
+
+// ── parseLyrics ──────────────────────────────────────────────────────
+
+describe("parseLyrics", () => {
+  it("parses LRC timestamps into sorted, timed lines", () => {
+    const lrc = [
+      "[ar:Radiohead]",
+      "[ti:Airbag]",
+      "[00:12.50]In the next world war",
+      "[00:20.1][01:05.123]In a jackknifed juggernaut",
+      "[00:30.00]",
+    ].join("\n");
+
+    const lyrics = parseLyrics(lrc, "lrc");
+
+    expect(lyrics.synced).toBe(true);
+    expect(lyrics.lines).toEqual([
+      { timeMs: 12_500, text: "In the next world war" },
+      { timeMs: 20_100, text: "In a jackknifed juggernaut" },
+      { timeMs: 30_000, text: "" },
+      { timeMs: 65_123, text: "In a jackknifed juggernaut" },
+    ]);
+  });
+
+  it("applies the LRC offset tag", () => {
+    const lyrics = parseLyrics("[offset:+500]\r\n[00:02.00]Hello\r\n[00:00.20]Start", "lrc");
+    expect(lyrics.lines.map((line) => line.timeMs)).toEqual([0, 1500]);
+  });
+
+  it("reads plain text lyrics without times and drops trailing blank lines", () => {
+    const lyrics = parseLyrics("\uFEFFLine one\r\n\r\nLine two  \n\n", "txt");
+    expect(lyrics).toEqual({
+      synced: false,
+      lines: [
+        { timeMs: null, text: "Line one" },
+        { timeMs: null, text: "" },
+        { timeMs: null, text: "Line two" },
+      ],
+    });
+  });
+
+  it("falls back to plain text for LRC files without timestamps", () => {
+    const lyrics = parseLyrics("Just words", "lrc");
+    expect(lyrics.synced).toBe(false);
+    expect(lyrics.lines).toEqual([{ timeMs: null, text: "Just words" }]);
+  });
+});
+
+describe("parseNotification", () => {
+  it("parses timeline entries, normalizing IDs and the -1 section", () => {
+    const raw: RawNotificationResponse = {
+      NotificationContainer: {
+        type: "timeline",
+        size: 2,
+        TimelineEntry: [
+          { itemID: 1001, sectionID: "1", type: 9, state: 5, title: "OK Computer", identifier: "com.plexapp.plugins.library" },
+          { itemID: "5001", sectionID: "-1", type: 15, state: 9 },
+        ],
+      },
+    };
+
+    expect(parseNotification(raw)).toEqual({
+      type: "timeline",
+      entries: [
+        { itemId: "1001", sectionId: "1", type: 9, state: 5, title: "OK Computer" },
+        { itemId: "5001", sectionId: null, type: 15, state: 9, title: null },
+      ],
+    });
+  });
+
+  it("parses activity notifications with their library section", () => {
+    const raw: RawNotificationResponse = {
+      NotificationContainer: {
+        type: "activity",
+        ActivityNotification: [{
+          event: "ended",
+          uuid: "a1b2",
+          Activity: { type: "library.update.section", title: "Scanning Music", progress: 100, Context: { librarySectionID: "1" } },
+        }],
+      },
+    };
+
+    expect(parseNotification(raw)).toEqual({
+      type: "activity",
+      activities: [{ event: "ended", uuid: "a1b2", type: "library.update.section", title: "Scanning Music", progress: 100, sectionId: "1" }],
+    });
+  });
+
+  it("parses playing notifications", () => {
+    const raw: RawNotificationResponse = {
+      NotificationContainer: {
+        type: "playing",
+        PlaySessionStateNotification: [
+          { sessionKey: "12", ratingKey: "2001", key: "/library/metadata/2001", state: "paused", viewOffset: 42_000 },
+        ],
+      },
+    };
+
+    expect(parseNotification(raw)).toEqual({
+      type: "playing",
+      sessions: [{ sessionKey: "12", ratingKey: "2001", key: "/library/metadata/2001", state: "paused", viewOffset: 42_000 }],
+    });
+  });
+
+  it("returns null for notification types it does not know", () => {
+    expect(parseNotification({ NotificationContainer: { type: "backgroundProcessingQueue" } })).toBeNull();
+  });
+});
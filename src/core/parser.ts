@@ -1,6 +1,7 @@
 /**
  * Library Parser — pure functions that transform raw Plex API JSON
- * responses into our normalized domain types (Library, Album, Track).
+ * responses into our normalized domain types (Library, Album, Track, Genre,
+ * Hub, PlayQueue, Lyrics, PlexNotification).
  *
  * No network calls or side effects; all functions are safe to unit-test
  * with fixture data alone.
@@ -11,13 +12,28 @@ import type {
   Artist,
   Album,
   Track,
+  MediaVersion,
   Playlist,
+  Genre,
+  Hub,
+  PlayQueue,
+  Lyrics,
+  LyricLine,
+  PlexNotification,
   RawLibraryResponse,
   RawArtistResponse,
   RawAlbumResponse,
   RawTrackResponse,
   RawPlaylistResponse,
+  RawGenreResponse,
+  RawHubResponse,
+  RawPlayQueueResponse,
+  RawNotificationResponse,
+  RawAlbumMetadata,
+  RawArtistMetadata,
+  RawTrackMetadata,
 } from "../types/index.js";
+import { versionDetails } from "./media-versions.js";
 
 // Plex uses "audio" as the playlistType for music playlists.
 const AUDIO_PLAYLIST_TYPE = "audio";
@@ -28,8 +44,9 @@ const MUSIC_LIBRARY_TYPE = "artist";
 
 /**
  * Parse the /library/sections response into Library objects.
- * Only music libraries (type "artist") are returned — all other
- * section types (movies, TV, photos) are filtered out.
+ * Only audio libraries (type "artist") are returned — all other
+ * section types (movies, TV, photos) are filtered out. Every library is
+ * parsed as music; PlexService applies the kinds marked in settings.
  */
 export function parseLibraries(raw: RawLibraryResponse): Library[] {
   const directories = raw.MediaContainer.Directory ?? [];
@@ -39,6 +56,7 @@ export function parseLibraries(raw: RawLibraryResponse): Library[] {
       id: dir.key,
       title: dir.title,
       type: dir.type,
+      kind: "music" as const,
     }));
 }
 
@@ -68,6 +86,21 @@ export function parseArtists(raw: RawArtistResponse): Artist[] {
     title: item.title,
     artworkUrl: item.thumb ?? null,
     albumsKey: item.key, // e.g. "/library/metadata/123/children"
+    userRating: toStars(item.userRating),
+  }));
+}
+
+/**
+ * Parse the /library/sections/{key}/genre response into Genre objects.
+ * The section key is not part of the response, so the caller passes it in
+ * to tie each genre back to its library.
+ */
+export function parseGenres(raw: RawGenreResponse, libraryId: string): Genre[] {
+  const directories = raw.MediaContainer.Directory ?? [];
+  return directories.map((dir) => ({
+    id: dir.key,
+    title: dir.title,
+    libraryId,
   }));
 }
 
@@ -88,6 +121,7 @@ export function parseAlbums(raw: RawAlbumResponse): Album[] {
     year: item.year ?? null,
     artworkUrl: item.thumb ?? null,
     trackListKey: item.key, // e.g. "/library/metadata/1001/children"
+    userRating: toStars(item.userRating),
   }));
 }
 
@@ -95,18 +129,18 @@ export function parseAlbums(raw: RawAlbumResponse): Album[] {
  * Parse a track listing response into Track objects.
  *
  * Plex's hierarchy for tracks: grandparent = artist, parent = album.
- * The stream key is extracted from the first Media/Part entry
- * (Media[0].Part[0].key), which is the primary file for the track.
- * Falls back to "" if the Media array is empty or malformed.
+ * Every Media entry becomes a version; the stream key and quality fields
+ * describe the first one (Media[0].Part[0]), Plex's primary file for the
+ * track. The stream key falls back to "" if the Media array is empty or malformed.
  */
 export function parseTracks(raw: RawTrackResponse): Track[] {
   const metadata = raw.MediaContainer.Metadata ?? [];
   return metadata.map((item) => {
-    const media = item.Media?.[0];
-    const part = media?.Part?.[0];
-    // bitDepth and samplingRate live on the Stream element inside Part, not on Media.
-    // For audio-only files there is exactly one Stream; streamType 2 = audio.
-    const audioStream = part?.Stream?.find((s) => s.streamType === 2) ?? part?.Stream?.[0];
+    const versions = (item.Media ?? []).map(parseMediaVersion);
+    const part = item.Media?.[0]?.Part?.[0];
+    // Lyrics are sidecar streams (streamType 4); prefer time-synced LRC over plain text.
+    const lyricStreams = part?.Stream?.filter((s) => s.streamType === 4 && s.key) ?? [];
+    const lyricStream = lyricStreams.find((s) => s.codec === "lrc") ?? lyricStreams[0];
     return {
       id: item.ratingKey,
       title: item.title,
@@ -114,10 +148,186 @@ export function parseTracks(raw: RawTrackResponse): Track[] {
       album: item.parentTitle, // Plex: track's parent = album
       duration: item.duration,
       artworkUrl: item.thumb ?? null,
-      streamKey: part?.key ?? "", // First media file's path
-      trackType: media?.audioCodec ?? media?.container ?? null,
-      samplerate: audioStream?.samplingRate != null ? `${audioStream.samplingRate / 1000} kHz` : null,
-      bitdepth: audioStream?.bitDepth != null ? `${audioStream.bitDepth} bit` : null,
+      ...versionDetails(versions[0]),
+      userRating: toStars(item.userRating),
+      viewOffset: item.viewOffset ?? null,
+      lyricsStream: lyricStream?.key ? { key: lyricStream.key, format: lyricStream.codec ?? "txt" } : null,
+      versions,
+      chapters: (item.Chapter ?? [])
+        .map((chapter, i) => ({
+          title: chapter.tag || `Chapter ${chapter.index ?? i + 1}`,
+          startMs: chapter.startTimeOffset,
+          endMs: chapter.endTimeOffset,
+        }))
+        .sort((a, b) => a.startMs - b.startMs),
+      ...(item.playlistItemID != null && { playlistItemId: String(item.playlistItemID) }),
     };
   });
 }
+
+function parseMediaVersion(media: RawTrackMetadata["Media"][number]): MediaVersion {
+  const parts = media.Part ?? [];
+  // bitDepth and samplingRate live on the Stream element inside Part, not on Media.
+  // For audio-only files there is exactly one Stream; streamType 2 = audio.
+  const streams = parts[0]?.Stream;
+  const audioStream = streams?.find((s) => s.streamType === 2) ?? streams?.[0];
+  return {
+    codec: media.audioCodec ?? null,
+    container: media.container ?? null,
+    bitrate: media.bitrate ?? null,
+    samplingRate: audioStream?.samplingRate ?? null,
+    bitDepth: audioStream?.bitDepth ?? null,
+    channels: media.audioChannels ?? audioStream?.channels ?? null,
+    loudness: audioStream?.gain != null
+      ? {
+          gain: audioStream.gain,
+          albumGain: audioStream.albumGain ?? null,
+          peak: audioStream.peak ?? null,
+          albumPeak: audioStream.albumPeak ?? null,
+          loudness: audioStream.loudness ?? null,
+          lra: audioStream.lra ?? null,
+        }
+      : null,
+    parts: parts.filter((part) => part.key).map((part) => ({ key: part.key, duration: part.duration ?? null })),
+  };
+}
+
+/**
+ * Parse the /hubs/sections/{key} response into Hub objects.
+ *
+ * Each hub item is routed to the album, artist, or track parser by its
+ * own `type` field. Items of other types (playlists, stations) are dropped,
+ * and so are hubs left with nothing we can show.
+ */
+export function parseHubs(raw: RawHubResponse): Hub[] {
+  const hubs = raw.MediaContainer.Hub ?? [];
+  return hubs
+    .map((hub) => {
+      const metadata = hub.Metadata ?? [];
+      const ofType = (type: string) => metadata.filter((item) => item.type === type);
+      return {
+        id: hub.hubIdentifier,
+        title: hub.title,
+        albums: parseAlbums({ MediaContainer: { size: 0, Metadata: ofType("album") as RawAlbumMetadata[] } }),
+        artists: parseArtists({ MediaContainer: { size: 0, Metadata: ofType("artist") as RawArtistMetadata[] } }),
+        tracks: parseTracks({ MediaContainer: { size: 0, Metadata: ofType("track") as RawTrackMetadata[] } }),
+      };
+    })
+    .filter((hub) => hub.albums.length + hub.artists.length + hub.tracks.length > 0);
+}
+
+/**
+ * Parse a /playQueues response into a PlayQueue.
+ * Plex reports IDs as numbers; they are normalized to strings like every
+ * other Plex key in the domain types.
+ */
+export function parsePlayQueue(raw: RawPlayQueueResponse): PlayQueue {
+  const container = raw.MediaContainer;
+  const metadata = container.Metadata ?? [];
+  const tracks = parseTracks({ MediaContainer: { size: metadata.length, Metadata: metadata } });
+  return {
+    id: String(container.playQueueID),
+    selectedItemId: container.playQueueSelectedItemID != null ? String(container.playQueueSelectedItemID) : null,
+    totalCount: container.playQueueTotalCount,
+    items: metadata.map((item, index) => ({
+      itemId: String(item.playQueueItemID),
+      track: tracks[index]!,
+    })),
+  };
+}
+
+/**
+ * Parse a lyrics file into Lyrics.
+ *
+ * LRC files ("lrc" format) carry `[mm:ss.xx]` timestamps — a line may hold
+ * several, one per repetition — plus ID tags such as `[ar:...]`, which are
+ * skipped. An `[offset:±ms]` tag shifts every timestamp (positive = earlier).
+ * LRC files without any timestamps, and every other format, are read as
+ * plain text.
+ */
+export function parseLyrics(text: string, format: string): Lyrics {
+  const rawLines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+
+  if (format === "lrc") {
+    const offsetMatch = text.match(/^\[offset:\s*([+-]?\d+)\s*\]/im);
+    const offsetMs = offsetMatch ? parseInt(offsetMatch[1]!, 10) : 0;
+    const timed: LyricLine[] = [];
+    for (const line of rawLines) {
+      const stamps = [...line.matchAll(LRC_TIMESTAMP)];
+      if (stamps.length === 0) continue;
+      const lyric = line.replace(LRC_TIMESTAMP, "").trim();
+      for (const [, min, sec, frac] of stamps) {
+        const ms = (frac ?? "").padEnd(3, "0");
+        const timeMs = parseInt(min!, 10) * 60_000 + parseInt(sec!, 10) * 1000 + parseInt(ms, 10);
+        timed.push({ timeMs: Math.max(0, timeMs - offsetMs), text: lyric });
+      }
+    }
+    if (timed.length > 0) {
+      return { synced: true, lines: timed.sort((a, b) => a.timeMs! - b.timeMs!) };
+    }
+  }
+
+  const lines = rawLines.map((line) => line.trimEnd());
+  while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+  return { synced: false, lines: lines.map((line) => ({ timeMs: null, text: line })) };
+}
+
+/**
+ * Parse a message from the notifications WebSocket. Returns null for
+ * notification types we don't use (status, progress, backgroundProcessingQueue, ...).
+ * Plex reports IDs as strings or numbers depending on the event; they are
+ * normalized to strings, and the "-1" section of non-library items to null.
+ */
+export function parseNotification(raw: RawNotificationResponse): PlexNotification | null {
+  const container = raw.NotificationContainer;
+  switch (container.type) {
+    case "timeline":
+      return {
+        type: "timeline",
+        entries: (container.TimelineEntry ?? []).map((entry) => ({
+          itemId: String(entry.itemID),
+          sectionId: toSectionId(entry.sectionID),
+          type: entry.type,
+          state: entry.state,
+          title: entry.title ?? null,
+        })),
+      };
+    case "activity":
+      return {
+        type: "activity",
+        activities: (container.ActivityNotification ?? []).map((notification) => ({
+          event: notification.event,
+          uuid: notification.uuid,
+          type: notification.Activity.type,
+          title: notification.Activity.title ?? null,
+          progress: notification.Activity.progress ?? null,
+          sectionId: toSectionId(notification.Activity.Context?.librarySectionID),
+        })),
+      };
+    case "playing":
+      return {
+        type: "playing",
+        sessions: (container.PlaySessionStateNotification ?? []).map((session) => ({
+          sessionKey: session.sessionKey,
+          ratingKey: session.ratingKey,
+          key: session.key,
+          state: session.state,
+          viewOffset: session.viewOffset ?? null,
+        })),
+      };
+    default:
+      return null;
+  }
+}
+
+/** An LRC timestamp: [mm:ss], [mm:ss.xx] or [mm:ss.xxx]. */
+const LRC_TIMESTAMP = /\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+
+/** Convert Plex's 0–10 userRating (2 per star) to stars; unrated items give null. */
+function toStars(userRating: number | undefined): number | null {
+  return userRating != null ? userRating / 2 : null;
+}
+
+function toSectionId(sectionId: string | number | undefined): string | null {
+  return sectionId == null || String(sectionId) === "-1" ? null : String(sectionId);
+}
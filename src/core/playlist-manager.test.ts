@@ -15,6 +15,12 @@ function makeTrack(id: string, title = `Track ${id}`): Track {
     trackType: null,
     samplerate: null,
     bitdepth: null,
+    userRating: null,
+    viewOffset: null,
+    chapters: [],
+    lyricsStream: null,
+    loudness: null,
+    versions: [],
   };
 }
 
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_RESUME_POLICY, resumeIndex, resumePosition, resumesTrack } from "./resume.js";
+
+const MINUTE = 60_000;
+
+describe("resumesTrack", () => {
+  it("resumes tracks at least as long as the threshold in long mode", () => {
+    expect(resumesTrack(DEFAULT_RESUME_POLICY, 20 * MINUTE)).toBe(true);
+    expect(resumesTrack(DEFAULT_RESUME_POLICY, 19 * MINUTE)).toBe(false);
+  });
+
+  it("resumes every track or none in the fixed modes", () => {
+    expect(resumesTrack({ mode: "always", minMinutes: 20 }, MINUTE)).toBe(true);
+    expect(resumesTrack({ mode: "never", minMinutes: 20 }, 120 * MINUTE)).toBe(false);
+  });
+});
+
+describe("resumePosition", () => {
+  it("returns the stored offset for a track the policy resumes", () => {
+    expect(resumePosition(DEFAULT_RESUME_POLICY, 120 * MINUTE, 30 * MINUTE)).toBe(30 * MINUTE);
+  });
+
+  it("starts from the beginning without an offset or for tracks the policy doesn't resume", () => {
+    expect(resumePosition(DEFAULT_RESUME_POLICY, 120 * MINUTE, null)).toBe(0);
+    expect(resumePosition(DEFAULT_RESUME_POLICY, 4 * MINUTE, MINUTE)).toBe(0);
+  });
+
+  it("starts over when the track was stopped in its last seconds", () => {
+    expect(resumePosition(DEFAULT_RESUME_POLICY, 120 * MINUTE, 120 * MINUTE - 5_000)).toBe(0);
+  });
+});
+
+describe("resumeIndex", () => {
+  it("finds the first partially played track", () => {
+    expect(resumeIndex([{ viewOffset: null }, { viewOffset: 1_000 }, { viewOffset: 2_000 }])).toBe(1);
+    expect(resumeIndex([{ viewOffset: null }, { viewOffset: 0 }])).toBe(-1);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Resume — pure functions that decide whether a track picks up where it was
+ * left off (Plex's viewOffset) or starts from the beginning.
+ *
+ * No network calls or side effects.
+ */
+
+/** Which tracks resume: none, all, or only those lasting at least `minMinutes`. */
+export type ResumeMode = "never" | "always" | "long";
+
+/** The resume settings. */
+export interface ResumePolicy {
+  mode: ResumeMode;
+  /** Shortest track, in minutes, that resumes in "long" mode */
+  minMinutes: number;
+}
+
+/** The default policy: resume tracks of 20 minutes or more (DJ mixes, audiobook chapters). */
+export const DEFAULT_RESUME_POLICY: ResumePolicy = { mode: "long", minMinutes: 20 };
+
+/** Offsets this close to the end start the track over instead. */
+const END_MARGIN_MS = 10_000;
+
+/** Whether a track of `durationMs` resumes under the policy. */
+export function resumesTrack(policy: ResumePolicy, durationMs: number): boolean {
+  if (policy.mode === "long") return durationMs >= policy.minMinutes * 60_000;
+  return policy.mode === "always";
+}
+
+/**
+ * Where to start a track, in milliseconds: its stored offset when the
+ * policy resumes it, otherwise 0. A track stopped in its last few seconds
+ * starts over.
+ */
+export function resumePosition(policy: ResumePolicy, durationMs: number, viewOffsetMs: number | null): number {
+  if (!viewOffsetMs || viewOffsetMs <= 0 || !resumesTrack(policy, durationMs)) return 0;
+  return viewOffsetMs < durationMs - END_MARGIN_MS ? viewOffsetMs : 0;
+}
+
+/** Index of the first partially played track in a book or show — where listening picks up — or -1. */
+export function resumeIndex(tracks: Array<{ viewOffset: number | null }>): number {
+  return tracks.findIndex((track) => (track.viewOffset ?? 0) > 0);
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { decideStream, DEFAULT_STREAMING_POLICY } from "./stream-policy.js";
+import type { StreamingPolicy } from "./stream-policy.js";
+
+const auto: StreamingPolicy = { mode: "auto", format: "mp3", maxBitrateKbps: 320 };
+
+describe("decideStream — fixed modes", () => {
+  it("plays directly by default, whatever the connection", () => {
+    expect(decideStream(DEFAULT_STREAMING_POLICY, { connectionKind: "relay", codec: "truehd" }))
+      .toEqual({ mode: "direct", reason: "setting" });
+  });
+
+  it("always transcodes when asked to", () => {
+    expect(decideStream({ ...auto, mode: "transcode" }, { connectionKind: "local", codec: "flac" }))
+      .toEqual({ mode: "transcode", reason: "setting" });
+  });
+});
+
+describe("decideStream — auto", () => {
+  it("plays directly on the LAN and for hand-entered servers", () => {
+    expect(decideStream(auto, { connectionKind: "local", codec: "flac" })).toEqual({ mode: "direct", reason: "lan" });
+    expect(decideStream(auto, { connectionKind: null, codec: "flac" })).toEqual({ mode: "direct", reason: "lan" });
+  });
+
+  it("transcodes over remote and relay connections", () => {
+    expect(decideStream(auto, { connectionKind: "remote", codec: "flac" })).toEqual({ mode: "transcode", reason: "remote" });
+    expect(decideStream(auto, { connectionKind: "relay", codec: "flac" })).toEqual({ mode: "transcode", reason: "relay" });
+  });
+
+  it("transcodes codecs MPD can't decode, even on the LAN", () => {
+    expect(decideStream(auto, { connectionKind: "local", codec: "TrueHD" })).toEqual({ mode: "transcode", reason: "codec" });
+  });
+
+  it("assumes an unknown codec is playable", () => {
+    expect(decideStream(auto, { connectionKind: "local", codec: null })).toEqual({ mode: "direct", reason: "lan" });
+  });
+});
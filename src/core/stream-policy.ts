@@ -0,0 +1,66 @@
+/**
+ * Streaming Policy — pure functions that decide whether a track is played
+ * from the original file or through Plex's transcoder, based on the user's
+ * setting, the kind of connection to the server and the track's codec.
+ *
+ * No network calls or side effects.
+ */
+
+import type { StreamOptions } from "./stream-resolver.js";
+
+/** How the user wants tracks streamed. */
+export type StreamingMode = "direct" | "transcode" | "auto";
+
+/** Codec Plex transcodes to. */
+export type TranscodeFormat = NonNullable<StreamOptions["format"]>;
+
+/** The streaming settings. */
+export interface StreamingPolicy {
+  mode: StreamingMode;
+  /** Codec to transcode to */
+  format: TranscodeFormat;
+  /** Bitrate cap in kbps for lossy formats; 0 leaves the choice to Plex */
+  maxBitrateKbps: number;
+}
+
+/** The default policy: always play the original file. */
+export const DEFAULT_STREAMING_POLICY: StreamingPolicy = { mode: "direct", format: "mp3", maxBitrateKbps: 320 };
+
+/** Codecs (as Plex names them) that Volumio's MPD plays natively. */
+export const MPD_CODECS: ReadonlySet<string> = new Set([
+  "flac", "alac", "mp3", "mp2", "aac", "vorbis", "opus", "pcm", "wav", "aiff",
+  "wavpack", "ape", "dsd_lsbf", "dsd_msbf", "dsd_lsbf_planar", "dsd_msbf_planar",
+]);
+
+/** What a stream is played as, and why. */
+export interface StreamDecision {
+  mode: "direct" | "transcode";
+  reason: "setting" | "lan" | "remote" | "relay" | "codec";
+}
+
+/** Where the track comes from and what it is. */
+export interface StreamContext {
+  /** Kind of the active connection; null when the server was entered by hand */
+  connectionKind: "local" | "remote" | "relay" | null;
+  /** Audio codec of the track, null when Plex didn't report it */
+  codec: string | null;
+}
+
+/**
+ * Pick direct play or transcoding for one track. In auto mode, tracks are
+ * played directly over the LAN (a hand-entered server counts as LAN) and
+ * transcoded over remote and relay connections, or when MPD can't decode
+ * the codec. An unknown codec is assumed to be playable.
+ */
+export function decideStream(policy: StreamingPolicy, context: StreamContext): StreamDecision {
+  if (policy.mode !== "auto") {
+    return { mode: policy.mode, reason: "setting" };
+  }
+  if (context.codec !== null && !MPD_CODECS.has(context.codec.toLowerCase())) {
+    return { mode: "transcode", reason: "codec" };
+  }
+  if (context.connectionKind === "remote" || context.connectionKind === "relay") {
+    return { mode: "transcode", reason: context.connectionKind };
+  }
+  return { mode: "direct", reason: "lan" };
+}
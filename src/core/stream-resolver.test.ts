@@ -75,6 +75,28 @@ describe("buildStreamUrl — transcode", () => {
     expect(url).toContain("X-Plex-Token=abc123token");
   });
 
+  it("caps the bitrate of lossy transcodes", () => {
+    const url = buildStreamUrl({
+      ...connection,
+      trackKey: "/library/parts/1/2/file.flac",
+      transcode: true,
+      format: "aac",
+      maxBitrateKbps: 192,
+    });
+    expect(url).toContain("musicBitrate=192");
+  });
+
+  it("ignores the bitrate cap for flac transcodes", () => {
+    const url = buildStreamUrl({
+      ...connection,
+      trackKey: "/library/parts/1/2/file.wav",
+      transcode: true,
+      format: "flac",
+      maxBitrateKbps: 192,
+    });
+    expect(url).not.toContain("musicBitrate");
+  });
+
   it("builds correct transcode URL for flac", () => {
     const url = buildStreamUrl({
       ...connection,
@@ -23,6 +23,8 @@ export interface StreamOptions extends PlexConnection {
   transcode?: boolean;
   /** Target format for transcoding. Only used when transcode is true. Default: "mp3" */
   format?: "mp3" | "flac" | "aac";
+  /** Bitrate cap in kbps for lossy transcodes (ignored for flac). Default: none */
+  maxBitrateKbps?: number;
 }
 
 /**
@@ -32,12 +34,12 @@ export interface StreamOptions extends PlexConnection {
  * Transcoded play routes through Plex's universal transcoder.
  */
 export function buildStreamUrl(options: StreamOptions): string {
-  const { host, port, token, trackKey, transcode = false, format = "mp3", https: useHttps = false } = options;
+  const { host, port, token, trackKey, transcode = false, format = "mp3", maxBitrateKbps, https: useHttps = false } = options;
   const scheme = useHttps ? "https" : "http";
   const base = `${scheme}://${host}:${port}`;
 
   if (transcode) {
-    return buildTranscodeUrl(base, token, trackKey, format, scheme);
+    return buildTranscodeUrl(base, token, trackKey, format, scheme, maxBitrateKbps);
   }
 
   return buildDirectUrl(base, token, trackKey);
@@ -65,6 +67,7 @@ function buildTranscodeUrl(
   trackKey: string,
   format: string,
   scheme: string = "http",
+  maxBitrateKbps?: number,
 ): string {
   const params = new URLSearchParams({
     path: trackKey,
@@ -83,6 +86,9 @@ function buildTranscodeUrl(
   const codec = codecMap[format] ?? codecMap["mp3"]!;
   params.set("container", codec.container);
   params.set("audioCodec", codec.audioCodec);
+  if (maxBitrateKbps && codec.audioCodec !== "flac") {
+    params.set("musicBitrate", String(maxBitrateKbps));
+  }
 
   return `${base}/music/:/transcode/universal/start?${params.toString()}`;
 }
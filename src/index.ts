@@ -1,9 +1,34 @@
 export { VolumioAdapter } from "./volumio/adapter.js";
-export type { KewLib } from "./volumio/adapter.js";
+export type { KewLib, PlexServerEntry } from "./volumio/adapter.js";
 export { PlexApiClient } from "./plex/api-client.js";
 export type { PlexApiClientOptions } from "./plex/api-client.js";
 export { PlexApiError, PlexAuthError, PlexConnectionError } from "./plex/api-client.js";
+export { ConnectionManager } from "./plex/connection-manager.js";
+export type { ConnectionCandidate, ConnectionKind, ConnectionManagerOptions } from "./plex/connection-manager.js";
+export { ResponseCache, MemoryLruStore, DiskCacheStore, CACHE_TTLS } from "./plex/response-cache.js";
+export type { CacheStore, CacheEntry, CacheMetrics, ResponseCacheOptions } from "./plex/response-cache.js";
+export { TokenMonitor } from "./plex/token-monitor.js";
+export type { TokenMonitorOptions } from "./plex/token-monitor.js";
+export { PlexNotificationClient } from "./plex/notifications.js";
+export type { PlexNotificationClientOptions } from "./plex/notifications.js";
+export { PlexCompanionServer, COMPANION_PORT } from "./plex/companion.js";
+export type { CompanionPlayer, PlayMediaRequest, PlayerParameters, PlayerTimeline, PlexCompanionServerOptions } from "./plex/companion.js";
+export { GdmAdvertiser, discoverServers, parseGdmResponse } from "./plex/gdm.js";
+export type { GdmAdvertiserOptions, DiscoveredServer, DiscoverServersOptions } from "./plex/gdm.js";
 export { PlexService } from "./plex/plex-service.js";
-export type { PlayableTrack, SearchResults } from "./plex/plex-service.js";
+export type { PlayableTrack, SearchResults, LibraryChange } from "./plex/plex-service.js";
 export { buildStreamUrl, buildResourceUrl } from "./core/stream-resolver.js";
 export type { PlexConnection, StreamOptions } from "./core/stream-resolver.js";
+export { decideStream, DEFAULT_STREAMING_POLICY, MPD_CODECS } from "./core/stream-policy.js";
+export type { StreamingMode, StreamingPolicy, StreamDecision, StreamContext, TranscodeFormat } from "./core/stream-policy.js";
+export { HI_RES_TIERS, qualityBadge } from "./core/audio-quality.js";
+export type { QualityTier } from "./core/audio-quality.js";
+export { selectVersion, splitParts, withVersion, DEFAULT_VERSION_PREFERENCE } from "./core/media-versions.js";
+export type { VersionPreference } from "./core/media-versions.js";
+export { isAlbumInOrder, plexGainDb, replayGainMode, volumeOffset } from "./core/normalization.js";
+export type { NormalizationMode, ReplayGainMode, QueueEntry } from "./core/normalization.js";
+export { DEFAULT_RESUME_POLICY, resumeIndex, resumePosition, resumesTrack } from "./core/resume.js";
+export type { ResumeMode, ResumePolicy } from "./core/resume.js";
+export { DEFAULT_LIBRARY_KINDS, libraryKind } from "./core/library-kinds.js";
+export type { LibraryKindAssignments } from "./core/library-kinds.js";
+export { nextChapterStart, previousChapterStart } from "./core/chapters.js";
@@ -8,6 +8,8 @@ import {
   PlexAuthError,
   PlexConnectionError,
 } from "./api-client.js";
+import { ConnectionManager } from "./connection-manager.js";
+import { ResponseCache } from "./response-cache.js";
 import type { RawLibraryResponse } from "../types/index.js";
 
 // ── Helpers ─────────────────────────────────────────────────────────
@@ -131,6 +133,18 @@ describe("URL construction", () => {
     );
   });
 
+  it("builds correct path for getLibraryTracks with pagination and sort", async () => {
+    mockHttpGet({ MediaContainer: { size: 0, Metadata: [] } });
+    const client = new PlexApiClient(CONFIG);
+
+    await client.getLibraryTracks("1", { offset: 100, limit: 50 }, "viewCount:desc");
+
+    const opts = httpGetSpy.mock.calls[0]![0] as http.RequestOptions;
+    expect(opts.path).toBe(
+      "/library/sections/1/all?type=10&X-Plex-Container-Start=100&X-Plex-Container-Size=50&sort=viewCount%3Adesc&X-Plex-Token=test-token-abc",
+    );
+  });
+
   it("builds correct path for getAlbums with sort param", async () => {
     mockHttpGet({ MediaContainer: { size: 0, Metadata: [] } });
     const client = new PlexApiClient(CONFIG);
@@ -155,6 +169,46 @@ describe("URL construction", () => {
     );
   });
 
+  it("translates filters into Plex query parameters", async () => {
+    mockHttpGet({ MediaContainer: { size: 0, Metadata: [] } });
+    const client = new PlexApiClient(CONFIG);
+
+    await client.getAlbums("1", undefined, undefined, [
+      { field: "decade", operator: "=", value: "1970" },
+      { field: "year", operator: ">=", value: "1990" },
+      { field: "genre", operator: "!=", value: "Rock & Roll" },
+      { field: "unwatched", operator: null, value: null },
+    ]);
+
+    const opts = httpGetSpy.mock.calls[0]![0] as http.RequestOptions;
+    expect(opts.path).toBe(
+      "/library/sections/1/all?type=9&decade=1970&year%3E%3E=1989&genre!=Rock%20%26%20Roll&unwatched=1&X-Plex-Token=test-token-abc",
+    );
+  });
+
+  it("applies filters to library track listings", async () => {
+    mockHttpGet({ MediaContainer: { size: 0, Metadata: [] } });
+    const client = new PlexApiClient(CONFIG);
+
+    await client.getLibraryTracks("1", { offset: 0, limit: 25 }, undefined, [
+      { field: "bitDepth", operator: ">=", value: "24" },
+      { field: "samplingRate", operator: "<", value: "176400" },
+    ]);
+
+    const opts = httpGetSpy.mock.calls[0]![0] as http.RequestOptions;
+    expect(opts.path).toBe(
+      "/library/sections/1/all?type=10&bitDepth%3E%3E=23&samplingRate%3C%3C=176400&X-Plex-Container-Start=0&X-Plex-Container-Size=25&X-Plex-Token=test-token-abc",
+    );
+  });
+
+  it("rejects a range filter on a non-numeric value", async () => {
+    const client = new PlexApiClient(CONFIG);
+
+    await expect(
+      client.getArtists("1", undefined, undefined, [{ field: "year", operator: "<", value: "soon" }]),
+    ).rejects.toThrow();
+  });
+
   it("builds correct path for getTracks with full album key", async () => {
     mockHttpGet({ MediaContainer: { size: 0, Metadata: [] } });
     const client = new PlexApiClient(CONFIG);
@@ -191,6 +245,128 @@ describe("URL construction", () => {
     );
   });
 
+  it("builds correct path for getGenres", async () => {
+    mockHttpGet({ MediaContainer: { size: 0, Directory: [] } });
+    const client = new PlexApiClient(CONFIG);
+
+    await client.getGenres("1");
+
+    const opts = httpGetSpy.mock.calls[0]![0] as http.RequestOptions;
+    expect(opts.path).toBe(
+      "/library/sections/1/genre?X-Plex-Token=test-token-abc",
+    );
+  });
+
+  it("builds correct path for getGenreAlbums with pagination", async () => {
+    mockHttpGet({ MediaContainer: { size: 0, Metadata: [] } });
+    const client = new PlexApiClient(CONFIG);
+
+    await client.getGenreAlbums("1", "123", { offset: 100, limit: 50 });
+
+    const opts = httpGetSpy.mock.calls[0]![0] as http.RequestOptions;
+    expect(opts.path).toBe(
+      "/library/sections/1/all?type=9&genre=123&X-Plex-Container-Start=100&X-Plex-Container-Size=50&X-Plex-Token=test-token-abc",
+    );
+  });
+
+  it("builds correct path for getGenreTracks", async () => {
+    mockHttpGet({ MediaContainer: { size: 0, Metadata: [] } });
+    const client = new PlexApiClient(CONFIG);
+
+    await client.getGenreTracks("1", "123");
+
+    const opts = httpGetSpy.mock.calls[0]![0] as http.RequestOptions;
+    expect(opts.path).toBe(
+      "/library/sections/1/all?type=10&album.genre=123&X-Plex-Token=test-token-abc",
+    );
+  });
+
+  it("builds correct path for getHubs with count", async () => {
+    mockHttpGet({ MediaContainer: { size: 0 } });
+    const client = new PlexApiClient(CONFIG);
+
+    await client.getHubs("1", 12);
+
+    const opts = httpGetSpy.mock.calls[0]![0] as http.RequestOptions;
+    expect(opts.path).toBe(
+      "/hubs/sections/1?count=12&X-Plex-Token=test-token-abc",
+    );
+  });
+
+  it("builds correct path for getOnDeck with count", async () => {
+    mockHttpGet({ MediaContainer: { size: 0, Metadata: [] } });
+    const client = new PlexApiClient(CONFIG);
+
+    await client.getOnDeck("1", 12);
+
+    const opts = httpGetSpy.mock.calls[0]![0] as http.RequestOptions;
+    expect(opts.path).toBe(
+      "/library/sections/1/onDeck?X-Plex-Container-Start=0&X-Plex-Container-Size=12&X-Plex-Token=test-token-abc",
+    );
+  });
+
+  it("builds correct path for getRatedTracks", async () => {
+    mockHttpGet({ MediaContainer: { size: 0, Metadata: [] } });
+    const client = new PlexApiClient(CONFIG);
+
+    await client.getRatedTracks("1", 50);
+
+    const opts = httpGetSpy.mock.calls[0]![0] as http.RequestOptions;
+    expect(opts.path).toBe(
+      "/library/sections/1/all?type=10&userRating>>=0&sort=userRating:desc&X-Plex-Container-Start=0&X-Plex-Container-Size=50&X-Plex-Token=test-token-abc",
+    );
+  });
+
+  it("builds correct paths for similar artists and sonic neighbours", async () => {
+    mockHttpGet({ MediaContainer: { size: 0, Metadata: [] } });
+    const client = new PlexApiClient(CONFIG);
+
+    await client.getSimilarArtists("500", 12);
+    await client.getNearestTracks("2001", 50);
+    await client.getNearestAlbums("1001", 12);
+
+    const paths = [0, 1, 2].map((i) => (httpGetSpy.mock.calls[i]![0] as http.RequestOptions).path);
+    expect(paths).toEqual([
+      "/library/metadata/500/similar?X-Plex-Container-Start=0&X-Plex-Container-Size=12&X-Plex-Token=test-token-abc",
+      "/library/metadata/2001/nearest?limit=50&maxDistance=0.25&X-Plex-Token=test-token-abc",
+      "/library/metadata/1001/nearest?limit=12&maxDistance=0.25&X-Plex-Token=test-token-abc",
+    ]);
+  });
+
+  it("returns sidecar stream contents as raw text", async () => {
+    mockHttpGet("[00:01.00]Hello");
+    const client = new PlexApiClient(CONFIG);
+
+    const text = await client.getStreamText("/library/streams/12");
+
+    const opts = httpGetSpy.mock.calls[0]![0] as http.RequestOptions;
+    expect(opts.path).toBe("/library/streams/12?X-Plex-Token=test-token-abc");
+    expect(opts.headers).toEqual({ Accept: "text/plain" });
+    expect(text).toBe("[00:01.00]Hello");
+  });
+
+  it("builds correct path for getPlayQueue", async () => {
+    mockHttpGet({ MediaContainer: { size: 0, playQueueID: 7001, playQueueTotalCount: 0 } });
+    const client = new PlexApiClient(CONFIG);
+
+    await client.getPlayQueue("7001", "9002", 10);
+
+    const opts = httpGetSpy.mock.calls[0]![0] as http.RequestOptions;
+    expect(opts.path).toBe(
+      "/playQueues/7001?center=9002&window=10&includeBefore=0&X-Plex-Token=test-token-abc",
+    );
+  });
+
+  it("takes ownership of an existing play queue in openPlayQueue", async () => {
+    mockHttpGet({ MediaContainer: { size: 0, playQueueID: 7001, playQueueTotalCount: 0 } });
+    const client = new PlexApiClient(CONFIG);
+
+    await client.openPlayQueue("7001", 200);
+
+    const opts = httpGetSpy.mock.calls[0]![0] as http.RequestOptions;
+    expect(opts.path).toBe("/playQueues/7001?own=1&window=200&X-Plex-Token=test-token-abc");
+  });
+
   it("encodes special characters in token", async () => {
     mockHttpGet(LIBRARIES_RESPONSE);
     const client = new PlexApiClient({ ...CONFIG, token: "abc=123&x" });
@@ -212,6 +388,174 @@ describe("URL construction", () => {
   });
 });
 
+// ── POST requests ───────────────────────────────────────────────────
+
+describe("POST requests", () => {
+  let httpRequestSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    httpRequestSpy = vi.spyOn(http, "request");
+  });
+
+  function mockHttpRequest(body: unknown, statusCode = 200, statusMessage = "OK"): http.ClientRequest[] {
+    const requests: http.ClientRequest[] = [];
+    httpRequestSpy.mockImplementation((_opts: unknown, cb: unknown) => {
+      const res = createMockResponse(body, statusCode, statusMessage);
+      (cb as (res: http.IncomingMessage) => void)(res);
+      const req = new EventEmitter() as http.ClientRequest;
+      req.destroy = vi.fn().mockReturnThis();
+      req.end = vi.fn().mockReturnThis();
+      requests.push(req);
+      return req;
+    });
+    return requests;
+  }
+
+  it("createPlayQueue POSTs the encoded server URI with an empty body", async () => {
+    const requests = mockHttpRequest({ MediaContainer: { size: 0, playQueueID: 7001, playQueueTotalCount: 0 } });
+    const client = new PlexApiClient(CONFIG);
+
+    const result = await client.createPlayQueue({
+      uri: "server://abc/com.plexapp.plugins.library/library/metadata/500/station/xyz?type=10",
+      continuous: true,
+    });
+
+    const opts = httpRequestSpy.mock.calls[0]![0] as http.RequestOptions;
+    expect(opts.method).toBe("POST");
+    expect(opts.path).toBe(
+      "/playQueues?type=audio&uri=server%3A%2F%2Fabc%2Fcom.plexapp.plugins.library%2Flibrary%2Fmetadata%2F500%2Fstation%2Fxyz%3Ftype%3D10&continuous=1&X-Plex-Token=test-token-abc",
+    );
+    expect(opts.headers).toEqual({ Accept: "application/json", "Content-Length": "0" });
+    expect(requests[0]!.end).toHaveBeenCalled();
+    expect(result.MediaContainer.playQueueID).toBe(7001);
+    expect(httpGetSpy).not.toHaveBeenCalled();
+  });
+
+  it("createPlayQueue queues a playlist by ID and asks Plex to shuffle", async () => {
+    mockHttpRequest({ MediaContainer: { size: 0, playQueueID: 7001, playQueueTotalCount: 0 } });
+    const client = new PlexApiClient(CONFIG);
+
+    await client.createPlayQueue({ playlistId: "42", shuffle: true });
+
+    const opts = httpRequestSpy.mock.calls[0]![0] as http.RequestOptions;
+    expect(opts.path).toBe("/playQueues?type=audio&playlistID=42&shuffle=1&X-Plex-Token=test-token-abc");
+  });
+
+  it("edits play queues with PUT and DELETE", async () => {
+    mockHttpRequest({ MediaContainer: { size: 0, playQueueID: 7001, playQueueTotalCount: 0 } });
+    const client = new PlexApiClient(CONFIG);
+
+    await client.addToPlayQueue("7001", "server://abc/com.plexapp.plugins.library/library/metadata/2001", true);
+    await client.movePlayQueueItem("7001", "9003", "9001");
+    await client.removePlayQueueItem("7001", "9002");
+    await client.shufflePlayQueue("7001");
+
+    const calls = httpRequestSpy.mock.calls.map((call: unknown[]) => {
+      const opts = call[0] as http.RequestOptions;
+      return `${opts.method} ${opts.path}`;
+    });
+    expect(calls).toEqual([
+      "PUT /playQueues/7001?uri=server%3A%2F%2Fabc%2Fcom.plexapp.plugins.library%2Flibrary%2Fmetadata%2F2001&next=1&X-Plex-Token=test-token-abc",
+      "PUT /playQueues/7001/items/9003/move?after=9001&X-Plex-Token=test-token-abc",
+      "DELETE /playQueues/7001/items/9002?X-Plex-Token=test-token-abc",
+      "PUT /playQueues/7001/shuffle?X-Plex-Token=test-token-abc",
+    ]);
+  });
+
+  it("creates, edits and deletes playlists", async () => {
+    mockHttpRequest({ MediaContainer: { size: 0, Metadata: [] } });
+    const client = new PlexApiClient(CONFIG);
+    const uri = "server://abc/com.plexapp.plugins.library/library/metadata/2001,2002";
+
+    await client.createPlaylist("Road Trip", uri);
+    await client.addToPlaylist("5001", uri);
+    await client.removeFromPlaylist("5001", "77");
+    await client.movePlaylistItem("5001", "77");
+    await client.renamePlaylist("5001", "Long Drive");
+    await client.deletePlaylist("5001");
+
+    const calls = httpRequestSpy.mock.calls.map((call: unknown[]) => {
+      const opts = call[0] as http.RequestOptions;
+      return `${opts.method} ${opts.path}`;
+    });
+    const encodedUri = encodeURIComponent(uri);
+    expect(calls).toEqual([
+      `POST /playlists?type=audio&smart=0&title=Road%20Trip&uri=${encodedUri}&X-Plex-Token=test-token-abc`,
+      `PUT /playlists/5001/items?uri=${encodedUri}&X-Plex-Token=test-token-abc`,
+      "DELETE /playlists/5001/items/77?X-Plex-Token=test-token-abc",
+      "PUT /playlists/5001/items/77/move?X-Plex-Token=test-token-abc",
+      "PUT /playlists/5001?title=Long%20Drive&X-Plex-Token=test-token-abc",
+      "DELETE /playlists/5001?X-Plex-Token=test-token-abc",
+    ]);
+  });
+
+  it("rates items with PUT /:/rate", async () => {
+    mockHttpRequest("");
+    const client = new PlexApiClient(CONFIG);
+
+    await client.rate("2001", 10);
+
+    const opts = httpRequestSpy.mock.calls[0]![0] as http.RequestOptions;
+    expect(opts.method).toBe("PUT");
+    expect(opts.path).toBe(
+      "/:/rate?key=2001&identifier=com.plexapp.plugins.library&rating=10&X-Plex-Token=test-token-abc",
+    );
+  });
+
+  it("accepts an empty response body from writes that return nothing", async () => {
+    mockHttpRequest("");
+    const client = new PlexApiClient(CONFIG);
+
+    await expect(client.deletePlaylist("5001")).resolves.toBeUndefined();
+  });
+
+  it("maps POST errors to the same error classes as GET", async () => {
+    mockHttpRequest(null, 401, "Unauthorized");
+    const client = new PlexApiClient(CONFIG);
+
+    await expect(client.createPlayQueue({ uri: "server://abc/x" })).rejects.toThrow(PlexAuthError);
+  });
+});
+
+// ── Timeline reporting ──────────────────────────────────────────────
+
+describe("reportTimeline", () => {
+  it("includes the play queue entry when the track was queued from one", async () => {
+    mockHttpGet({});
+    const client = new PlexApiClient(CONFIG);
+
+    await client.reportTimeline({
+      ratingKey: "2001",
+      state: "playing",
+      time: 1000,
+      duration: 282000,
+      playQueue: { id: "7001", itemId: "9002" },
+    });
+
+    const opts = httpGetSpy.mock.calls[0]![0] as http.RequestOptions;
+    expect(opts.path).toContain("&containerKey=%2FplayQueues%2F7001&playQueueItemID=9002");
+  });
+
+  it("rejects with PlexApiError on a non-2xx response", async () => {
+    mockHttpGet(null, 500, "Internal Server Error");
+    const client = new PlexApiClient(CONFIG);
+
+    await expect(
+      client.reportTimeline({ ratingKey: "2001", state: "playing", time: 0, duration: 282000 }),
+    ).rejects.toThrow(PlexApiError);
+  });
+
+  it("omits play queue parameters otherwise", async () => {
+    mockHttpGet({});
+    const client = new PlexApiClient(CONFIG);
+
+    await client.reportTimeline({ ratingKey: "2001", state: "stopped", time: 0, duration: 282000 });
+
+    const opts = httpGetSpy.mock.calls[0]![0] as http.RequestOptions;
+    expect(opts.path).not.toContain("playQueueItemID");
+  });
+});
+
 // ── Request headers ─────────────────────────────────────────────────
 
 describe("request headers", () => {
@@ -234,6 +578,16 @@ describe("request headers", () => {
     const opts = httpGetSpy.mock.calls[0]![0] as http.RequestOptions;
     expect(opts.timeout).toBe(10_000);
   });
+
+  it("leaves out X-Plex-Token when no token is configured", async () => {
+    mockHttpGet(LIBRARIES_RESPONSE);
+    const client = new PlexApiClient({ ...CONFIG, token: "" });
+
+    await client.getLibraries();
+
+    const opts = httpGetSpy.mock.calls[0]![0] as http.RequestOptions;
+    expect(opts.path).toBe("/library/sections");
+  });
 });
 
 // ── Successful responses ────────────────────────────────────────────
@@ -418,6 +772,150 @@ describe("configuration", () => {
   });
 });
 
+// ── Connection failover ─────────────────────────────────────────────
+
+describe("connection failover", () => {
+  const local = { host: "192.168.1.100", port: 32400, https: false, kind: "local" as const };
+  const remote = { host: "203.0.113.7", port: 32400, https: false, kind: "remote" as const };
+
+  /** Requests to `downHost` fail with a network error; all others answer with the libraries. */
+  function mockHostDown(downHost: string): void {
+    httpGetSpy.mockImplementation((opts: unknown, cb: unknown) => {
+      const req = new EventEmitter() as http.ClientRequest;
+      req.destroy = vi.fn().mockReturnThis();
+      if ((opts as http.RequestOptions).hostname === downHost) {
+        process.nextTick(() => req.emit("error", new Error("EHOSTUNREACH")));
+      } else {
+        (cb as (res: http.IncomingMessage) => void)(createMockResponse(LIBRARIES_RESPONSE));
+      }
+      return req;
+    });
+  }
+
+  it("retries a request on the next reachable address", async () => {
+    mockHostDown(local.host);
+    const connections = new ConnectionManager({ token: CONFIG.token, candidates: [local, remote], probe: async () => {} });
+    const client = new PlexApiClient({ ...CONFIG, connections });
+
+    const result = await client.getLibraries();
+
+    expect(result).toEqual(LIBRARIES_RESPONSE);
+    const hosts = httpGetSpy.mock.calls.map((call: unknown[]) => (call[0] as http.RequestOptions).hostname);
+    expect(hosts).toEqual([local.host, remote.host]);
+    expect(connections.current()).toBe(remote);
+  });
+
+  it("gives up with the connection error when no address is left", async () => {
+    mockHttpGetError(new Error("ECONNREFUSED"));
+    const connections = new ConnectionManager({
+      token: CONFIG.token,
+      candidates: [local, remote],
+      probe: async () => { throw new Error("down"); },
+    });
+    const client = new PlexApiClient({ ...CONFIG, connections });
+
+    await expect(client.getLibraries()).rejects.toThrow(PlexConnectionError);
+    expect(httpGetSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not fail over on API errors", async () => {
+    mockHttpGet(null, 500, "Internal Server Error");
+    const probe = vi.fn(async () => {});
+    const connections = new ConnectionManager({ token: CONFIG.token, candidates: [local, remote], probe });
+    const client = new PlexApiClient({ ...CONFIG, connections });
+
+    await expect(client.getLibraries()).rejects.toThrow(PlexApiError);
+    expect(probe).not.toHaveBeenCalled();
+  });
+});
+
+// ── Response cache ──────────────────────────────────────────────────
+
+describe("response cache", () => {
+  /** Answer /library/sections with the given updatedAt and everything else with the libraries fixture. */
+  function mockServer(updatedAt: () => number): void {
+    httpGetSpy.mockImplementation((opts: unknown, cb: unknown) => {
+      const requestPath = (opts as http.RequestOptions).path ?? "";
+      const body = requestPath.startsWith("/library/sections?")
+        ? { MediaContainer: { size: 1, Directory: [{ key: "1", title: "Music", type: "artist", updatedAt: updatedAt() }] } }
+        : LIBRARIES_RESPONSE;
+      (cb as (res: http.IncomingMessage) => void)(createMockResponse(body));
+      const req = new EventEmitter() as http.ClientRequest;
+      req.destroy = vi.fn().mockReturnThis();
+      return req;
+    });
+  }
+
+  function requestedPaths(): string[] {
+    return httpGetSpy.mock.calls.map((call: unknown[]) => ((call[0] as http.RequestOptions).path ?? "").split("?")[0]!);
+  }
+
+  it("answers repeated GETs from the cache", async () => {
+    mockServer(() => 100);
+    const client = new PlexApiClient({ ...CONFIG, cache: new ResponseCache() });
+
+    await client.getPlaylists();
+    await client.getPlaylists();
+
+    expect(requestedPaths()).toEqual(["/library/sections", "/playlists"]);
+    expect(client.cacheMetrics()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it("checks the token against the server even when sections are cached", async () => {
+    mockServer(() => 100);
+    const client = new PlexApiClient({ ...CONFIG, cache: new ResponseCache() });
+
+    await client.getLibraries();
+    await client.checkToken();
+    await client.checkToken();
+
+    expect(requestedPaths()).toEqual(["/library/sections", "/library/sections", "/library/sections"]);
+  });
+
+  it("never caches play queues", async () => {
+    mockServer(() => 100);
+    const client = new PlexApiClient({ ...CONFIG, cache: new ResponseCache() });
+
+    await client.getPlayQueue("7001", "9001", 10);
+    await client.getPlayQueue("7001", "9001", 10);
+
+    expect(requestedPaths()).toEqual(["/playQueues/7001", "/playQueues/7001"]);
+  });
+
+  it("invalidates when a library section's updatedAt changes", async () => {
+    let updatedAt = 100;
+    let now = 0;
+    mockServer(() => updatedAt);
+    const client = new PlexApiClient({ ...CONFIG, cache: new ResponseCache({ now: () => now }) });
+
+    await client.getPlaylists();
+    updatedAt = 200;
+    now += 60_000;
+    await client.getPlaylists();
+
+    expect(requestedPaths()).toEqual(["/library/sections", "/playlists", "/library/sections", "/playlists"]);
+  });
+
+  it("invalidates after a write", async () => {
+    mockServer(() => 100);
+    const httpRequestSpy = vi.spyOn(http, "request").mockImplementation((_opts: unknown, cb: unknown) => {
+      (cb as (res: http.IncomingMessage) => void)(createMockResponse(""));
+      const req = new EventEmitter() as http.ClientRequest;
+      req.destroy = vi.fn().mockReturnThis();
+      req.end = vi.fn().mockReturnThis();
+      return req;
+    });
+    const client = new PlexApiClient({ ...CONFIG, cache: new ResponseCache() });
+
+    await client.getPlaylists();
+    await client.renamePlaylist("5001", "Road Trip");
+    await client.getPlaylists();
+
+    expect(httpRequestSpy).toHaveBeenCalledOnce();
+    expect(requestedPaths()).toEqual(["/library/sections", "/playlists", "/playlists"]);
+  });
+});
+
 // ── HTTPS support ───────────────────────────────────────────────────
 
 describe("HTTPS support", () => {
@@ -1,7 +1,7 @@
 /**
  * Plex API Client — low-level HTTP communication with a Plex Media Server.
  *
- * Makes authenticated GET requests and returns raw Plex API response shapes
+ * Makes authenticated requests and returns raw Plex API response shapes
  * (defined in src/types/index.ts). All responses are JSON-parsed but not
  * transformed — use the Library Parser for normalized domain types.
  *
@@ -13,12 +13,19 @@ import http from "http";
 import https from "https";
 import os from "os";
 import type { PlexConnection } from "../core/stream-resolver.js";
+import type { ConnectionManager } from "./connection-manager.js";
+import type { ResponseCache, CacheMetrics } from "./response-cache.js";
 import type {
   RawLibraryResponse,
   RawArtistResponse,
   RawAlbumResponse,
   RawTrackResponse,
   RawPlaylistResponse,
+  RawGenreResponse,
+  RawHubResponse,
+  RawIdentityResponse,
+  RawPlayQueueResponse,
+  LibraryFilter,
 } from "../types/index.js";
 
 // ── Error classes ───────────────────────────────────────────────────
@@ -61,13 +68,43 @@ export interface PaginationParams {
   limit: number;
 }
 
+// ── Play queues ─────────────────────────────────────────────────────
+
+/** What to build a play queue from: a `server://` URI or a playlist's ratingKey. */
+export type CreatePlayQueueParams = ({ uri: string } | { playlistId: string }) & {
+  continuous?: boolean;
+  shuffle?: boolean;
+};
+
 // ── Client ──────────────────────────────────────────────────────────
 
+type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
 export interface PlexApiClientOptions extends PlexConnection {
   /** Request timeout in milliseconds. Default: 10 000 */
   timeoutMs?: number;
   /** Friendly device name shown in the Plex dashboard. Default: OS hostname. */
   deviceName?: string;
+  /**
+   * When set, requests go to the manager's active address instead of
+   * host/port/https, and fail over to the next reachable one on connection errors.
+   */
+  connections?: ConnectionManager;
+  /** When set, GET responses are served from and stored in this cache. */
+  cache?: ResponseCache;
+}
+
+/**
+ * Furthest sonic distance (0 = identical) at which items still count as
+ * similar — the cut-off Plexamp uses for its "Sonically Similar" lists.
+ */
+const SONIC_MAX_DISTANCE = 0.25;
+
+/** Where a single request is sent. */
+interface Endpoint {
+  host: string;
+  port: number;
+  https: boolean;
 }
 
 export class PlexApiClient {
@@ -77,6 +114,8 @@ export class PlexApiClient {
   private readonly https: boolean;
   private readonly timeoutMs: number;
   private readonly deviceName: string;
+  private readonly connections: ConnectionManager | null;
+  private readonly cache: ResponseCache | null;
 
   constructor(options: PlexApiClientOptions) {
     this.host = options.host;
@@ -85,6 +124,8 @@ export class PlexApiClient {
     this.https = options.https ?? false;
     this.timeoutMs = options.timeoutMs ?? 10_000;
     this.deviceName = options.deviceName ?? os.hostname();
+    this.connections = options.connections ?? null;
+    this.cache = options.cache ?? null;
   }
 
   /** Fetch all library sections. */
@@ -93,24 +134,80 @@ export class PlexApiClient {
   }
 
   /** Fetch artists for a library section (type=8 requests artist-level items). */
-  async getArtists(libraryKey: string, pagination?: PaginationParams, sort?: string): Promise<RawArtistResponse> {
+  async getArtists(libraryKey: string, pagination?: PaginationParams, sort?: string, filters?: LibraryFilter[]): Promise<RawArtistResponse> {
     const paginationQuery = pagination
       ? `&X-Plex-Container-Start=${pagination.offset}&X-Plex-Container-Size=${pagination.limit}`
       : "";
     const sortQuery = sort ? `&sort=${encodeURIComponent(sort)}` : "";
     return this.request<RawArtistResponse>(
-      `/library/sections/${encodeURIComponent(libraryKey)}/all?type=8${paginationQuery}${sortQuery}`,
+      `/library/sections/${encodeURIComponent(libraryKey)}/all?type=8${filterQuery(filters)}${paginationQuery}${sortQuery}`,
     );
   }
 
   /** Fetch albums for a library section (type=9 requests album-level items). */
-  async getAlbums(libraryKey: string, pagination?: PaginationParams, sort?: string): Promise<RawAlbumResponse> {
+  async getAlbums(libraryKey: string, pagination?: PaginationParams, sort?: string, filters?: LibraryFilter[]): Promise<RawAlbumResponse> {
     const paginationQuery = pagination
       ? `&X-Plex-Container-Start=${pagination.offset}&X-Plex-Container-Size=${pagination.limit}`
       : "";
     const sortQuery = sort ? `&sort=${encodeURIComponent(sort)}` : "";
     return this.request<RawAlbumResponse>(
-      `/library/sections/${encodeURIComponent(libraryKey)}/all?type=9${paginationQuery}${sortQuery}`,
+      `/library/sections/${encodeURIComponent(libraryKey)}/all?type=9${filterQuery(filters)}${paginationQuery}${sortQuery}`,
+    );
+  }
+
+  /** Fetch tracks for a library section (type=10 requests track-level items). */
+  async getLibraryTracks(
+    libraryKey: string,
+    pagination?: PaginationParams,
+    sort?: string,
+    filters?: LibraryFilter[],
+  ): Promise<RawTrackResponse> {
+    const paginationQuery = pagination
+      ? `&X-Plex-Container-Start=${pagination.offset}&X-Plex-Container-Size=${pagination.limit}`
+      : "";
+    const sortQuery = sort ? `&sort=${encodeURIComponent(sort)}` : "";
+    return this.request<RawTrackResponse>(
+      `/library/sections/${encodeURIComponent(libraryKey)}/all?type=10${filterQuery(filters)}${paginationQuery}${sortQuery}`,
+    );
+  }
+
+  /** Fetch the genre tags of a library section. */
+  async getGenres(libraryKey: string): Promise<RawGenreResponse> {
+    return this.request<RawGenreResponse>(
+      `/library/sections/${encodeURIComponent(libraryKey)}/genre`,
+    );
+  }
+
+  /** Fetch artists tagged with a genre in a library section. */
+  async getGenreArtists(libraryKey: string, genreId: string, pagination?: PaginationParams): Promise<RawArtistResponse> {
+    const paginationQuery = pagination
+      ? `&X-Plex-Container-Start=${pagination.offset}&X-Plex-Container-Size=${pagination.limit}`
+      : "";
+    const enc = encodeURIComponent;
+    return this.request<RawArtistResponse>(
+      `/library/sections/${enc(libraryKey)}/all?type=8&genre=${enc(genreId)}${paginationQuery}`,
+    );
+  }
+
+  /** Fetch albums tagged with a genre in a library section. */
+  async getGenreAlbums(libraryKey: string, genreId: string, pagination?: PaginationParams): Promise<RawAlbumResponse> {
+    const paginationQuery = pagination
+      ? `&X-Plex-Container-Start=${pagination.offset}&X-Plex-Container-Size=${pagination.limit}`
+      : "";
+    const enc = encodeURIComponent;
+    return this.request<RawAlbumResponse>(
+      `/library/sections/${enc(libraryKey)}/all?type=9&genre=${enc(genreId)}${paginationQuery}`,
+    );
+  }
+
+  /**
+   * Fetch every track in a genre. Plex tags genres on albums rather than on
+   * individual tracks, so tracks are filtered through their album's genre.
+   */
+  async getGenreTracks(libraryKey: string, genreId: string): Promise<RawTrackResponse> {
+    const enc = encodeURIComponent;
+    return this.request<RawTrackResponse>(
+      `/library/sections/${enc(libraryKey)}/all?type=10&album.genre=${enc(genreId)}`,
     );
   }
 
@@ -124,6 +221,37 @@ export class PlexApiClient {
     return this.request<RawAlbumResponse>(artistKey);
   }
 
+  /** Fetch every track of an artist, across all their albums. */
+  async getArtistTracks(artistId: string): Promise<RawTrackResponse> {
+    return this.request<RawTrackResponse>(
+      `/library/metadata/${encodeURIComponent(artistId)}/allLeaves`,
+    );
+  }
+
+  /** Fetch the artists Plex lists as similar to an artist, most similar first. */
+  async getSimilarArtists(artistId: string, count: number): Promise<RawArtistResponse> {
+    return this.request<RawArtistResponse>(
+      `/library/metadata/${encodeURIComponent(artistId)}/similar?X-Plex-Container-Start=0&X-Plex-Container-Size=${count}`,
+    );
+  }
+
+  /**
+   * Fetch the sonically closest tracks to a track, closest first. Needs
+   * Plex's sonic analysis; tracks without it have no neighbours.
+   */
+  async getNearestTracks(trackId: string, count: number): Promise<RawTrackResponse> {
+    return this.request<RawTrackResponse>(
+      `/library/metadata/${encodeURIComponent(trackId)}/nearest?limit=${count}&maxDistance=${SONIC_MAX_DISTANCE}`,
+    );
+  }
+
+  /** Fetch the sonically closest albums to an album, closest first. Needs Plex's sonic analysis. */
+  async getNearestAlbums(albumId: string, count: number): Promise<RawAlbumResponse> {
+    return this.request<RawAlbumResponse>(
+      `/library/metadata/${encodeURIComponent(albumId)}/nearest?limit=${count}&maxDistance=${SONIC_MAX_DISTANCE}`,
+    );
+  }
+
   /** Fetch popular tracks for an artist by querying the library section with rating-based sorting. */
   async getPopularTracks(artistId: string): Promise<RawTrackResponse> {
     // First, get the artist metadata to find which library section they belong to
@@ -141,6 +269,33 @@ export class PlexApiClient {
     );
   }
 
+  /** Fetch the rated tracks of a library section, highest rated first. */
+  async getRatedTracks(libraryKey: string, limit: number): Promise<RawTrackResponse> {
+    // `userRating>>=0` is Plex's "greater than 0" filter — unrated tracks have no rating at all.
+    return this.request<RawTrackResponse>(
+      `/library/sections/${encodeURIComponent(libraryKey)}/all?type=10&userRating>>=0&sort=userRating:desc` +
+        `&X-Plex-Container-Start=0&X-Plex-Container-Size=${limit}`,
+    );
+  }
+
+  /** Fetch the hubs (Recently Added, Recently Played, ...) of a library section. */
+  async getHubs(libraryKey: string, count?: number): Promise<RawHubResponse> {
+    const countQuery = count !== undefined ? `?count=${count}` : "";
+    return this.request<RawHubResponse>(
+      `/hubs/sections/${encodeURIComponent(libraryKey)}${countQuery}`,
+    );
+  }
+
+  /** Fetch partially played items ("On Deck") of a library section. */
+  async getOnDeck(libraryKey: string, count?: number): Promise<RawTrackResponse> {
+    const countQuery = count !== undefined
+      ? `?X-Plex-Container-Start=0&X-Plex-Container-Size=${count}`
+      : "";
+    return this.request<RawTrackResponse>(
+      `/library/sections/${encodeURIComponent(libraryKey)}/onDeck${countQuery}`,
+    );
+  }
+
   /** Fetch all playlists on the server. */
   async getPlaylists(): Promise<RawPlaylistResponse> {
     return this.request<RawPlaylistResponse>("/playlists");
@@ -154,13 +309,66 @@ export class PlexApiClient {
     return this.request<RawTrackResponse>(`${itemsKey}${paginationQuery}`);
   }
 
-  /** Fetch metadata for a single track by its ratingKey. */
+  /** Create an audio playlist holding the items of a `server://` URI. */
+  async createPlaylist(title: string, uri: string): Promise<RawPlaylistResponse> {
+    const enc = encodeURIComponent;
+    return this.request<RawPlaylistResponse>(
+      `/playlists?type=audio&smart=0&title=${enc(title)}&uri=${enc(uri)}`,
+      "POST",
+    );
+  }
+
+  /** Append the items of a `server://` URI to a playlist. */
+  async addToPlaylist(playlistId: string, uri: string): Promise<void> {
+    const enc = encodeURIComponent;
+    return this.execute(`/playlists/${enc(playlistId)}/items?uri=${enc(uri)}`, "PUT");
+  }
+
+  /** Remove an entry from a playlist by its playlistItemID. */
+  async removeFromPlaylist(playlistId: string, playlistItemId: string): Promise<void> {
+    const enc = encodeURIComponent;
+    return this.execute(`/playlists/${enc(playlistId)}/items/${enc(playlistItemId)}`, "DELETE");
+  }
+
+  /** Move a playlist entry after `afterItemId`, or to the top when omitted. */
+  async movePlaylistItem(playlistId: string, playlistItemId: string, afterItemId?: string): Promise<void> {
+    const enc = encodeURIComponent;
+    const afterQuery = afterItemId !== undefined ? `?after=${enc(afterItemId)}` : "";
+    return this.execute(`/playlists/${enc(playlistId)}/items/${enc(playlistItemId)}/move${afterQuery}`, "PUT");
+  }
+
+  /** Rename a playlist. */
+  async renamePlaylist(playlistId: string, title: string): Promise<void> {
+    const enc = encodeURIComponent;
+    return this.execute(`/playlists/${enc(playlistId)}?title=${enc(title)}`, "PUT");
+  }
+
+  /** Delete a playlist. */
+  async deletePlaylist(playlistId: string): Promise<void> {
+    return this.execute(`/playlists/${encodeURIComponent(playlistId)}`, "DELETE");
+  }
+
+  /** Fetch metadata for a single track by its ratingKey, chapter markers included. */
   async getTrackMetadata(trackId: string): Promise<RawTrackResponse> {
     return this.request<RawTrackResponse>(
-      `/library/metadata/${encodeURIComponent(trackId)}`,
+      `/library/metadata/${encodeURIComponent(trackId)}?includeChapters=1`,
     );
   }
 
+  /**
+   * Fetch a track's metadata past the cache, for fields that change with
+   * every timeline report (viewOffset).
+   */
+  async getLiveTrackMetadata(trackId: string): Promise<RawTrackResponse> {
+    const body = await this.send("GET", `/library/metadata/${encodeURIComponent(trackId)}?includeChapters=1`, { Accept: "application/json" });
+    return parseJson<RawTrackResponse>(body);
+  }
+
+  /** Fetch the raw contents of a sidecar stream. `streamKey` is the full path from LyricsStream.key. */
+  async getStreamText(streamKey: string): Promise<string> {
+    return this.send("GET", streamKey, { Accept: "text/plain" });
+  }
+
   /** Search for tracks matching a query (type=10). */
   async searchTracks(query: string): Promise<RawTrackResponse> {
     return this.request<RawTrackResponse>(
@@ -182,6 +390,116 @@ export class PlexApiClient {
     );
   }
 
+  /**
+   * Drop cached responses — every one (e.g. for a manual library refresh),
+   * or only the request paths matching `predicate`. No-op without a cache.
+   */
+  clearCache(predicate?: (path: string) => boolean): void {
+    this.cache?.invalidate(predicate);
+  }
+
+  /** Hit/miss counters of the response cache, or null without a cache. */
+  cacheMetrics(): CacheMetrics | null {
+    return this.cache?.metrics() ?? null;
+  }
+
+  /**
+   * Check that the server accepts the token. Always goes to the server, never
+   * the cache; rejects with PlexAuthError when the token is refused.
+   */
+  async checkToken(): Promise<void> {
+    await this.send("GET", "/library/sections", { Accept: "application/json" });
+  }
+
+  /** Fetch the server identity (machineIdentifier). */
+  async getIdentity(): Promise<RawIdentityResponse> {
+    return this.request<RawIdentityResponse>("/identity");
+  }
+
+  /**
+   * Create a server-side audio play queue from a `server://` URI or a playlist.
+   * `continuous` asks Plex to keep generating items (used for stations);
+   * `shuffle` has Plex shuffle the queue as it is created.
+   */
+  async createPlayQueue(params: CreatePlayQueueParams): Promise<RawPlayQueueResponse> {
+    const sourceQuery = "playlistId" in params
+      ? `playlistID=${encodeURIComponent(params.playlistId)}`
+      : `uri=${encodeURIComponent(params.uri)}`;
+    const continuousQuery = params.continuous ? "&continuous=1" : "";
+    const shuffleQuery = params.shuffle ? "&shuffle=1" : "";
+    return this.request<RawPlayQueueResponse>(
+      `/playQueues?type=audio&${sourceQuery}${continuousQuery}${shuffleQuery}`,
+      "POST",
+    );
+  }
+
+  /**
+   * Fetch a window of a play queue: up to `window` items following the
+   * entry `center` (exclusive). Continuous queues grow when read past the end.
+   */
+  async getPlayQueue(playQueueId: string, center: string, window: number): Promise<RawPlayQueueResponse> {
+    const enc = encodeURIComponent;
+    return this.request<RawPlayQueueResponse>(
+      `/playQueues/${enc(playQueueId)}?center=${enc(center)}&window=${window}&includeBefore=0`,
+    );
+  }
+
+  /**
+   * Fetch an existing play queue, e.g. one a Plex app handed to this player,
+   * taking ownership of it (`own=1`). Plex returns a window around the
+   * selected entry.
+   */
+  async openPlayQueue(playQueueId: string, window: number): Promise<RawPlayQueueResponse> {
+    return this.request<RawPlayQueueResponse>(
+      `/playQueues/${encodeURIComponent(playQueueId)}?own=1&window=${window}`,
+    );
+  }
+
+  /** Append the items of a `server://` URI to a play queue, or insert them after the current entry when `next` is set. */
+  async addToPlayQueue(playQueueId: string, uri: string, next = false): Promise<RawPlayQueueResponse> {
+    const enc = encodeURIComponent;
+    const nextQuery = next ? "&next=1" : "";
+    return this.request<RawPlayQueueResponse>(
+      `/playQueues/${enc(playQueueId)}?uri=${enc(uri)}${nextQuery}`,
+      "PUT",
+    );
+  }
+
+  /** Move a play queue entry after `afterItemId`, or to the front when omitted. */
+  async movePlayQueueItem(playQueueId: string, itemId: string, afterItemId?: string): Promise<RawPlayQueueResponse> {
+    const enc = encodeURIComponent;
+    const afterQuery = afterItemId !== undefined ? `?after=${enc(afterItemId)}` : "";
+    return this.request<RawPlayQueueResponse>(
+      `/playQueues/${enc(playQueueId)}/items/${enc(itemId)}/move${afterQuery}`,
+      "PUT",
+    );
+  }
+
+  /** Remove an entry from a play queue. */
+  async removePlayQueueItem(playQueueId: string, itemId: string): Promise<RawPlayQueueResponse> {
+    const enc = encodeURIComponent;
+    return this.request<RawPlayQueueResponse>(
+      `/playQueues/${enc(playQueueId)}/items/${enc(itemId)}`,
+      "DELETE",
+    );
+  }
+
+  /** Shuffle the entries of a play queue that follow the selected one. */
+  async shufflePlayQueue(playQueueId: string): Promise<RawPlayQueueResponse> {
+    return this.request<RawPlayQueueResponse>(
+      `/playQueues/${encodeURIComponent(playQueueId)}/shuffle`,
+      "PUT",
+    );
+  }
+
+  /** Set a user rating on Plex's 0–10 scale; -1 clears the rating. */
+  async rate(ratingKey: string, rating: number): Promise<void> {
+    return this.execute(
+      `/:/rate?key=${encodeURIComponent(ratingKey)}&identifier=com.plexapp.plugins.library&rating=${rating}`,
+      "PUT",
+    );
+  }
+
   /**
    * Report current playback state to the Plex server.
    * Returns a Promise that rejects on network error or non-2xx response.
@@ -193,8 +511,10 @@ export class PlexApiClient {
     state: "playing" | "paused" | "stopped";
     time: number;
     duration: number;
+    /** Play queue the track was queued from, so other clients can follow along. */
+    playQueue?: { id: string; itemId: string };
   }): Promise<void> {
-    const { ratingKey, state, time, duration } = params;
+    const { ratingKey, state, time, duration, playQueue } = params;
     const enc = encodeURIComponent;
     const path =
       `/:/timeline?ratingKey=${enc(ratingKey)}` +
@@ -202,112 +522,177 @@ export class PlexApiClient {
       `&state=${enc(state)}` +
       `&time=${Math.round(time)}` +
       `&duration=${Math.round(duration)}` +
-      `&identifier=com.plexapp.plugins.library`;
+      `&identifier=com.plexapp.plugins.library` +
+      (playQueue
+        ? `&containerKey=${enc(`/playQueues/${playQueue.id}`)}&playQueueItemID=${enc(playQueue.itemId)}`
+        : "");
     return this.fireAndForget(path);
   }
 
   // ── Internal ────────────────────────────────────────────────────
 
-  /** Make a GET request and discard the response body. Rejects on network error or non-2xx. */
-  private fireAndForget(path: string): Promise<void> {
-    const separator = path.includes("?") ? "&" : "?";
-    const fullPath = `${path}${separator}X-Plex-Token=${encodeURIComponent(this.token)}`;
-    const httpModule = this.https ? https : http;
-    return new Promise<void>((resolve, reject) => {
-      const req = httpModule.get(
-        {
-          hostname: this.host,
-          port: this.port,
-          path: fullPath,
-          headers: {
-            "X-Plex-Product": "Volumio",
-            "X-Plex-Version": "1.0",
-            "X-Plex-Platform": "Volumio",
-            "X-Plex-Device-Name": this.deviceName,
-            "X-Plex-Client-Identifier": `volumio-plex-${this.deviceName}`,
-          },
-          timeout: this.timeoutMs,
-        },
-        (res) => {
-          res.resume();
-          const statusCode = res.statusCode ?? 0;
-          if (statusCode < 200 || statusCode >= 300) {
-            reject(new Error(`HTTP ${statusCode}`));
-          } else {
-            resolve();
-          }
-        },
-      );
-      req.on("error", reject);
-      req.on("timeout", () => { req.destroy(); reject(new Error("timeout")); });
+  /**
+   * Make a request identified as this Volumio device and discard the response body.
+   * Rejects on network error or non-2xx — used where Plex attributes the call to a player.
+   */
+  private async fireAndForget(path: string): Promise<void> {
+    await this.send("GET", path, {
+      "X-Plex-Product": "Volumio",
+      "X-Plex-Version": "1.0",
+      "X-Plex-Platform": "Volumio",
+      "X-Plex-Device-Name": this.deviceName,
+      "X-Plex-Client-Identifier": `volumio-plex-${this.deviceName}`,
     });
   }
 
-  private request<T>(path: string): Promise<T> {
+  /** Make a request whose response body is not needed (Plex answers some writes with an empty body). */
+  private async execute(path: string, method: HttpMethod): Promise<void> {
+    await this.send(method, path, { Accept: "application/json" });
+    this.invalidateAfterWrite(path);
+  }
+
+  /**
+   * Make a request and parse the JSON response body. Cacheable GETs are
+   * answered from the cache when possible; writes invalidate it.
+   */
+  private async request<T>(path: string, method: HttpMethod = "GET"): Promise<T> {
+    const body = method === "GET" && this.cache?.ttlFor(path) != null
+      ? await this.cachedGet(this.cache, path)
+      : await this.send(method, path, { Accept: "application/json" });
+    if (method !== "GET") this.invalidateAfterWrite(path);
+    return parseJson<T>(body);
+  }
+
+  /**
+   * A write can change what earlier responses showed, so it clears the cache.
+   * Play queue calls are the exception — they never touch the library.
+   */
+  private invalidateAfterWrite(path: string): void {
+    if (!path.startsWith("/playQueues")) this.cache?.invalidate();
+  }
+
+  private async cachedGet(cache: ResponseCache, path: string): Promise<string> {
+    if (cache.versionCheckDue()) {
+      await this.checkLibraryVersion(cache);
+    }
+    const cached = cache.get(path);
+    if (cached !== undefined) return cached;
+    const body = await this.send("GET", path, { Accept: "application/json" });
+    cache.set(path, body);
+    return body;
+  }
+
+  /**
+   * Fetch the library sections and let the cache compare their `updatedAt`
+   * with the last known values, clearing it when the library changed. A
+   * failed check is skipped — the request that triggered it reports errors.
+   */
+  private async checkLibraryVersion(cache: ResponseCache): Promise<void> {
+    let body: string;
+    let directories: RawLibraryResponse["MediaContainer"]["Directory"];
+    try {
+      body = await this.send("GET", "/library/sections", { Accept: "application/json" });
+      directories = parseJson<RawLibraryResponse>(body).MediaContainer.Directory ?? [];
+    } catch {
+      return;
+    }
+    cache.noteLibraryVersion(directories.map((dir) => `${dir.key}:${dir.updatedAt ?? ""}`).join(","));
+    cache.set("/library/sections", body);
+  }
+
+  /**
+   * Send an authenticated request and resolve with the response body. With a
+   * connection manager, a request that cannot reach the server is retried on
+   * each address the manager fails over to, trying every address at most once.
+   */
+  private async send(method: HttpMethod, path: string, headers: http.OutgoingHttpHeaders): Promise<string> {
+    if (!this.connections) {
+      return this.sendTo({ host: this.host, port: this.port, https: this.https }, method, path, headers);
+    }
+    let candidate = this.connections.current();
+    const tried = new Set([candidate]);
+    for (;;) {
+      try {
+        return await this.sendTo(candidate, method, path, headers);
+      } catch (error: unknown) {
+        if (!(error instanceof PlexConnectionError)) throw error;
+        const next = await this.connections.failover(candidate);
+        if (!next || tried.has(next)) throw error;
+        tried.add(next);
+        candidate = next;
+      }
+    }
+  }
+
+  /**
+   * Send an authenticated request to one address and resolve with the response body.
+   * Plex takes all parameters in the query string, so non-GET requests
+   * are sent with an empty body. Without a token (a server that allows
+   * token-less access on its local network) the parameter is left out.
+   */
+  private sendTo(endpoint: Endpoint, method: HttpMethod, path: string, headers: http.OutgoingHttpHeaders): Promise<string> {
     const separator = path.includes("?") ? "&" : "?";
-    const fullPath = `${path}${separator}X-Plex-Token=${encodeURIComponent(this.token)}`;
-
-    return new Promise<T>((resolve, reject) => {
-      const httpModule = this.https ? https : http;
-      const req = httpModule.get(
-        {
-          hostname: this.host,
-          port: this.port,
-          path: fullPath,
-          headers: { Accept: "application/json" },
-          timeout: this.timeoutMs,
-        },
-        (res) => {
-          const statusCode = res.statusCode ?? 0;
-
-          if (statusCode === 401) {
-            res.resume(); // drain the response
-            reject(new PlexAuthError());
-            return;
-          }
-
-          if (statusCode < 200 || statusCode >= 300) {
-            res.resume();
-            reject(
-              new PlexApiError(
-                `Plex API error: ${statusCode} ${res.statusMessage ?? ""}`.trim(),
-                statusCode,
-              ),
-            );
-            return;
-          }
-
-          const chunks: Buffer[] = [];
-          res.on("data", (chunk: Buffer) => chunks.push(chunk));
-          res.on("end", () => {
-            const body = Buffer.concat(chunks).toString("utf-8");
-            try {
-              resolve(JSON.parse(body) as T);
-            } catch (error: unknown) {
-              reject(
-                new PlexConnectionError(
-                  "Failed to parse Plex API response as JSON",
-                  error,
-                ),
-              );
-            }
-          });
-          res.on("error", (error: Error) => {
-            reject(
-              new PlexConnectionError(
-                `Failed to connect to Plex server at ${this.host}:${this.port}`,
-                error,
-              ),
-            );
-          });
-        },
-      );
+    const fullPath = this.token ? `${path}${separator}X-Plex-Token=${encodeURIComponent(this.token)}` : path;
+    const { host, port } = endpoint;
+
+    return new Promise<string>((resolve, reject) => {
+      const httpModule = endpoint.https ? https : http;
+      const options: http.RequestOptions = {
+        hostname: host,
+        port,
+        path: fullPath,
+        headers,
+        timeout: this.timeoutMs,
+      };
+      const onResponse = (res: http.IncomingMessage) => {
+        const statusCode = res.statusCode ?? 0;
+
+        if (statusCode === 401) {
+          res.resume(); // drain the response
+          reject(new PlexAuthError());
+          return;
+        }
+
+        if (statusCode < 200 || statusCode >= 300) {
+          res.resume();
+          reject(
+            new PlexApiError(
+              `Plex API error: ${statusCode} ${res.statusMessage ?? ""}`.trim(),
+              statusCode,
+            ),
+          );
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+        res.on("error", (error: Error) => {
+          reject(
+            new PlexConnectionError(
+              `Failed to connect to Plex server at ${host}:${port}`,
+              error,
+            ),
+          );
+        });
+      };
+
+      let req: http.ClientRequest;
+      if (method === "GET") {
+        req = httpModule.get(options, onResponse);
+      } else {
+        req = httpModule.request(
+          { ...options, method, headers: { ...headers, "Content-Length": "0" } },
+          onResponse,
+        );
+        req.end();
+      }
 
       req.on("timeout", () => {
         req.destroy();
         reject(
           new PlexConnectionError(
-            `Request to Plex server at ${this.host}:${this.port} timed out after ${this.timeoutMs}ms`,
+            `Request to Plex server at ${host}:${port} timed out after ${this.timeoutMs}ms`,
           ),
         );
       });
@@ -315,7 +700,7 @@ export class PlexApiClient {
       req.on("error", (error: Error) => {
         reject(
           new PlexConnectionError(
-            `Failed to connect to Plex server at ${this.host}:${this.port}`,
+            `Failed to connect to Plex server at ${host}:${port}`,
             error,
           ),
         );
@@ -323,3 +708,35 @@ export class PlexApiClient {
     });
   }
 }
+
+/**
+ * Plex's filter syntax puts the comparison in the parameter name: `year>>=1989`
+ * means year > 1989, `genre!=12` excludes a genre. Plex has no inclusive
+ * numeric comparisons, so >= and <= shift the bound by one.
+ */
+function filterQuery(filters: LibraryFilter[] | undefined): string {
+  return (filters ?? []).map(({ field, operator, value }) => {
+    if (operator === null || value === null) return `&${encodeURIComponent(field)}=1`;
+    let key = field;
+    let bound = value;
+    if (operator === "!=") key = `${field}!`;
+    else if (operator === ">" || operator === ">=") key = `${field}>>`;
+    else if (operator === "<" || operator === "<=") key = `${field}<<`;
+    if (operator === ">=" || operator === "<=") {
+      const number = Number(value);
+      if (value.trim() === "" || !Number.isFinite(number)) {
+        throw new Error(`Filter ${field}${operator} needs a number, got "${value}"`);
+      }
+      bound = String(operator === ">=" ? number - 1 : number + 1);
+    }
+    return `&${encodeURIComponent(key)}=${encodeURIComponent(bound)}`;
+  }).join("");
+}
+
+function parseJson<T>(body: string): T {
+  try {
+    return JSON.parse(body) as T;
+  } catch (error: unknown) {
+    throw new PlexConnectionError("Failed to parse Plex API response as JSON", error);
+  }
+}
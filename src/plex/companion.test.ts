@@ -0,0 +1,263 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import http from "http";
+import dgram from "dgram";
+import type { AddressInfo } from "net";
+import { PlexCompanionServer, timelineXml } from "./companion.js";
+import type { CompanionPlayer, PlayerTimeline } from "./companion.js";
+import { GdmAdvertiser } from "./gdm.js";
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+const stopped: PlayerTimeline = {
+  state: "stopped", timeMs: 0, durationMs: 0, ratingKey: null,
+  playQueueId: null, playQueueItemId: null, server: null,
+  volume: 100, shuffle: false, repeat: 0,
+};
+
+const playing: PlayerTimeline = {
+  state: "playing", timeMs: 12_345.6, durationMs: 282_000, ratingKey: "2001",
+  playQueueId: "7001", playQueueItemId: "9001",
+  server: { machineIdentifier: "abc123", host: "192.168.1.100", port: 32400, protocol: "http" },
+  volume: 80, shuffle: true, repeat: 2,
+};
+
+function createMockPlayer(timeline: PlayerTimeline = stopped) {
+  return {
+    playMedia: vi.fn().mockResolvedValue(undefined),
+    play: vi.fn().mockResolvedValue(undefined),
+    pause: vi.fn().mockResolvedValue(undefined),
+    stop: vi.fn().mockResolvedValue(undefined),
+    skipNext: vi.fn().mockResolvedValue(undefined),
+    skipPrevious: vi.fn().mockResolvedValue(undefined),
+    seekTo: vi.fn().mockResolvedValue(undefined),
+    setParameters: vi.fn().mockResolvedValue(undefined),
+    timeline: vi.fn<() => Promise<PlayerTimeline>>().mockResolvedValue(timeline),
+  } satisfies CompanionPlayer;
+}
+
+function get(port: number, path: string, headers: http.OutgoingHttpHeaders = {}): Promise<{ status: number; body: string; headers: http.IncomingHttpHeaders }> {
+  return new Promise((resolve, reject) => {
+    http.get({ host: "127.0.0.1", port, path, headers }, (res) => {
+      let body = "";
+      res.setEncoding("utf-8");
+      res.on("data", (chunk: string) => { body += chunk; });
+      res.on("end", () => resolve({ status: res.statusCode ?? 0, body, headers: res.headers }));
+    }).on("error", reject);
+  });
+}
+
+// ── Companion HTTP server ───────────────────────────────────────────
+
+describe("PlexCompanionServer", () => {
+  let player: ReturnType<typeof createMockPlayer>;
+  let server: PlexCompanionServer;
+  let port: number;
+
+  beforeEach(async () => {
+    player = createMockPlayer();
+    await new Promise<void>((resolve) => {
+      server = new PlexCompanionServer({
+        clientIdentifier: "volumio-1",
+        deviceName: "Living Room",
+        player,
+        port: 0,
+        serverHosts: ["192.168.1.100"],
+        onListening: (bound) => { port = bound; resolve(); },
+      });
+      server.start();
+    });
+  });
+
+  afterEach(() => {
+    server.stop();
+  });
+
+  it("describes the player on /resources", async () => {
+    const res = await get(port, "/resources");
+
+    expect(res.status).toBe(200);
+    expect(res.headers["x-plex-client-identifier"]).toBe("volumio-1");
+    expect(res.headers["access-control-allow-origin"]).toBeUndefined();
+    expect(res.body).toContain('<Player title="Living Room" machineIdentifier="volumio-1"');
+    expect(res.body).toContain('protocolCapabilities="timeline,playback"');
+  });
+
+  it("allows Plex web apps cross-origin and refuses other web pages", async () => {
+    const plexWeb = await get(port, "/resources", { Origin: "https://app.plex.tv" });
+    expect(plexWeb.status).toBe(200);
+    expect(plexWeb.headers["access-control-allow-origin"]).toBe("https://app.plex.tv");
+
+    const other = await get(port, "/player/playback/pause", { Origin: "https://example.com" });
+    expect(other.status).toBe(403);
+    expect(other.headers["access-control-allow-origin"]).toBeUndefined();
+    expect(player.pause).not.toHaveBeenCalled();
+  });
+
+  it("allows Plex Web of a known server and refuses other hosts on the server port", async () => {
+    const serverWeb = await get(port, "/resources", { Origin: "http://192.168.1.100:32400" });
+    expect(serverWeb.status).toBe(200);
+    expect(serverWeb.headers["access-control-allow-origin"]).toBe("http://192.168.1.100:32400");
+
+    const attacker = await get(port, "/player/playback/pause", { Origin: "http://attacker.example:32400" });
+    expect(attacker.status).toBe(403);
+    expect(attacker.headers["access-control-allow-origin"]).toBeUndefined();
+    expect(player.pause).not.toHaveBeenCalled();
+  });
+
+  it("refuses plex.tv origins that aren't served over https", async () => {
+    const res = await get(port, "/player/playback/pause", { Origin: "http://app.plex.tv" });
+
+    expect(res.status).toBe(403);
+    expect(player.pause).not.toHaveBeenCalled();
+  });
+
+  it("passes playMedia to the player", async () => {
+    const query = "key=%2Flibrary%2Fmetadata%2F2001&containerKey=%2FplayQueues%2F7001%3Fown%3D1" +
+      "&machineIdentifier=abc123&offset=5000&commandID=3";
+    const res = await get(port, `/player/playback/playMedia?${query}`);
+
+    expect(res.status).toBe(200);
+    expect(player.playMedia).toHaveBeenCalledWith({
+      key: "/library/metadata/2001",
+      containerKey: "/playQueues/7001?own=1",
+      machineIdentifier: "abc123",
+      offsetMs: 5000,
+    });
+  });
+
+  it("maps transport commands and parameters to the player", async () => {
+    await get(port, "/player/playback/pause");
+    await get(port, "/player/playback/play");
+    await get(port, "/player/playback/skipNext");
+    await get(port, "/player/playback/skipPrevious");
+    await get(port, "/player/playback/seekTo?offset=60000");
+    await get(port, "/player/playback/setParameters?volume=150&shuffle=0&repeat=1");
+    await get(port, "/player/playback/stop");
+
+    expect(player.pause).toHaveBeenCalledOnce();
+    expect(player.play).toHaveBeenCalledOnce();
+    expect(player.skipNext).toHaveBeenCalledOnce();
+    expect(player.skipPrevious).toHaveBeenCalledOnce();
+    expect(player.seekTo).toHaveBeenCalledWith(60_000);
+    expect(player.setParameters).toHaveBeenCalledWith({ volume: 100, shuffle: false, repeat: 1 });
+    expect(player.stop).toHaveBeenCalledOnce();
+  });
+
+  it("answers 500 when the player rejects a command and 404 for unknown ones", async () => {
+    player.playMedia.mockRejectedValue(new Error("Unknown Plex server: elsewhere"));
+
+    const failed = await get(port, "/player/playback/playMedia?key=%2Flibrary%2Fmetadata%2F1");
+    expect(failed.status).toBe(500);
+    expect(failed.body).toContain('status="Unknown Plex server: elsewhere"');
+    expect((await get(port, "/player/playback/eject")).status).toBe(404);
+  });
+
+  it("holds a waiting poll until the timeline changes and echoes the commandID", async () => {
+    player.timeline.mockResolvedValue(playing);
+    const poll = get(port, "/player/timeline/poll?wait=1&commandID=7", { "X-Plex-Client-Identifier": "web-1" });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    server.notifyTimelineChanged();
+    const res = await poll;
+
+    expect(res.body).toContain('commandID="7"');
+    expect(res.body).toContain('state="playing"');
+  });
+
+  it("POSTs timelines to subscribed controllers", async () => {
+    const received: Array<{ path: string; body: string; client: string | undefined }> = [];
+    const controller = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk: Buffer) => { body += chunk.toString(); });
+      req.on("end", () => {
+        received.push({ path: req.url ?? "", body, client: req.headers["x-plex-client-identifier"] as string | undefined });
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => controller.listen(0, "127.0.0.1", resolve));
+    const controllerPort = (controller.address() as AddressInfo).port;
+
+    try {
+      const res = await get(port, `/player/timeline/subscribe?protocol=http&port=${controllerPort}&commandID=1`, {
+        "X-Plex-Client-Identifier": "plexamp-1",
+      });
+      expect(res.status).toBe(200);
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+
+      expect(received[0]!.path).toBe("/:/timeline");
+      expect(received[0]!.client).toBe("volumio-1");
+      expect(received[0]!.body).toContain('commandID="1"');
+      expect(received[0]!.body).toContain('<Timeline type="music"');
+
+      await get(port, "/player/timeline/unsubscribe", { "X-Plex-Client-Identifier": "plexamp-1" });
+      server.notifyTimelineChanged();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(received).toHaveLength(1);
+    } finally {
+      await new Promise((resolve) => controller.close(resolve));
+    }
+  });
+
+  it("rejects subscriptions without a client identifier", async () => {
+    expect((await get(port, "/player/timeline/subscribe?port=32400")).status).toBe(400);
+  });
+});
+
+// ── Timeline XML ────────────────────────────────────────────────────
+
+describe("timelineXml", () => {
+  it("describes the playing track and where it comes from", () => {
+    const xml = timelineXml(playing, "volumio-1", null);
+
+    expect(xml).toContain('location="fullScreenMusic"');
+    expect(xml).toContain(
+      '<Timeline type="music" itemType="music" state="playing" controllable="playPause,stop,skipPrevious,skipNext,seekTo,volume,shuffle,repeat"' +
+      ' volume="80" shuffle="1" repeat="2" time="12346" duration="282000" ratingKey="2001" key="/library/metadata/2001"' +
+      ' containerKey="/playQueues/7001" playQueueID="7001" playQueueItemID="9001"' +
+      ' machineIdentifier="abc123" address="192.168.1.100" port="32400" protocol="http"/>',
+    );
+    expect(xml).toContain('<Timeline type="video" state="stopped"/>');
+  });
+
+  it("leaves out track details when stopped", () => {
+    const xml = timelineXml(stopped, "volumio-1", "4");
+
+    expect(xml).toContain('commandID="4"');
+    expect(xml).toContain('location="navigation"');
+    expect(xml).not.toContain("ratingKey");
+  });
+});
+
+// ── GDM advertisement ───────────────────────────────────────────────
+
+describe("GdmAdvertiser", () => {
+  it("announces HELLO on start and BYE on stop", async () => {
+    const listener = dgram.createSocket("udp4");
+    const messages: string[] = [];
+    await new Promise<void>((resolve) => listener.bind(0, "127.0.0.1", resolve));
+    listener.on("message", (message: Buffer) => messages.push(message.toString()));
+
+    const advertiser = new GdmAdvertiser({
+      clientIdentifier: "volumio-1",
+      deviceName: "Living Room",
+      port: 32500,
+      listenPort: 0,
+      announceAddress: "127.0.0.1",
+      announcePort: listener.address().port,
+    });
+    try {
+      advertiser.start();
+      await vi.waitFor(() => expect(messages).toHaveLength(1));
+      advertiser.stop();
+      await vi.waitFor(() => expect(messages).toHaveLength(2));
+    } finally {
+      listener.close();
+    }
+
+    expect(messages[0]).toMatch(/^HELLO \* HTTP\/1\.0\r\n/);
+    expect(messages[0]).toContain("Resource-Identifier: volumio-1\r\n");
+    expect(messages[0]).toContain("Port: 32500\r\n");
+    expect(messages[0]).toContain("Content-Type: plex/media-player\r\n");
+    expect(messages[1]).toMatch(/^BYE \* HTTP\/1\.0\r\n/);
+  });
+});
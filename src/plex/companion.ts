@@ -0,0 +1,477 @@
+/**
+ * Plex Companion Server — lets Plex apps (Plexamp, Plex Web, the mobile
+ * apps) use Volumio as a remote player.
+ *
+ * Serves the Companion HTTP protocol: `/resources` describes the player,
+ * `/player/playback/*` carries remote-control commands, and
+ * `/player/timeline/*` lets controllers follow playback, either by
+ * subscribing (the player POSTs timelines to them) or by long-polling.
+ * Commands are handed to a CompanionPlayer; GdmAdvertiser makes the player
+ * discoverable on the LAN.
+ */
+
+import http from "http";
+import type { AddressInfo } from "net";
+
+/** A controller's request to start playing something (`/player/playback/playMedia`). */
+export interface PlayMediaRequest {
+  /** Library key of the item to start with, e.g. "/library/metadata/2001" */
+  key: string;
+  /** Play queue to load, e.g. "/playQueues/7001", or null to build one from `key` */
+  containerKey: string | null;
+  /** Server the media lives on, or null when the controller didn't say */
+  machineIdentifier: string | null;
+  /** Position to start at in milliseconds */
+  offsetMs: number;
+}
+
+/** Settings a controller can change with `/player/playback/setParameters`. */
+export interface PlayerParameters {
+  /** 0–100 */
+  volume?: number;
+  shuffle?: boolean;
+  /** 0 = off, 1 = repeat one, 2 = repeat all */
+  repeat?: 0 | 1 | 2;
+}
+
+/** Playback state reported to controllers. */
+export interface PlayerTimeline {
+  state: "playing" | "paused" | "buffering" | "stopped";
+  timeMs: number;
+  durationMs: number;
+  /** ratingKey of the playing track, null when stopped */
+  ratingKey: string | null;
+  playQueueId: string | null;
+  playQueueItemId: string | null;
+  /** Server the playing track comes from */
+  server: { machineIdentifier: string; host: string; port: number; protocol: "http" | "https" } | null;
+  volume: number;
+  shuffle: boolean;
+  repeat: 0 | 1 | 2;
+}
+
+/** What the Companion server controls. Rejections are reported to the controller as errors. */
+export interface CompanionPlayer {
+  playMedia(request: PlayMediaRequest): Promise<void>;
+  play(): Promise<void>;
+  pause(): Promise<void>;
+  stop(): Promise<void>;
+  skipNext(): Promise<void>;
+  skipPrevious(): Promise<void>;
+  seekTo(offsetMs: number): Promise<void>;
+  setParameters(parameters: PlayerParameters): Promise<void>;
+  timeline(): Promise<PlayerTimeline>;
+}
+
+export interface PlexCompanionServerOptions {
+  /** Unique, stable identifier of this player (X-Plex-Client-Identifier) */
+  clientIdentifier: string;
+  /** Name shown in the Plex apps' player list */
+  deviceName: string;
+  player: CompanionPlayer;
+  /** HTTP port to listen on. Default: 32500 */
+  port?: number;
+  /** Hosts of the configured and discovered Media Servers, whose Plex Web may control the player */
+  serverHosts?: string[];
+  /** Called once the server is listening, with the bound port. */
+  onListening?: (port: number) => void;
+  /** Called when the server can't listen or a timeline can't be delivered. */
+  onError?: (error: Error) => void;
+  /** Interval of timeline pushes to subscribers while playing, in ms. Default: 1 000 */
+  timelineIntervalMs?: number;
+  /** A subscription lapses when not renewed for this long, in ms. Default: 90 000 */
+  subscriptionTtlMs?: number;
+  /** Longest a `poll?wait=1` request is held, in ms. Default: 30 000 */
+  pollTimeoutMs?: number;
+}
+
+/** Default Companion HTTP port. */
+export const COMPANION_PORT = 32500;
+
+const PRODUCT = "Volumio";
+const VERSION = "1.0";
+const CONTROLLABLE = "playPause,stop,skipPrevious,skipNext,seekTo,volume,shuffle,repeat";
+
+/** A controller receiving timeline POSTs. */
+interface Subscriber {
+  clientIdentifier: string;
+  host: string;
+  port: number;
+  protocol: "http" | "https";
+  lastSeen: number;
+}
+
+export class PlexCompanionServer {
+  private readonly options: PlexCompanionServerOptions;
+  private readonly timelineIntervalMs: number;
+  private readonly subscriptionTtlMs: number;
+  private readonly pollTimeoutMs: number;
+  private readonly serverHosts: Set<string>;
+  private server: http.Server | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private readonly subscribers = new Map<string, Subscriber>();
+  /** Last commandID each controller sent; Plex expects it echoed in timelines. */
+  private readonly commandIds = new Map<string, string>();
+  private readonly pendingPolls = new Set<() => void>();
+
+  constructor(options: PlexCompanionServerOptions) {
+    this.options = options;
+    this.timelineIntervalMs = options.timelineIntervalMs ?? 1_000;
+    this.subscriptionTtlMs = options.subscriptionTtlMs ?? 90_000;
+    this.pollTimeoutMs = options.pollTimeoutMs ?? 30_000;
+    this.serverHosts = new Set((options.serverHosts ?? []).map((host) => host.toLowerCase()));
+  }
+
+  /** Start listening and pushing timelines to subscribers. */
+  start(): void {
+    if (this.server) return;
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((err: unknown) => {
+        this.reply(res, 500, responseXml(500, err instanceof Error ? err.message : String(err)));
+      });
+    });
+    server.on("error", (err: Error) => this.options.onError?.(err));
+    server.listen(this.options.port ?? COMPANION_PORT, () => {
+      this.options.onListening?.((server.address() as AddressInfo).port);
+    });
+    this.server = server;
+
+    this.timer = setInterval(() => this.pushTimeline(false), this.timelineIntervalMs);
+    this.timer.unref?.();
+  }
+
+  /** Stop listening, answer pending polls and forget every subscriber. */
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.flushPolls();
+    this.subscribers.clear();
+    this.server?.close();
+    this.server = null;
+  }
+
+  /** Tell controllers about a playback change right away instead of at the next interval. */
+  notifyTimelineChanged(): void {
+    this.flushPolls();
+    this.pushTimeline(true);
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const query = url.searchParams;
+    const controller = headerValue(req, "x-plex-client-identifier") ?? query.get("X-Plex-Client-Identifier");
+    const commandId = query.get("commandID");
+    if (controller !== null && commandId !== null) this.commandIds.set(controller, commandId);
+
+    // Only Plex's own web apps may drive the player from a browser; other
+    // pages get neither a response nor CORS access.
+    const origin = headerValue(req, "origin");
+    if (origin !== null) {
+      if (!isPlexOrigin(origin, this.serverHosts)) {
+        this.reply(res, 403, responseXml(403, "Forbidden"));
+        return;
+      }
+      res.setHeader("Access-Control-Allow-Origin", origin);
+      res.setHeader("Vary", "Origin");
+    }
+
+    if (req.method === "OPTIONS") {
+      this.reply(res, 200, "");
+      return;
+    }
+
+    switch (url.pathname) {
+      case "/resources":
+        this.reply(res, 200, this.resourcesXml());
+        return;
+      case "/player/timeline/subscribe":
+        if (controller === null) {
+          this.reply(res, 400, responseXml(400, "Missing X-Plex-Client-Identifier"));
+          return;
+        }
+        this.subscribers.set(controller, {
+          clientIdentifier: controller,
+          host: stripIpv6Prefix(req.socket.remoteAddress ?? ""),
+          port: Number(query.get("port")) || 32400,
+          protocol: query.get("protocol") === "https" ? "https" : "http",
+          lastSeen: Date.now(),
+        });
+        this.reply(res, 200, responseXml(200, "OK"));
+        this.pushTimeline(true);
+        return;
+      case "/player/timeline/unsubscribe":
+        if (controller !== null) this.subscribers.delete(controller);
+        this.reply(res, 200, responseXml(200, "OK"));
+        return;
+      case "/player/timeline/poll":
+        if (query.get("wait") === "1") await this.waitForChange();
+        this.reply(res, 200, timelineXml(await this.options.player.timeline(), this.options.clientIdentifier, commandId));
+        return;
+    }
+
+    const command = url.pathname.match(/^\/player\/playback\/(\w+)$/)?.[1];
+    if (command === undefined || !(await this.runCommand(command, query))) {
+      this.reply(res, 404, responseXml(404, "Not Found"));
+      return;
+    }
+    this.reply(res, 200, responseXml(200, "OK"));
+    this.notifyTimelineChanged();
+  }
+
+  /** Run a playback command. Resolves to false for commands we don't support. */
+  private async runCommand(command: string, query: URLSearchParams): Promise<boolean> {
+    const player = this.options.player;
+    switch (command) {
+      case "playMedia": {
+        const key = query.get("key");
+        if (!key) throw new Error("playMedia needs a key");
+        await player.playMedia({
+          key,
+          containerKey: query.get("containerKey"),
+          machineIdentifier: query.get("machineIdentifier"),
+          offsetMs: Number(query.get("offset")) || 0,
+        });
+        return true;
+      }
+      case "play":
+        await player.play();
+        return true;
+      case "pause":
+        await player.pause();
+        return true;
+      case "stop":
+        await player.stop();
+        return true;
+      case "skipNext":
+        await player.skipNext();
+        return true;
+      case "skipPrevious":
+        await player.skipPrevious();
+        return true;
+      case "seekTo":
+        await player.seekTo(Number(query.get("offset")) || 0);
+        return true;
+      case "setParameters":
+        await player.setParameters(parseParameters(query));
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Send the current timeline to every subscriber — always when `changed`,
+   * otherwise only while something is playing. Lapsed subscriptions are
+   * dropped, as are controllers that stop accepting timelines.
+   */
+  private pushTimeline(changed: boolean): void {
+    const now = Date.now();
+    for (const [id, subscriber] of this.subscribers) {
+      if (now - subscriber.lastSeen > this.subscriptionTtlMs) this.subscribers.delete(id);
+    }
+    if (this.subscribers.size === 0) return;
+
+    this.options.player.timeline().then((timeline) => {
+      if (!changed && timeline.state !== "playing") return;
+      for (const subscriber of this.subscribers.values()) {
+        const body = timelineXml(timeline, this.options.clientIdentifier, this.commandIds.get(subscriber.clientIdentifier) ?? null);
+        this.postTimeline(subscriber, body).catch((err: unknown) => {
+          this.subscribers.delete(subscriber.clientIdentifier);
+          this.options.onError?.(err instanceof Error ? err : new Error(String(err)));
+        });
+      }
+    }).catch((err: unknown) => this.options.onError?.(err instanceof Error ? err : new Error(String(err))));
+  }
+
+  private postTimeline(subscriber: Subscriber, body: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const req = http.request({
+        hostname: subscriber.host,
+        port: subscriber.port,
+        path: "/:/timeline",
+        method: "POST",
+        timeout: 5_000,
+        headers: {
+          ...this.plexHeaders(),
+          "Content-Type": "text/xml",
+          "Content-Length": Buffer.byteLength(body),
+        },
+      }, (res) => {
+        res.resume();
+        const statusCode = res.statusCode ?? 0;
+        if (statusCode >= 200 && statusCode < 300) {
+          resolve();
+        } else {
+          reject(new Error(`Timeline rejected by ${subscriber.host}:${subscriber.port}: ${statusCode}`));
+        }
+      });
+      req.on("timeout", () => {
+        req.destroy();
+        reject(new Error(`Timeline to ${subscriber.host}:${subscriber.port} timed out`));
+      });
+      req.on("error", reject);
+      req.end(body);
+    });
+  }
+
+  /** Resolve on the next timeline change, or after pollTimeoutMs. */
+  private waitForChange(): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.pendingPolls.delete(done);
+        resolve();
+      };
+      const timer = setTimeout(done, this.pollTimeoutMs);
+      this.pendingPolls.add(done);
+    });
+  }
+
+  private flushPolls(): void {
+    for (const done of [...this.pendingPolls]) done();
+  }
+
+  private reply(res: http.ServerResponse, statusCode: number, body: string): void {
+    res.writeHead(statusCode, {
+      ...this.plexHeaders(),
+      "Content-Type": "text/xml; charset=utf-8",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "*",
+      "Access-Control-Expose-Headers": "X-Plex-Client-Identifier",
+    });
+    res.end(body);
+  }
+
+  private plexHeaders(): Record<string, string> {
+    return {
+      "X-Plex-Client-Identifier": this.options.clientIdentifier,
+      "X-Plex-Device-Name": this.options.deviceName,
+      "X-Plex-Product": PRODUCT,
+      "X-Plex-Version": VERSION,
+      "X-Plex-Platform": "Volumio",
+      "X-Plex-Provides": "player",
+    };
+  }
+
+  private resourcesXml(): string {
+    const player = attributes({
+      title: this.options.deviceName,
+      machineIdentifier: this.options.clientIdentifier,
+      product: PRODUCT,
+      version: VERSION,
+      platform: "Volumio",
+      protocol: "plex",
+      protocolVersion: "1",
+      protocolCapabilities: "timeline,playback",
+      deviceClass: "stb",
+    });
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<MediaContainer size="1"><Player ${player}/></MediaContainer>`;
+  }
+}
+
+// ── XML ─────────────────────────────────────────────────────────────
+
+/** The timeline document for a player: a music timeline plus the stopped video and photo timelines Plex expects. */
+export function timelineXml(timeline: PlayerTimeline, clientIdentifier: string, commandId: string | null): string {
+  const music: Record<string, string | number> = {
+    type: "music",
+    itemType: "music",
+    state: timeline.state,
+    controllable: CONTROLLABLE,
+    volume: timeline.volume,
+    shuffle: timeline.shuffle ? 1 : 0,
+    repeat: timeline.repeat,
+  };
+  if (timeline.state !== "stopped" && timeline.ratingKey !== null) {
+    Object.assign(music, {
+      time: Math.round(timeline.timeMs),
+      duration: Math.round(timeline.durationMs),
+      ratingKey: timeline.ratingKey,
+      key: `/library/metadata/${timeline.ratingKey}`,
+    });
+    if (timeline.playQueueId !== null) {
+      music.containerKey = `/playQueues/${timeline.playQueueId}`;
+      music.playQueueID = timeline.playQueueId;
+    }
+    if (timeline.playQueueItemId !== null) music.playQueueItemID = timeline.playQueueItemId;
+    if (timeline.server) {
+      Object.assign(music, {
+        machineIdentifier: timeline.server.machineIdentifier,
+        address: timeline.server.host,
+        port: timeline.server.port,
+        protocol: timeline.server.protocol,
+      });
+    }
+  }
+  const container = attributes({
+    size: 3,
+    machineIdentifier: clientIdentifier,
+    location: timeline.state === "stopped" ? "navigation" : "fullScreenMusic",
+    ...(commandId !== null && { commandID: commandId }),
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<MediaContainer ${container}>` +
+    `<Timeline ${attributes(music)}/>` +
+    `<Timeline type="video" state="stopped"/>` +
+    `<Timeline type="photo" state="stopped"/>` +
+    `</MediaContainer>`;
+}
+
+function responseXml(code: number, status: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<Response ${attributes({ code, status })}/>`;
+}
+
+function attributes(values: Record<string, string | number>): string {
+  return Object.entries(values).map(([name, value]) => `${name}="${escapeXml(String(value))}"`).join(" ");
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function parseParameters(query: URLSearchParams): PlayerParameters {
+  const parameters: PlayerParameters = {};
+  const volume = query.get("volume");
+  if (volume !== null) parameters.volume = Math.max(0, Math.min(100, Number(volume) || 0));
+  const shuffle = query.get("shuffle");
+  if (shuffle !== null) parameters.shuffle = shuffle === "1";
+  const repeat = query.get("repeat");
+  if (repeat === "0" || repeat === "1" || repeat === "2") parameters.repeat = Number(repeat) as 0 | 1 | 2;
+  return parameters;
+}
+
+function headerValue(req: http.IncomingMessage, name: string): string | null {
+  const value = req.headers[name];
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+}
+
+/**
+ * Whether a browser origin is a Plex web app: plex.tv (app.plex.tv), a
+ * server's plex.direct address, or Plex Web served by one of the known
+ * Media Servers.
+ */
+function isPlexOrigin(origin: string, serverHosts: ReadonlySet<string>): boolean {
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  const host = url.hostname;
+  if (url.protocol === "https:" && (host === "plex.tv" || host.endsWith(".plex.tv") || host.endsWith(".plex.direct"))) {
+    return true;
+  }
+  return serverHosts.has(host);
+}
+
+/** "::ffff:192.168.1.20" → "192.168.1.20" for controllers reached over IPv4. */
+function stripIpv6Prefix(address: string): string {
+  return address.replace(/^::ffff:/, "");
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ConnectionManager } from "./connection-manager.js";
+import type { ConnectionCandidate } from "./connection-manager.js";
+import { PlexConnectionError } from "./api-client.js";
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+const relay: ConnectionCandidate = { host: "relay.plex.direct", port: 8443, https: true, kind: "relay" };
+const remote: ConnectionCandidate = { host: "203.0.113.7", port: 32400, https: false, kind: "remote" };
+const local: ConnectionCandidate = { host: "192.168.1.100", port: 32400, https: false, kind: "local" };
+
+/** A probe that succeeds only for the given hosts. */
+function probeReaching(...hosts: string[]) {
+  return vi.fn(async (candidate: ConnectionCandidate) => {
+    if (!hosts.includes(candidate.host)) throw new PlexConnectionError(`unreachable: ${candidate.host}`);
+  });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ── Ordering ────────────────────────────────────────────────────────
+
+describe("candidate order", () => {
+  it("starts on a local address and probes local, then remote, then relay", async () => {
+    const probe = probeReaching(relay.host);
+    const manager = new ConnectionManager({ token: "t", candidates: [relay, remote, local], probe });
+
+    expect(manager.current()).toBe(local);
+    await manager.probe();
+
+    expect(probe.mock.calls.map(([c]) => c.kind)).toEqual(["local", "remote", "relay"]);
+    expect(manager.current()).toBe(relay);
+  });
+
+  it("exposes the active address as a PlexConnection", () => {
+    const manager = new ConnectionManager({ token: "tok", candidates: [remote], probe: probeReaching() });
+    expect(manager.connection()).toEqual({ host: "203.0.113.7", port: 32400, https: false, token: "tok" });
+  });
+
+  it("rejects an empty candidate list", () => {
+    expect(() => new ConnectionManager({ token: "t", candidates: [] })).toThrow("at least one connection candidate");
+  });
+});
+
+// ── Probing and failover ────────────────────────────────────────────
+
+describe("probe", () => {
+  it("throws PlexConnectionError when no candidate answers", async () => {
+    const manager = new ConnectionManager({ token: "t", candidates: [local, remote], probe: probeReaching() });
+    await expect(manager.probe()).rejects.toThrow(PlexConnectionError);
+    expect(manager.current()).toBe(local);
+  });
+
+  it("reports each switch to onChange", async () => {
+    const onChange = vi.fn();
+    const manager = new ConnectionManager({ token: "t", candidates: [local, remote], probe: probeReaching(remote.host), onChange });
+
+    await manager.probe();
+    await manager.probe();
+
+    expect(onChange).toHaveBeenCalledOnce();
+    expect(onChange).toHaveBeenCalledWith(remote);
+  });
+});
+
+describe("failover", () => {
+  it("moves to the next reachable candidate, skipping the failed one", async () => {
+    const probe = probeReaching(local.host, relay.host);
+    const manager = new ConnectionManager({ token: "t", candidates: [local, remote, relay], probe });
+
+    expect(await manager.failover(local)).toBe(relay);
+    expect(manager.current()).toBe(relay);
+    expect(probe.mock.calls.map(([c]) => c.host)).toEqual([remote.host, relay.host]);
+  });
+
+  it("returns null when nothing else answers", async () => {
+    const manager = new ConnectionManager({ token: "t", candidates: [local, remote], probe: probeReaching() });
+    expect(await manager.failover(local)).toBeNull();
+  });
+
+  it("does not probe again when another request already failed over", async () => {
+    const probe = probeReaching(remote.host);
+    const manager = new ConnectionManager({ token: "t", candidates: [local, remote], probe });
+
+    const [first, second] = await Promise.all([manager.failover(local), manager.failover(local)]);
+    expect(first).toBe(remote);
+    expect(second).toBe(remote);
+    expect(await manager.failover(local)).toBe(remote);
+    expect(probe).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("periodic re-probe", () => {
+  it("returns to a preferred address once it answers again", async () => {
+    vi.useFakeTimers();
+    let lanUp = false;
+    const probe = vi.fn(async (candidate: ConnectionCandidate) => {
+      if (candidate.kind === "local" && !lanUp) throw new PlexConnectionError("offline");
+    });
+    const manager = new ConnectionManager({ token: "t", candidates: [local, remote], probe, reprobeIntervalMs: 60_000 });
+
+    manager.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(manager.current()).toBe(remote);
+
+    lanUp = true;
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(manager.current()).toBe(local);
+
+    manager.stop();
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Connection Manager — keeps track of every address a Plex server can be
+ * reached at and picks the one requests should go to.
+ *
+ * Candidates are tried local first, then remote, then relay. When the active
+ * address stops answering, PlexApiClient asks for a failover and retries on
+ * the next reachable candidate; a periodic re-probe moves back to a
+ * preferred address once it answers again (e.g. when back on the LAN).
+ */
+
+import { PlexApiClient, PlexConnectionError } from "./api-client.js";
+import type { PlexConnection } from "../core/stream-resolver.js";
+
+/** How a candidate reaches the server, in order of preference. */
+export type ConnectionKind = "local" | "remote" | "relay";
+
+/** One address of a Plex server. */
+export interface ConnectionCandidate {
+  host: string;
+  port: number;
+  https: boolean;
+  kind: ConnectionKind;
+}
+
+export interface ConnectionManagerOptions {
+  token: string;
+  /** Every known address of the server; reordered local → remote → relay */
+  candidates: ConnectionCandidate[];
+  /** Timeout for a single probe in milliseconds. Default: 3 000 */
+  probeTimeoutMs?: number;
+  /** Interval between background re-probes in milliseconds. Default: 5 minutes */
+  reprobeIntervalMs?: number;
+  /** Check that a candidate answers; rejects when it does not. Default: GET /identity */
+  probe?: (candidate: ConnectionCandidate) => Promise<void>;
+  /** Called whenever the active candidate changes. */
+  onChange?: (candidate: ConnectionCandidate) => void;
+}
+
+const KIND_ORDER: Record<ConnectionKind, number> = { local: 0, remote: 1, relay: 2 };
+
+export class ConnectionManager {
+  private readonly token: string;
+  private readonly candidates: ConnectionCandidate[];
+  private readonly reprobeIntervalMs: number;
+  private readonly probeCandidate: (candidate: ConnectionCandidate) => Promise<void>;
+  private readonly onChange: ((candidate: ConnectionCandidate) => void) | undefined;
+  private active: ConnectionCandidate;
+  private probing: Promise<ConnectionCandidate | null> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: ConnectionManagerOptions) {
+    if (options.candidates.length === 0) {
+      throw new Error("ConnectionManager needs at least one connection candidate");
+    }
+    this.token = options.token;
+    // Array.prototype.sort is stable, so candidates of one kind keep the caller's order.
+    this.candidates = [...options.candidates].sort((a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind]);
+    this.active = this.candidates[0]!;
+    this.reprobeIntervalMs = options.reprobeIntervalMs ?? 5 * 60_000;
+    const probeTimeoutMs = options.probeTimeoutMs ?? 3_000;
+    this.probeCandidate = options.probe ?? (async (candidate) => {
+      await new PlexApiClient({ ...candidate, token: this.token, timeoutMs: probeTimeoutMs }).getIdentity();
+    });
+    this.onChange = options.onChange;
+  }
+
+  /** The candidate requests currently go to. */
+  current(): ConnectionCandidate {
+    return this.active;
+  }
+
+  /** The active address as a PlexConnection, for building stream and artwork URLs. */
+  connection(): PlexConnection {
+    const { host, port, https } = this.active;
+    return { host, port, https, token: this.token };
+  }
+
+  /**
+   * Probe every candidate in order of preference and switch to the first one
+   * that answers. Throws PlexConnectionError when none does.
+   */
+  async probe(): Promise<ConnectionCandidate> {
+    const found = await this.probeFirst(this.candidates);
+    if (!found) {
+      throw new PlexConnectionError("No connection to the Plex server is reachable");
+    }
+    return found;
+  }
+
+  /**
+   * Called after a request to `failed` hit a connection error. Switches to
+   * the first other candidate that answers and returns it, or null when
+   * none does. If another request already moved away from `failed`, the
+   * current candidate is returned without probing again.
+   */
+  async failover(failed: ConnectionCandidate): Promise<ConnectionCandidate | null> {
+    if (!sameAddress(this.active, failed)) return this.active;
+    return this.probeFirst(this.candidates.filter((candidate) => !sameAddress(candidate, failed)));
+  }
+
+  /** Probe now, then re-probe every reprobeIntervalMs until stop(). */
+  start(): void {
+    this.stop();
+    const reprobe = () => { this.probe().catch(() => { /* keep the current candidate */ }); };
+    reprobe();
+    this.timer = setInterval(reprobe, this.reprobeIntervalMs);
+    this.timer.unref?.();
+  }
+
+  /** Stop background re-probing. */
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Concurrent callers share one probe run instead of each hammering the server. */
+  private probeFirst(candidates: ConnectionCandidate[]): Promise<ConnectionCandidate | null> {
+    if (!this.probing) {
+      this.probing = this.findReachable(candidates).finally(() => { this.probing = null; });
+    }
+    return this.probing;
+  }
+
+  private async findReachable(candidates: ConnectionCandidate[]): Promise<ConnectionCandidate | null> {
+    for (const candidate of candidates) {
+      try {
+        await this.probeCandidate(candidate);
+      } catch {
+        continue;
+      }
+      if (!sameAddress(candidate, this.active)) {
+        this.active = candidate;
+        this.onChange?.(candidate);
+      }
+      return candidate;
+    }
+    return null;
+  }
+}
+
+function sameAddress(a: ConnectionCandidate, b: ConnectionCandidate): boolean {
+  return a.host === b.host && a.port === b.port && a.https === b.https;
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import dgram from "dgram";
+import { discoverServers, parseGdmResponse } from "./gdm.js";
+
+const serverReply = [
+  "HTTP/1.0 200 OK",
+  "Content-Type: plex/media-server",
+  "Resource-Identifier: abc123",
+  "Name: Basement",
+  "Port: 32400",
+  "Version: 1.40.1.8227-c0dd5a73e",
+].join("\r\n") + "\r\n\r\n";
+
+// ── Reply parsing ───────────────────────────────────────────────────
+
+describe("parseGdmResponse", () => {
+  it("reads the server descriptor headers", () => {
+    expect(parseGdmResponse(serverReply, "192.168.1.100")).toEqual({
+      name: "Basement",
+      machineIdentifier: "abc123",
+      host: "192.168.1.100",
+      port: 32400,
+      version: "1.40.1.8227-c0dd5a73e",
+    });
+  });
+
+  it("ignores players, searches and replies without an identifier", () => {
+    expect(parseGdmResponse(serverReply.replace("plex/media-server", "plex/media-player"), "10.0.0.2")).toBeNull();
+    expect(parseGdmResponse("M-SEARCH * HTTP/1.0\r\n\r\n", "10.0.0.2")).toBeNull();
+    expect(parseGdmResponse(serverReply.replace("Resource-Identifier: abc123\r\n", ""), "10.0.0.2")).toBeNull();
+  });
+
+  it("falls back to the address and default port when headers are missing", () => {
+    const reply = "HTTP/1.0 200 OK\r\nContent-Type: plex/media-server\r\nResource-Identifier: xyz\r\n\r\n";
+    expect(parseGdmResponse(reply, "10.0.0.3")).toEqual({
+      name: "10.0.0.3", machineIdentifier: "xyz", host: "10.0.0.3", port: 32400, version: null,
+    });
+  });
+});
+
+// ── Discovery ───────────────────────────────────────────────────────
+
+describe("discoverServers", () => {
+  it("collects each answering server once", async () => {
+    const responder = dgram.createSocket("udp4");
+    const searches: string[] = [];
+    responder.on("message", (message: Buffer, remote: dgram.RemoteInfo) => {
+      searches.push(message.toString());
+      // Answer twice, as servers on several interfaces do.
+      responder.send(serverReply, remote.port, remote.address);
+      responder.send(serverReply, remote.port, remote.address);
+    });
+    await new Promise<void>((resolve) => responder.bind(0, "127.0.0.1", resolve));
+
+    try {
+      const servers = await discoverServers({
+        addresses: ["127.0.0.1"],
+        port: responder.address().port,
+        timeoutMs: 100,
+      });
+
+      expect(searches).toEqual(["M-SEARCH * HTTP/1.0\r\n\r\n"]);
+      expect(servers).toEqual([expect.objectContaining({ machineIdentifier: "abc123", host: "127.0.0.1", name: "Basement" })]);
+    } finally {
+      responder.close();
+    }
+  });
+
+  it("resolves empty when nothing answers", async () => {
+    const servers = await discoverServers({ addresses: ["127.0.0.1"], port: 9, timeoutMs: 50 });
+    expect(servers).toEqual([]);
+  });
+});
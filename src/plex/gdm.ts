@@ -0,0 +1,199 @@
+/**
+ * GDM (G'Day Mate) — Plex's UDP discovery protocol.
+ *
+ * discoverServers finds Plex Media Servers on the LAN without plex.tv: it
+ * sends an M-SEARCH to the server discovery port and collects the replies.
+ *
+ * GdmAdvertiser makes a Plex Companion player discoverable: it answers
+ * M-SEARCH requests from Plex apps on the player discovery port and
+ * announces itself with HELLO when started and BYE when stopped.
+ */
+
+import dgram from "dgram";
+
+/** Multicast group GDM messages are sent to. */
+export const GDM_MULTICAST_ADDRESS = "239.0.0.250";
+/** Port players listen on for M-SEARCH requests from controllers. */
+export const GDM_PLAYER_PORT = 32412;
+/** Port controllers listen on for player HELLO/BYE announcements. */
+export const GDM_ANNOUNCE_PORT = 32413;
+/** Port servers listen on for M-SEARCH requests. */
+export const GDM_SERVER_PORT = 32414;
+
+/** A Plex Media Server that answered a GDM search. */
+export interface DiscoveredServer {
+  name: string;
+  machineIdentifier: string;
+  /** Address the reply came from */
+  host: string;
+  port: number;
+  /** Plex Media Server version, when reported */
+  version: string | null;
+}
+
+export interface DiscoverServersOptions {
+  /** How long to collect replies, in ms. Default: 2 000 */
+  timeoutMs?: number;
+  /** Addresses the search is sent to. Default: the GDM multicast group and the broadcast address */
+  addresses?: string[];
+  /** Port the search is sent to. Default: GDM_SERVER_PORT */
+  port?: number;
+}
+
+/**
+ * Search the LAN for Plex Media Servers. Resolves after `timeoutMs` with
+ * every server that answered, once per machine identifier. Rejects only
+ * when the search can't be sent at all.
+ */
+export function discoverServers(options: DiscoverServersOptions = {}): Promise<DiscoveredServer[]> {
+  const addresses = options.addresses ?? [GDM_MULTICAST_ADDRESS, "255.255.255.255"];
+  const port = options.port ?? GDM_SERVER_PORT;
+  const found = new Map<string, DiscoveredServer>();
+
+  return new Promise<DiscoveredServer[]>((resolve, reject) => {
+    const socket = dgram.createSocket("udp4");
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const finish = (error?: Error) => {
+      if (timer !== null) clearTimeout(timer);
+      try {
+        socket.close();
+      } catch {
+        // Already closed.
+      }
+      if (error) reject(error);
+      else resolve([...found.values()]);
+    };
+
+    socket.on("error", (err: Error) => finish(err));
+    socket.on("message", (message: Buffer, remote: dgram.RemoteInfo) => {
+      const server = parseGdmResponse(message.toString("utf-8"), remote.address);
+      if (server && !found.has(server.machineIdentifier)) found.set(server.machineIdentifier, server);
+    });
+    socket.bind(0, () => {
+      socket.setBroadcast(true);
+      const search = Buffer.from("M-SEARCH * HTTP/1.0\r\n\r\n");
+      for (const address of addresses) {
+        // A network without a route to one of the addresses still gets the others.
+        socket.send(search, port, address, () => { /* delivery is best-effort */ });
+      }
+      timer = setTimeout(() => finish(), options.timeoutMs ?? 2_000);
+    });
+  });
+}
+
+/**
+ * Parse a server's reply to M-SEARCH. Returns null for replies that aren't
+ * from a Plex Media Server (players answer too) or lack an identifier.
+ */
+export function parseGdmResponse(message: string, host: string): DiscoveredServer | null {
+  const [statusLine, ...lines] = message.split(/\r?\n/);
+  if (!statusLine?.startsWith("HTTP/1.0 200")) return null;
+
+  const headers = new Map<string, string>();
+  for (const line of lines) {
+    const colon = line.indexOf(":");
+    if (colon > 0) headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+  }
+  const machineIdentifier = headers.get("resource-identifier");
+  if (headers.get("content-type") !== "plex/media-server" || !machineIdentifier) return null;
+
+  return {
+    name: headers.get("name") || host,
+    machineIdentifier,
+    host,
+    port: Number(headers.get("port")) || 32400,
+    version: headers.get("version") ?? null,
+  };
+}
+
+export interface GdmAdvertiserOptions {
+  /** The player's X-Plex-Client-Identifier */
+  clientIdentifier: string;
+  deviceName: string;
+  /** Port of the player's Companion HTTP server */
+  port: number;
+  /** Port to listen for M-SEARCH on. Default: GDM_PLAYER_PORT */
+  listenPort?: number;
+  /** Where HELLO/BYE are sent. Default: GDM_MULTICAST_ADDRESS:GDM_ANNOUNCE_PORT */
+  announceAddress?: string;
+  announcePort?: number;
+  /** Called when the socket fails; advertising stops until the next start(). */
+  onError?: (error: Error) => void;
+}
+
+export class GdmAdvertiser {
+  private readonly options: GdmAdvertiserOptions;
+  private socket: dgram.Socket | null = null;
+
+  constructor(options: GdmAdvertiserOptions) {
+    this.options = options;
+  }
+
+  /** Listen for M-SEARCH requests and announce the player. */
+  start(): void {
+    if (this.socket) return;
+    const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+    socket.on("error", (err: Error) => {
+      this.options.onError?.(err);
+      this.close();
+    });
+    socket.on("message", (message: Buffer, remote: dgram.RemoteInfo) => {
+      if (message.toString("utf-8").startsWith("M-SEARCH * HTTP/1.")) {
+        socket.send(this.message("HTTP/1.0 200 OK"), remote.port, remote.address);
+      }
+    });
+    socket.bind(this.options.listenPort ?? GDM_PLAYER_PORT, () => {
+      try {
+        socket.addMembership(GDM_MULTICAST_ADDRESS);
+      } catch {
+        // No multicast route (e.g. no network yet) — unicast and broadcast searches still reach us.
+      }
+      this.announce(socket, "HELLO * HTTP/1.0");
+    });
+    this.socket = socket;
+  }
+
+  /** Announce that the player is going away and stop answering searches. */
+  stop(): void {
+    const socket = this.socket;
+    if (!socket) return;
+    this.socket = null;
+    this.announce(socket, "BYE * HTTP/1.0", () => socket.close());
+  }
+
+  private announce(socket: dgram.Socket, statusLine: string, done?: () => void): void {
+    socket.send(
+      this.message(statusLine),
+      this.options.announcePort ?? GDM_ANNOUNCE_PORT,
+      this.options.announceAddress ?? GDM_MULTICAST_ADDRESS,
+      () => done?.(),
+    );
+  }
+
+  private close(): void {
+    try {
+      this.socket?.close();
+    } catch {
+      // Already closed.
+    }
+    this.socket = null;
+  }
+
+  /** A GDM message: the status line followed by the player's descriptor headers. */
+  private message(statusLine: string): Buffer {
+    const headers = [
+      statusLine,
+      "Content-Type: plex/media-player",
+      `Resource-Identifier: ${this.options.clientIdentifier}`,
+      `Name: ${this.options.deviceName}`,
+      `Port: ${this.options.port}`,
+      "Product: Volumio",
+      "Version: 1.0",
+      "Protocol: plex",
+      "Protocol-Version: 1",
+      "Protocol-Capabilities: timeline,playback",
+      "Device-Class: stb",
+    ];
+    return Buffer.from(`${headers.join("\r\n")}\r\n\r\n`);
+  }
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import http from "http";
+import { createHash } from "crypto";
+import type { AddressInfo } from "net";
+import type { Duplex } from "stream";
+import { PlexNotificationClient } from "./notifications.js";
+import { PlexAuthError } from "./api-client.js";
+import type { PlexNotification } from "../types/index.js";
+
+// ── Local notifications server ──────────────────────────────────────
+
+/** An unmasked server→client frame. */
+function serverFrame(opcode: number, payload: Buffer): Buffer {
+  const header = payload.length < 126
+    ? Buffer.from([0x80 | opcode, payload.length])
+    : Buffer.from([0x80 | opcode, 126, payload.length >> 8, payload.length & 0xff]);
+  return Buffer.concat([header, payload]);
+}
+
+function textFrame(message: unknown): Buffer {
+  return serverFrame(0x1, Buffer.from(JSON.stringify(message)));
+}
+
+/** Minimal WebSocket server standing in for a Plex Media Server's notifications feed. */
+class NotificationServer {
+  readonly server = http.createServer((_req, res) => {
+    res.writeHead(404);
+    res.end();
+  });
+  readonly sockets: Duplex[] = [];
+  readonly paths: string[] = [];
+  /** Status to answer upgrades with instead of accepting them */
+  refuseWith: number | null = null;
+  private waiting: Array<() => void> = [];
+
+  constructor() {
+    this.server.on("upgrade", (req: http.IncomingMessage, socket: Duplex) => {
+      this.paths.push(req.url ?? "");
+      if (this.refuseWith !== null) {
+        socket.end(`HTTP/1.1 ${this.refuseWith} Refused\r\nContent-Length: 0\r\n\r\n`);
+        return;
+      }
+      const accept = createHash("sha1")
+        .update(`${req.headers["sec-websocket-key"]}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
+        .digest("base64");
+      socket.write(
+        "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+          `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+      );
+      // Flowing mode, so "end" fires when a client hangs up even if a test never reads.
+      socket.resume();
+      this.sockets.push(socket);
+      this.waiting.splice(0).forEach((resolve) => resolve());
+    });
+  }
+
+  get port(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+  }
+
+  /** Resolve once `count` clients have connected in total. */
+  async connections(count: number): Promise<Duplex> {
+    while (this.sockets.length < count) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+    return this.sockets[count - 1]!;
+  }
+
+  close(): Promise<void> {
+    this.sockets.forEach((socket) => socket.destroy());
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+const timelineMessage = {
+  NotificationContainer: {
+    type: "timeline",
+    TimelineEntry: [{ itemID: "1001", sectionID: "1", type: 9, state: 5, title: "OK Computer" }],
+  },
+};
+
+const albumProcessed: PlexNotification = {
+  type: "timeline",
+  entries: [{ itemId: "1001", sectionId: "1", type: 9, state: 5, title: "OK Computer" }],
+};
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe("PlexNotificationClient", () => {
+  let server: NotificationServer;
+  let client: PlexNotificationClient | null;
+
+  beforeEach(async () => {
+    server = new NotificationServer();
+    await server.listen();
+    client = null;
+  });
+
+  afterEach(async () => {
+    client?.stop();
+    await server.close();
+  });
+
+  function startClient(options: { onNotification: (n: PlexNotification) => void; onError?: (e: Error) => void }) {
+    client = new PlexNotificationClient({
+      host: "127.0.0.1",
+      port: server.port,
+      token: "test-token-abc",
+      minBackoffMs: 10,
+      maxBackoffMs: 40,
+      ...options,
+    });
+    client.start();
+    return client;
+  }
+
+  it("subscribes to the notifications feed with the token", async () => {
+    startClient({ onNotification: vi.fn() });
+    await server.connections(1);
+    expect(server.paths[0]).toBe("/:/websockets/notifications?X-Plex-Token=test-token-abc");
+  });
+
+  it("delivers parsed notifications and skips ones it cannot read", async () => {
+    const received: PlexNotification[] = [];
+    const delivered = new Promise<void>((resolve) => {
+      startClient({ onNotification: (n) => { received.push(n); resolve(); } });
+    });
+    const socket = await server.connections(1);
+
+    socket.write(serverFrame(0x1, Buffer.from("not json")));
+    socket.write(textFrame({ NotificationContainer: { type: "backgroundProcessingQueue" } }));
+    socket.write(textFrame(timelineMessage));
+    await delivered;
+
+    expect(received).toEqual([albumProcessed]);
+  });
+
+  it("reassembles fragmented messages and answers pings", async () => {
+    const delivered = new Promise<PlexNotification>((resolve) => startClient({ onNotification: resolve }));
+    const socket = await server.connections(1);
+    const pong = new Promise<Buffer>((resolve) => socket.once("data", resolve));
+
+    socket.write(serverFrame(0x9, Buffer.from("hi")));
+    const payload = Buffer.from(JSON.stringify(timelineMessage));
+    socket.write(Buffer.concat([Buffer.from([0x01, 10]), payload.subarray(0, 10)]));
+    socket.write(serverFrame(0x0, payload.subarray(10)));
+
+    expect(await delivered).toEqual(albumProcessed);
+    // Masked pong carrying the ping's payload.
+    const frame = await pong;
+    expect(frame[0]).toBe(0x8a);
+    expect(frame[1]).toBe(0x80 | 2);
+    const mask = frame.subarray(2, 6);
+    expect(Buffer.from([frame[6]! ^ mask[0]!, frame[7]! ^ mask[1]!]).toString()).toBe("hi");
+  });
+
+  it("reconnects after the server drops the connection", async () => {
+    const onError = vi.fn();
+    const onNotification = vi.fn();
+    startClient({ onNotification, onError });
+
+    (await server.connections(1)).destroy();
+    const second = await server.connections(2);
+    const delivered = new Promise<void>((resolve) => onNotification.mockImplementation(() => resolve()));
+    second.write(textFrame(timelineMessage));
+    await delivered;
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ name: "PlexConnectionError" }));
+    expect(onNotification).toHaveBeenCalledWith(albumProcessed);
+  });
+
+  it("keeps retrying with backoff when the upgrade is refused", async () => {
+    server.refuseWith = 401;
+    const errors: Error[] = [];
+    const retried = new Promise<void>((resolve) => {
+      startClient({ onNotification: vi.fn(), onError: (e) => { errors.push(e); if (errors.length === 2) resolve(); } });
+    });
+    await retried;
+
+    expect(errors[0]).toBeInstanceOf(PlexAuthError);
+    expect(server.paths).toHaveLength(2);
+  });
+
+  it("stops reconnecting after stop()", async () => {
+    const onError = vi.fn();
+    const started = startClient({ onNotification: vi.fn(), onError });
+    const socket = await server.connections(1);
+
+    started.stop();
+    await new Promise<void>((resolve) => socket.once("end", () => resolve()));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(server.sockets).toHaveLength(1);
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Notification Client — subscribes to a Plex Media Server's notifications
+ * WebSocket and reports library and playback changes as they happen.
+ *
+ * Messages from `/:/websockets/notifications` are parsed into typed
+ * PlexNotification events. When the connection drops it is re-opened with
+ * exponential backoff (reset after every successful connect), so the feed
+ * survives server restarts and network changes.
+ */
+
+import { parseNotification } from "../core/parser.js";
+import { connectWebSocket } from "./websocket.js";
+import type { WebSocketConnection } from "./websocket.js";
+import type { ConnectionManager } from "./connection-manager.js";
+import type { PlexConnection } from "../core/stream-resolver.js";
+import type { PlexNotification, RawNotificationResponse } from "../types/index.js";
+
+export interface PlexNotificationClientOptions extends PlexConnection {
+  /** When set, connect to the manager's active address instead of host/port/https. */
+  connections?: ConnectionManager;
+  /** Called with every notification of a type we understand. */
+  onNotification: (notification: PlexNotification) => void;
+  /** Called when connecting fails or the connection drops; a reconnect is already scheduled. */
+  onError?: (error: Error) => void;
+  /** Delay before the first reconnect in milliseconds. Default: 1 000 */
+  minBackoffMs?: number;
+  /** Upper bound for the reconnect delay in milliseconds. Default: 60 000 */
+  maxBackoffMs?: number;
+}
+
+export class PlexNotificationClient {
+  private readonly options: PlexNotificationClientOptions;
+  private readonly minBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private socket: WebSocketConnection | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private backoffMs: number;
+  private running = false;
+
+  constructor(options: PlexNotificationClientOptions) {
+    this.options = options;
+    this.minBackoffMs = options.minBackoffMs ?? 1_000;
+    this.maxBackoffMs = options.maxBackoffMs ?? 60_000;
+    this.backoffMs = this.minBackoffMs;
+  }
+
+  /** Connect now and keep reconnecting until stop(). */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.backoffMs = this.minBackoffMs;
+    void this.connect();
+  }
+
+  /** Close the connection and cancel any pending reconnect. */
+  stop(): void {
+    this.running = false;
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private async connect(): Promise<void> {
+    const { host, port, https } = this.options.connections?.current() ?? this.options;
+    let socket: WebSocketConnection;
+    try {
+      socket = await connectWebSocket(
+        {
+          host,
+          port,
+          https: https ?? false,
+          path: this.options.token
+            ? `/:/websockets/notifications?X-Plex-Token=${encodeURIComponent(this.options.token)}`
+            : "/:/websockets/notifications",
+        },
+        {
+          onMessage: (text) => this.handleMessage(text),
+          onClose: (error) => {
+            this.socket = null;
+            this.scheduleReconnect(error);
+          },
+        },
+      );
+    } catch (error: unknown) {
+      this.scheduleReconnect(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+    if (!this.running) {
+      socket.close();
+      return;
+    }
+    this.socket = socket;
+    this.backoffMs = this.minBackoffMs;
+  }
+
+  private handleMessage(text: string): void {
+    let notification: PlexNotification | null;
+    try {
+      notification = parseNotification(JSON.parse(text) as RawNotificationResponse);
+    } catch {
+      // Not a notification we can read — skip it rather than drop the feed.
+      return;
+    }
+    if (notification) this.options.onNotification(notification);
+  }
+
+  private scheduleReconnect(error?: Error): void {
+    if (!this.running) return;
+    if (error) this.options.onError?.(error);
+    const delay = this.backoffMs;
+    this.backoffMs = Math.min(this.backoffMs * 2, this.maxBackoffMs);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.connect();
+    }, delay);
+    this.timer.unref?.();
+  }
+}
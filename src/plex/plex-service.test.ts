@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { PlexService } from "./plex-service.js";
 import type { PlexApiClient } from "./api-client.js";
+import { ConnectionManager } from "./connection-manager.js";
 import type { PlexConnection } from "../core/stream-resolver.js";
 import type {
   RawLibraryResponse,
@@ -8,6 +9,7 @@ import type {
   RawAlbumResponse,
   RawTrackResponse,
   RawPlaylistResponse,
+  RawPlayQueueResponse,
 } from "../types/index.js";
 
 // ── Fixtures ──────────────────────────────────────────────────────────
@@ -152,13 +154,41 @@ function createMockClient(): PlexApiClient {
   return {
     getLibraries: vi.fn(),
     getAlbums: vi.fn(),
+    getLibraryTracks: vi.fn(),
+    getGenres: vi.fn(),
+    getGenreAlbums: vi.fn(),
+    getGenreTracks: vi.fn(),
+    getHubs: vi.fn(),
+    getOnDeck: vi.fn(),
+    getIdentity: vi.fn(),
+    createPlayQueue: vi.fn(),
+    getPlayQueue: vi.fn(),
+    openPlayQueue: vi.fn(),
+    addToPlayQueue: vi.fn(),
+    movePlayQueueItem: vi.fn(),
+    removePlayQueueItem: vi.fn(),
+    shufflePlayQueue: vi.fn(),
     getTracks: vi.fn(),
     getPlaylists: vi.fn(),
+    getRatedTracks: vi.fn(),
+    rate: vi.fn(),
+    createPlaylist: vi.fn(),
+    addToPlaylist: vi.fn(),
+    removeFromPlaylist: vi.fn(),
+    movePlaylistItem: vi.fn(),
+    renamePlaylist: vi.fn(),
+    deletePlaylist: vi.fn(),
     getPlaylistItems: vi.fn(),
+    getSimilarArtists: vi.fn(),
+    getNearestTracks: vi.fn(),
+    getNearestAlbums: vi.fn(),
     getTrackMetadata: vi.fn(),
+    getLiveTrackMetadata: vi.fn(),
+    getStreamText: vi.fn(),
     searchTracks: vi.fn(),
     searchAlbums: vi.fn(),
     searchArtists: vi.fn(),
+    clearCache: vi.fn(),
   } as unknown as PlexApiClient;
 }
 
@@ -187,6 +217,17 @@ describe("PlexService", () => {
       expect(libraries[1]!.title).toBe("Podcasts");
       expect(libraries.every((l) => l.type === "artist")).toBe(true);
     });
+
+    it("keeps libraries marked as audiobooks or podcasts out of the music libraries", async () => {
+      vi.mocked(client.getLibraries).mockResolvedValue(librariesFixture);
+      service.setLibraryKinds({ audiobooks: [], podcasts: ["podcasts"] });
+
+      expect((await service.getLibraries()).map((l) => l.title)).toEqual(["Music"]);
+      expect(await service.getLibraries("podcasts")).toEqual([
+        { id: "3", title: "Podcasts", type: "artist", kind: "podcasts" },
+      ]);
+      expect(await service.getLibraries("audiobooks")).toEqual([]);
+    });
   });
 
   // ── getAlbums ─────────────────────────────────────────────────────
@@ -213,7 +254,7 @@ describe("PlexService", () => {
 
       await service.getAlbumsPaginated("1", 0, 50, "title:asc");
 
-      expect(client.getAlbums).toHaveBeenCalledWith("1", { offset: 0, limit: 50 }, "title:asc");
+      expect(client.getAlbums).toHaveBeenCalledWith("1", { offset: 0, limit: 50 }, "title:asc", undefined);
     });
 
     it("omits sort param when not provided", async () => {
@@ -221,7 +262,359 @@ describe("PlexService", () => {
 
       await service.getAlbumsPaginated("1", 0, 50);
 
-      expect(client.getAlbums).toHaveBeenCalledWith("1", { offset: 0, limit: 50 }, undefined);
+      expect(client.getAlbums).toHaveBeenCalledWith("1", { offset: 0, limit: 50 }, undefined, undefined);
+    });
+
+    it("badges each album with the best hi-res tier it has tracks in", async () => {
+      const [okComputer, kidA] = albumsFixture.MediaContainer.Metadata;
+      vi.mocked(client.getAlbums).mockImplementation(async (_key, _pagination, _sort, filters) => {
+        const rate = filters?.find((filter) => filter.field === "samplingRate" && filter.operator === ">=");
+        const matches = !filters ? [okComputer!, kidA!]
+          : rate?.value === "176400" ? [kidA!]
+          : rate?.value === "88200" ? [okComputer!, kidA!]
+          : [];
+        return { MediaContainer: { size: matches.length, Metadata: matches } };
+      });
+
+      const result = await service.getAlbumsPaginated("1", 0, 50);
+
+      expect(client.getAlbums).toHaveBeenCalledWith("1", { offset: 0, limit: 2 }, undefined, [
+        { field: "id", operator: "=", value: "1001,1002" },
+        { field: "audioCodec", operator: "=", value: "dsd" },
+      ]);
+      expect(result.items.map((album) => album.qualityBadge)).toEqual(["24/88.2–96", "24/176.4+"]);
+    });
+
+    it("lists albums without badges when the tier lookup fails", async () => {
+      vi.mocked(client.getAlbums)
+        .mockResolvedValueOnce(albumsFixture)
+        .mockRejectedValue(new Error("bad filter"));
+
+      const result = await service.getAlbumsPaginated("1", 0, 50);
+
+      expect(result.items).toHaveLength(2);
+      expect(result.items.every((album) => album.qualityBadge === undefined)).toBe(true);
+    });
+  });
+
+  // ── getTracksPaginated ────────────────────────────────────────────
+
+  describe("getTracksPaginated", () => {
+    it("fetches a sorted page of a library's tracks", async () => {
+      vi.mocked(client.getLibraryTracks).mockResolvedValue(tracksFixture);
+
+      const result = await service.getTracksPaginated("1", 100, 50, "viewCount:desc");
+
+      expect(client.getLibraryTracks).toHaveBeenCalledWith("1", { offset: 100, limit: 50 }, "viewCount:desc", undefined);
+      expect(result.items.map((track) => track.title)).toEqual(
+        tracksFixture.MediaContainer.Metadata.map((track) => track.title),
+      );
+      expect(result.offset).toBe(100);
+    });
+  });
+
+  // ── Genres ────────────────────────────────────────────────────────
+
+  describe("getGenres", () => {
+    it("fetches and parses the genres of a library section", async () => {
+      vi.mocked(client.getGenres).mockResolvedValue({
+        MediaContainer: { size: 1, Directory: [{ key: "123", title: "Jazz" }] },
+      });
+
+      const genres = await service.getGenres("1");
+
+      expect(client.getGenres).toHaveBeenCalledWith("1");
+      expect(genres).toEqual([{ id: "123", title: "Jazz", libraryId: "1" }]);
+    });
+  });
+
+  describe("getGenreAlbumsPaginated", () => {
+    it("passes pagination to the API client and reports the total size", async () => {
+      vi.mocked(client.getGenreAlbums).mockResolvedValue({
+        MediaContainer: { ...albumsFixture.MediaContainer, totalSize: 40 },
+      });
+
+      const result = await service.getGenreAlbumsPaginated("1", "123", 20, 10);
+
+      expect(client.getGenreAlbums).toHaveBeenCalledWith("1", "123", { offset: 20, limit: 10 });
+      expect(result.items).toHaveLength(2);
+      expect(result.totalSize).toBe(40);
+      expect(result.offset).toBe(20);
+    });
+  });
+
+  describe("getGenreTracks", () => {
+    it("fetches and parses every track in a genre", async () => {
+      vi.mocked(client.getGenreTracks).mockResolvedValue(tracksFixture);
+
+      const tracks = await service.getGenreTracks("1", "123");
+
+      expect(client.getGenreTracks).toHaveBeenCalledWith("1", "123");
+      expect(tracks).toHaveLength(2);
+    });
+  });
+
+  // ── getHomeHubs ─────────────────────────────────────────────────
+
+  describe("getHomeHubs", () => {
+    beforeEach(() => {
+      vi.mocked(client.getLibraries).mockResolvedValue(librariesFixture);
+      vi.mocked(client.getHubs).mockImplementation(async (libraryKey: string) => ({
+        MediaContainer: {
+          size: 2,
+          Hub: [
+            {
+              hubIdentifier: "music.recent.added",
+              title: "Recently Added",
+              type: "album",
+              size: 1,
+              Metadata: libraryKey === "1"
+                ? [{ ...albumsFixture.MediaContainer.Metadata[0]!, type: "album" }]
+                : [{ ...albumsFixture.MediaContainer.Metadata[1]!, type: "album" }],
+            },
+            {
+              hubIdentifier: "music.recent.artists",
+              title: "Recent Artists",
+              type: "artist",
+              size: 1,
+              Metadata: [{ ...artistsFixture.MediaContainer.Metadata[0]!, type: "artist" }],
+            },
+          ],
+        },
+      }));
+      vi.mocked(client.getOnDeck).mockImplementation(async (libraryKey: string) =>
+        libraryKey === "1" ? singleTrackFixture : emptyTracksFixture,
+      );
+      vi.mocked(client.getLibraryTracks).mockResolvedValue(emptyTracksFixture);
+    });
+
+    it("merges home hubs across music libraries in display order", async () => {
+      const hubs = await service.getHomeHubs(12);
+
+      expect(client.getHubs).toHaveBeenCalledWith("1", 12);
+      expect(client.getHubs).toHaveBeenCalledWith("3", 12);
+      expect(hubs.map((hub) => hub.id)).toEqual(["music.recent.added", "music.onDeck"]);
+      expect(hubs[0]!.title).toBe("Recently Added Albums");
+      expect(hubs[0]!.albums.map((a) => a.title)).toEqual(["OK Computer", "Kid A"]);
+      expect(hubs[1]!.title).toBe("Continue Listening");
+      expect(hubs[1]!.tracks.map((t) => t.title)).toEqual(["Airbag"]);
+    });
+
+    it("caps each merged hub at the requested count", async () => {
+      const hubs = await service.getHomeHubs(1);
+
+      expect(hubs[0]!.albums).toHaveLength(1);
+    });
+
+    it("adds partially played tracks the resume policy picks up to Continue Listening", async () => {
+      const track = singleTrackFixture.MediaContainer.Metadata[0]!;
+      vi.mocked(client.getLibraryTracks).mockImplementation(async (libraryKey: string) =>
+        libraryKey === "1"
+          ? {
+            MediaContainer: {
+              size: 3,
+              Metadata: [
+                { ...track, ratingKey: "3001", title: "Essential Mix", duration: 7_200_000, viewOffset: 1_800_000 },
+                { ...track, ratingKey: "3002", title: "Lucky", duration: 259_000, viewOffset: 60_000 },
+                { ...track, duration: 1_500_000, viewOffset: 600_000 },
+              ],
+            },
+          }
+          : emptyTracksFixture,
+      );
+
+      const hubs = await service.getHomeHubs(12, { mode: "long", minMinutes: 20 });
+
+      expect(client.getLibraryTracks).toHaveBeenCalledWith(
+        "1", { offset: 0, limit: 12 }, "lastViewedAt:desc", [{ field: "inProgress", operator: null, value: null }],
+      );
+      // Airbag is already On Deck; the short track doesn't resume.
+      expect(hubs[1]!.tracks.map((t) => t.title)).toEqual(["Airbag", "Essential Mix"]);
+    });
+
+    it("lists only On Deck when resuming is off", async () => {
+      const hubs = await service.getHomeHubs(12, { mode: "never", minMinutes: 20 });
+
+      expect(client.getLibraryTracks).not.toHaveBeenCalled();
+      expect(hubs[1]!.tracks.map((t) => t.title)).toEqual(["Airbag"]);
+    });
+  });
+
+  // ── Radio stations ──────────────────────────────────────────────
+
+  describe("createStationQueue", () => {
+    const stationResponse: RawPlayQueueResponse = {
+      MediaContainer: {
+        size: 1,
+        playQueueID: 7001,
+        playQueueTotalCount: 1,
+        Metadata: [{ ...singleTrackFixture.MediaContainer.Metadata[0]!, playQueueItemID: 9001 }],
+      },
+    };
+
+    beforeEach(() => {
+      vi.mocked(client.getIdentity).mockResolvedValue({ MediaContainer: { machineIdentifier: "abc123" } });
+      vi.mocked(client.createPlayQueue).mockResolvedValue(stationResponse);
+    });
+
+    it("creates a continuous play queue from a station URI on this server", async () => {
+      const queue = await service.createStationQueue("500");
+
+      const params = vi.mocked(client.createPlayQueue).mock.calls[0]![0] as { uri: string; continuous?: boolean };
+      expect(params.continuous).toBe(true);
+      expect(params.uri).toMatch(
+        /^server:\/\/abc123\/com\.plexapp\.plugins\.library\/library\/metadata\/500\/station\/[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}\?type=10$/,
+      );
+      expect(queue.id).toBe("7001");
+      expect(queue.items[0]!.track.title).toBe("Airbag");
+    });
+
+    it("looks up the machine identifier only once", async () => {
+      await service.createStationQueue("500");
+      await service.createStationQueue("501");
+
+      expect(client.getIdentity).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe("openStationQueue", () => {
+    it("reopens a station with the entries of its first window", async () => {
+      const [first] = tracksFixture.MediaContainer.Metadata;
+      vi.mocked(client.openPlayQueue).mockResolvedValue({
+        MediaContainer: { size: 1, playQueueID: 7001, playQueueSelectedItemID: 9001, playQueueTotalCount: 50, Metadata: [{ ...first!, playQueueItemID: 9001 }] },
+      });
+
+      const queue = await service.openStationQueue("7001");
+
+      expect(client.openPlayQueue).toHaveBeenCalledWith("7001", 200);
+      expect(client.getPlayQueue).not.toHaveBeenCalled();
+      expect(queue.items.map((item) => item.itemId)).toEqual(["9001"]);
+    });
+  });
+
+  describe("getPlayQueue", () => {
+    it("opens an existing queue and loads the entries after the returned window", async () => {
+      const [first, second] = tracksFixture.MediaContainer.Metadata;
+      vi.mocked(client.openPlayQueue).mockResolvedValue({
+        MediaContainer: { size: 1, playQueueID: 7001, playQueueSelectedItemID: 9001, playQueueTotalCount: 2, Metadata: [{ ...first!, playQueueItemID: 9001 }] },
+      });
+      vi.mocked(client.getPlayQueue).mockResolvedValue({
+        MediaContainer: { size: 2, playQueueID: 7001, playQueueTotalCount: 2, Metadata: [{ ...first!, playQueueItemID: 9001 }, { ...second!, playQueueItemID: 9002 }] },
+      });
+
+      const queue = await service.getPlayQueue("7001");
+
+      expect(client.openPlayQueue).toHaveBeenCalledWith("7001", 200);
+      expect(client.getPlayQueue).toHaveBeenCalledWith("7001", "9001", 200);
+      expect(queue.selectedItemId).toBe("9001");
+      expect(queue.items.map((item) => item.itemId)).toEqual(["9001", "9002"]);
+    });
+  });
+
+  describe("getPlayQueueWindow", () => {
+    it("returns only the entries after the given item", async () => {
+      vi.mocked(client.getPlayQueue).mockResolvedValue({
+        MediaContainer: {
+          size: 2,
+          playQueueID: 7001,
+          playQueueTotalCount: 3,
+          Metadata: tracksFixture.MediaContainer.Metadata.map((track, index) => ({
+            ...track,
+            playQueueItemID: 9001 + index,
+          })),
+        },
+      });
+
+      const queue = await service.getPlayQueueWindow("7001", "9001", 10);
+
+      expect(client.getPlayQueue).toHaveBeenCalledWith("7001", "9001", 10);
+      expect(queue.items.map((item) => item.itemId)).toEqual(["9002"]);
+    });
+  });
+
+  describe("createPlayQueue", () => {
+    function queueResponse(itemIds: number[], totalCount: number): RawPlayQueueResponse {
+      return {
+        MediaContainer: {
+          size: itemIds.length,
+          playQueueID: 7001,
+          playQueueSelectedItemID: 9001,
+          playQueueTotalCount: totalCount,
+          Metadata: itemIds.map((id) => ({
+            ...singleTrackFixture.MediaContainer.Metadata[0]!,
+            ratingKey: String(id - 7000),
+            playQueueItemID: id,
+          })),
+        },
+      };
+    }
+
+    beforeEach(() => {
+      vi.mocked(client.getIdentity).mockResolvedValue({ MediaContainer: { machineIdentifier: "abc123" } });
+    });
+
+    it("queues an album by its item URI rather than its children path", async () => {
+      vi.mocked(client.createPlayQueue).mockResolvedValue(queueResponse([9001, 9002], 2));
+
+      const queue = await service.createPlayQueue("/library/metadata/1001/children");
+
+      expect(client.createPlayQueue).toHaveBeenCalledWith({
+        uri: "server://abc123/com.plexapp.plugins.library/library/metadata/1001",
+        shuffle: false,
+      });
+      expect(queue.items.map((item) => item.itemId)).toEqual(["9001", "9002"]);
+      expect(client.getPlayQueue).not.toHaveBeenCalled();
+    });
+
+    it("queues a playlist by its ID and passes shuffle through", async () => {
+      vi.mocked(client.createPlayQueue).mockResolvedValue(queueResponse([9001], 1));
+
+      await service.createPlayQueue("/playlists/42/items", { shuffle: true });
+
+      expect(client.createPlayQueue).toHaveBeenCalledWith({ playlistId: "42", shuffle: true });
+    });
+
+    it("loads the rest of a queue larger than the first window", async () => {
+      vi.mocked(client.createPlayQueue).mockResolvedValue(queueResponse([9001, 9002], 4));
+      vi.mocked(client.getPlayQueue).mockResolvedValue(queueResponse([9002, 9003, 9004], 4));
+
+      const queue = await service.createPlayQueue("/library/metadata/1001/children");
+
+      expect(client.getPlayQueue).toHaveBeenCalledWith("7001", "9002", 200);
+      expect(queue.items.map((item) => item.itemId)).toEqual(["9001", "9002", "9003", "9004"]);
+    });
+  });
+
+  describe("play queue editing", () => {
+    const emptyQueue: RawPlayQueueResponse = {
+      MediaContainer: { size: 0, playQueueID: 7001, playQueueTotalCount: 0 },
+    };
+
+    it("adds library items by their server URI", async () => {
+      vi.mocked(client.getIdentity).mockResolvedValue({ MediaContainer: { machineIdentifier: "abc123" } });
+      vi.mocked(client.addToPlayQueue).mockResolvedValue(emptyQueue);
+
+      await service.addToPlayQueue("7001", "/library/metadata/1002/children", true);
+
+      expect(client.addToPlayQueue).toHaveBeenCalledWith(
+        "7001",
+        "server://abc123/com.plexapp.plugins.library/library/metadata/1002",
+        true,
+      );
+    });
+
+    it("moves, removes and shuffles entries", async () => {
+      vi.mocked(client.movePlayQueueItem).mockResolvedValue(emptyQueue);
+      vi.mocked(client.removePlayQueueItem).mockResolvedValue(emptyQueue);
+      vi.mocked(client.shufflePlayQueue).mockResolvedValue(emptyQueue);
+
+      await service.movePlayQueueItem("7001", "9003");
+      await service.removePlayQueueItem("7001", "9002");
+      const queue = await service.shufflePlayQueue("7001");
+
+      expect(client.movePlayQueueItem).toHaveBeenCalledWith("7001", "9003", undefined);
+      expect(client.removePlayQueueItem).toHaveBeenCalledWith("7001", "9002");
+      expect(queue.id).toBe("7001");
     });
   });
 
@@ -243,6 +636,32 @@ describe("PlexService", () => {
     });
   });
 
+  // ── Similar and sonically similar ─────────────────────────────────
+
+  describe("similar artists and sonic neighbours", () => {
+    it("fetches and parses similar artists", async () => {
+      vi.mocked(client.getSimilarArtists).mockResolvedValue(artistsFixture);
+
+      const artists = await service.getSimilarArtists("400", 12);
+
+      expect(client.getSimilarArtists).toHaveBeenCalledWith("400", 12);
+      expect(artists.map((a) => a.albumsKey)).toEqual(["/library/metadata/500/children"]);
+    });
+
+    it("fetches and parses sonically similar tracks and albums", async () => {
+      vi.mocked(client.getNearestTracks).mockResolvedValue(tracksFixture);
+      vi.mocked(client.getNearestAlbums).mockResolvedValue(albumsFixture);
+
+      const tracks = await service.getSonicallySimilarTracks("2001", 50);
+      const albums = await service.getSonicallySimilarAlbums("1001", 12);
+
+      expect(client.getNearestTracks).toHaveBeenCalledWith("2001", 50);
+      expect(client.getNearestAlbums).toHaveBeenCalledWith("1001", 12);
+      expect(tracks[0]!.title).toBe("Airbag");
+      expect(albums[0]!.trackListKey).toBe("/library/metadata/1001/children");
+    });
+  });
+
   // ── getPlaylists ──────────────────────────────────────────────────
 
   describe("getPlaylists", () => {
@@ -272,6 +691,109 @@ describe("PlexService", () => {
     });
   });
 
+  // ── Playlist editing ──────────────────────────────────────────────
+
+  describe("playlist editing", () => {
+    beforeEach(() => {
+      vi.mocked(client.getIdentity).mockResolvedValue({ MediaContainer: { machineIdentifier: "abc123" } });
+    });
+
+    it("creates a playlist from library items and returns it", async () => {
+      vi.mocked(client.createPlaylist).mockResolvedValue(playlistsFixture);
+
+      const playlist = await service.createPlaylist("Road Trip", ["2001", "2002"]);
+
+      expect(client.createPlaylist).toHaveBeenCalledWith(
+        "Road Trip",
+        "server://abc123/com.plexapp.plugins.library/library/metadata/2001,2002",
+      );
+      expect(playlist.title).toBe("Favorites");
+    });
+
+    it("adds library items to an existing playlist by server URI", async () => {
+      await service.addToPlaylist("5001", ["1001"]);
+
+      expect(client.addToPlaylist).toHaveBeenCalledWith(
+        "5001",
+        "server://abc123/com.plexapp.plugins.library/library/metadata/1001",
+      );
+    });
+
+    it("passes removals, moves, renames and deletes through", async () => {
+      await service.removeFromPlaylist("5001", "77");
+      await service.movePlaylistItem("5001", "77", "76");
+      await service.renamePlaylist("5001", "Long Drive");
+      await service.deletePlaylist("5001");
+
+      expect(client.removeFromPlaylist).toHaveBeenCalledWith("5001", "77");
+      expect(client.movePlaylistItem).toHaveBeenCalledWith("5001", "77", "76");
+      expect(client.renamePlaylist).toHaveBeenCalledWith("5001", "Long Drive");
+      expect(client.deletePlaylist).toHaveBeenCalledWith("5001");
+    });
+  });
+
+  // ── Ratings ───────────────────────────────────────────────────────
+
+  describe("rate", () => {
+    it("converts stars to Plex's 0–10 scale", async () => {
+      await service.rate("2001", 4.5);
+      expect(client.rate).toHaveBeenCalledWith("2001", 9);
+    });
+
+    it("clears the rating for 0 stars", async () => {
+      await service.rate("2001", 0);
+      expect(client.rate).toHaveBeenCalledWith("2001", -1);
+    });
+
+    it("rejects ratings outside 0–5 stars", async () => {
+      await expect(service.rate("2001", 6)).rejects.toThrow("between 0 and 5");
+      expect(client.rate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("refreshLibrary", () => {
+    it("clears the whole cache without a change", () => {
+      service.refreshLibrary();
+      expect(client.clearCache).toHaveBeenCalledWith();
+    });
+
+    it("clears only the listings that can show the changed item", () => {
+      service.refreshLibrary({ sectionId: "1", itemId: "100" });
+      const matches = vi.mocked(client.clearCache).mock.calls[0]![0]!;
+
+      expect(matches("/library/sections")).toBe(true);
+      expect(matches("/library/sections/1/all?type=9")).toBe(true);
+      expect(matches("/hubs/sections/1?count=12")).toBe(true);
+      expect(matches("/library/metadata/100/children")).toBe(true);
+      expect(matches("/playlists/100/items")).toBe(true);
+      expect(matches("/library/sections/10/all?type=9")).toBe(false);
+      expect(matches("/library/metadata/1001/children")).toBe(false);
+    });
+  });
+
+  describe("getTopRatedTracks", () => {
+    it("merges rated tracks across libraries, highest rated first", async () => {
+      vi.mocked(client.getLibraries).mockResolvedValue({
+        MediaContainer: {
+          size: 2,
+          Directory: [
+            { key: "1", title: "Music", type: "artist" },
+            { key: "2", title: "More Music", type: "artist" },
+          ],
+        },
+      });
+      const track = singleTrackFixture.MediaContainer.Metadata[0]!;
+      vi.mocked(client.getRatedTracks)
+        .mockResolvedValueOnce({ MediaContainer: { size: 1, Metadata: [{ ...track, ratingKey: "1", userRating: 6 }] } })
+        .mockResolvedValueOnce({ MediaContainer: { size: 1, Metadata: [{ ...track, ratingKey: "2", userRating: 10 }] } });
+
+      const tracks = await service.getTopRatedTracks(5);
+
+      expect(client.getRatedTracks).toHaveBeenCalledWith("1", 5);
+      expect(tracks.map((t) => [t.id, t.userRating])).toEqual([["2", 5], ["1", 3]]);
+    });
+  });
+
   // ── search ────────────────────────────────────────────────────────
 
   describe("search", () => {
@@ -308,6 +830,82 @@ describe("PlexService", () => {
     });
   });
 
+  // ── getLyrics ─────────────────────────────────────────────────────
+
+  describe("getLyrics", () => {
+    it("fetches and parses the track's lyrics stream", async () => {
+      const track = singleTrackFixture.MediaContainer.Metadata[0]!;
+      vi.mocked(client.getTrackMetadata).mockResolvedValue({
+        MediaContainer: {
+          size: 1,
+          Metadata: [{
+            ...track,
+            Media: [{ Part: [{ key: "/library/parts/2001/file.flac", Stream: [{ streamType: 4, codec: "lrc", key: "/library/streams/12" }] }] }],
+          }],
+        },
+      });
+      vi.mocked(client.getStreamText).mockResolvedValue("[00:01.00]Hello");
+
+      const lyrics = await service.getLyrics("2001");
+
+      expect(client.getStreamText).toHaveBeenCalledWith("/library/streams/12");
+      expect(lyrics).toEqual({ synced: true, lines: [{ timeMs: 1000, text: "Hello" }] });
+    });
+
+    it("returns null when the track has no lyrics", async () => {
+      vi.mocked(client.getTrackMetadata).mockResolvedValue(singleTrackFixture);
+
+      expect(await service.getLyrics("2001")).toBeNull();
+      expect(client.getStreamText).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── getTrack ──────────────────────────────────────────────────────
+
+  describe("getTrack", () => {
+    it("fetches a track with its chapters", async () => {
+      const track = singleTrackFixture.MediaContainer.Metadata[0]!;
+      vi.mocked(client.getTrackMetadata).mockResolvedValue({
+        MediaContainer: {
+          size: 1,
+          Metadata: [{ ...track, Chapter: [{ tag: "Intro", startTimeOffset: 0, endTimeOffset: 90_000 }] }],
+        },
+      });
+
+      const result = await service.getTrack("2001");
+
+      expect(client.getTrackMetadata).toHaveBeenCalledWith("2001");
+      expect(result.chapters).toEqual([{ title: "Intro", startMs: 0, endMs: 90_000 }]);
+    });
+
+    it("throws when the track doesn't exist", async () => {
+      vi.mocked(client.getTrackMetadata).mockResolvedValue(emptyTracksFixture);
+
+      await expect(service.getTrack("9999")).rejects.toThrow("Track not found: 9999");
+    });
+  });
+
+  // ── getViewOffset ─────────────────────────────────────────────────
+
+  describe("getViewOffset", () => {
+    it("reads where the track was left off past the cache", async () => {
+      const track = singleTrackFixture.MediaContainer.Metadata[0]!;
+      vi.mocked(client.getLiveTrackMetadata).mockResolvedValue({
+        MediaContainer: { size: 1, Metadata: [{ ...track, viewOffset: 95_000 }] },
+      });
+
+      expect(await service.getViewOffset("2001")).toBe(95_000);
+      expect(client.getLiveTrackMetadata).toHaveBeenCalledWith("2001");
+      expect(client.getTrackMetadata).not.toHaveBeenCalled();
+    });
+
+    it("returns null for a track that isn't partially played", async () => {
+      vi.mocked(client.getLiveTrackMetadata).mockResolvedValue(singleTrackFixture);
+
+      expect(await service.getViewOffset("2001")).toBeNull();
+    });
+  });
+
   // ── getPlayableTrack ──────────────────────────────────────────────
 
   describe("getPlayableTrack", () => {
@@ -353,6 +951,60 @@ describe("PlexService", () => {
 
       await expect(service.getPlayableTrack("2001")).rejects.toThrow("Track 2001 has no playable media");
     });
+
+    describe("with several versions", () => {
+      const versionsFixture: RawTrackResponse = {
+        MediaContainer: {
+          size: 1,
+          Metadata: [{
+            ...singleTrackFixture.MediaContainer.Metadata![0]!,
+            Media: [
+              { audioCodec: "mp3", bitrate: 320, Part: [{ key: "/library/parts/1/file.mp3" }] },
+              {
+                audioCodec: "flac",
+                bitrate: 1000,
+                Part: [
+                  { key: "/library/parts/2/cd1.flac", duration: 100_000, Stream: [{ streamType: 2, samplingRate: 44100, bitDepth: 16 }] },
+                  { key: "/library/parts/3/cd2.flac", duration: 182_000 },
+                ],
+              },
+            ],
+          }],
+        },
+      };
+
+      beforeEach(() => {
+        vi.mocked(client.getTrackMetadata).mockResolvedValue(versionsFixture);
+      });
+
+      it("plays the best sounding version by default", async () => {
+        const playable = await service.getPlayableTrack("2001");
+
+        expect(playable.streamKey).toBe("/library/parts/2/cd1.flac");
+        expect(playable.trackType).toBe("flac");
+        expect(playable.bitdepth).toBe("16 bit");
+        expect(playable.streamUrl).toBe("http://192.168.1.100:32400/library/parts/2/cd1.flac?X-Plex-Token=test-token");
+      });
+
+      it("follows the version preference", async () => {
+        service.setVersionPreference({ prefer: "smallest" });
+        expect((await service.getPlayableTrack("2001")).streamKey).toBe("/library/parts/1/file.mp3");
+
+        service.setVersionPreference({ prefer: "codec", codec: "MP3" });
+        expect((await service.getPlayableTrack("2001")).streamKey).toBe("/library/parts/1/file.mp3");
+      });
+
+      it("splits a multi-part version into one entry per part", async () => {
+        const playable = await service.getPlayableTrack("2001");
+
+        const parts = service.playableParts(playable);
+
+        expect(parts.map((part) => [part.title, part.streamKey, part.duration])).toEqual([
+          ["Airbag (Part 1 of 2)", "/library/parts/2/cd1.flac", 100_000],
+          ["Airbag (Part 2 of 2)", "/library/parts/3/cd2.flac", 182_000],
+        ]);
+      });
+    });
   });
 
   // ── getArtworkUrl ─────────────────────────────────────────────────
@@ -367,6 +1019,30 @@ describe("PlexService", () => {
     });
   });
 
+  // ── Connection failover ───────────────────────────────────────────
+
+  describe("with a connection manager", () => {
+    it("builds stream URLs for the manager's active address", async () => {
+      const connections = new ConnectionManager({
+        token: "test-token",
+        candidates: [
+          { host: "192.168.1.100", port: 32400, https: false, kind: "local" },
+          { host: "relay.plex.direct", port: 8443, https: true, kind: "relay" },
+        ],
+        probe: async (candidate) => {
+          if (candidate.kind === "local") throw new Error("offline");
+        },
+      });
+      const managed = new PlexService(client, connection, connections);
+
+      await connections.probe();
+
+      expect(managed.getStreamUrl("/library/parts/2001/file.flac")).toBe(
+        "https://relay.plex.direct:8443/library/parts/2001/file.flac?X-Plex-Token=test-token",
+      );
+    });
+  });
+
   // ── Error propagation ─────────────────────────────────────────────
 
   describe("error propagation", () => {
@@ -6,11 +6,45 @@
  * Testable with a mocked PlexApiClient.
  */
 
+import { randomBytes } from "crypto";
 import type { PlexApiClient } from "./api-client.js";
-import type { Library, Artist, Album, Track, Playlist, PaginatedResult } from "../types/index.js";
-import { parseLibraries, parseArtists, parseAlbums, parseTracks, parsePlaylists } from "../core/parser.js";
+import type { ConnectionManager, ConnectionKind } from "./connection-manager.js";
+import type { CacheMetrics } from "./response-cache.js";
+import type {
+  Library,
+  LibraryKind,
+  Artist,
+  Album,
+  Track,
+  Playlist,
+  Genre,
+  Hub,
+  PlayQueue,
+  Lyrics,
+  PaginatedResult,
+  LibraryFilter,
+} from "../types/index.js";
+import {
+  parseLibraries,
+  parseArtists,
+  parseAlbums,
+  parseTracks,
+  parsePlaylists,
+  parseGenres,
+  parseHubs,
+  parsePlayQueue,
+  parseLyrics,
+} from "../core/parser.js";
 import { buildStreamUrl, buildResourceUrl } from "../core/stream-resolver.js";
 import type { PlexConnection } from "../core/stream-resolver.js";
+import type { TranscodeFormat } from "../core/stream-policy.js";
+import { DEFAULT_VERSION_PREFERENCE, selectVersion, splitParts, withVersion } from "../core/media-versions.js";
+import type { VersionPreference } from "../core/media-versions.js";
+import { DEFAULT_RESUME_POLICY, resumesTrack } from "../core/resume.js";
+import { HI_RES_TIERS } from "../core/audio-quality.js";
+import { DEFAULT_LIBRARY_KINDS, libraryKind } from "../core/library-kinds.js";
+import type { LibraryKindAssignments } from "../core/library-kinds.js";
+import type { ResumePolicy } from "../core/resume.js";
 
 export interface PlayableTrack extends Track {
   streamUrl: string;
@@ -22,16 +56,63 @@ export interface SearchResults {
   artists: Artist[];
 }
 
+/** What changed on the server, as reported by a notification. */
+export interface LibraryChange {
+  /** Library section the change happened in, or null when unknown or not in a section */
+  sectionId: string | null;
+  /** ratingKey of the changed item, or null for section-wide changes such as a scan */
+  itemId: string | null;
+}
+
+/** Hub identifier used for the On Deck–backed "Continue Listening" hub. */
+export const CONTINUE_LISTENING_HUB_ID = "music.onDeck";
+
+/**
+ * Hubs shown on the Plex root page, in display order. The first two are
+ * Plex hubIdentifiers from /hubs/sections; the last is built from On Deck.
+ */
+export const HOME_HUBS = [
+  { id: "music.recent.added", title: "Recently Added Albums" },
+  { id: "music.recent.played", title: "Recently Played" },
+  { id: CONTINUE_LISTENING_HUB_ID, title: "Continue Listening" },
+] as const;
+
+/** Entries requested per window when loading the rest of a new play queue. */
+const PLAY_QUEUE_WINDOW = 200;
+
+/** Items a radio station can be seeded from. */
+export type RadioType = "artist" | "album" | "track";
+
 export class PlexService {
+  private machineIdentifier: string | null = null;
+  private versionPreference: VersionPreference = DEFAULT_VERSION_PREFERENCE;
+  private libraryKinds: LibraryKindAssignments = DEFAULT_LIBRARY_KINDS;
+
+  /**
+   * With a connection manager, stream and artwork URLs point at its active
+   * address rather than at `connection`'s host/port; give the API client the
+   * same manager so both follow failovers together.
+   */
   constructor(
     private readonly apiClient: PlexApiClient,
     private readonly connection: PlexConnection,
+    private readonly connections?: ConnectionManager,
   ) {}
 
-  /** Get all music libraries (filters out non-music sections). */
-  async getLibraries(): Promise<Library[]> {
+  /** Mark libraries as audiobooks or podcasts; the rest are music. */
+  setLibraryKinds(assignments: LibraryKindAssignments): void {
+    this.libraryKinds = assignments;
+  }
+
+  /**
+   * Get the audio libraries of a kind — music by default, so audiobook and
+   * podcast libraries stay out of the music views.
+   */
+  async getLibraries(kind: LibraryKind = "music"): Promise<Library[]> {
     const raw = await this.apiClient.getLibraries();
-    return parseLibraries(raw);
+    return parseLibraries(raw)
+      .map((lib) => ({ ...lib, kind: libraryKind(lib, this.libraryKinds) }))
+      .filter((lib) => lib.kind === kind);
   }
 
   /** Get all artists in a library section. */
@@ -40,14 +121,15 @@ export class PlexService {
     return parseArtists(raw);
   }
 
-  /** Get a page of artists in a library section. */
+  /** Get a page of artists in a library section, optionally narrowed by filters. */
   async getArtistsPaginated(
     libraryKey: string,
     offset: number,
     limit: number,
     sort?: string,
+    filters?: LibraryFilter[],
   ): Promise<PaginatedResult<Artist>> {
-    const raw = await this.apiClient.getArtists(libraryKey, { offset, limit }, sort);
+    const raw = await this.apiClient.getArtists(libraryKey, { offset, limit }, sort, filters);
     return {
       items: parseArtists(raw),
       totalSize: raw.MediaContainer.totalSize ?? raw.MediaContainer.size,
@@ -55,9 +137,9 @@ export class PlexService {
     };
   }
 
-  /** Get all artists across all music libraries. */
-  async getAllArtists(): Promise<Artist[]> {
-    const libraries = await this.getLibraries();
+  /** Get all artists across all libraries of a kind (music by default). */
+  async getAllArtists(kind: LibraryKind = "music"): Promise<Artist[]> {
+    const libraries = await this.getLibraries(kind);
     const results = await Promise.all(
       libraries.map((lib) => this.getArtists(lib.id)),
     );
@@ -70,16 +152,17 @@ export class PlexService {
     return parseAlbums(raw);
   }
 
-  /** Get a page of albums in a library section. */
+  /** Get a page of albums in a library section, optionally narrowed by filters. */
   async getAlbumsPaginated(
     libraryKey: string,
     offset: number,
     limit: number,
     sort?: string,
+    filters?: LibraryFilter[],
   ): Promise<PaginatedResult<Album>> {
-    const raw = await this.apiClient.getAlbums(libraryKey, { offset, limit }, sort);
+    const raw = await this.apiClient.getAlbums(libraryKey, { offset, limit }, sort, filters);
     return {
-      items: parseAlbums(raw),
+      items: await this.withQualityBadges(libraryKey, parseAlbums(raw)),
       totalSize: raw.MediaContainer.totalSize ?? raw.MediaContainer.size,
       offset,
     };
@@ -94,6 +177,22 @@ export class PlexService {
     return results.flat();
   }
 
+  /** Get a page of tracks in a library section, optionally narrowed by filters. */
+  async getTracksPaginated(
+    libraryKey: string,
+    offset: number,
+    limit: number,
+    sort?: string,
+    filters?: LibraryFilter[],
+  ): Promise<PaginatedResult<Track>> {
+    const raw = await this.apiClient.getLibraryTracks(libraryKey, { offset, limit }, sort, filters);
+    return {
+      items: parseTracks(raw),
+      totalSize: raw.MediaContainer.totalSize ?? raw.MediaContainer.size,
+      offset,
+    };
+  }
+
   /** Get albums for a specific artist by their albumsKey. */
   async getArtistAlbums(albumsKey: string): Promise<Album[]> {
     const raw = await this.apiClient.getArtistAlbums(albumsKey);
@@ -106,12 +205,159 @@ export class PlexService {
     return parseTracks(raw);
   }
 
+  /** Get every track of an artist by their ratingKey, in Plex's album order. */
+  async getArtistTracks(artistId: string): Promise<Track[]> {
+    const raw = await this.apiClient.getArtistTracks(artistId);
+    return parseTracks(raw);
+  }
+
   /** Get popular tracks for an artist by their ratingKey. */
   async getPopularTracks(artistId: string): Promise<Track[]> {
     const raw = await this.apiClient.getPopularTracks(artistId);
     return parseTracks(raw);
   }
 
+  /** Get up to `count` artists similar to an artist, most similar first. */
+  async getSimilarArtists(artistId: string, count: number): Promise<Artist[]> {
+    const raw = await this.apiClient.getSimilarArtists(artistId, count);
+    return parseArtists(raw);
+  }
+
+  /**
+   * Get up to `count` tracks that sound like a track, closest first, from
+   * Plex's sonic analysis. Empty for tracks that haven't been analysed.
+   */
+  async getSonicallySimilarTracks(trackId: string, count: number): Promise<Track[]> {
+    const raw = await this.apiClient.getNearestTracks(trackId, count);
+    return parseTracks(raw);
+  }
+
+  /** Get up to `count` albums that sound like an album, closest first, from Plex's sonic analysis. */
+  async getSonicallySimilarAlbums(albumId: string, count: number): Promise<Album[]> {
+    const raw = await this.apiClient.getNearestAlbums(albumId, count);
+    return parseAlbums(raw);
+  }
+
+  /** Get the genres of a library section. */
+  async getGenres(libraryKey: string): Promise<Genre[]> {
+    const raw = await this.apiClient.getGenres(libraryKey);
+    return parseGenres(raw, libraryKey);
+  }
+
+  /** Get a page of artists tagged with a genre. */
+  async getGenreArtistsPaginated(
+    libraryKey: string,
+    genreId: string,
+    offset: number,
+    limit: number,
+  ): Promise<PaginatedResult<Artist>> {
+    const raw = await this.apiClient.getGenreArtists(libraryKey, genreId, { offset, limit });
+    return {
+      items: parseArtists(raw),
+      totalSize: raw.MediaContainer.totalSize ?? raw.MediaContainer.size,
+      offset,
+    };
+  }
+
+  /** Get a page of albums tagged with a genre. */
+  async getGenreAlbumsPaginated(
+    libraryKey: string,
+    genreId: string,
+    offset: number,
+    limit: number,
+  ): Promise<PaginatedResult<Album>> {
+    const raw = await this.apiClient.getGenreAlbums(libraryKey, genreId, { offset, limit });
+    return {
+      items: await this.withQualityBadges(libraryKey, parseAlbums(raw)),
+      totalSize: raw.MediaContainer.totalSize ?? raw.MediaContainer.size,
+      offset,
+    };
+  }
+
+  /** Get all tracks in a genre. */
+  async getGenreTracks(libraryKey: string, genreId: string): Promise<Track[]> {
+    const raw = await this.apiClient.getGenreTracks(libraryKey, genreId);
+    return parseTracks(raw);
+  }
+
+  /** Get up to `count` rated tracks across all music libraries, highest rated first. */
+  async getTopRatedTracks(count: number): Promise<Track[]> {
+    const libraries = await this.getLibraries();
+    const results = await Promise.all(
+      libraries.map(async (lib) => parseTracks(await this.apiClient.getRatedTracks(lib.id, count))),
+    );
+    return results
+      .flat()
+      .sort((a, b) => (b.userRating ?? 0) - (a.userRating ?? 0))
+      .slice(0, count);
+  }
+
+  /**
+   * Rate a track, album, or artist with 0–5 stars (half stars allowed).
+   * 0 stars clears the rating.
+   */
+  async rate(ratingKey: string, stars: number): Promise<void> {
+    if (!(stars >= 0 && stars <= 5)) {
+      throw new Error(`Rating must be between 0 and 5 stars, got ${stars}`);
+    }
+    const rating = Math.round(stars * 2);
+    await this.apiClient.rate(ratingKey, rating === 0 ? -1 : rating);
+  }
+
+  /** Get the hubs of a library section, each holding up to `count` items. */
+  async getHubs(libraryKey: string, count?: number): Promise<Hub[]> {
+    const raw = await this.apiClient.getHubs(libraryKey, count);
+    return parseHubs(raw);
+  }
+
+  /**
+   * Get the home hubs (see HOME_HUBS) merged across all music libraries.
+   * Each hub holds at most `count` items of each type; empty hubs are omitted.
+   * Continue Listening adds the partially played tracks that `resume` picks
+   * up where they were left off to Plex's On Deck.
+   */
+  async getHomeHubs(count: number, resume: ResumePolicy = DEFAULT_RESUME_POLICY): Promise<Hub[]> {
+    const libraries = await this.getLibraries();
+    const perLibrary = await Promise.all(
+      libraries.map(async (lib): Promise<Hub[]> => {
+        const [plexHubs, rawOnDeck, inProgress] = await Promise.all([
+          this.getHubs(lib.id, count),
+          this.apiClient.getOnDeck(lib.id, count),
+          this.getInProgressTracks(lib.id, count, resume),
+        ]);
+        const badged = new Map((await this.withQualityBadges(lib.id, plexHubs.flatMap((hub) => hub.albums)))
+          .map((album) => [album.id, album]));
+        const hubs = plexHubs.map((hub) => ({ ...hub, albums: hub.albums.map((album) => badged.get(album.id) ?? album) }));
+        const onDeckTracks = parseTracks(rawOnDeck);
+        const onDeck: Hub = {
+          id: CONTINUE_LISTENING_HUB_ID,
+          title: "Continue Listening",
+          albums: [],
+          artists: [],
+          tracks: [
+            ...onDeckTracks,
+            ...inProgress.filter((track) => !onDeckTracks.some((t) => t.id === track.id)),
+          ],
+        };
+        return [...hubs, onDeck];
+      }),
+    );
+    const allHubs = perLibrary.flat();
+
+    return HOME_HUBS
+      .map(({ id, title }) => {
+        const matching = allHubs.filter((hub) => hub.id === id);
+        return {
+          id,
+          title,
+          albums: matching.flatMap((hub) => hub.albums).slice(0, count),
+          artists: matching.flatMap((hub) => hub.artists).slice(0, count),
+          tracks: matching.flatMap((hub) => hub.tracks).slice(0, count),
+        };
+      })
+      .filter((hub) => hub.albums.length + hub.artists.length + hub.tracks.length > 0);
+  }
+
   /** Get all audio playlists (filters out video playlists). */
   async getPlaylists(): Promise<Playlist[]> {
     const raw = await this.apiClient.getPlaylists();
@@ -138,6 +384,44 @@ export class PlexService {
     };
   }
 
+  /**
+   * Create an audio playlist from library items (tracks, albums, or artists
+   * by ratingKey). Plex expands albums and artists into their tracks.
+   */
+  async createPlaylist(title: string, ratingKeys: string[]): Promise<Playlist> {
+    const uri = await this.libraryUri(`/library/metadata/${ratingKeys.join(",")}`);
+    const raw = await this.apiClient.createPlaylist(title, uri);
+    const playlist = parsePlaylists(raw)[0];
+    if (!playlist) throw new Error(`Plex did not return the new playlist: ${title}`);
+    return playlist;
+  }
+
+  /** Append library items (tracks, albums, or artists by ratingKey) to a playlist. */
+  async addToPlaylist(playlistId: string, ratingKeys: string[]): Promise<void> {
+    const uri = await this.libraryUri(`/library/metadata/${ratingKeys.join(",")}`);
+    await this.apiClient.addToPlaylist(playlistId, uri);
+  }
+
+  /** Remove an entry (Track.playlistItemId) from a playlist. */
+  async removeFromPlaylist(playlistId: string, playlistItemId: string): Promise<void> {
+    await this.apiClient.removeFromPlaylist(playlistId, playlistItemId);
+  }
+
+  /** Move a playlist entry after `afterItemId`, or to the top when omitted. */
+  async movePlaylistItem(playlistId: string, playlistItemId: string, afterItemId?: string): Promise<void> {
+    await this.apiClient.movePlaylistItem(playlistId, playlistItemId, afterItemId);
+  }
+
+  /** Rename a playlist. */
+  async renamePlaylist(playlistId: string, title: string): Promise<void> {
+    await this.apiClient.renamePlaylist(playlistId, title);
+  }
+
+  /** Delete a playlist. */
+  async deletePlaylist(playlistId: string): Promise<void> {
+    await this.apiClient.deletePlaylist(playlistId);
+  }
+
   /** Search for tracks, albums, and artists matching a query. */
   async search(query: string): Promise<SearchResults> {
     const [rawTracks, rawAlbums, rawArtists] = await Promise.all([
@@ -152,8 +436,29 @@ export class PlexService {
     };
   }
 
+  /** Choose which version is played when a track has several. */
+  setVersionPreference(preference: VersionPreference): void {
+    this.versionPreference = preference;
+  }
+
+  /** Point a track at its preferred version. Tracks with a single version are returned as they are. */
+  preferredVersion(track: Track): Track {
+    if (track.versions.length < 2) return track;
+    const version = selectVersion(track.versions, this.versionPreference);
+    return version ? withVersion(track, version) : track;
+  }
+
+  /**
+   * The entries to queue for a track: its preferred version, split into
+   * one entry per file when that version has several parts.
+   */
+  playableParts(track: Track): Track[] {
+    return splitParts(this.preferredVersion(track));
+  }
+
   /**
-   * Fetch a single track by its ratingKey and resolve its stream URL.
+   * Fetch a single track by its ratingKey, pick its preferred version and
+   * resolve the stream URL of that version's first file.
    * Returns a PlayableTrack ready for the audio player.
    */
   async getPlayableTrack(trackId: string): Promise<PlayableTrack> {
@@ -162,17 +467,44 @@ export class PlexService {
     if (tracks.length === 0) {
       throw new Error(`Track not found: ${trackId}`);
     }
-    const track = tracks[0]!;
+    const track = this.preferredVersion(tracks[0]!);
     if (!track.streamKey) {
       throw new Error(`Track ${trackId} has no playable media`);
     }
     const streamUrl = buildStreamUrl({
-      ...this.connection,
+      ...this.getConnection(),
       trackKey: track.streamKey,
     });
     return { ...track, streamUrl };
   }
 
+  /**
+   * Where playback of a track was left off, in milliseconds, or null when it
+   * isn't partially played. Always asks the server, as timeline reports move it.
+   */
+  async getViewOffset(trackId: string): Promise<number | null> {
+    const raw = await this.apiClient.getLiveTrackMetadata(trackId);
+    return parseTracks(raw)[0]?.viewOffset ?? null;
+  }
+
+  /** Get a single track by its ratingKey, with its chapter markers. */
+  async getTrack(trackId: string): Promise<Track> {
+    const raw = await this.apiClient.getTrackMetadata(trackId);
+    const track = parseTracks(raw)[0];
+    if (!track) throw new Error(`Track not found: ${trackId}`);
+    return track;
+  }
+
+  /** Get the lyrics of a track by its ratingKey, or null when Plex has none. */
+  async getLyrics(trackId: string): Promise<Lyrics | null> {
+    const raw = await this.apiClient.getTrackMetadata(trackId);
+    const track = parseTracks(raw)[0];
+    if (!track) throw new Error(`Track not found: ${trackId}`);
+    if (!track.lyricsStream) return null;
+    const text = await this.apiClient.getStreamText(track.lyricsStream.key);
+    return parseLyrics(text, track.lyricsStream.format);
+  }
+
   /** Get the album and artist browse keys for a track by its ratingKey.
    *
    * Plex's parentKey/grandparentKey may or may not include "/children" depending
@@ -190,13 +522,227 @@ export class PlexService {
     };
   }
 
-  /** Build a stream URL from a track's streamKey. */
-  getStreamUrl(streamKey: string): string {
-    return buildStreamUrl({ ...this.connection, trackKey: streamKey });
+  /** Check that the server still accepts the token; rejects with PlexAuthError when it doesn't. */
+  async checkToken(): Promise<void> {
+    await this.apiClient.checkToken();
+  }
+
+  /** Get the server's machineIdentifier. Fetched once, then cached. */
+  async getMachineIdentifier(): Promise<string> {
+    if (this.machineIdentifier === null) {
+      const raw = await this.apiClient.getIdentity();
+      this.machineIdentifier = raw.MediaContainer.machineIdentifier;
+    }
+    return this.machineIdentifier;
+  }
+
+  /**
+   * Start a radio station seeded from an artist, album, or track.
+   *
+   * Plex stations are continuous play queues built from a
+   * /library/metadata/{id}/station/{uuid} URI; the UUID only has to be
+   * unique per station, so a fresh one is generated for every call.
+   */
+  async createStationQueue(ratingKey: string): Promise<PlayQueue> {
+    const uri = await this.libraryUri(`/library/metadata/${ratingKey}/station/${generateUuid()}?type=10`);
+    const raw = await this.apiClient.createPlayQueue({ uri, continuous: true });
+    return parsePlayQueue(raw);
+  }
+
+  /**
+   * Reopen a station started by createStationQueue, with the entries Plex
+   * returns around its first one. Stations are continuous, so the rest of
+   * the queue isn't loaded.
+   */
+  async openStationQueue(playQueueId: string): Promise<PlayQueue> {
+    const raw = await this.apiClient.openPlayQueue(playQueueId, PLAY_QUEUE_WINDOW);
+    return parsePlayQueue(raw);
+  }
+
+  /**
+   * Create a play queue on the server from an album's trackListKey or a
+   * playlist's itemsKey, and return every entry in it.
+   *
+   * Plex only returns a window of a new queue, so the remaining entries are
+   * fetched window by window until the whole queue is loaded.
+   */
+  async createPlayQueue(key: string, options: { shuffle?: boolean } = {}): Promise<PlayQueue> {
+    const shuffle = options.shuffle ?? false;
+    const playlistMatch = key.match(/^\/playlists\/([^/]+)\/items/);
+    const raw = playlistMatch
+      ? await this.apiClient.createPlayQueue({ playlistId: playlistMatch[1]!, shuffle })
+      : await this.apiClient.createPlayQueue({ uri: await this.libraryUri(key.replace(/\/children$/, "")), shuffle });
+    return this.loadRemainingItems(parsePlayQueue(raw));
+  }
+
+  /**
+   * Load a play queue that already exists on the server, such as one a Plex
+   * app created before casting to Volumio. Plex answers with a window around
+   * the selected entry; the entries after it are fetched until the queue is
+   * complete.
+   */
+  async getPlayQueue(playQueueId: string): Promise<PlayQueue> {
+    const raw = await this.apiClient.openPlayQueue(playQueueId, PLAY_QUEUE_WINDOW);
+    return this.loadRemainingItems(parsePlayQueue(raw));
+  }
+
+  /** Get up to `count` play queue entries following `afterItemId`. */
+  async getPlayQueueWindow(playQueueId: string, afterItemId: string, count: number): Promise<PlayQueue> {
+    const raw = await this.apiClient.getPlayQueue(playQueueId, afterItemId, count);
+    const queue = parsePlayQueue(raw);
+    // Plex includes the center entry itself — drop it so only new entries remain.
+    return { ...queue, items: queue.items.filter((item) => item.itemId !== afterItemId) };
+  }
+
+  /**
+   * Add a library item (track, album, artist — by its key) to a play queue.
+   * Appends by default; `next` inserts after the currently selected entry.
+   */
+  async addToPlayQueue(playQueueId: string, key: string, next = false): Promise<PlayQueue> {
+    const uri = await this.libraryUri(key.replace(/\/children$/, ""));
+    const raw = await this.apiClient.addToPlayQueue(playQueueId, uri, next);
+    return parsePlayQueue(raw);
+  }
+
+  /** Move a play queue entry after `afterItemId`, or to the front when omitted. */
+  async movePlayQueueItem(playQueueId: string, itemId: string, afterItemId?: string): Promise<PlayQueue> {
+    const raw = await this.apiClient.movePlayQueueItem(playQueueId, itemId, afterItemId);
+    return parsePlayQueue(raw);
+  }
+
+  /** Remove an entry from a play queue. */
+  async removePlayQueueItem(playQueueId: string, itemId: string): Promise<PlayQueue> {
+    const raw = await this.apiClient.removePlayQueueItem(playQueueId, itemId);
+    return parsePlayQueue(raw);
+  }
+
+  /** Shuffle the entries of a play queue that follow the selected one. */
+  async shufflePlayQueue(playQueueId: string): Promise<PlayQueue> {
+    const raw = await this.apiClient.shufflePlayQueue(playQueueId);
+    return parsePlayQueue(raw);
+  }
+
+  /**
+   * Forget cached responses so the next browse reloads from the server.
+   * Without a change, everything is dropped; with one, only the listings
+   * that can show the changed section or item (plus library-wide lists
+   * such as search and playlists).
+   */
+  refreshLibrary(change?: LibraryChange): void {
+    if (!change) {
+      this.apiClient.clearCache();
+      return;
+    }
+    const patterns = [/^\/(library\/sections|playlists|search)(\?|$)/, /^\/hubs\//, /\/onDeck(\?|$)/];
+    if (change.sectionId !== null) {
+      patterns.push(new RegExp(`^/library/sections/${escapeRegExp(change.sectionId)}(/|\\?|$)`));
+    }
+    if (change.itemId !== null) {
+      // A playlist's items live under /playlists, everything else under /library/metadata.
+      patterns.push(new RegExp(`^/(library/metadata|playlists)/${escapeRegExp(change.itemId)}(/|\\?|$)`));
+    }
+    this.apiClient.clearCache((path) => patterns.some((pattern) => pattern.test(path)));
+  }
+
+  /** Response cache hit/miss counters, or null when caching is off. */
+  getCacheMetrics(): CacheMetrics | null {
+    return this.apiClient.cacheMetrics();
+  }
+
+  /** The address URLs are built for: the connection manager's active one, if any. */
+  getConnection(): PlexConnection {
+    return this.connections ? { ...this.connection, ...this.connections.connection() } : this.connection;
+  }
+
+  /** Kind of the active connection, or null when the address was entered by hand. */
+  getConnectionKind(): ConnectionKind | null {
+    return this.connections?.current().kind ?? null;
+  }
+
+  /** Build a stream URL from a track's streamKey: the original file, or a transcode when given. */
+  getStreamUrl(streamKey: string, transcode?: { format: TranscodeFormat; maxBitrateKbps: number }): string {
+    return buildStreamUrl({
+      ...this.getConnection(),
+      trackKey: streamKey,
+      ...(transcode && { transcode: true, format: transcode.format, maxBitrateKbps: transcode.maxBitrateKbps }),
+    });
   }
 
   /** Build a full artwork URL from a relative Plex thumbnail path. */
   getArtworkUrl(path: string): string {
-    return buildResourceUrl(this.connection, path);
+    return buildResourceUrl(this.getConnection(), path);
+  }
+
+  /** Up to `count` partially played tracks of a library section that the policy resumes, last played first. */
+  private async getInProgressTracks(libraryKey: string, count: number, resume: ResumePolicy): Promise<Track[]> {
+    if (resume.mode === "never") return [];
+    const raw = await this.apiClient.getLibraryTracks(
+      libraryKey,
+      { offset: 0, limit: count },
+      "lastViewedAt:desc",
+      [{ field: "inProgress", operator: null, value: null }],
+    );
+    return parseTracks(raw).filter((track) => track.viewOffset && resumesTrack(resume, track.duration));
+  }
+
+  /**
+   * Badge albums of a library with the best hi-res tier they have tracks in:
+   * one query per tier, restricted to the albums by id. Badges are extras,
+   * so albums come back unbadged when the lookup fails.
+   */
+  private async withQualityBadges(libraryKey: string, albums: Album[]): Promise<Album[]> {
+    if (albums.length === 0) return albums;
+    const ids: LibraryFilter = { field: "id", operator: "=", value: albums.map((album) => album.id).join(",") };
+    try {
+      const tiers = await Promise.all(HI_RES_TIERS.map((tier) =>
+        this.apiClient.getAlbums(libraryKey, { offset: 0, limit: albums.length }, undefined, [ids, ...tier.filters])));
+      const badges = new Map<string, string>();
+      // Tiers are best first, so an album keeps the first badge it gets.
+      tiers.forEach((raw, index) => {
+        for (const album of parseAlbums(raw)) {
+          if (!badges.has(album.id)) badges.set(album.id, HI_RES_TIERS[index]!.badge);
+        }
+      });
+      return albums.map((album) => {
+        const badge = badges.get(album.id);
+        return badge ? { ...album, qualityBadge: badge } : album;
+      });
+    } catch {
+      return albums;
+    }
   }
+
+  /**
+   * Fetch the entries following the last loaded one, window by window, until
+   * the queue holds `totalCount` entries or the server has no more.
+   */
+  private async loadRemainingItems(queue: PlayQueue): Promise<PlayQueue> {
+    while (queue.items.length < queue.totalCount) {
+      const lastItem = queue.items[queue.items.length - 1];
+      if (!lastItem) break;
+      const window = await this.getPlayQueueWindow(queue.id, lastItem.itemId, PLAY_QUEUE_WINDOW);
+      if (window.items.length === 0) break;
+      queue.items.push(...window.items);
+    }
+    return queue;
+  }
+
+  /** Build the `server://` URI Plex uses to address a library key on this server. */
+  private async libraryUri(key: string): Promise<string> {
+    const machineId = await this.getMachineIdentifier();
+    return `server://${machineId}/com.plexapp.plugins.library${key}`;
+  }
+}
+
+/** Random RFC 4122 version 4 UUID (crypto.randomUUID needs Node 14.17+). */
+function generateUuid(): string {
+  const bytes = randomBytes(16);
+  bytes[6] = (bytes[6]! & 0x0f) | 0x40;
+  bytes[8] = (bytes[8]! & 0x3f) | 0x80;
+  const hex = bytes.toString("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
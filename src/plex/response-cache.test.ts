@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ResponseCache, MemoryLruStore, DiskCacheStore } from "./response-cache.js";
+
+// ── TTL rules ───────────────────────────────────────────────────────
+
+describe("ttlFor", () => {
+  const cache = new ResponseCache();
+
+  it("keeps library and playlist lists long", () => {
+    expect(cache.ttlFor("/library/sections")).toBe(3_600_000);
+    expect(cache.ttlFor("/playlists")).toBe(3_600_000);
+  });
+
+  it("keeps listings of children for a medium time", () => {
+    expect(cache.ttlFor("/library/metadata/1001/children")).toBe(300_000);
+    expect(cache.ttlFor("/library/sections/1/all?type=9")).toBe(300_000);
+    expect(cache.ttlFor("/playlists/5001/items")).toBe(300_000);
+  });
+
+  it("keeps searches and hubs short", () => {
+    expect(cache.ttlFor("/search?type=10&query=airbag")).toBe(30_000);
+    expect(cache.ttlFor("/hubs/sections/1?count=12")).toBe(60_000);
+  });
+
+  it("does not cache play queues", () => {
+    expect(cache.ttlFor("/playQueues/7001")).toBeNull();
+  });
+});
+
+// ── Expiry and metrics ──────────────────────────────────────────────
+
+describe("ResponseCache", () => {
+  let now: number;
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    cache = new ResponseCache({ now: () => now });
+  });
+
+  it("serves a body until its TTL runs out", () => {
+    cache.set("/search?query=a", "body");
+    now += 29_999;
+    expect(cache.get("/search?query=a")).toBe("body");
+    now += 1;
+    expect(cache.get("/search?query=a")).toBeUndefined();
+  });
+
+  it("ignores paths without a TTL", () => {
+    cache.set("/playQueues/7001", "body");
+    expect(cache.get("/playQueues/7001")).toBeUndefined();
+  });
+
+  it("counts hits and misses", () => {
+    cache.set("/playlists", "body");
+    cache.get("/playlists");
+    cache.get("/playlists");
+    cache.get("/library/sections");
+
+    expect(cache.metrics()).toEqual({ hits: 2, misses: 1, hitRate: 2 / 3, entries: 1, invalidations: 0 });
+  });
+
+  it("invalidates everything when the library version changes", () => {
+    cache.noteLibraryVersion("1:100");
+    cache.set("/playlists", "body");
+    cache.noteLibraryVersion("1:100");
+    expect(cache.get("/playlists")).toBe("body");
+
+    cache.noteLibraryVersion("1:200");
+    expect(cache.get("/playlists")).toBeUndefined();
+    expect(cache.metrics().invalidations).toBe(1);
+  });
+
+  it("invalidates only the matching paths when given a predicate", () => {
+    cache.set("/playlists", "playlists");
+    cache.set("/library/metadata/1001/children", "album");
+    cache.invalidate((requestPath) => requestPath.startsWith("/library/metadata/1001"));
+
+    expect(cache.get("/playlists")).toBe("playlists");
+    expect(cache.get("/library/metadata/1001/children")).toBeUndefined();
+    expect(cache.metrics().invalidations).toBe(1);
+  });
+
+  it("schedules the next version check after the interval", () => {
+    expect(cache.versionCheckDue()).toBe(true);
+    cache.noteLibraryVersion("1:100");
+    expect(cache.versionCheckDue()).toBe(false);
+    now += 60_000;
+    expect(cache.versionCheckDue()).toBe(true);
+  });
+});
+
+// ── Stores ──────────────────────────────────────────────────────────
+
+describe("MemoryLruStore", () => {
+  it("evicts the least recently used entry", () => {
+    const store = new MemoryLruStore(2);
+    const entry = { body: "", expiresAt: Infinity };
+    store.set("a", entry);
+    store.set("b", entry);
+    store.get("a");
+    store.set("c", entry);
+
+    expect(store.get("a")).toBeDefined();
+    expect(store.get("b")).toBeUndefined();
+    expect(store.get("c")).toBeDefined();
+  });
+});
+
+describe("DiskCacheStore", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "plex-cache-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("serves entries written by an earlier cache instance", () => {
+    new ResponseCache({ store: new DiskCacheStore(directory) }).set("/playlists", "body");
+
+    const restarted = new ResponseCache({ store: new DiskCacheStore(directory) });
+    expect(restarted.get("/playlists")).toBe("body");
+  });
+
+  it("deletes the entries whose key matches", () => {
+    const store = new DiskCacheStore(directory);
+    store.set("/playlists", { body: "playlists", expiresAt: Infinity });
+    store.set("/library/metadata/1001/children", { body: "album", expiresAt: Infinity });
+    store.deleteWhere((key) => key.startsWith("/library/"));
+
+    expect(store.get("/playlists")).toBeDefined();
+    expect(store.get("/library/metadata/1001/children")).toBeUndefined();
+  });
+
+  it("matches keys from memory after reading the directory once", () => {
+    new DiskCacheStore(directory).set("/library/metadata/1001/children", { body: "album", expiresAt: Infinity });
+    const store = new DiskCacheStore(directory);
+    store.deleteWhere(() => false);
+    store.set("/library/metadata/1002/children", { body: "album", expiresAt: Infinity });
+
+    const readFileSpy = vi.spyOn(fs, "readFileSync");
+    store.deleteWhere((key) => key.startsWith("/library/"));
+    expect(readFileSpy).not.toHaveBeenCalled();
+    readFileSpy.mockRestore();
+
+    expect(fs.readdirSync(directory)).toEqual([]);
+  });
+
+  it("removes every entry on clear", () => {
+    const store = new DiskCacheStore(directory);
+    store.set("/playlists", { body: "body", expiresAt: Infinity });
+    store.clear();
+
+    expect(store.get("/playlists")).toBeUndefined();
+    expect(fs.readdirSync(directory)).toEqual([]);
+  });
+});
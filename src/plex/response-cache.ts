@@ -0,0 +1,307 @@
+/**
+ * Response Cache — keeps raw Plex API response bodies so repeated browse
+ * calls don't go back to the server.
+ *
+ * Every cacheable path gets a TTL from CACHE_TTLS (library and playlist
+ * lists live long, listings of children medium, searches and hubs short).
+ * Entries are held in a memory LRU and, optionally, a second store such as
+ * DiskCacheStore that survives restarts. PlexApiClient clears the cache on
+ * every write it sends and whenever a library section's `updatedAt` changes;
+ * notifications from the server drop just the entries for what changed.
+ */
+
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+
+/** A cached response body and the time (ms since epoch) it goes stale. */
+export interface CacheEntry {
+  body: string;
+  expiresAt: number;
+}
+
+/** Storage backend for cached responses. */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): void;
+  /** Delete every entry whose key matches. */
+  deleteWhere(predicate: (key: string) => boolean): void;
+  clear(): void;
+}
+
+/** Counters reported by ResponseCache.metrics(). */
+export interface CacheMetrics {
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), or 0 before the first lookup */
+  hitRate: number;
+  /** Entries currently held in memory */
+  entries: number;
+  invalidations: number;
+}
+
+const MINUTE = 60_000;
+
+/**
+ * TTLs by request path, first match wins. Paths matching none of the rules
+ * (play queues, timeline reports, ...) are never cached.
+ */
+export const CACHE_TTLS: ReadonlyArray<{ pattern: RegExp; ttlMs: number }> = [
+  { pattern: /^\/(identity|library\/sections|playlists)(\?|$)/, ttlMs: 60 * MINUTE },
+  { pattern: /^\/search\?/, ttlMs: 30_000 },
+  { pattern: /^\/hubs\/|\/onDeck(\?|$)/, ttlMs: MINUTE },
+  { pattern: /^\/library\/(sections|metadata)\/|^\/playlists\/[^/]+\/items/, ttlMs: 5 * MINUTE },
+];
+
+/** In-memory store that evicts the least recently used entry beyond `maxEntries`. */
+export class MemoryLruStore implements CacheStore {
+  // Map iterates in insertion order; re-inserting on read keeps the most recently used last.
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  deleteWhere(predicate: (key: string) => boolean): void {
+    for (const key of [...this.entries.keys()]) {
+      if (predicate(key)) this.entries.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Store that keeps one JSON file per entry in `directory`. Failures to read
+ * or write are treated as cache misses — the cache must never break a request.
+ *
+ * The key of every file is indexed in memory, so deleteWhere (run for each
+ * library notification) reads the directory only once per process.
+ */
+export class DiskCacheStore implements CacheStore {
+  /** Cache file → key, loaded on first use; undefined for files written before keys were stored */
+  private index: Map<string, string | undefined> | null = null;
+
+  constructor(private readonly directory: string) {}
+
+  get(key: string): CacheEntry | undefined {
+    const file = readFile(this.fileFor(key));
+    return file ? { body: file.body, expiresAt: file.expiresAt } : undefined;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    // The key is stored alongside the entry so deleteWhere can match file names back to paths.
+    const file: CacheFile = { key, ...entry };
+    try {
+      fs.mkdirSync(this.directory, { recursive: true });
+      fs.writeFileSync(this.fileFor(key), JSON.stringify(file));
+      this.index?.set(this.fileFor(key), key);
+    } catch {
+      // Disk full or read-only — the memory cache still works.
+    }
+  }
+
+  delete(key: string): void {
+    const file = this.fileFor(key);
+    removeFile(file);
+    this.index?.delete(file);
+  }
+
+  deleteWhere(predicate: (key: string) => boolean): void {
+    const index = this.loadIndex();
+    for (const [file, key] of index) {
+      // Files from before keys were stored can't be matched; drop them to be safe.
+      if (key === undefined || predicate(key)) {
+        removeFile(file);
+        index.delete(file);
+      }
+    }
+  }
+
+  clear(): void {
+    for (const file of this.files()) removeFile(file);
+    this.index = new Map();
+  }
+
+  private loadIndex(): Map<string, string | undefined> {
+    if (this.index === null) {
+      this.index = new Map(this.files().map((file) => [file, readFile(file)?.key]));
+    }
+    return this.index;
+  }
+
+  private files(): string[] {
+    try {
+      return fs.readdirSync(this.directory)
+        .filter((name) => name.endsWith(".json"))
+        .map((name) => path.join(this.directory, name));
+    } catch {
+      return [];
+    }
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${createHash("sha1").update(key).digest("hex")}.json`);
+  }
+}
+
+interface CacheFile extends CacheEntry {
+  key?: string;
+}
+
+function readFile(file: string): CacheFile | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as CacheFile;
+  } catch {
+    return undefined;
+  }
+}
+
+function removeFile(file: string): void {
+  try {
+    fs.unlinkSync(file);
+  } catch {
+    // Already gone.
+  }
+}
+
+export interface ResponseCacheOptions {
+  /** Maximum entries in the memory LRU. Default: 500 */
+  maxEntries?: number;
+  /** Second-level store consulted on memory misses, e.g. a DiskCacheStore */
+  store?: CacheStore;
+  /** TTL rules by path. Default: CACHE_TTLS */
+  ttls?: ReadonlyArray<{ pattern: RegExp; ttlMs: number }>;
+  /** How often a cache hit first re-checks the libraries' updatedAt, in ms. Default: 60 000 */
+  versionCheckIntervalMs?: number;
+  /** Clock, for tests. Default: Date.now */
+  now?: () => number;
+}
+
+export class ResponseCache {
+  private readonly memory: MemoryLruStore;
+  private readonly store: CacheStore | null;
+  private readonly ttls: ReadonlyArray<{ pattern: RegExp; ttlMs: number }>;
+  private readonly versionCheckIntervalMs: number;
+  private readonly now: () => number;
+  private libraryVersion: string | null = null;
+  private lastVersionCheck: number | null = null;
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.memory = new MemoryLruStore(options.maxEntries);
+    this.store = options.store ?? null;
+    this.ttls = options.ttls ?? CACHE_TTLS;
+    this.versionCheckIntervalMs = options.versionCheckIntervalMs ?? 60_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /** TTL for a request path, or null when responses for it are not cached. */
+  ttlFor(requestPath: string): number | null {
+    return this.ttls.find((rule) => rule.pattern.test(requestPath))?.ttlMs ?? null;
+  }
+
+  /** The cached body for a path, or undefined when absent or stale. */
+  get(requestPath: string): string | undefined {
+    const now = this.now();
+    let entry = this.memory.get(requestPath);
+    if (!entry && this.store) {
+      entry = this.store.get(requestPath);
+      if (entry && entry.expiresAt > now) this.memory.set(requestPath, entry);
+    }
+    if (!entry || entry.expiresAt <= now) {
+      if (entry) this.delete(requestPath);
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    return entry.body;
+  }
+
+  /** Cache a response body for the path's TTL. Paths without a TTL are ignored. */
+  set(requestPath: string, body: string): void {
+    const ttlMs = this.ttlFor(requestPath);
+    if (ttlMs === null) return;
+    const entry = { body, expiresAt: this.now() + ttlMs };
+    this.memory.set(requestPath, entry);
+    this.store?.set(requestPath, entry);
+  }
+
+  /**
+   * Drop cached responses — every one after a write, a library change or a
+   * manual refresh, or only the paths matching `predicate` when the server
+   * reported exactly what changed.
+   */
+  invalidate(predicate?: (requestPath: string) => boolean): void {
+    if (predicate) {
+      this.memory.deleteWhere(predicate);
+      this.store?.deleteWhere(predicate);
+    } else {
+      this.memory.clear();
+      this.store?.clear();
+    }
+    this.invalidations++;
+  }
+
+  /** Whether the library version is due to be re-checked before serving from the cache. */
+  versionCheckDue(): boolean {
+    return this.lastVersionCheck === null || this.now() - this.lastVersionCheck >= this.versionCheckIntervalMs;
+  }
+
+  /**
+   * Record the library version the server reported (built from the
+   * sections' updatedAt) and invalidate everything if it changed.
+   */
+  noteLibraryVersion(version: string): void {
+    this.lastVersionCheck = this.now();
+    if (this.libraryVersion !== null && version !== this.libraryVersion) {
+      this.invalidate();
+    }
+    this.libraryVersion = version;
+  }
+
+  metrics(): CacheMetrics {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      entries: this.memory.size,
+      invalidations: this.invalidations,
+    };
+  }
+
+  private delete(requestPath: string): void {
+    this.memory.delete(requestPath);
+    this.store?.delete(requestPath);
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { TokenMonitor } from "./token-monitor.js";
+import { PlexAuthError, PlexConnectionError } from "./api-client.js";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("TokenMonitor", () => {
+  it("checks as soon as it starts and reports a refused token", async () => {
+    const onInvalid = vi.fn();
+    const monitor = new TokenMonitor({ check: vi.fn().mockRejectedValue(new PlexAuthError()), onInvalid });
+
+    monitor.start();
+    await vi.waitFor(() => expect(onInvalid).toHaveBeenCalledOnce());
+    monitor.stop();
+
+    expect(onInvalid).toHaveBeenCalledWith(expect.any(PlexAuthError));
+  });
+
+  it("re-checks on the interval, reporting a refused token once until it is accepted again", async () => {
+    vi.useFakeTimers();
+    const check = vi.fn().mockResolvedValue(undefined);
+    const onInvalid = vi.fn();
+    const monitor = new TokenMonitor({ check, onInvalid, intervalMs: 60_000 });
+
+    monitor.start();
+    await vi.advanceTimersByTimeAsync(0);
+    check.mockRejectedValue(new PlexAuthError());
+    await vi.advanceTimersByTimeAsync(120_000);
+    expect(check).toHaveBeenCalledTimes(3);
+    expect(onInvalid).toHaveBeenCalledOnce();
+
+    check.mockResolvedValueOnce(undefined);
+    await vi.advanceTimersByTimeAsync(120_000);
+    expect(onInvalid).toHaveBeenCalledTimes(2);
+
+    monitor.stop();
+  });
+
+  it("ignores checks that fail for reasons other than the token", async () => {
+    const onInvalid = vi.fn();
+    const monitor = new TokenMonitor({ check: vi.fn().mockRejectedValue(new PlexConnectionError("offline")), onInvalid });
+
+    expect(await monitor.checkNow()).toBe(true);
+    expect(onInvalid).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Token Monitor — checks that the server still accepts our token.
+ *
+ * The token is validated as soon as the monitor starts and then on an
+ * interval, so a revoked token is noticed before the user runs into broken
+ * browse pages. A rejected token is reported once; it is reported again only
+ * after a later check has passed. Checks that fail for other reasons (server
+ * unreachable, timeouts) say nothing about the token and are ignored.
+ */
+
+import { PlexAuthError } from "./api-client.js";
+
+export interface TokenMonitorOptions {
+  /** Make an authenticated request; rejects with PlexAuthError when the token is refused. */
+  check: () => Promise<void>;
+  /** Called when the server refuses the token. */
+  onInvalid: (error: PlexAuthError) => void;
+  /** Interval between checks in milliseconds. Default: 15 minutes */
+  intervalMs?: number;
+}
+
+export class TokenMonitor {
+  private readonly options: TokenMonitorOptions;
+  private readonly intervalMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private invalid = false;
+
+  constructor(options: TokenMonitorOptions) {
+    this.options = options;
+    this.intervalMs = options.intervalMs ?? 15 * 60_000;
+  }
+
+  /** Check now, then every intervalMs until stop(). */
+  start(): void {
+    this.stop();
+    void this.checkNow();
+    this.timer = setInterval(() => { void this.checkNow(); }, this.intervalMs);
+    this.timer.unref?.();
+  }
+
+  /** Stop checking. */
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Run one check. Resolves false when the token was refused. */
+  async checkNow(): Promise<boolean> {
+    try {
+      await this.options.check();
+    } catch (error: unknown) {
+      if (!(error instanceof PlexAuthError)) return !this.invalid;
+      if (!this.invalid) {
+        this.invalid = true;
+        this.options.onInvalid(error);
+      }
+      return false;
+    }
+    this.invalid = false;
+    return true;
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * WebSocket Client — a minimal RFC 6455 client for reading text messages
+ * from a Plex Media Server.
+ *
+ * Implements just what the notifications feed needs: the HTTP upgrade
+ * handshake, unfragmented and fragmented text frames, ping/pong and close.
+ * Built on Node's `http`/`https` modules so the plugin keeps no WebSocket
+ * dependency (Node 14+).
+ */
+
+import http from "http";
+import https from "https";
+import { createHash, randomBytes } from "crypto";
+import type { Socket } from "net";
+import type { Duplex } from "stream";
+import { PlexApiError, PlexAuthError, PlexConnectionError } from "./api-client.js";
+
+/** Fixed GUID the server appends to the handshake key (RFC 6455 §1.3). */
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+export interface WebSocketOptions {
+  host: string;
+  port: number;
+  https?: boolean;
+  /** Request path including the query string, e.g. "/:/websockets/notifications?X-Plex-Token=..." */
+  path: string;
+  /** Handshake timeout in milliseconds. Default: 10 000 */
+  timeoutMs?: number;
+}
+
+export interface WebSocketHandlers {
+  /** Called with every complete text message. */
+  onMessage: (text: string) => void;
+  /** Called once when the connection ends, with the error that ended it, if any. */
+  onClose: (error?: Error) => void;
+}
+
+/** An open WebSocket connection. */
+export interface WebSocketConnection {
+  /** Send a close frame and end the connection. onClose is not called afterwards. */
+  close(): void;
+}
+
+/**
+ * Open a WebSocket and resolve once the handshake has completed. Rejects
+ * with PlexAuthError for 401, PlexApiError for other refused upgrades and
+ * PlexConnectionError when the server cannot be reached.
+ */
+export function connectWebSocket(options: WebSocketOptions, handlers: WebSocketHandlers): Promise<WebSocketConnection> {
+  const key = randomBytes(16).toString("base64");
+  const target = `${options.host}:${options.port}${options.path.split("?")[0]}`;
+
+  return new Promise<WebSocketConnection>((resolve, reject) => {
+    const httpModule = options.https ? https : http;
+    const req = httpModule.request({
+      hostname: options.host,
+      port: options.port,
+      path: options.path,
+      timeout: options.timeoutMs ?? 10_000,
+      headers: {
+        Connection: "Upgrade",
+        Upgrade: "websocket",
+        "Sec-WebSocket-Key": key,
+        "Sec-WebSocket-Version": "13",
+      },
+    });
+
+    req.on("upgrade", (res: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+      const expected = createHash("sha1").update(key + HANDSHAKE_GUID).digest("base64");
+      if (res.headers["sec-websocket-accept"] !== expected) {
+        socket.destroy();
+        reject(new PlexConnectionError(`Invalid WebSocket handshake from ${target}`));
+        return;
+      }
+      // The handshake timeout would otherwise keep applying to the idle feed.
+      (socket as Socket).setTimeout(0);
+      resolve(openConnection(socket, head, handlers));
+    });
+
+    req.on("response", (res: http.IncomingMessage) => {
+      res.resume();
+      const statusCode = res.statusCode ?? 0;
+      if (statusCode === 401) {
+        reject(new PlexAuthError());
+      } else {
+        reject(new PlexApiError(`WebSocket upgrade refused by ${target}: ${statusCode}`, statusCode));
+      }
+    });
+
+    req.on("timeout", () => {
+      req.destroy();
+      reject(new PlexConnectionError(`WebSocket handshake timed out: ${target}`));
+    });
+
+    req.on("error", (err: Error) => {
+      reject(new PlexConnectionError(`WebSocket connection failed: ${err.message}`, err));
+    });
+
+    req.end();
+  });
+}
+
+/** Read frames from an upgraded socket and hand text messages to the handlers. */
+function openConnection(socket: Duplex, head: Buffer, handlers: WebSocketHandlers): WebSocketConnection {
+  let buffer = head;
+  let fragments: Buffer[] = [];
+  let closed = false;
+
+  const finish = (error?: Error) => {
+    if (closed) return;
+    closed = true;
+    socket.destroy();
+    handlers.onClose(error);
+  };
+
+  const consume = () => {
+    for (;;) {
+      const frame = readFrame(buffer);
+      if (!frame) return;
+      buffer = buffer.subarray(frame.length);
+
+      switch (frame.opcode) {
+        case OPCODE_TEXT:
+        case OPCODE_CONTINUATION:
+          fragments.push(frame.payload);
+          if (frame.fin) {
+            const text = Buffer.concat(fragments).toString("utf-8");
+            fragments = [];
+            handlers.onMessage(text);
+          }
+          break;
+        case OPCODE_PING:
+          socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+          break;
+        case OPCODE_CLOSE:
+          socket.write(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+          finish();
+          return;
+        default:
+          // Binary and pong frames carry nothing we use.
+          break;
+      }
+      if (closed) return;
+    }
+  };
+
+  socket.on("data", (chunk: Buffer) => {
+    buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : chunk;
+    consume();
+  });
+  socket.on("end", () => finish(new PlexConnectionError("WebSocket closed by the server")));
+  socket.on("error", (err: Error) => finish(new PlexConnectionError(`WebSocket error: ${err.message}`, err)));
+
+  // Frames that arrived together with the handshake response.
+  consume();
+
+  return {
+    close() {
+      if (closed) return;
+      closed = true;
+      socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+      socket.destroy();
+    },
+  };
+}
+
+interface Frame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+  /** Bytes the frame occupies in the buffer, header included */
+  length: number;
+}
+
+/** Decode the frame at the start of `buffer`, or null when it hasn't fully arrived. */
+function readFrame(buffer: Buffer): Frame | null {
+  if (buffer.length < 2) return null;
+  const first = buffer[0]!;
+  const second = buffer[1]!;
+  let offset = 2;
+  let payloadLength = second & 0x7f;
+
+  if (payloadLength === 126) {
+    if (buffer.length < 4) return null;
+    payloadLength = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (payloadLength === 127) {
+    if (buffer.length < 10) return null;
+    payloadLength = buffer.readUInt32BE(2) * 2 ** 32 + buffer.readUInt32BE(6);
+    offset = 10;
+  }
+
+  const masked = (second & 0x80) !== 0;
+  const mask = masked ? buffer.subarray(offset, offset + 4) : null;
+  if (masked) offset += 4;
+  if (buffer.length < offset + payloadLength) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + payloadLength));
+  if (mask) {
+    for (let i = 0; i < payload.length; i++) payload[i] = payload[i]! ^ mask[i % 4]!;
+  }
+  return { fin: (first & 0x80) !== 0, opcode: first & 0x0f, payload, length: offset + payloadLength };
+}
+
+/** Encode a single client frame. Clients must mask every frame they send (RFC 6455 §5.3). */
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const mask = randomBytes(4);
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, 0x80 | payload.length]);
+  } else {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 0x80 | 126;
+    header.writeUInt16BE(payload.length, 2);
+  }
+  const masked = Buffer.alloc(payload.length);
+  for (let i = 0; i < payload.length; i++) masked[i] = payload[i]! ^ mask[i % 4]!;
+  return Buffer.concat([header, mask, masked]);
+}
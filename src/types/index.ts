@@ -10,8 +10,13 @@ export interface Library {
   title: string;
   /** Plex library type — we only keep "artist" (music) libraries */
   type: string;
+  /** What the library holds, as marked in settings; "music" unless marked otherwise */
+  kind: LibraryKind;
 }
 
+/** What an audio library holds: music, or spoken word with a layout of its own. */
+export type LibraryKind = "music" | "audiobooks" | "podcasts";
+
 /** A music artist from a Plex library. */
 export interface Artist {
   /** Plex ratingKey — unique identifier for the artist */
@@ -21,6 +26,8 @@ export interface Artist {
   artworkUrl: string | null;
   /** Plex key to fetch the list of albums for this artist (e.g. "/library/metadata/123/children") */
   albumsKey: string;
+  /** User's star rating (0–5, in half stars), null when unrated */
+  userRating: number | null;
 }
 
 /** A music album from a Plex library. */
@@ -36,6 +43,19 @@ export interface Album {
   artworkUrl: string | null;
   /** Plex key to fetch the list of tracks for this album (e.g. "/library/metadata/1001/children") */
   trackListKey: string;
+  /** User's star rating (0–5, in half stars), null when unrated */
+  userRating: number | null;
+  /** Badge of the best hi-res tier the album has tracks in — only set on library, genre and hub listings */
+  qualityBadge?: string;
+}
+
+/** A genre tag within a Plex music library. */
+export interface Genre {
+  /** Plex genre key — the tag ID used in `genre=` library filters */
+  id: string;
+  title: string;
+  /** Section key of the library this genre belongs to */
+  libraryId: string;
 }
 
 /** A Plex playlist (audio only). */
@@ -70,6 +90,133 @@ export interface Track {
   samplerate: string | null;
   /** Bit depth formatted for display (e.g. "24 bit"), null if unavailable */
   bitdepth: string | null;
+  /** User's star rating (0–5, in half stars), null when unrated */
+  userRating: number | null;
+  /** Where playback was left off, in milliseconds; null when the track isn't partially played */
+  viewOffset: number | null;
+  /** Lyrics sidecar stream, null when Plex has no lyrics for the track */
+  lyricsStream: LyricsStream | null;
+  /** Plex's loudness analysis of the played version, null when it hasn't been analysed */
+  loudness: Loudness | null;
+  /** Every version of the track, in Plex's order; streamKey and the quality fields describe the first */
+  versions: MediaVersion[];
+  /** Chapter markers of a long file (audiobook, DJ mix) in playback order; empty when it has none */
+  chapters: Chapter[];
+  /** Entry ID within the playlist the track was listed from — only set for playlist items */
+  playlistItemId?: string;
+  /** Where this part starts within the whole track, in milliseconds — only set on the parts of a multi-part track */
+  partOffsetMs?: number;
+  /** Duration of the whole track, in milliseconds — only set on the parts of a multi-part track */
+  wholeDurationMs?: number;
+}
+
+/** One version of a track (a Plex Media element), e.g. a FLAC rip next to an MP3 copy. */
+export interface MediaVersion {
+  /** Audio codec (e.g. "flac", "mp3"), null if unavailable */
+  codec: string | null;
+  /** File container (e.g. "flac", "mp4"), null if unavailable */
+  container: string | null;
+  /** Bitrate in kbps, null if unavailable */
+  bitrate: number | null;
+  /** Sample rate in Hz, null if unavailable */
+  samplingRate: number | null;
+  /** Bits per sample, null if unavailable */
+  bitDepth: number | null;
+  /** Number of audio channels, null if unavailable */
+  channels: number | null;
+  /** Plex's loudness analysis of the audio stream, null when it hasn't been analysed */
+  loudness: Loudness | null;
+  /** The files making up this version, played in order */
+  parts: MediaPart[];
+}
+
+/** Loudness analysis Plex stores on an audio stream. */
+export interface Loudness {
+  /** Track gain in dB that brings the track to the reference loudness */
+  gain: number;
+  /** Album gain in dB, null when the album wasn't analysed as a whole */
+  albumGain: number | null;
+  /** Track peak as a linear sample value (1.0 = full scale), null if unavailable */
+  peak: number | null;
+  /** Album peak as a linear sample value, null if unavailable */
+  albumPeak: number | null;
+  /** Integrated loudness in LUFS, null if unavailable */
+  loudness: number | null;
+  /** Loudness range in LU, null if unavailable */
+  lra: number | null;
+}
+
+/** One file of a media version. Long recordings can be split over several parts. */
+export interface MediaPart {
+  /** Part key used to build the streaming URL */
+  key: string;
+  /** Duration of this part in milliseconds, null if unavailable */
+  duration: number | null;
+}
+
+/** A chapter within a track, from Plex's chapter markers. */
+export interface Chapter {
+  title: string;
+  /** Start of the chapter, in milliseconds from the start of the track */
+  startMs: number;
+  /** End of the chapter, in milliseconds from the start of the track */
+  endMs: number;
+}
+
+/** A lyrics sidecar stream (streamType 4) attached to a track's media part. */
+export interface LyricsStream {
+  /** API path serving the lyrics file (e.g. "/library/streams/4321") */
+  key: string;
+  /** "lrc" for time-synced lyrics, anything else is treated as plain text */
+  format: string;
+}
+
+/** One line of lyrics. */
+export interface LyricLine {
+  /** Start time in milliseconds, null for plain (unsynced) lyrics */
+  timeMs: number | null;
+  text: string;
+}
+
+/** Lyrics of a track, parsed from a plain text or LRC file. */
+export interface Lyrics {
+  /** True when every line carries a start time (LRC) */
+  synced: boolean;
+  /** Lines in display order — sorted by start time when synced */
+  lines: LyricLine[];
+}
+
+/**
+ * A Plex hub — a server-curated row of items such as "Recently Added".
+ * Plex hubs usually hold a single item type, but the arrays are kept
+ * separate so hubs merged across libraries stay typed.
+ */
+export interface Hub {
+  /** Plex hubIdentifier (e.g. "music.recent.added") */
+  id: string;
+  title: string;
+  albums: Album[];
+  artists: Artist[];
+  tracks: Track[];
+}
+
+/** One entry of a server-side Plex play queue. */
+export interface PlayQueueItem {
+  /** Plex playQueueItemID — identifies this entry within the queue */
+  itemId: string;
+  track: Track;
+}
+
+/** A window of a server-side Plex play queue (see /playQueues). */
+export interface PlayQueue {
+  /** Plex playQueueID */
+  id: string;
+  /** playQueueItemID of the selected (current) entry, null when Plex reports none */
+  selectedItemId: string | null;
+  /** Number of items Plex holds for the queue — stations keep growing as they play */
+  totalCount: number;
+  /** The entries returned in this window, in queue order */
+  items: PlayQueueItem[];
 }
 
 /** A page of results from a paginated query. */
@@ -79,6 +226,58 @@ export interface PaginatedResult<T> {
   offset: number;
 }
 
+/** Comparison a LibraryFilter applies; null makes the filter a flag (e.g. "unwatched"). */
+export type FilterOperator = "=" | "!=" | ">=" | "<=" | ">" | "<";
+
+/** A condition on a library listing, e.g. year>=1990 or genre=12. */
+export interface LibraryFilter {
+  /** Plex filter field (year, decade, genre, mood, audioCodec, unwatched, …) */
+  field: string;
+  operator: FilterOperator | null;
+  value: string | null;
+}
+
+/** A library item whose state changed (timeline notification). */
+export interface TimelineEntry {
+  itemId: string;
+  /** Library section of the item; null for items outside a library (playlists) */
+  sectionId: string | null;
+  /** Plex metadata type: 8 = artist, 9 = album, 10 = track, 15 = playlist */
+  type: number;
+  /** Processing state: 0 = created, 5 = finished, 9 = deleted, others are in-progress steps */
+  state: number;
+  title: string | null;
+}
+
+/** Progress of a server task such as a library scan (activity notification). */
+export interface ActivityEvent {
+  /** "started", "updated" or "ended" */
+  event: string;
+  uuid: string;
+  /** Task type, e.g. "library.update.section" or "library.refresh.items" */
+  type: string;
+  title: string | null;
+  /** Percent complete, when Plex reports it */
+  progress: number | null;
+  sectionId: string | null;
+}
+
+/** A playback session changing state on any client of the server (playing notification). */
+export interface PlayingEvent {
+  sessionKey: string;
+  ratingKey: string;
+  key: string;
+  /** "playing", "paused", "buffering" or "stopped" */
+  state: string;
+  viewOffset: number | null;
+}
+
+/** A message from the server's notifications WebSocket. */
+export type PlexNotification =
+  | { type: "timeline"; entries: TimelineEntry[] }
+  | { type: "activity"; activities: ActivityEvent[] }
+  | { type: "playing"; sessions: PlayingEvent[] };
+
 // ── Raw Plex API response shapes ─────────────────────────────────────
 // These mirror the JSON structure returned by the Plex Media Server API.
 // All Plex responses wrap their payload in a MediaContainer object.
@@ -125,6 +324,8 @@ export interface RawArtistMetadata {
   title: string;
   /** Relative thumbnail path, absent when artist has no artwork */
   thumb?: string;
+  /** User rating on Plex's 0–10 scale (2 per star), absent when unrated */
+  userRating?: number;
   [key: string]: unknown;
 }
 
@@ -144,9 +345,76 @@ export interface RawDirectory {
   title: string;
   /** Section type — "artist" for music, "movie" for movies, etc. */
   type: string;
+  /** Unix time of the section's last content change (scan, edit, ...) */
+  updatedAt?: number;
+  [key: string]: unknown;
+}
+
+/** Response from GET /library/sections/{key}/genre — lists a library's genres. */
+export interface RawGenreResponse {
+  MediaContainer: {
+    size: number;
+    /** Each Directory is one genre tag */
+    Directory: RawGenreDirectory[];
+  };
+}
+
+/** A single genre entry from the Plex genre listing. */
+export interface RawGenreDirectory {
+  /** Genre tag ID used in `genre=` filters (e.g. "123") */
+  key: string;
+  title: string;
+  /** Ready-made filter path (e.g. "/library/sections/1/all?genre=123") */
+  fastKey?: string;
   [key: string]: unknown;
 }
 
+/** Response from GET /hubs/sections/{key} — lists a library's hubs. */
+export interface RawHubResponse {
+  MediaContainer: {
+    size: number;
+    /** Absent when the library has no hubs to show */
+    Hub?: RawHub[];
+  };
+}
+
+/** A single hub from the Plex hubs listing. */
+export interface RawHub {
+  /** Stable identifier for the hub kind (e.g. "music.recent.added", "music.recent.played") */
+  hubIdentifier: string;
+  title: string;
+  /** Item type the hub holds: "album", "artist", "track", "playlist", ... */
+  type: string;
+  /** API path to fetch the full hub */
+  key?: string;
+  size: number;
+  /** Hub items — each entry carries its own `type` field */
+  Metadata?: Array<RawAlbumMetadata | RawArtistMetadata | RawTrackMetadata>;
+  [key: string]: unknown;
+}
+
+/** Response from GET /identity — identifies the Plex server. */
+export interface RawIdentityResponse {
+  MediaContainer: {
+    /** Unique server ID, used to build server:// URIs for play queues */
+    machineIdentifier: string;
+    [key: string]: unknown;
+  };
+}
+
+/** Response from POST /playQueues and GET /playQueues/{id}. */
+export interface RawPlayQueueResponse {
+  MediaContainer: {
+    size: number;
+    playQueueID: number;
+    playQueueSelectedItemID?: number;
+    playQueueTotalCount: number;
+    /** Queue entries — track metadata plus each entry's playQueueItemID */
+    Metadata?: Array<RawTrackMetadata & { playQueueItemID: number }>;
+    [key: string]: unknown;
+  };
+}
+
 /** Response from GET /library/sections/{key}/all?type=9 — lists albums. */
 export interface RawAlbumResponse {
   MediaContainer: {
@@ -168,6 +436,8 @@ export interface RawAlbumMetadata {
   parentTitle: string;
   /** Relative thumbnail path, absent when album has no artwork */
   thumb?: string;
+  /** User rating on Plex's 0–10 scale (2 per star), absent when unrated */
+  userRating?: number;
   year?: number;
   [key: string]: unknown;
 }
@@ -187,8 +457,8 @@ export interface RawTrackResponse {
  *
  * Plex nests the actual file reference inside Media → Part. A track can
  * have multiple Media entries (different qualities/formats), each with
- * multiple Parts (for multi-file tracks). We always use the first
- * Media[0].Part[0] as the stream source.
+ * multiple Parts (for multi-file tracks). Every one is parsed into
+ * Track.versions; which version is played is up to the PlexService.
  */
 export interface RawTrackMetadata {
   ratingKey: string;
@@ -209,19 +479,56 @@ export interface RawTrackMetadata {
   duration: number;
   /** Relative thumbnail path, absent when track/album has no artwork */
   thumb?: string;
-  /** Array of media versions — we use Media[0].Part[0].key as the stream source */
+  /** User rating on Plex's 0–10 scale (2 per star), absent when unrated */
+  userRating?: number;
+  /** Milliseconds into the track where playback was left off, absent unless partially played */
+  viewOffset?: number;
+  /** Entry ID within a playlist — present only on /playlists/{id}/items responses */
+  playlistItemID?: number;
+  /** Chapter markers — only present when requested with includeChapters=1 */
+  Chapter?: Array<{
+    /** Chapter title */
+    tag?: string;
+    /** 1-based position of the chapter */
+    index?: number;
+    /** Start of the chapter in milliseconds */
+    startTimeOffset: number;
+    /** End of the chapter in milliseconds */
+    endTimeOffset: number;
+  }>;
+  /** Array of media versions, each made of one or more files (parts) */
   Media: Array<{
     Part: Array<{
       /** File path key used to build the streaming URL */
       key: string;
-      /** Audio streams nested inside this part (streamType=2 is audio) */
+      /** Duration of this file in milliseconds */
+      duration?: number;
+      /** Streams nested inside this part (streamType=2 is audio, 4 is lyrics) */
       Stream?: Array<{
-        /** 1=video, 2=audio, 3=subtitle */
+        /** 1=video, 2=audio, 3=subtitle, 4=lyrics */
         streamType?: number;
+        /** API path of a sidecar stream's file (lyrics) */
+        key?: string;
+        /** Stream codec — "lrc" or "txt" for lyrics */
+        codec?: string;
         /** Bit depth in bits per sample (e.g. 16, 24) */
         bitDepth?: number;
         /** Sample rate in Hz (e.g. 44100, 48000, 96000) */
         samplingRate?: number;
+        /** Number of audio channels */
+        channels?: number;
+        /** Loudness analysis: track gain in dB */
+        gain?: number;
+        /** Loudness analysis: album gain in dB */
+        albumGain?: number;
+        /** Loudness analysis: track peak (linear) */
+        peak?: number;
+        /** Loudness analysis: album peak (linear) */
+        albumPeak?: number;
+        /** Loudness analysis: integrated loudness in LUFS */
+        loudness?: number;
+        /** Loudness analysis: loudness range in LU */
+        lra?: number;
         [key: string]: unknown;
       }>;
       [key: string]: unknown;
@@ -230,7 +537,49 @@ export interface RawTrackMetadata {
     audioCodec?: string;
     /** File container format (e.g. "flac", "mp4") */
     container?: string;
+    /** Bitrate in kbps */
+    bitrate?: number;
+    /** Number of audio channels */
+    audioChannels?: number;
     [key: string]: unknown;
   }>;
   [key: string]: unknown;
 }
+
+/** A message from /:/websockets/notifications. `type` says which array is present. */
+export interface RawNotificationResponse {
+  NotificationContainer: {
+    type: string;
+    size?: number;
+    TimelineEntry?: Array<{
+      itemID: string | number;
+      /** "-1" (or absent) for items outside a library section */
+      sectionID?: string | number;
+      type: number;
+      state: number;
+      title?: string;
+      [key: string]: unknown;
+    }>;
+    ActivityNotification?: Array<{
+      event: string;
+      uuid: string;
+      Activity: {
+        type: string;
+        title?: string;
+        progress?: number;
+        Context?: { librarySectionID?: string; [key: string]: unknown };
+        [key: string]: unknown;
+      };
+      [key: string]: unknown;
+    }>;
+    PlaySessionStateNotification?: Array<{
+      sessionKey: string;
+      ratingKey: string;
+      key: string;
+      state: string;
+      viewOffset?: number;
+      [key: string]: unknown;
+    }>;
+    [key: string]: unknown;
+  };
+}
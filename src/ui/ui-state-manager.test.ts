@@ -16,6 +16,12 @@ function makeTrack(overrides: Partial<Track> = {}): Track {
     trackType: null,
     samplerate: null,
     bitdepth: null,
+    userRating: null,
+    viewOffset: null,
+    chapters: [],
+    lyricsStream: null,
+    loudness: null,
+    versions: [],
     ...overrides,
   };
 }
@@ -1,9 +1,13 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { VolumioAdapter } from "./adapter.js";
-import type { KewLib } from "./adapter.js";
+import type { KewLib, CurrentLyrics } from "./adapter.js";
 import type { PlexService, PlayableTrack } from "../plex/plex-service.js";
+import { PlexAuthError } from "../plex/api-client.js";
+import { HI_RES_TIERS } from "../core/audio-quality.js";
+import type { PlexApiClient } from "../plex/api-client.js";
 import type { PlexConnection } from "../core/stream-resolver.js";
-import type { Library, Artist, Album, Track, Playlist, PaginatedResult } from "../types/index.js";
+import type { ConnectionKind } from "../plex/connection-manager.js";
+import type { Library, LibraryKind, Artist, Album, Track, Playlist, Genre, Hub, PlayQueue, Lyrics, PaginatedResult, PlexNotification } from "../types/index.js";
 type PaginatedTracks = PaginatedResult<Track>;
 import type {
   VolumioContext,
@@ -45,8 +49,8 @@ const connection: PlexConnection = {
 };
 
 const librariesFixture: Library[] = [
-  { id: "1", title: "Music", type: "artist" },
-  { id: "3", title: "Podcasts", type: "artist" },
+  { id: "1", title: "Music", type: "artist", kind: "music" },
+  { id: "3", title: "Podcasts", type: "artist", kind: "music" },
 ];
 
 const artistsFixture: Artist[] = [
@@ -55,12 +59,14 @@ const artistsFixture: Artist[] = [
     title: "Radiohead",
     artworkUrl: "/library/metadata/500/thumb/123",
     albumsKey: "/library/metadata/500/children",
+    userRating: null,
   },
   {
     id: "501",
     title: "Pink Floyd",
     artworkUrl: null,
     albumsKey: "/library/metadata/501/children",
+    userRating: null,
   },
 ];
 
@@ -72,6 +78,7 @@ const albumsFixture: Album[] = [
     year: 1997,
     artworkUrl: "/library/metadata/1001/thumb/123",
     trackListKey: "/library/metadata/1001/children",
+    userRating: null,
   },
   {
     id: "1002",
@@ -80,6 +87,7 @@ const albumsFixture: Album[] = [
     year: 2000,
     artworkUrl: null,
     trackListKey: "/library/metadata/1002/children",
+    userRating: null,
   },
 ];
 
@@ -95,6 +103,12 @@ const tracksFixture: Track[] = [
     trackType: "flac",
     samplerate: "44.1 kHz",
     bitdepth: "24 bit",
+    userRating: null,
+    viewOffset: null,
+    chapters: [],
+    lyricsStream: null,
+    loudness: null,
+    versions: [],
   },
   {
     id: "2002",
@@ -107,6 +121,12 @@ const tracksFixture: Track[] = [
     trackType: null,
     samplerate: null,
     bitdepth: null,
+    userRating: null,
+    viewOffset: null,
+    chapters: [],
+    lyricsStream: null,
+    loudness: null,
+    versions: [],
   },
 ];
 
@@ -114,6 +134,21 @@ const playlistsFixture: Playlist[] = [
   { id: "5001", title: "Favorites", trackCount: 10, itemsKey: "/playlists/5001/items" },
 ];
 
+const genresFixture: Genre[] = [
+  { id: "123", title: "Jazz", libraryId: "1" },
+  { id: "124", title: "Rock", libraryId: "1" },
+];
+
+const stationQueueFixture: PlayQueue = {
+  id: "7001",
+  selectedItemId: "9001",
+  totalCount: 2,
+  items: [
+    { itemId: "9001", track: tracksFixture[0]! },
+    { itemId: "9002", track: tracksFixture[1]! },
+  ],
+};
+
 const playableTrackFixture: PlayableTrack = {
   ...tracksFixture[0]!,
   streamUrl: "http://192.168.1.100:32400/library/parts/2001/file.flac?X-Plex-Token=test-token",
@@ -123,7 +158,8 @@ const playableTrackFixture: PlayableTrack = {
 
 function createMockPlexService(): PlexService {
   return {
-    getLibraries: vi.fn<() => Promise<Library[]>>().mockResolvedValue(librariesFixture),
+    getLibraries: vi.fn<(kind?: LibraryKind) => Promise<Library[]>>()
+      .mockImplementation(async (kind = "music") => librariesFixture.filter((lib) => lib.kind === kind)),
     getArtists: vi.fn<(k: string) => Promise<Artist[]>>().mockResolvedValue(artistsFixture),
     getAllArtists: vi.fn<() => Promise<Artist[]>>().mockResolvedValue(artistsFixture),
     getArtistsPaginated: vi.fn<(k: string, o: number, l: number) => Promise<PaginatedResult<Artist>>>()
@@ -132,18 +168,55 @@ function createMockPlexService(): PlexService {
     getAllAlbums: vi.fn<() => Promise<Album[]>>().mockResolvedValue(albumsFixture),
     getAlbumsPaginated: vi.fn<(k: string, o: number, l: number) => Promise<PaginatedResult<Album>>>()
       .mockResolvedValue({ items: albumsFixture, totalSize: albumsFixture.length, offset: 0 }),
+    getTracksPaginated: vi.fn<(k: string, o: number, l: number, s?: string) => Promise<PaginatedResult<Track>>>()
+      .mockResolvedValue({ items: tracksFixture, totalSize: tracksFixture.length, offset: 0 }),
     getArtistAlbums: vi.fn<(k: string) => Promise<Album[]>>().mockResolvedValue(albumsFixture),
     getPopularTracks: vi.fn<(id: string) => Promise<Track[]>>().mockResolvedValue(tracksFixture),
     getAlbumTracks: vi.fn<(k: string) => Promise<Track[]>>().mockResolvedValue(tracksFixture),
+    getArtistTracks: vi.fn<(id: string) => Promise<Track[]>>().mockResolvedValue(tracksFixture),
+    getTopRatedTracks: vi.fn<(count: number) => Promise<Track[]>>().mockResolvedValue(tracksFixture),
+    rate: vi.fn<(k: string, stars: number) => Promise<void>>().mockResolvedValue(undefined),
+    getLyrics: vi.fn<(id: string) => Promise<Lyrics | null>>().mockResolvedValue(null),
     getPlaylists: vi.fn<() => Promise<Playlist[]>>().mockResolvedValue(playlistsFixture),
+    createPlaylist: vi.fn<(t: string, k: string[]) => Promise<Playlist>>().mockResolvedValue(playlistsFixture[0]!),
+    addToPlaylist: vi.fn<(p: string, k: string[]) => Promise<void>>().mockResolvedValue(undefined),
+    removeFromPlaylist: vi.fn<(p: string, i: string) => Promise<void>>().mockResolvedValue(undefined),
+    movePlaylistItem: vi.fn<(p: string, i: string, a?: string) => Promise<void>>().mockResolvedValue(undefined),
+    renamePlaylist: vi.fn<(p: string, t: string) => Promise<void>>().mockResolvedValue(undefined),
+    deletePlaylist: vi.fn<(p: string) => Promise<void>>().mockResolvedValue(undefined),
     getPlaylistTracks: vi.fn<(k: string) => Promise<Track[]>>().mockResolvedValue(tracksFixture),
     getPlaylistTracksPaginated: vi.fn<(k: string, o: number, l: number) => Promise<PaginatedTracks>>()
       .mockResolvedValue({ items: tracksFixture, totalSize: tracksFixture.length, offset: 0 }),
+    getGenres: vi.fn<(k: string) => Promise<Genre[]>>().mockResolvedValue(genresFixture),
+    getGenreArtistsPaginated: vi.fn<(k: string, g: string, o: number, l: number) => Promise<PaginatedResult<Artist>>>()
+      .mockResolvedValue({ items: artistsFixture, totalSize: artistsFixture.length, offset: 0 }),
+    getGenreAlbumsPaginated: vi.fn<(k: string, g: string, o: number, l: number) => Promise<PaginatedResult<Album>>>()
+      .mockResolvedValue({ items: albumsFixture, totalSize: albumsFixture.length, offset: 0 }),
+    getGenreTracks: vi.fn<(k: string, g: string) => Promise<Track[]>>().mockResolvedValue(tracksFixture),
+    createStationQueue: vi.fn<(id: string) => Promise<PlayQueue>>().mockResolvedValue(stationQueueFixture),
+    openStationQueue: vi.fn<(id: string) => Promise<PlayQueue>>().mockResolvedValue(stationQueueFixture),
+    createPlayQueue: vi.fn<(key: string, options?: { shuffle?: boolean }) => Promise<PlayQueue>>()
+      .mockResolvedValue({ ...stationQueueFixture, id: "8001" }),
+    getPlayQueueWindow: vi.fn<(q: string, after: string, count: number) => Promise<PlayQueue>>()
+      .mockResolvedValue({ ...stationQueueFixture, items: [] }),
+    getPlayQueue: vi.fn<(id: string) => Promise<PlayQueue>>().mockResolvedValue(stationQueueFixture),
+    getMachineIdentifier: vi.fn<() => Promise<string>>().mockResolvedValue("default-machine"),
+    getConnection: vi.fn<() => PlexConnection>().mockReturnValue(connection),
+    getConnectionKind: vi.fn<() => ConnectionKind | null>().mockReturnValue(null),
+    playableParts: vi.fn<(track: Track) => Track[]>().mockImplementation((track) => [track]),
+    getHomeHubs: vi.fn<(count: number) => Promise<Hub[]>>().mockResolvedValue([]),
+    getViewOffset: vi.fn<(trackId: string) => Promise<number | null>>().mockResolvedValue(null),
+    getTrack: vi.fn<(trackId: string) => Promise<Track>>().mockResolvedValue(tracksFixture[0]!),
+    getSimilarArtists: vi.fn<(id: string, count: number) => Promise<Artist[]>>().mockResolvedValue([]),
+    getSonicallySimilarTracks: vi.fn<(id: string, count: number) => Promise<Track[]>>().mockResolvedValue(tracksFixture),
+    getSonicallySimilarAlbums: vi.fn<(id: string, count: number) => Promise<Album[]>>().mockResolvedValue([]),
     search: vi.fn().mockResolvedValue({ tracks: tracksFixture, albums: albumsFixture, artists: artistsFixture }),
     getPlayableTrack: vi.fn<(id: string) => Promise<PlayableTrack>>().mockResolvedValue(playableTrackFixture),
     getStreamUrl: vi.fn<(k: string) => string>().mockImplementation(
       (streamKey: string) => `http://192.168.1.100:32400${streamKey}?X-Plex-Token=test-token`,
     ),
+    refreshLibrary: vi.fn<() => void>(),
+    getCacheMetrics: vi.fn().mockReturnValue(null),
     getArtworkUrl: vi.fn<(p: string) => string>().mockImplementation(
       (path: string) => `http://192.168.1.100:32400${path}?X-Plex-Token=test-token`,
     ),
@@ -181,10 +254,19 @@ function createMockContext(mpdPlugin?: MpdPlugin): {
     servicePushState: vi.fn(),
     volumioAddToBrowseSources: vi.fn(),
     volumioRemoveToBrowseSources: vi.fn(),
+    volumioGetQueue: vi.fn().mockReturnValue([]),
+    addQueueItems: vi.fn().mockResolvedValue(undefined),
+    volumioClearQueue: vi.fn().mockResolvedValue(undefined),
+    volumioPlay: vi.fn().mockResolvedValue(undefined),
+    volumiosetvolume: vi.fn().mockResolvedValue(undefined),
+    volumioRandom: vi.fn().mockResolvedValue(undefined),
+    volumioRepeat: vi.fn().mockResolvedValue(undefined),
     stateMachine: {
       setConsumeUpdateService: vi.fn(),
       previous: vi.fn().mockResolvedValue(undefined),
       prefetchDone: false,
+      currentPosition: 0,
+      currentRandom: false,
     },
     pluginManager: {
       getPlugin: vi.fn().mockReturnValue(mpdPlugin ?? createMockMpdPlugin()),
@@ -261,26 +343,63 @@ describe("VolumioAdapter", () => {
   // ── Browse: root ─────────────────────────────────────────────────
 
   describe("handleBrowseUri — root", () => {
-    it("returns Artists, Albums, and Playlists folders at root", async () => {
+    it("returns Artists, Albums, Tracks, Hi-Res, Playlists, Genres, and Top Rated folders at root", async () => {
       const result = (await adapter.handleBrowseUri("plex")) as NavigationPage;
 
       const items = result.navigation.lists[0]!.items;
-      expect(items).toHaveLength(3);
+      expect(items).toHaveLength(7);
       expect(items[0]!.title).toBe("Artists");
       expect(items[0]!.uri).toBe("plex/artists");
       expect(items[0]!.icon).toBe("fa fa-microphone");
       expect(items[1]!.title).toBe("Albums");
       expect(items[1]!.uri).toBe("plex/albums");
       expect(items[1]!.icon).toBe("fa fa-music");
-      expect(items[2]!.title).toBe("Playlists");
-      expect(items[2]!.uri).toBe("plex/playlists");
-      expect(items[2]!.icon).toBe("fa fa-list");
+      expect(items[2]!.title).toBe("Tracks");
+      expect(items[2]!.uri).toBe("plex/tracks");
+      expect(items[3]!.title).toBe("Hi-Res");
+      expect(items[3]!.uri).toBe("plex/hires");
+      expect(items[4]!.title).toBe("Playlists");
+      expect(items[4]!.uri).toBe("plex/playlists");
+      expect(items[4]!.icon).toBe("fa fa-list");
+      expect(items[5]!.title).toBe("Genres");
+      expect(items[5]!.uri).toBe("plex/genres");
+      expect(items[5]!.icon).toBe("fa fa-tags");
+      expect(items[6]!.title).toBe("Top Rated");
+      expect(items[6]!.uri).toBe("plex/rated");
     });
 
     it("sets prev URI to /", async () => {
       const result = (await adapter.handleBrowseUri("plex")) as NavigationPage;
       expect(result.navigation.prev.uri).toBe("/");
     });
+
+    it("adds one list per home hub after the browse folders", async () => {
+      vi.mocked(mockService.getHomeHubs).mockResolvedValue([
+        { id: "music.recent.added", title: "Recently Added Albums", albums: albumsFixture, artists: [], tracks: [] },
+        { id: "music.onDeck", title: "Continue Listening", albums: [], artists: [], tracks: tracksFixture },
+      ]);
+
+      const result = (await adapter.handleBrowseUri("plex")) as NavigationPage;
+
+      expect(mockService.getHomeHubs).toHaveBeenCalledWith(12, { mode: "long", minMinutes: 20 });
+      const lists = result.navigation.lists;
+      expect(lists).toHaveLength(3);
+      expect(lists[1]!.title).toBe("Recently Added Albums");
+      expect(lists[1]!.items[0]!.type).toBe("folder");
+      expect(lists[1]!.items[0]!.uri).toBe("plex/album/%2Flibrary%2Fmetadata%2F1001%2Fchildren");
+      expect(lists[2]!.title).toBe("Continue Listening");
+      expect(lists[2]!.items[0]!.type).toBe("song");
+      expect(lists[2]!.items[0]!.uri).toBe("plex/track/2001");
+    });
+
+    it("still shows the browse folders when hubs fail to load", async () => {
+      vi.mocked(mockService.getHomeHubs).mockRejectedValue(new Error("Network failure"));
+
+      const result = (await adapter.handleBrowseUri("plex")) as NavigationPage;
+
+      expect(result.navigation.lists).toHaveLength(1);
+      expect(result.navigation.lists[0]!.items[0]!.title).toBe("Artists");
+    });
   });
 
   // ── Browse: artists ─────────────────────────────────────────────
@@ -289,9 +408,9 @@ describe("VolumioAdapter", () => {
     it("returns artists from first library when no pagination state", async () => {
       const result = (await adapter.handleBrowseUri("plex/artists")) as NavigationPage;
 
-      expect(mockService.getArtistsPaginated).toHaveBeenCalledWith("1", 0, 100, undefined);
-      // lists[0] is sort picker, lists[1] is artist list
-      const items = result.navigation.lists[1]!.items;
+      expect(mockService.getArtistsPaginated).toHaveBeenCalledWith("1", 0, 100, undefined, []);
+      // lists[0] is sort picker, lists[2] is artist list
+      const items = result.navigation.lists[2]!.items;
       // 2 artists + "Load more..." (rolls over to second library)
       expect(items).toHaveLength(3);
       expect(items[0]!.title).toBe("Radiohead");
@@ -325,7 +444,7 @@ describe("VolumioAdapter", () => {
 
     it("artist URIs encode the albumsKey", async () => {
       const result = (await adapter.handleBrowseUri("plex/artists")) as NavigationPage;
-      const items = result.navigation.lists[1]!.items;
+      const items = result.navigation.lists[2]!.items;
       expect(items[0]!.uri).toBe("plex/artist/%2Flibrary%2Fmetadata%2F500%2Fchildren");
     });
 
@@ -337,7 +456,7 @@ describe("VolumioAdapter", () => {
       });
 
       const result = (await adapter.handleBrowseUri("plex/artists")) as NavigationPage;
-      const items = result.navigation.lists[1]!.items;
+      const items = result.navigation.lists[2]!.items;
       const lastItem = items[items.length - 1]!;
       expect(lastItem.title).toBe("Load more...");
       expect(lastItem.uri).toBe("plex/artists@1:2");
@@ -351,7 +470,7 @@ describe("VolumioAdapter", () => {
       });
 
       const result = (await adapter.handleBrowseUri("plex/artists@1:0")) as NavigationPage;
-      const items = result.navigation.lists[1]!.items;
+      const items = result.navigation.lists[2]!.items;
       const lastItem = items[items.length - 1]!;
       expect(lastItem.title).toBe("Load more...");
       expect(lastItem.uri).toBe("plex/artists@3:0");
@@ -359,12 +478,12 @@ describe("VolumioAdapter", () => {
 
     it("fetches with correct offset from paginated URI", async () => {
       await adapter.handleBrowseUri("plex/artists@1:100");
-      expect(mockService.getArtistsPaginated).toHaveBeenCalledWith("1", 100, 100, undefined);
+      expect(mockService.getArtistsPaginated).toHaveBeenCalledWith("1", 100, 100, undefined, []);
     });
 
     it("shows Previous page on subsequent pages", async () => {
       const result = (await adapter.handleBrowseUri("plex/artists@1:100")) as NavigationPage;
-      const items = result.navigation.lists[1]!.items;
+      const items = result.navigation.lists[2]!.items;
       expect(items[0]!.title).toBe("Previous page");
       expect(items[0]!.uri).toBe("plex/artists");
       expect(items[0]!.icon).toBe("fa fa-arrow-circle-up");
@@ -372,14 +491,14 @@ describe("VolumioAdapter", () => {
 
     it("Previous page links to intermediate page when not near the start", async () => {
       const result = (await adapter.handleBrowseUri("plex/artists@1:200")) as NavigationPage;
-      const items = result.navigation.lists[1]!.items;
+      const items = result.navigation.lists[2]!.items;
       expect(items[0]!.title).toBe("Previous page");
       expect(items[0]!.uri).toBe("plex/artists@1:100");
     });
 
     it("omits Previous page on first page", async () => {
       const result = (await adapter.handleBrowseUri("plex/artists")) as NavigationPage;
-      const items = result.navigation.lists[1]!.items;
+      const items = result.navigation.lists[2]!.items;
       expect(items[0]!.title).not.toBe("Previous page");
     });
 
@@ -393,14 +512,14 @@ describe("VolumioAdapter", () => {
       });
 
       const result = (await adapter.handleBrowseUri("plex/artists")) as NavigationPage;
-      const items = result.navigation.lists[1]!.items;
+      const items = result.navigation.lists[2]!.items;
       expect(items.every((i) => i.title !== "Load more...")).toBe(true);
     });
 
     it("passes sort to getArtistsPaginated when sort is in URI", async () => {
       await adapter.handleBrowseUri("plex/artists~titleSort:desc");
 
-      expect(mockService.getArtistsPaginated).toHaveBeenCalledWith("1", 0, 100, "titleSort:desc");
+      expect(mockService.getArtistsPaginated).toHaveBeenCalledWith("1", 0, 100, "titleSort:desc", []);
     });
 
     it("preserves sort in Load more URI", async () => {
@@ -411,14 +530,14 @@ describe("VolumioAdapter", () => {
       });
 
       const result = (await adapter.handleBrowseUri("plex/artists~addedAt:desc")) as NavigationPage;
-      const items = result.navigation.lists[1]!.items;
+      const items = result.navigation.lists[2]!.items;
       const lastItem = items[items.length - 1]!;
       expect(lastItem.uri).toBe("plex/artists~addedAt:desc@1:2");
     });
 
     it("preserves sort in Previous page URI", async () => {
       const result = (await adapter.handleBrowseUri("plex/artists~titleSort:asc@1:100")) as NavigationPage;
-      const items = result.navigation.lists[1]!.items;
+      const items = result.navigation.lists[2]!.items;
       expect(items[0]!.title).toBe("Previous page");
       expect(items[0]!.uri).toBe("plex/artists~titleSort:asc");
     });
@@ -435,15 +554,17 @@ describe("VolumioAdapter", () => {
         "/library/metadata/500/children",
       );
       const items = result.navigation.lists[0]!.items;
-      expect(items).toHaveLength(3);
+      expect(items).toHaveLength(4);
       // Albums first
       expect(items[0]!.title).toBe("OK Computer");
       expect(items[0]!.artist).toBe("Radiohead");
       expect(items[0]!.type).toBe("folder");
-      // Popular Tracks folder at the end
+      // Popular Tracks and Artist Radio folders at the end
       expect(items[2]!.title).toBe("Popular Tracks");
       expect(items[2]!.type).toBe("folder");
       expect(items[2]!.uri).toBe("plex/popular/500");
+      expect(items[3]!.title).toBe("Artist Radio");
+      expect(items[3]!.uri).toBe("plex/radio/artist/500");
     });
 
     it("sets prev URI to plex/artists", async () => {
@@ -451,6 +572,26 @@ describe("VolumioAdapter", () => {
       const result = (await adapter.handleBrowseUri(uri)) as NavigationPage;
       expect(result.navigation.prev.uri).toBe("plex/artists");
     });
+
+    it("lists similar artists after the albums", async () => {
+      vi.mocked(mockService.getSimilarArtists).mockResolvedValue([artistsFixture[1]!]);
+      const uri = "plex/artist/%2Flibrary%2Fmetadata%2F500%2Fchildren";
+      const result = (await adapter.handleBrowseUri(uri)) as NavigationPage;
+
+      expect(mockService.getSimilarArtists).toHaveBeenCalledWith("500", 12);
+      const similar = result.navigation.lists[1]!;
+      expect(similar.title).toBe("Similar Artists");
+      expect(similar.items[0]!.uri).toBe("plex/artist/%2Flibrary%2Fmetadata%2F501%2Fchildren");
+    });
+
+    it("still shows the artist when similar artists can't be fetched", async () => {
+      vi.mocked(mockService.getSimilarArtists).mockRejectedValue(new Error("404"));
+      const uri = "plex/artist/%2Flibrary%2Fmetadata%2F500%2Fchildren";
+      const result = (await adapter.handleBrowseUri(uri)) as NavigationPage;
+
+      expect(result.navigation.lists).toHaveLength(1);
+      expect(result.navigation.lists[0]!.items[0]!.title).toBe("OK Computer");
+    });
   });
 
   // ── Browse: albums ────────────────────────────────────────────
@@ -459,9 +600,9 @@ describe("VolumioAdapter", () => {
     it("returns albums from first library when no pagination state", async () => {
       const result = (await adapter.handleBrowseUri("plex/albums")) as NavigationPage;
 
-      expect(mockService.getAlbumsPaginated).toHaveBeenCalledWith("1", 0, 100, undefined);
-      // lists[0] is sort picker, lists[1] is album list
-      const items = result.navigation.lists[1]!.items;
+      expect(mockService.getAlbumsPaginated).toHaveBeenCalledWith("1", 0, 100, undefined, []);
+      // lists[0] is sort picker, lists[2] is album list
+      const items = result.navigation.lists[2]!.items;
       // 2 albums + "Load more..." (rolls over to second library)
       expect(items).toHaveLength(3);
       expect(items[0]!.title).toBe("OK Computer");
@@ -496,9 +637,22 @@ describe("VolumioAdapter", () => {
       expect(sortList.items[7]!.uri).toBe("plex/albums~addedAt:asc");
     });
 
+    it("shows an album's hi-res badge after its artist", async () => {
+      vi.mocked(mockService.getAlbumsPaginated).mockResolvedValue({
+        items: [{ ...albumsFixture[0]!, qualityBadge: "24/88.2–96" }, albumsFixture[1]!],
+        totalSize: 2,
+        offset: 0,
+      });
+
+      const result = (await adapter.handleBrowseUri("plex/albums")) as NavigationPage;
+      const items = result.navigation.lists[2]!.items;
+      expect(items[0]!.artist).toBe("Radiohead · 24/88.2–96");
+      expect(items[1]!.artist).toBe("Radiohead");
+    });
+
     it("album URIs encode the trackListKey", async () => {
       const result = (await adapter.handleBrowseUri("plex/albums")) as NavigationPage;
-      const items = result.navigation.lists[1]!.items;
+      const items = result.navigation.lists[2]!.items;
       expect(items[0]!.uri).toBe("plex/album/%2Flibrary%2Fmetadata%2F1001%2Fchildren");
     });
 
@@ -510,7 +664,7 @@ describe("VolumioAdapter", () => {
       });
 
       const result = (await adapter.handleBrowseUri("plex/albums")) as NavigationPage;
-      const items = result.navigation.lists[1]!.items;
+      const items = result.navigation.lists[2]!.items;
       const lastItem = items[items.length - 1]!;
       expect(lastItem.title).toBe("Load more...");
       expect(lastItem.uri).toBe("plex/albums@1:2");
@@ -518,7 +672,7 @@ describe("VolumioAdapter", () => {
 
     it("shows Previous page on subsequent pages", async () => {
       const result = (await adapter.handleBrowseUri("plex/albums@1:100")) as NavigationPage;
-      const items = result.navigation.lists[1]!.items;
+      const items = result.navigation.lists[2]!.items;
       expect(items[0]!.title).toBe("Previous page");
       expect(items[0]!.uri).toBe("plex/albums");
     });
@@ -526,7 +680,7 @@ describe("VolumioAdapter", () => {
     it("passes sort to getAlbumsPaginated when sort is in URI", async () => {
       await adapter.handleBrowseUri("plex/albums~titleSort:asc");
 
-      expect(mockService.getAlbumsPaginated).toHaveBeenCalledWith("1", 0, 100, "titleSort:asc");
+      expect(mockService.getAlbumsPaginated).toHaveBeenCalledWith("1", 0, 100, "titleSort:asc", []);
     });
 
     it("preserves sort in Load more URI", async () => {
@@ -537,14 +691,14 @@ describe("VolumioAdapter", () => {
       });
 
       const result = (await adapter.handleBrowseUri("plex/albums~titleSort:asc")) as NavigationPage;
-      const items = result.navigation.lists[1]!.items;
+      const items = result.navigation.lists[2]!.items;
       const lastItem = items[items.length - 1]!;
       expect(lastItem.uri).toBe("plex/albums~titleSort:asc@1:2");
     });
 
     it("preserves sort in Previous page URI", async () => {
       const result = (await adapter.handleBrowseUri("plex/albums~titleSort:asc@1:100")) as NavigationPage;
-      const items = result.navigation.lists[1]!.items;
+      const items = result.navigation.lists[2]!.items;
       expect(items[0]!.title).toBe("Previous page");
       expect(items[0]!.uri).toBe("plex/albums~titleSort:asc");
     });
@@ -552,7 +706,145 @@ describe("VolumioAdapter", () => {
     it("passes descending sort to getAlbumsPaginated", async () => {
       await adapter.handleBrowseUri("plex/albums~titleSort:desc");
 
-      expect(mockService.getAlbumsPaginated).toHaveBeenCalledWith("1", 0, 100, "titleSort:desc");
+      expect(mockService.getAlbumsPaginated).toHaveBeenCalledWith("1", 0, 100, "titleSort:desc", []);
+    });
+
+    it("passes filters from the URI to getAlbumsPaginated", async () => {
+      await adapter.handleBrowseUri("plex/albums~titleSort:asc+decade=1970,unwatched@3:0");
+
+      expect(mockService.getAlbumsPaginated).toHaveBeenCalledWith("3", 0, 100, "titleSort:asc", [
+        { field: "decade", operator: "=", value: "1970" },
+        { field: "unwatched", operator: null, value: null },
+      ]);
+    });
+
+    it("keeps filters in sort and paging URIs", async () => {
+      vi.mocked(mockService.getAlbumsPaginated).mockResolvedValue({
+        items: albumsFixture,
+        totalSize: 500,
+        offset: 0,
+      });
+
+      const result = (await adapter.handleBrowseUri("plex/albums+audioCodec=flac")) as NavigationPage;
+      const [sortList, , albumList] = result.navigation.lists;
+      expect(sortList!.items[0]!.uri).toBe("plex/albums~artist.titleSort:asc+audioCodec=flac");
+      expect(albumList!.items[albumList!.items.length - 1]!.uri).toBe("plex/albums+audioCodec=flac@1:2");
+    });
+
+    it("renders a filter chooser that toggles filters and keeps the sort", async () => {
+      const result = (await adapter.handleBrowseUri("plex/albums~addedAt:desc+decade=1970")) as NavigationPage;
+      const filterList = result.navigation.lists[1]!;
+
+      expect(filterList.title).toBe("Filter by");
+      const seventies = filterList.items.find((item) => item.title === "1970s")!;
+      const eighties = filterList.items.find((item) => item.title === "1980s")!;
+      const unplayed = filterList.items.find((item) => item.title === "Unplayed")!;
+      expect(seventies.uri).toBe("plex/albums~addedAt:desc");
+      expect(seventies.icon).toBe("fa fa-check-square-o");
+      expect(eighties.uri).toBe("plex/albums~addedAt:desc+decade=1980");
+      expect(unplayed.uri).toBe("plex/albums~addedAt:desc+decade=1970,unwatched");
+      expect(filterList.items[filterList.items.length - 1]).toMatchObject({
+        title: "Clear filters",
+        uri: "plex/albums~addedAt:desc",
+      });
+    });
+  });
+
+  // ── Browse: tracks ───────────────────────────────────────────────
+
+  describe("handleBrowseUri — tracks", () => {
+    it("lists the first library's tracks with a sort picker and a queueable header", async () => {
+      const result = (await adapter.handleBrowseUri("plex/tracks")) as NavigationPage;
+
+      expect(mockService.getTracksPaginated).toHaveBeenCalledWith("1", 0, 100, undefined, []);
+      expect(result.navigation.info?.uri).toBe("plex/tracks");
+      const sortList = result.navigation.lists[0]!;
+      expect(sortList.title).toBe("Sort by");
+      expect(sortList.items.map((i) => i.uri)).toContain("plex/tracks~viewCount:desc");
+      const items = result.navigation.lists[1]!.items;
+      expect(items[0]!.title).toBe("Airbag");
+      expect(items[0]!.type).toBe("song");
+      expect(items[items.length - 1]!.uri).toBe("plex/tracks@3:0");
+    });
+
+    it("keeps the sort and page in paging links and the header", async () => {
+      vi.mocked(mockService.getTracksPaginated).mockResolvedValue({ items: tracksFixture, totalSize: 500, offset: 100 });
+
+      const result = (await adapter.handleBrowseUri("plex/tracks~viewCount:desc@1:100")) as NavigationPage;
+
+      expect(mockService.getTracksPaginated).toHaveBeenCalledWith("1", 100, 100, "viewCount:desc", []);
+      expect(result.navigation.info?.uri).toBe("plex/tracks~viewCount:desc@1:100");
+      const items = result.navigation.lists[1]!.items;
+      expect(items[0]!.uri).toBe("plex/tracks~viewCount:desc");
+      expect(items[items.length - 1]!.uri).toBe("plex/tracks~viewCount:desc@1:102");
+    });
+
+    it("queues the page as listed", async () => {
+      const result = (await adapter.explodeUri("plex/tracks~addedAt:desc@1:100")) as QueueItem[];
+
+      expect(mockService.getTracksPaginated).toHaveBeenCalledWith("1", 100, 100, "addedAt:desc", []);
+      expect(result.map((item) => item.name)).toEqual(["Airbag", "Paranoid Android"]);
+    });
+
+    it("badges hi-res tracks on the album line", async () => {
+      const result = (await adapter.handleBrowseUri("plex/tracks")) as NavigationPage;
+
+      const items = result.navigation.lists[1]!.items;
+      expect(items[0]!.album).toBe("OK Computer · 24/44.1");
+      expect(items[1]!.album).toBe("OK Computer");
+    });
+  });
+
+  // ── Browse: hi-res ───────────────────────────────────────────────
+
+  describe("handleBrowseUri — hi-res", () => {
+    it("queries each quality tier with its media filters", async () => {
+      await adapter.handleBrowseUri("plex/hires");
+
+      expect(mockService.getTracksPaginated).toHaveBeenCalledTimes(HI_RES_TIERS.length);
+      for (const tier of HI_RES_TIERS) {
+        expect(mockService.getTracksPaginated).toHaveBeenCalledWith("1", 0, 25, undefined, tier.filters);
+      }
+    });
+
+    it("lists non-empty tiers with a link to the whole tier", async () => {
+      vi.mocked(mockService.getTracksPaginated).mockImplementation(async (_key, _offset, _limit, _sort, filters) =>
+        filters?.[0]?.field === "audioCodec"
+          ? { items: [], totalSize: 0, offset: 0 }
+          : { items: tracksFixture.slice(0, 1), totalSize: 40, offset: 0 },
+      );
+
+      const result = (await adapter.handleBrowseUri("plex/hires")) as NavigationPage;
+
+      const lists = result.navigation.lists;
+      expect(lists.map((list) => list.title)).toEqual([
+        "24-bit / 176.4 kHz and up (40)",
+        "24-bit / 88.2–96 kHz (40)",
+        "24-bit / 44.1–48 kHz (40)",
+      ]);
+      const more = lists[1]!.items[1]!;
+      expect(more.title).toBe("More...");
+      expect(more.uri).toBe("plex/tracks+bitDepth>=24,samplingRate>=88200,samplingRate<176400,bitrate>=600");
+    });
+
+    it("opens a tier as a filtered track listing", async () => {
+      await adapter.handleBrowseUri("plex/tracks+bitDepth>=24,samplingRate<88200,bitrate>=600");
+
+      expect(mockService.getTracksPaginated).toHaveBeenCalledWith("1", 0, 100, undefined, [
+        { field: "bitDepth", operator: ">=", value: "24" },
+        { field: "samplingRate", operator: "<", value: "88200" },
+        { field: "bitrate", operator: ">=", value: "600" },
+      ]);
+    });
+
+    it("says so when the library has no hi-res tracks", async () => {
+      vi.mocked(mockService.getTracksPaginated).mockResolvedValue({ items: [], totalSize: 0, offset: 0 });
+
+      const result = (await adapter.handleBrowseUri("plex/hires")) as NavigationPage;
+
+      expect(result.navigation.lists).toEqual([
+        { title: "No hi-res tracks found", availableListViews: ["list"], items: [] },
+      ]);
     });
   });
 
@@ -580,6 +872,50 @@ describe("VolumioAdapter", () => {
       const result = (await adapter.handleBrowseUri(uri)) as NavigationPage;
       expect(result.navigation.lists[0]!.title).toBe("OK Computer");
     });
+
+    it("badges the album title when every track shares a hi-res format", async () => {
+      vi.mocked(mockService.getAlbumTracks).mockResolvedValue([tracksFixture[0]!]);
+      const uri = "plex/album/%2Flibrary%2Fmetadata%2F1001%2Fchildren";
+      const result = (await adapter.handleBrowseUri(uri)) as NavigationPage;
+      expect(result.navigation.lists[0]!.title).toBe("OK Computer · 24/44.1");
+    });
+
+    it("offers Album Radio after the tracks", async () => {
+      const uri = "plex/album/%2Flibrary%2Fmetadata%2F1001%2Fchildren";
+      const result = (await adapter.handleBrowseUri(uri)) as NavigationPage;
+      const radio = result.navigation.lists[1]!.items[0]!;
+      expect(radio.title).toBe("Album Radio");
+      expect(radio.uri).toBe("plex/radio/album/1001");
+    });
+
+    it("lists sonically similar albums last", async () => {
+      vi.mocked(mockService.getSonicallySimilarAlbums).mockResolvedValue([albumsFixture[1]!]);
+      const uri = "plex/album/%2Flibrary%2Fmetadata%2F1001%2Fchildren";
+      const result = (await adapter.handleBrowseUri(uri)) as NavigationPage;
+
+      expect(mockService.getSonicallySimilarAlbums).toHaveBeenCalledWith("1001", 12);
+      const similar = result.navigation.lists.at(-1)!;
+      expect(similar.title).toBe("Sonically Similar");
+      expect(similar.items[0]!.uri).toBe("plex/album/%2Flibrary%2Fmetadata%2F1002%2Fchildren");
+    });
+  });
+
+  // ── More like this ───────────────────────────────────────────────
+
+  describe("more like this", () => {
+    it("lists the tracks that sound like a track, queueable from the header", async () => {
+      const result = (await adapter.handleBrowseUri("plex/similar/track/2001")) as NavigationPage;
+
+      expect(mockService.getSonicallySimilarTracks).toHaveBeenCalledWith("2001", 50);
+      expect(result.navigation.info!.uri).toBe("plex/similar/track/2001");
+      expect(result.navigation.lists[0]!.items.map((item) => item.title)).toEqual(["Airbag", "Paranoid Android"]);
+    });
+
+    it("queues the sonically similar set", async () => {
+      const result = (await adapter.explodeUri("plex/similar/track/2001")) as QueueItem[];
+
+      expect(result.map((item) => item.name)).toEqual(["Airbag", "Paranoid Android"]);
+    });
   });
 
   // ── Browse: playlists ────────────────────────────────────────────
@@ -660,6 +996,100 @@ describe("VolumioAdapter", () => {
     });
   });
 
+  // ── Browse: genres ───────────────────────────────────────────
+
+  describe("handleBrowseUri — genres", () => {
+    it("lists genres in one list per music library", async () => {
+      const result = (await adapter.handleBrowseUri("plex/genres")) as NavigationPage;
+
+      expect(mockService.getGenres).toHaveBeenCalledWith("1");
+      expect(mockService.getGenres).toHaveBeenCalledWith("3");
+      expect(result.navigation.lists).toHaveLength(2);
+      expect(result.navigation.lists[0]!.title).toBe("Genres — Music");
+      const items = result.navigation.lists[0]!.items;
+      expect(items[0]!.title).toBe("Jazz");
+      expect(items[0]!.uri).toBe("plex/genre/1/123");
+    });
+
+    it("genre page offers Artists and Albums and is queueable", async () => {
+      const result = (await adapter.handleBrowseUri("plex/genre/1/123")) as NavigationPage;
+
+      expect(result.navigation.prev.uri).toBe("plex/genres");
+      expect(result.navigation.info?.uri).toBe("plex/genre/1/123");
+      const items = result.navigation.lists[0]!.items;
+      expect(items.map((i) => i.uri)).toEqual([
+        "plex/genre/1/123/artists",
+        "plex/genre/1/123/albums",
+      ]);
+    });
+
+    it("lists artists in a genre with the requested offset", async () => {
+      vi.mocked(mockService.getGenreArtistsPaginated).mockResolvedValue({
+        items: artistsFixture,
+        totalSize: 300,
+        offset: 100,
+      });
+
+      const result = (await adapter.handleBrowseUri("plex/genre/1/123/artists@100")) as NavigationPage;
+
+      expect(mockService.getGenreArtistsPaginated).toHaveBeenCalledWith("1", "123", 100, 100);
+      const items = result.navigation.lists[0]!.items;
+      expect(items[0]!.title).toBe("Previous page");
+      expect(items[0]!.uri).toBe("plex/genre/1/123/artists");
+      expect(items[1]!.uri).toBe("plex/artist/%2Flibrary%2Fmetadata%2F500%2Fchildren");
+      expect(items[items.length - 1]!.title).toBe("Load more...");
+      expect(items[items.length - 1]!.uri).toBe("plex/genre/1/123/artists@102");
+    });
+
+    it("lists albums in a genre without paging controls when everything fits", async () => {
+      const result = (await adapter.handleBrowseUri("plex/genre/1/123/albums")) as NavigationPage;
+
+      expect(mockService.getGenreAlbumsPaginated).toHaveBeenCalledWith("1", "123", 0, 100);
+      const items = result.navigation.lists[0]!.items;
+      expect(items).toHaveLength(2);
+      expect(items[0]!.uri).toBe("plex/album/%2Flibrary%2Fmetadata%2F1001%2Fchildren");
+    });
+  });
+
+  // ── Browse: radio ────────────────────────────────────────────
+
+  describe("handleBrowseUri — radio", () => {
+    it("previews the station's first tracks with a queueable header", async () => {
+      const result = (await adapter.handleBrowseUri("plex/radio/artist/500")) as NavigationPage;
+
+      expect(mockService.createStationQueue).toHaveBeenCalledWith("500");
+      expect(result.navigation.info?.uri).toBe("plex/radio/artist/500/7001");
+      expect(result.navigation.prev.uri).toBe("plex/artist/%2Flibrary%2Fmetadata%2F500%2Fchildren");
+      const list = result.navigation.lists[0]!;
+      expect(list.title).toBe("Artist Radio");
+      expect(list.items.map((i) => i.title)).toEqual(["Airbag", "Paranoid Android"]);
+    });
+
+    it("offers Track Radio and More Like This at root while a Plex track is playing", async () => {
+      await adapter.clearAddPlayTrack({
+        uri: "plex/track/2001/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac",
+        service: "plex",
+        name: "Airbag",
+        artist: "Radiohead",
+        album: "OK Computer",
+        albumart: "",
+        duration: 282,
+        type: "track",
+      });
+
+      const result = (await adapter.handleBrowseUri("plex")) as NavigationPage;
+      const items = result.navigation.lists[0]!.items;
+      expect(items[items.length - 2]!.title).toBe("Track Radio");
+      expect(items[items.length - 2]!.uri).toBe("plex/radio/track/2001");
+      expect(items[items.length - 1]!.title).toBe("More Like This");
+      expect(items[items.length - 1]!.uri).toBe("plex/similar/track/2001");
+    });
+
+    it("rejects unknown radio types", async () => {
+      await expect(adapter.handleBrowseUri("plex/radio/genre/1")).rejects.toThrow("Unknown browse URI");
+    });
+  });
+
   // ── Browse: error handling ───────────────────────────────────────
 
   describe("handleBrowseUri — errors", () => {
@@ -673,6 +1103,34 @@ describe("VolumioAdapter", () => {
       vi.mocked(mockService.getArtistsPaginated).mockRejectedValue(new Error("Network failure"));
       await expect(adapter.handleBrowseUri("plex/artists")).rejects.toThrow("Network failure");
     });
+
+    it("shows a sign-in page and reports the server when the token is refused", async () => {
+      const onAuthError = vi.fn();
+      adapter.onAuthError(onAuthError);
+      vi.mocked(mockService.getArtistsPaginated).mockRejectedValue(new PlexAuthError());
+
+      const result = (await adapter.handleBrowseUri("plex/artists")) as NavigationPage;
+
+      expect(onAuthError).toHaveBeenCalledWith(null, expect.any(PlexAuthError));
+      expect(result.navigation.lists[0]!.title).toBe("Sign in to Plex");
+      expect(result.navigation.lists[0]!.items[0]!.uri).toBe("plex/artists");
+    });
+
+    it("names the additional server that refused its token", async () => {
+      const otherService = createMockPlexService();
+      vi.mocked(otherService.getArtistsPaginated).mockRejectedValue(new PlexAuthError());
+      adapter.configure(mockService, connection, {
+        servers: [{ id: "abc123", name: "Basement", service: otherService }],
+      });
+      const onAuthError = vi.fn();
+      adapter.onAuthError(onAuthError);
+
+      const result = (await adapter.handleBrowseUri("plex/s/abc123/artists")) as NavigationPage;
+
+      expect(onAuthError).toHaveBeenCalledWith("abc123", expect.any(PlexAuthError));
+      expect(result.navigation.lists[0]!.items[0]!.title).toContain("Basement");
+      expect(result.navigation.lists[0]!.items[0]!.uri).toBe("plex/s/abc123/artists");
+    });
   });
 
   // ── Explode: single track ────────────────────────────────────────
@@ -692,98 +1150,428 @@ describe("VolumioAdapter", () => {
       expect(result[0]!.type).toBe("track");
       expect(result[0]!.duration).toBe(282);
     });
+
+    it("carries Plex's loudness analysis for normalization", async () => {
+      vi.mocked(mockService.getPlayableTrack).mockResolvedValueOnce({
+        ...playableTrackFixture,
+        loudness: { gain: -6.5, albumGain: null, peak: 0.98, albumPeak: null, loudness: -11.2, lra: 7.1 },
+      });
+
+      const [item] = (await adapter.explodeUri("plex/track/2001")) as QueueItem[];
+
+      expect(item).toEqual(expect.objectContaining({ trackGain: -6.5, trackPeak: 0.98 }));
+      expect(item).not.toHaveProperty("albumGain");
+    });
   });
 
   // ── Explode: album ───────────────────────────────────────────────
 
+  describe("explodeUri — multi-part tracks", () => {
+    it("queues every part of a track in order", async () => {
+      vi.mocked(mockService.playableParts).mockImplementation((track) => [
+        { ...track, title: `${track.title} (Part 1 of 2)`, streamKey: "/library/parts/1/a.flac", partOffsetMs: 0, wholeDurationMs: 282_000 },
+        { ...track, title: `${track.title} (Part 2 of 2)`, streamKey: "/library/parts/2/b.flac", partOffsetMs: 141_000, wholeDurationMs: 282_000 },
+      ]);
+
+      const result = (await adapter.explodeUri("plex/track/2001")) as QueueItem[];
+
+      expect(mockService.playableParts).toHaveBeenCalledWith(playableTrackFixture);
+      expect(result.map((item) => [item.name, item.uri, item.partOffsetMs])).toEqual([
+        ["Airbag (Part 1 of 2)", "plex/track/2001/stream/%2Flibrary%2Fparts%2F1%2Fa.flac", 0],
+        ["Airbag (Part 2 of 2)", "plex/track/2001/stream/%2Flibrary%2Fparts%2F2%2Fb.flac", 141_000],
+      ]);
+    });
+  });
+
   describe("explodeUri — album", () => {
-    it("resolves all album tracks to QueueItems", async () => {
+    it("creates a play queue on the server and tags each item with it", async () => {
       const uri = "plex/album/%2Flibrary%2Fmetadata%2F1001%2Fchildren";
       const result = (await adapter.explodeUri(uri)) as QueueItem[];
 
-      expect(mockService.getAlbumTracks).toHaveBeenCalledWith(
+      expect(mockService.createPlayQueue).toHaveBeenCalledWith(
         "/library/metadata/1001/children",
+        { shuffle: false },
       );
       expect(mockService.getPlayableTrack).not.toHaveBeenCalled();
       expect(result).toHaveLength(2);
       expect(result[0]!.name).toBe("Airbag");
       expect(result[0]!.uri).toBe("plex/track/2001/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac");
       expect(result[0]!.uri).not.toContain("Token");
+      expect(result[0]!.playQueueID).toBe("8001");
+      expect(result[0]!.playQueueItemID).toBe("9001");
       expect(result[1]!.name).toBe("Paranoid Android");
-      expect(result[1]!.uri).toBe("plex/track/2002/stream/%2Flibrary%2Fparts%2F2002%2Ffile.flac");
+      expect(result[1]!.playQueueItemID).toBe("9002");
     });
-  });
 
-  // ── Explode: errors ──────────────────────────────────────────────
+    it("falls back to the album's track list when Plex refuses the play queue", async () => {
+      vi.mocked(mockService.createPlayQueue).mockRejectedValue(new Error("Plex API error: 400"));
+      const uri = "plex/album/%2Flibrary%2Fmetadata%2F1001%2Fchildren";
+      const result = (await adapter.explodeUri(uri)) as QueueItem[];
 
-  describe("explodeUri — errors", () => {
-    it("rejects unknown URIs", async () => {
-      await expect(adapter.explodeUri("plex/unknown/123")).rejects.toThrow("Cannot explode URI");
+      expect(mockService.getAlbumTracks).toHaveBeenCalledWith("/library/metadata/1001/children");
+      expect(result.map((item) => item.name)).toEqual(["Airbag", "Paranoid Android"]);
+      expect(result[0]!.playQueueID).toBeUndefined();
     });
   });
 
-  // ── Explode: tracks with no media ────────────────────────────────
+  describe("explodeUri — playlist and shuffle", () => {
+    it("queues a playlist through a server play queue", async () => {
+      await adapter.explodeUri("plex/playlist/%2Fplaylists%2F42%2Fitems");
+      expect(mockService.createPlayQueue).toHaveBeenCalledWith("/playlists/42/items", { shuffle: false });
+    });
 
-  describe("explodeUri — missing streamKey", () => {
-    it("filters out tracks with empty streamKey in multi-track explode", async () => {
-      const tracksWithMissing: Track[] = [
-        { ...tracksFixture[0]! },
-        { ...tracksFixture[1]!, streamKey: "" },
-      ];
-      vi.mocked(mockService.getAlbumTracks).mockResolvedValue(tracksWithMissing);
+    it("lets Plex shuffle albums and playlists", async () => {
+      await adapter.explodeUri("plex/shuffle-album/%2Flibrary%2Fmetadata%2F1001%2Fchildren");
+      await adapter.explodeUri("plex/shuffle-playlist/%2Fplaylists%2F42%2Fitems");
 
-      const result = (await adapter.explodeUri("plex/album/%2Flibrary%2Fmetadata%2F1001%2Fchildren")) as QueueItem[];
-      expect(result).toHaveLength(1);
-      expect(result[0]!.name).toBe("Airbag");
+      expect(mockService.createPlayQueue).toHaveBeenCalledWith("/library/metadata/1001/children", { shuffle: true });
+      expect(mockService.createPlayQueue).toHaveBeenCalledWith("/playlists/42/items", { shuffle: true });
     });
+  });
 
-    it("rejects single-track explode when getPlayableTrack throws for missing media", async () => {
-      vi.mocked(mockService.getPlayableTrack).mockRejectedValue(new Error("Track 2001 has no playable media"));
-      await expect(adapter.explodeUri("plex/track/2001")).rejects.toThrow("has no playable media");
+  // ── Explode: artist ──────────────────────────────────────────────
+
+  describe("explodeUri — artist", () => {
+    it("queues the tracks of every album by the artist", async () => {
+      const uri = "plex/artist/%2Flibrary%2Fmetadata%2F500%2Fchildren";
+      const result = (await adapter.explodeUri(uri)) as QueueItem[];
+
+      expect(mockService.getArtistAlbums).toHaveBeenCalledWith("/library/metadata/500/children");
+      expect(mockService.getAlbumTracks).toHaveBeenCalledWith("/library/metadata/1001/children");
+      expect(mockService.getAlbumTracks).toHaveBeenCalledWith("/library/metadata/1002/children");
+      expect(result).toHaveLength(4);
     });
   });
 
-  // ── clearAddPlayTrack ────────────────────────────────────────────
+  // ── Audiobooks and podcasts ──────────────────────────────────────
 
-  describe("clearAddPlayTrack", () => {
-    const queueItem: QueueItem = {
-      uri: "plex/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac",
-      service: "plex",
-      name: "Airbag",
-      artist: "Radiohead",
-      album: "OK Computer",
-      albumart: "",
-      duration: 282,
-      type: "track",
-    };
+  describe("audiobooks and podcasts", () => {
+    const chapters: Track[] = [
+      { ...tracksFixture[0]!, id: "4001", title: "Chapter 1", album: "Dune" },
+      { ...tracksFixture[0]!, id: "4002", title: "Chapter 2", album: "Dune", viewOffset: 754_000 },
+      { ...tracksFixture[0]!, id: "4003", title: "Chapter 3", album: "Dune" },
+    ];
+    const bookUri = "plex/audiobooks/book/%2Flibrary%2Fmetadata%2F1001%2Fchildren";
 
-    // The resolved stream URL that getStreamUrl returns for the encoded key
-    const resolvedUrl = "http://192.168.1.100:32400/library/parts/2001/file.flac?X-Plex-Token=test-token";
+    it("adds Audiobooks and Podcasts root folders for libraries marked as such", async () => {
+      vi.mocked(mockService.getLibraries).mockImplementation(async (kind = "music") =>
+        kind === "podcasts" ? [{ id: "3", title: "Podcasts", type: "artist", kind: "podcasts" }] : []);
 
-    it("sends stop, clear, then tries load before falling back to addid", async () => {
-      // load fails, so addid is used as fallback
-      vi.mocked(mpdPlugin.sendMpdCommand).mockImplementation((cmd: string) => {
-        if (cmd.startsWith("load ")) return Promise.reject(new Error("not supported"));
-        if (cmd.startsWith("addid ")) return Promise.resolve({ Id: "42" });
-        return Promise.resolve(undefined);
-      });
+      const result = (await adapter.handleBrowseUri("plex")) as NavigationPage;
 
-      await adapter.clearAddPlayTrack(queueItem);
+      const titles = result.navigation.lists[0]!.items.map((item) => item.title);
+      expect(titles).toContain("Podcasts");
+      expect(titles).not.toContain("Audiobooks");
+    });
 
-      const mpdSend = vi.mocked(mpdPlugin.sendMpdCommand);
-      expect(mpdSend).toHaveBeenCalledWith("stop", []);
-      expect(mpdSend).toHaveBeenCalledWith("clear", []);
-      expect(mpdSend).toHaveBeenCalledWith(`load "${resolvedUrl}"`, []);
-      expect(mpdSend).toHaveBeenCalledWith(`addid "${resolvedUrl}"`, []);
-      expect(mpdSend).toHaveBeenCalledWith("play", []);
+    it("lists the authors of audiobook libraries, then their books", async () => {
+      const authors = (await adapter.handleBrowseUri("plex/audiobooks")) as NavigationPage;
+      expect(mockService.getAllArtists).toHaveBeenCalledWith("audiobooks");
+      expect(authors.navigation.lists[0]!.items[0]!.uri).toBe("plex/audiobooks/author/%2Flibrary%2Fmetadata%2F500%2Fchildren");
+
+      const books = (await adapter.handleBrowseUri(authors.navigation.lists[0]!.items[0]!.uri)) as NavigationPage;
+      expect(mockService.getArtistAlbums).toHaveBeenCalledWith("/library/metadata/500/children");
+      expect(books.navigation.lists[0]!.items[0]!.uri).toBe(bookUri);
     });
 
-    it("skips addid when load succeeds", async () => {
-      await adapter.clearAddPlayTrack(queueItem);
+    it("heads a book's chapters with the one that was left off", async () => {
+      vi.mocked(mockService.getAlbumTracks).mockResolvedValue(chapters);
 
-      const mpdSend = vi.mocked(mpdPlugin.sendMpdCommand);
-      expect(mpdSend).toHaveBeenCalledWith(`load "${resolvedUrl}"`, []);
-      expect(mpdSend).not.toHaveBeenCalledWith(`addid "${resolvedUrl}"`, []);
+      const result = (await adapter.handleBrowseUri(bookUri)) as NavigationPage;
+
+      const [resume, all] = result.navigation.lists;
+      expect(resume!.title).toBe("Continue");
+      expect(resume!.items[0]!.title).toBe("Chapter 2 (12:34)");
+      expect(resume!.items[0]!.uri).toBe("plex/audiobooks/chapter/4002");
+      expect(all!.items.map((item) => item.uri)).toEqual([
+        "plex/audiobooks/chapter/4001", "plex/audiobooks/chapter/4002", "plex/audiobooks/chapter/4003",
+      ]);
+    });
+
+    it("queues a book from the chapter that was left off, marked to resume", async () => {
+      vi.mocked(mockService.getAlbumTracks).mockResolvedValue(chapters);
+
+      const result = (await adapter.explodeUri(bookUri)) as QueueItem[];
+
+      expect(result.map((item) => item.name)).toEqual(["Chapter 2", "Chapter 3"]);
+      expect(result.every((item) => item.resume)).toBe(true);
+    });
+
+    it("queues single chapters and podcast episodes marked to resume", async () => {
+      const chapter = (await adapter.explodeUri("plex/audiobooks/chapter/2001")) as QueueItem[];
+      const show = (await adapter.explodeUri("plex/podcasts/show/500")) as QueueItem[];
+
+      expect(mockService.getPlayableTrack).toHaveBeenCalledWith("2001");
+      expect(mockService.getArtistTracks).toHaveBeenCalledWith("500");
+      expect([...chapter, ...show].every((item) => item.resume)).toBe(true);
+    });
+
+    it("resumes spoken word whatever its length", async () => {
+      vi.mocked(mockService.getViewOffset).mockResolvedValue(60_000);
+
+      await adapter.clearAddPlayTrack({
+        uri: "plex/track/2001/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac",
+        service: "plex", name: "Chapter 2", artist: "Frank Herbert", album: "Dune", albumart: "",
+        duration: 282, type: "track", resume: true,
+      });
+
+      expect(mpdPlugin.seek).toHaveBeenCalledWith(60_000);
+    });
+  });
+
+  // ── Chapters ─────────────────────────────────────────────────────
+
+  describe("chapters", () => {
+    const MINUTE = 60_000;
+    const book: Track = {
+      ...tracksFixture[0]!,
+      title: "Dune",
+      duration: 40 * MINUTE,
+      chapters: [
+        { title: "Prologue", startMs: 0, endMs: 10 * MINUTE },
+        { title: "Arrakis", startMs: 10 * MINUTE, endMs: 25 * MINUTE },
+        { title: "Muad'Dib", startMs: 25 * MINUTE, endMs: 40 * MINUTE },
+      ],
+    };
+    const playing: QueueItem = {
+      uri: "plex/track/2001/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac",
+      service: "plex", name: "Dune", artist: "Frank Herbert", album: "Dune", albumart: "",
+      duration: 2400, type: "track",
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockService.getTrack).mockResolvedValue(book);
+    });
+
+    /** Start the book and wait for its chapters to load. */
+    async function playBook(): Promise<void> {
+      await adapter.clearAddPlayTrack(playing);
+      await vi.waitFor(() => expect(mockService.getTrack).toHaveBeenCalledWith("2001"));
+      await Promise.resolve();
+      vi.mocked(mpdPlugin.seek).mockClear();
+    }
+
+    it("lists a track's chapters, each playing from its start", async () => {
+      const result = (await adapter.handleBrowseUri("plex/chapters/2001")) as NavigationPage;
+
+      const items = result.navigation.lists[0]!.items;
+      expect(items.map((item) => item.title)).toEqual(["Prologue", "Arrakis", "Muad'Dib"]);
+      expect(items[1]).toMatchObject({ uri: "plex/chapters/2001/600000", duration: 900 });
+    });
+
+    it("plays a chapter by seeking to its start instead of the resume position", async () => {
+      const [item] = (await adapter.explodeUri("plex/chapters/2001/600000")) as QueueItem[];
+      expect(item!.startMs).toBe(10 * MINUTE);
+
+      await adapter.clearAddPlayTrack({ ...item!, duration: 2400 });
+
+      expect(mockService.getViewOffset).not.toHaveBeenCalled();
+      expect(mpdPlugin.seek).toHaveBeenCalledWith(10 * MINUTE);
+    });
+
+    it("adds a Chapters root folder while a chaptered track plays", async () => {
+      await playBook();
+
+      const result = (await adapter.handleBrowseUri("plex")) as NavigationPage;
+
+      expect(result.navigation.lists[0]!.items).toContainEqual(
+        expect.objectContaining({ title: "Chapters", uri: "plex/chapters/2001" }),
+      );
+    });
+
+    it("skips to the next chapter instead of the next track when skipping by chapter", async () => {
+      adapter.configure(mockService, connection, { chapterSkip: true });
+      await playBook();
+
+      await adapter.next();
+
+      expect(mpdPlugin.seek).toHaveBeenCalledWith(10 * MINUTE);
+      expect(mpdPlugin.next).not.toHaveBeenCalled();
+    });
+
+    it("restarts the current chapter, then goes back to the one before", async () => {
+      adapter.configure(mockService, connection, { chapterSkip: true });
+      await playBook();
+      await adapter.seek(12 * MINUTE);
+      vi.mocked(mpdPlugin.seek).mockClear();
+
+      await adapter.previous();
+      expect(mpdPlugin.seek).toHaveBeenLastCalledWith(10 * MINUTE);
+
+      await adapter.previous();
+      expect(mpdPlugin.seek).toHaveBeenLastCalledWith(0);
+      expect(commandRouter.stateMachine.previous).not.toHaveBeenCalled();
+    });
+
+    it("skips tracks as usual in the last chapter or when not skipping by chapter", async () => {
+      await playBook();
+      await adapter.next();
+      expect(mpdPlugin.next).toHaveBeenCalledTimes(1);
+
+      adapter.configure(mockService, connection, { chapterSkip: true });
+      await adapter.seek(30 * MINUTE);
+      await adapter.next();
+      expect(mpdPlugin.next).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  // ── Explode: genre ───────────────────────────────────────────────
+
+  describe("explodeUri — genre", () => {
+    it("queues every track in the genre", async () => {
+      const result = (await adapter.explodeUri("plex/genre/1/123")) as QueueItem[];
+
+      expect(mockService.getGenreTracks).toHaveBeenCalledWith("1", "123");
+      expect(result).toHaveLength(2);
+      expect(result[0]!.uri).toBe("plex/track/2001/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac");
+    });
+  });
+
+  // ── Explode: radio ───────────────────────────────────────────────
+
+  describe("explodeUri — radio", () => {
+    const radioTrack: QueueItem = {
+      uri: "plex/track/2001/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac",
+      service: "plex",
+      name: "Airbag",
+      artist: "Radiohead",
+      album: "OK Computer",
+      albumart: "",
+      duration: 282,
+      type: "track",
+    };
+
+    it("queues the tracks of a new station", async () => {
+      const result = (await adapter.explodeUri("plex/radio/track/2001")) as QueueItem[];
+
+      expect(mockService.createStationQueue).toHaveBeenCalledWith("2001");
+      expect(result.map((item) => item.name)).toEqual(["Airbag", "Paranoid Android"]);
+    });
+
+    it("queues the station a preview started instead of a new one", async () => {
+      const result = (await adapter.explodeUri("plex/radio/track/2001/7001")) as QueueItem[];
+
+      expect(mockService.openStationQueue).toHaveBeenCalledWith("7001");
+      expect(mockService.createStationQueue).not.toHaveBeenCalled();
+      expect(result.map((item) => item.playQueueID)).toEqual(["7001", "7001"]);
+    });
+
+    it("starts a new station when the previewed one can't be reopened", async () => {
+      vi.mocked(mockService.openStationQueue).mockRejectedValueOnce(new Error("404"));
+
+      const result = (await adapter.explodeUri("plex/radio/track/2001/7001")) as QueueItem[];
+
+      expect(mockService.createStationQueue).toHaveBeenCalledWith("2001");
+      expect(result).toHaveLength(2);
+    });
+
+    it("tops up the queue when a station track starts and the queue runs low", async () => {
+      vi.mocked(mockService.getPlayQueueWindow).mockResolvedValue({
+        ...stationQueueFixture,
+        items: [{ itemId: "9003", track: { ...tracksFixture[0]!, id: "2003", title: "Subterranean Homesick Alien" } }],
+      });
+      vi.mocked(commandRouter.volumioGetQueue).mockReturnValue([radioTrack, radioTrack]);
+      await adapter.explodeUri("plex/radio/track/2001");
+
+      await adapter.clearAddPlayTrack(radioTrack);
+      await vi.waitFor(() => expect(commandRouter.addQueueItems).toHaveBeenCalled());
+
+      expect(mockService.getPlayQueueWindow).toHaveBeenCalledWith("7001", "9002", 10);
+      const added = vi.mocked(commandRouter.addQueueItems).mock.calls[0]![0];
+      expect(added.map((item) => item.name)).toEqual(["Subterranean Homesick Alien"]);
+    });
+
+    it("does not top up while enough tracks remain", async () => {
+      vi.mocked(commandRouter.volumioGetQueue).mockReturnValue(new Array(10).fill(radioTrack));
+      await adapter.explodeUri("plex/radio/track/2001");
+
+      await adapter.clearAddPlayTrack(radioTrack);
+
+      expect(mockService.getPlayQueueWindow).not.toHaveBeenCalled();
+    });
+
+    it("ignores tracks that are not part of the station", async () => {
+      vi.mocked(commandRouter.volumioGetQueue).mockReturnValue([radioTrack]);
+      await adapter.explodeUri("plex/radio/track/2001");
+
+      await adapter.clearAddPlayTrack({ ...radioTrack, uri: "plex/track/4242/stream/%2Fx.flac" });
+
+      expect(mockService.getPlayQueueWindow).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── Explode: errors ──────────────────────────────────────────────
+
+  describe("explodeUri — errors", () => {
+    it("rejects unknown URIs", async () => {
+      await expect(adapter.explodeUri("plex/unknown/123")).rejects.toThrow("Cannot explode URI");
+    });
+  });
+
+  // ── Explode: tracks with no media ────────────────────────────────
+
+  describe("explodeUri — missing streamKey", () => {
+    it("filters out tracks with empty streamKey in multi-track explode", async () => {
+      vi.mocked(mockService.createPlayQueue).mockResolvedValue({
+        ...stationQueueFixture,
+        items: [
+          { itemId: "9001", track: { ...tracksFixture[0]! } },
+          { itemId: "9002", track: { ...tracksFixture[1]!, streamKey: "" } },
+        ],
+      });
+
+      const result = (await adapter.explodeUri("plex/album/%2Flibrary%2Fmetadata%2F1001%2Fchildren")) as QueueItem[];
+      expect(result).toHaveLength(1);
+      expect(result[0]!.name).toBe("Airbag");
+    });
+
+    it("rejects single-track explode when getPlayableTrack throws for missing media", async () => {
+      vi.mocked(mockService.getPlayableTrack).mockRejectedValue(new Error("Track 2001 has no playable media"));
+      await expect(adapter.explodeUri("plex/track/2001")).rejects.toThrow("has no playable media");
+    });
+  });
+
+  // ── clearAddPlayTrack ────────────────────────────────────────────
+
+  describe("clearAddPlayTrack", () => {
+    const queueItem: QueueItem = {
+      uri: "plex/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac",
+      service: "plex",
+      name: "Airbag",
+      artist: "Radiohead",
+      album: "OK Computer",
+      albumart: "",
+      duration: 282,
+      type: "track",
+    };
+
+    // The resolved stream URL that getStreamUrl returns for the encoded key
+    const resolvedUrl = "http://192.168.1.100:32400/library/parts/2001/file.flac?X-Plex-Token=test-token";
+
+    it("sends stop, clear, then tries load before falling back to addid", async () => {
+      // load fails, so addid is used as fallback
+      vi.mocked(mpdPlugin.sendMpdCommand).mockImplementation((cmd: string) => {
+        if (cmd.startsWith("load ")) return Promise.reject(new Error("not supported"));
+        if (cmd.startsWith("addid ")) return Promise.resolve({ Id: "42" });
+        return Promise.resolve(undefined);
+      });
+
+      await adapter.clearAddPlayTrack(queueItem);
+
+      const mpdSend = vi.mocked(mpdPlugin.sendMpdCommand);
+      expect(mpdSend).toHaveBeenCalledWith("stop", []);
+      expect(mpdSend).toHaveBeenCalledWith("clear", []);
+      expect(mpdSend).toHaveBeenCalledWith(`load "${resolvedUrl}"`, []);
+      expect(mpdSend).toHaveBeenCalledWith(`addid "${resolvedUrl}"`, []);
+      expect(mpdSend).toHaveBeenCalledWith("play", []);
+    });
+
+    it("skips addid when load succeeds", async () => {
+      await adapter.clearAddPlayTrack(queueItem);
+
+      const mpdSend = vi.mocked(mpdPlugin.sendMpdCommand);
+      expect(mpdSend).toHaveBeenCalledWith(`load "${resolvedUrl}"`, []);
+      expect(mpdSend).not.toHaveBeenCalledWith(`addid "${resolvedUrl}"`, []);
     });
 
     it("sets metadata tags via addtagid when addid returns a song ID", async () => {
@@ -826,6 +1614,621 @@ describe("VolumioAdapter", () => {
         false,
       );
     });
+
+    describe("streaming policy", () => {
+      const flacItem: QueueItem = { ...queueItem, trackType: "flac", samplerate: "96 kHz", bitdepth: "24 bit" };
+      const streaming = { mode: "auto" as const, format: "aac" as const, maxBitrateKbps: 256 };
+
+      it("plays the original file by default", async () => {
+        vi.mocked(mockService.getConnectionKind).mockReturnValue("relay");
+
+        await adapter.clearAddPlayTrack(flacItem);
+
+        expect(mockService.getStreamUrl).toHaveBeenCalledWith("/library/parts/2001/file.flac");
+      });
+
+      it("transcodes over a relay connection in auto mode", async () => {
+        adapter.configure(mockService, connection, { streaming });
+        vi.mocked(mockService.getConnectionKind).mockReturnValue("relay");
+
+        await adapter.clearAddPlayTrack(flacItem);
+
+        expect(mockService.getStreamUrl).toHaveBeenCalledWith("/library/parts/2001/file.flac", { format: "aac", maxBitrateKbps: 256 });
+      });
+
+      it("plays directly on the LAN in auto mode unless MPD can't decode the codec", async () => {
+        adapter.configure(mockService, connection, { streaming });
+        vi.mocked(mockService.getConnectionKind).mockReturnValue("local");
+
+        await adapter.clearAddPlayTrack(flacItem);
+        expect(mockService.getStreamUrl).toHaveBeenLastCalledWith("/library/parts/2001/file.flac");
+
+        await adapter.clearAddPlayTrack({ ...flacItem, trackType: "truehd" });
+        expect(mockService.getStreamUrl).toHaveBeenLastCalledWith("/library/parts/2001/file.flac", { format: "aac", maxBitrateKbps: 256 });
+      });
+
+      it("pushes the chosen mode and the transcoded format in the state", async () => {
+        const original = commandRouter.servicePushState;
+        adapter.configure(mockService, connection, { streaming: { ...streaming, mode: "transcode" } });
+        await adapter.onStart();
+        await adapter.clearAddPlayTrack(flacItem);
+
+        commandRouter.servicePushState({
+          status: "play", service: "mpd", title: "Airbag", artist: "Radiohead", album: "OK Computer", albumart: "",
+          uri: "http://192.168.1.100:32400/music/:/transcode/universal/start?X-Plex-Token=test-token",
+          seek: 0, duration: 282,
+        }, "mpd");
+
+        const pushed = vi.mocked(original).mock.calls[0]![0];
+        expect(pushed.streamMode).toBe("transcode");
+        expect(pushed.trackType).toBe("aac");
+        expect(pushed.samplerate).toBeUndefined();
+        await adapter.onStop();
+      });
+
+      it("pushes the prefetched track's mode once a gapless advance reaches it", async () => {
+        const original = commandRouter.servicePushState;
+        adapter.configure(mockService, connection, { streaming });
+        vi.mocked(mockService.getConnectionKind).mockReturnValue("local");
+        await adapter.onStart();
+        await adapter.clearAddPlayTrack({ ...flacItem, uri: "plex/track/2001/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac" });
+        const pushState = (uri: string) => commandRouter.servicePushState({
+          status: "play", service: "mpd", title: "", artist: "", album: "", albumart: "", uri, seek: 0, duration: 282,
+        }, "mpd");
+        pushState(resolvedUrl);
+
+        await adapter.prefetch({ ...flacItem, uri: "plex/track/3001/stream/%2Flibrary%2Fparts%2F3001%2Ffile.mka", trackType: "truehd" });
+        pushState("http://192.168.1.100:32400/library/parts/3001/file.mka?X-Plex-Token=test-token");
+
+        const [direct, transcoded] = vi.mocked(original).mock.calls.map(([state]) => state);
+        expect(direct).toMatchObject({ streamMode: "direct", trackType: "flac", samplerate: "96 kHz" });
+        expect(transcoded).toMatchObject({ streamMode: "transcode", trackType: "aac" });
+        expect(transcoded!.samplerate).toBeUndefined();
+        await adapter.onStop();
+      });
+    });
+
+    describe("resume", () => {
+      const mix: QueueItem = {
+        ...queueItem,
+        uri: "plex/track/2001/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac",
+        name: "Essential Mix",
+        duration: 7200,
+      };
+
+      it("seeks a long track to where Plex says it was left off, after play", async () => {
+        vi.mocked(mockService.getViewOffset).mockResolvedValue(1_800_000);
+
+        await adapter.clearAddPlayTrack(mix);
+
+        expect(mockService.getViewOffset).toHaveBeenCalledWith("2001");
+        expect(mpdPlugin.seek).toHaveBeenCalledWith(1_800_000);
+        expect(mpdPlugin.sendMpdCommand).toHaveBeenLastCalledWith("play", []);
+      });
+
+      it("doesn't look up short tracks unless the policy resumes every track", async () => {
+        const song: QueueItem = { ...mix, name: "Airbag", duration: 282 };
+        vi.mocked(mockService.getViewOffset).mockResolvedValue(60_000);
+
+        await adapter.clearAddPlayTrack(song);
+        expect(mockService.getViewOffset).not.toHaveBeenCalled();
+        expect(mpdPlugin.seek).not.toHaveBeenCalled();
+
+        adapter.configure(mockService, connection, { resume: { mode: "always", minMinutes: 20 } });
+        await adapter.clearAddPlayTrack(song);
+        expect(mpdPlugin.seek).toHaveBeenCalledWith(60_000);
+      });
+
+      it("starts from the beginning when resuming is off", async () => {
+        adapter.configure(mockService, connection, { resume: { mode: "never", minMinutes: 20 } });
+        vi.mocked(mockService.getViewOffset).mockResolvedValue(1_800_000);
+
+        await adapter.clearAddPlayTrack(mix);
+
+        expect(mockService.getViewOffset).not.toHaveBeenCalled();
+        expect(mpdPlugin.seek).not.toHaveBeenCalled();
+      });
+
+      it("resumes a multi-part track in the part where it was left off", async () => {
+        const sideA: QueueItem = { ...mix, duration: 3600, partOffsetMs: 0, wholeDurationMs: 7_200_000 };
+        const sideB: QueueItem = { ...sideA, uri: "plex/track/2001/stream/%2Flibrary%2Fparts%2F2002%2Ffile.flac", partOffsetMs: 3_600_000 };
+        vi.mocked(mockService.getViewOffset).mockResolvedValue(4_500_000);
+
+        await adapter.clearAddPlayTrack(sideA);
+        expect(mpdPlugin.seek).not.toHaveBeenCalled();
+
+        await adapter.clearAddPlayTrack(sideB);
+        expect(mpdPlugin.seek).toHaveBeenCalledWith(900_000);
+      });
+
+      it("seeks a prefetched long track once the gapless advance reaches it", async () => {
+        const nextMix: QueueItem = { ...mix, uri: "plex/track/2002/stream/%2Flibrary%2Fparts%2F2002%2Ffile.flac" };
+        const pushState = (uri: string) => commandRouter.servicePushState({
+          status: "play", service: "mpd", title: "", artist: "", album: "", albumart: "", uri, seek: 0, duration: 7200,
+        }, "mpd");
+        await adapter.onStart();
+        await adapter.clearAddPlayTrack(mix);
+        pushState(resolvedUrl);
+        vi.mocked(mockService.getViewOffset).mockResolvedValue(2_400_000);
+
+        await adapter.prefetch(nextMix);
+        expect(mockService.getViewOffset).toHaveBeenLastCalledWith("2002");
+        expect(mpdPlugin.seek).not.toHaveBeenCalled();
+
+        pushState("http://192.168.1.100:32400/library/parts/2002/file.flac?X-Plex-Token=test-token");
+        await vi.waitFor(() => expect(mpdPlugin.seek).toHaveBeenCalledWith(2_400_000));
+        await adapter.onStop();
+      });
+
+      it("still plays when the position can't be looked up", async () => {
+        vi.mocked(mockService.getViewOffset).mockRejectedValue(new Error("offline"));
+
+        await adapter.clearAddPlayTrack(mix);
+
+        expect(mpdPlugin.sendMpdCommand).toHaveBeenCalledWith("play", []);
+        expect(mpdPlugin.seek).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("normalization", () => {
+      const otherAlbum: QueueItem = {
+        ...queueItem,
+        uri: "plex/track/3001/stream/%2Flibrary%2Fparts%2F3001%2Ffile.flac",
+        name: "Everything In Its Right Place",
+        album: "Kid A",
+      };
+      const airbag: QueueItem = { ...queueItem, uri: "plex/track/2001/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac" };
+      const paranoid: QueueItem = { ...airbag, name: "Paranoid Android" };
+      const modes = () => vi.mocked(mpdPlugin.sendMpdCommand).mock.calls
+        .map(([cmd]) => cmd)
+        .filter((cmd) => cmd.startsWith("replay_gain_mode"));
+      const pushState = (uri: string) => commandRouter.servicePushState({
+        status: "play", service: "mpd", title: "", artist: "", album: "", albumart: "", uri, seek: 0, duration: 282,
+      }, "mpd");
+
+
+      it("leaves MPD's replay gain mode alone while normalization is off", async () => {
+        await adapter.clearAddPlayTrack(queueItem);
+
+        expect(modes()).toEqual([]);
+      });
+
+      it("uses album gain in smart mode while an album plays in order", async () => {
+        adapter.configure(mockService, connection, { normalization: "smart" });
+        vi.mocked(commandRouter.volumioGetQueue).mockReturnValue([airbag, paranoid, otherAlbum]);
+
+        await adapter.clearAddPlayTrack(airbag);
+
+        expect(mpdPlugin.sendMpdCommand).toHaveBeenCalledWith("replay_gain_mode album", []);
+      });
+
+      it("uses track gain in smart mode when shuffling", async () => {
+        adapter.configure(mockService, connection, { normalization: "smart" });
+        vi.mocked(commandRouter.volumioGetQueue).mockReturnValue([airbag, paranoid]);
+        commandRouter.stateMachine.currentRandom = true;
+
+        await adapter.clearAddPlayTrack(airbag);
+
+        expect(mpdPlugin.sendMpdCommand).toHaveBeenCalledWith("replay_gain_mode track", []);
+      });
+
+      it("switches mode when the prefetched track starts, not while the current one plays", async () => {
+        adapter.configure(mockService, connection, { normalization: "smart" });
+        vi.mocked(commandRouter.volumioGetQueue).mockReturnValue([airbag, paranoid, otherAlbum]);
+        await adapter.onStart();
+        commandRouter.stateMachine.currentPosition = 1;
+        await adapter.clearAddPlayTrack(paranoid);
+        pushState("http://192.168.1.100:32400/library/parts/2001/file.flac?X-Plex-Token=test-token");
+
+        await adapter.prefetch(otherAlbum);
+        expect(modes()).toEqual(["replay_gain_mode album"]);
+
+        pushState("http://192.168.1.100:32400/library/parts/3001/file.flac?X-Plex-Token=test-token");
+        await vi.waitFor(() => expect(modes()).toEqual(["replay_gain_mode album", "replay_gain_mode track"]));
+        await adapter.onStop();
+      });
+
+      it("gives MPD its own mode back when something other than Plex plays", async () => {
+        vi.mocked(mpdPlugin.sendMpdCommand).mockImplementation(async (cmd) =>
+          cmd === "replaygain_status" ? { replay_gain_mode: "auto" } : undefined);
+        adapter.configure(mockService, connection, { normalization: "track" });
+        await adapter.onStart();
+        await adapter.clearAddPlayTrack(queueItem);
+
+        pushState("music-library/INTERNAL/track.flac");
+        await vi.waitFor(() => expect(modes()).toEqual(["replay_gain_mode track", "replay_gain_mode auto"]));
+        await adapter.onStop();
+      });
+
+      it("restores MPD's mode when normalization is turned back off", async () => {
+        adapter.configure(mockService, connection, { normalization: "track" });
+        await adapter.clearAddPlayTrack(queueItem);
+        adapter.configure(mockService, connection, { normalization: "off" });
+        await adapter.clearAddPlayTrack(queueItem);
+
+        expect(mpdPlugin.sendMpdCommand).toHaveBeenLastCalledWith("play", []);
+        expect(mpdPlugin.sendMpdCommand).toHaveBeenCalledWith("replay_gain_mode track", []);
+        expect(mpdPlugin.sendMpdCommand).toHaveBeenCalledWith("replay_gain_mode off", []);
+      });
+
+      describe("with Plex's loudness analysis", () => {
+        const analysed: QueueItem = { ...airbag, trackGain: -6.5, trackPeak: 0.9 };
+        const mpdReplies = (comments: Record<string, string>) =>
+          vi.mocked(mpdPlugin.sendMpdCommand).mockImplementation(async (cmd) => {
+            if (cmd.startsWith("readcomments")) return comments;
+            if (cmd === "status") return { volume: "80" };
+            return undefined;
+          });
+
+        it("turns MPD's volume down by Plex's gain for files without ReplayGain tags", async () => {
+          mpdReplies({ TITLE: "Airbag" });
+          adapter.configure(mockService, connection, { normalization: "track" });
+
+          await adapter.clearAddPlayTrack(analysed);
+
+          expect(mpdPlugin.sendMpdCommand).toHaveBeenCalledWith("setvol 61", []);
+          expect(mpdPlugin.sendMpdCommand).toHaveBeenCalledWith("replay_gain_mode track", []);
+        });
+
+        it("leaves tagged files to MPD's replay gain", async () => {
+          mpdReplies({ REPLAYGAIN_TRACK_GAIN: "-6.20 dB" });
+          adapter.configure(mockService, connection, { normalization: "track" });
+
+          await adapter.clearAddPlayTrack(analysed);
+
+          expect(vi.mocked(mpdPlugin.sendMpdCommand).mock.calls.map(([cmd]) => cmd))
+            .not.toContainEqual(expect.stringMatching(/^setvol/));
+        });
+
+        it("gives the volume back when something other than Plex plays", async () => {
+          mpdReplies({});
+          adapter.configure(mockService, connection, { normalization: "track" });
+          await adapter.onStart();
+          await adapter.clearAddPlayTrack(analysed);
+          vi.mocked(mpdPlugin.sendMpdCommand).mockImplementation(async (cmd) => (cmd === "status" ? { volume: "61" } : undefined));
+
+          pushState("music-library/INTERNAL/track.flac");
+
+          await vi.waitFor(() => expect(mpdPlugin.sendMpdCommand).toHaveBeenCalledWith("setvol 80", []));
+          await adapter.onStop();
+        });
+      });
+    });
+  });
+
+  // ── Playlists ────────────────────────────────────────────────────
+
+  describe("playlist hooks", () => {
+    const playlistTracks: Track[] = [
+      { ...tracksFixture[0]!, playlistItemId: "71" },
+      { ...tracksFixture[1]!, playlistItemId: "72" },
+      { ...tracksFixture[0]!, id: "2003", playlistItemId: "73" },
+    ];
+
+    beforeEach(() => {
+      vi.mocked(mockService.getPlaylistTracks).mockResolvedValue(playlistTracks);
+    });
+
+    it("adds an album to the playlist with that title", async () => {
+      await adapter.addToPlaylist({
+        name: "Favorites",
+        service: "plex",
+        uri: "plex/album/%2Flibrary%2Fmetadata%2F1001%2Fchildren",
+      });
+
+      expect(mockService.addToPlaylist).toHaveBeenCalledWith("5001", ["1001"]);
+      expect(mockService.createPlaylist).not.toHaveBeenCalled();
+    });
+
+    it("creates the playlist when no playlist has that title", async () => {
+      await adapter.addToPlaylist({
+        name: "Road Trip",
+        uri: "plex/track/2001/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac",
+      });
+
+      expect(mockService.createPlaylist).toHaveBeenCalledWith("Road Trip", ["2001"]);
+    });
+
+    it("rejects URIs that are not a single library item", async () => {
+      await expect(adapter.addToPlaylist({ name: "Favorites", uri: "plex/genre/1/123" }))
+        .rejects.toThrow("Cannot add to playlist");
+    });
+
+    it("removes a track by its playlist entry ID", async () => {
+      await adapter.removeFromPlaylist({
+        name: "Favorites",
+        uri: "plex/track/2002/stream/%2Flibrary%2Fparts%2F2002%2Ffile.flac",
+      });
+
+      expect(mockService.getPlaylistTracks).toHaveBeenCalledWith("/playlists/5001/items");
+      expect(mockService.removeFromPlaylist).toHaveBeenCalledWith("5001", "72");
+    });
+
+    it("saves the Plex tracks of the current queue as a new playlist", async () => {
+      vi.mocked(commandRouter.volumioGetQueue).mockReturnValue([
+        { uri: "plex/track/2001/stream/%2Fa.flac", service: "plex", name: "", artist: "", album: "", albumart: "", duration: 0, type: "track" },
+        { uri: "spotify:track:xyz", service: "spop", name: "", artist: "", album: "", albumart: "", duration: 0, type: "track" },
+        { uri: "plex/track/2002/stream/%2Fb.flac", service: "plex", name: "", artist: "", album: "", albumart: "", duration: 0, type: "track" },
+      ]);
+
+      await adapter.saveQueueToPlaylist({ name: "Road Trip" });
+
+      expect(mockService.createPlaylist).toHaveBeenCalledWith("Road Trip", ["2001", "2002"]);
+    });
+
+    it("refuses to save a queue without Plex tracks", async () => {
+      await expect(adapter.saveQueueToPlaylist({ name: "Road Trip" })).rejects.toThrow("no Plex tracks");
+    });
+
+    it("moves an entry after the one preceding its new position", async () => {
+      await adapter.movePlaylistItem({ name: "Favorites", from: 0, to: 2 });
+      expect(mockService.movePlaylistItem).toHaveBeenCalledWith("5001", "71", "73");
+
+      await adapter.movePlaylistItem({ name: "Favorites", from: 2, to: 0 });
+      expect(mockService.movePlaylistItem).toHaveBeenLastCalledWith("5001", "73", undefined);
+    });
+
+    it("renames and deletes playlists by title", async () => {
+      await adapter.renamePlaylist({ name: "Favorites", newName: "Best Of" });
+      await adapter.deletePlaylist({ name: "Favorites" });
+
+      expect(mockService.renamePlaylist).toHaveBeenCalledWith("5001", "Best Of");
+      expect(mockService.deletePlaylist).toHaveBeenCalledWith("5001");
+    });
+
+    it("rejects unknown playlist titles", async () => {
+      await expect(adapter.deletePlaylist({ name: "Nope" })).rejects.toThrow("Playlist not found: Nope");
+    });
+  });
+
+  // ── Ratings ──────────────────────────────────────────────────────
+
+  describe("ratings", () => {
+    it("lists top-rated tracks with a queueable header", async () => {
+      const result = (await adapter.handleBrowseUri("plex/rated")) as NavigationPage;
+
+      expect(mockService.getTopRatedTracks).toHaveBeenCalledWith(100);
+      expect(result.navigation.info?.uri).toBe("plex/rated");
+      expect(result.navigation.lists[0]!.items.map((i) => i.title)).toEqual(["Airbag", "Paranoid Android"]);
+    });
+
+    it("queues top-rated tracks", async () => {
+      const result = (await adapter.explodeUri("plex/rated")) as QueueItem[];
+      expect(result).toHaveLength(2);
+    });
+
+    it("maps the heart button to a 5-star rating and back", async () => {
+      await adapter.addToFavourites({ uri: "plex/track/2001/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac", service: "plex" });
+      await adapter.removeFromFavourites({ uri: "plex/album/%2Flibrary%2Fmetadata%2F1001%2Fchildren" });
+
+      expect(mockService.rate).toHaveBeenCalledWith("2001", 5);
+      expect(mockService.rate).toHaveBeenCalledWith("1001", 0);
+    });
+
+    it("rejects URIs that cannot be rated", async () => {
+      await expect(adapter.addToFavourites({ uri: "plex/playlists" })).rejects.toThrow("Cannot rate");
+    });
+  });
+
+  // ── Lyrics ───────────────────────────────────────────────────────
+
+  describe("getLyrics", () => {
+    const playing: QueueItem = {
+      uri: "plex/track/2001/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac",
+      service: "plex",
+      name: "Airbag",
+      artist: "Radiohead",
+      album: "OK Computer",
+      albumart: "",
+      duration: 282,
+      type: "track",
+    };
+    const synced: Lyrics = {
+      synced: true,
+      lines: [
+        { timeMs: 1_000, text: "first" },
+        { timeMs: 5_000, text: "second" },
+        { timeMs: 9_000, text: "third" },
+      ],
+    };
+
+    it("resolves to null when nothing is playing", async () => {
+      expect(await adapter.getLyrics()).toBeNull();
+      expect(mockService.getLyrics).not.toHaveBeenCalled();
+    });
+
+    it("picks the line at the estimated playback position and fetches lyrics once per track", async () => {
+      vi.useFakeTimers();
+      try {
+        vi.mocked(mockService.getLyrics).mockResolvedValue(synced);
+        await adapter.clearAddPlayTrack(playing);
+
+        vi.advanceTimersByTime(500);
+        const before = (await adapter.getLyrics()) as CurrentLyrics;
+        expect(before.currentLine).toBe(-1);
+
+        vi.advanceTimersByTime(6_000);
+        const during = (await adapter.getLyrics()) as CurrentLyrics;
+        expect(during.trackId).toBe("2001");
+        expect(during.positionMs).toBe(6_500);
+        expect(during.lyrics.lines[during.currentLine]!.text).toBe("second");
+
+        expect(mockService.getLyrics).toHaveBeenCalledTimes(1);
+        expect(mockService.getLyrics).toHaveBeenCalledWith("2001");
+      } finally {
+        adapter.dispose();
+        vi.useRealTimers();
+      }
+    });
+
+    it("does not pick a line for unsynced lyrics", async () => {
+      vi.mocked(mockService.getLyrics).mockResolvedValue({ synced: false, lines: [{ timeMs: null, text: "words" }] });
+      await adapter.clearAddPlayTrack(playing);
+
+      const result = (await adapter.getLyrics()) as CurrentLyrics;
+      expect(result.currentLine).toBe(-1);
+      expect(result.lyrics.lines).toHaveLength(1);
+    });
+
+    it("resolves to null when Plex has no lyrics for the track", async () => {
+      await adapter.clearAddPlayTrack(playing);
+      expect(await adapter.getLyrics()).toBeNull();
+    });
+  });
+
+  // ── Playback reporting ───────────────────────────────────────────
+
+  describe("playback reporting", () => {
+    it("reports the play queue entry of tracks queued from a server play queue", async () => {
+      const apiClient = { reportTimeline: vi.fn().mockResolvedValue(undefined) };
+      adapter.configure(mockService, connection, {
+        scrobble: true,
+        apiClient: apiClient as unknown as PlexApiClient,
+      });
+
+      await adapter.clearAddPlayTrack({
+        uri: "plex/track/2001/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac",
+        service: "plex",
+        name: "Airbag",
+        artist: "Radiohead",
+        album: "OK Computer",
+        albumart: "",
+        duration: 282,
+        type: "track",
+        playQueueID: "8001",
+        playQueueItemID: "9001",
+      });
+
+      expect(apiClient.reportTimeline).toHaveBeenCalledWith(expect.objectContaining({
+        ratingKey: "2001",
+        state: "playing",
+        playQueue: { id: "8001", itemId: "9001" },
+      }));
+      adapter.dispose();
+    });
+
+    it("reports a part of a multi-part track as a position in the whole track", async () => {
+      const apiClient = { reportTimeline: vi.fn().mockResolvedValue(undefined) };
+      adapter.configure(mockService, connection, {
+        scrobble: true,
+        apiClient: apiClient as unknown as PlexApiClient,
+      });
+
+      await adapter.clearAddPlayTrack({
+        uri: "plex/track/2001/stream/%2Flibrary%2Fparts%2F2002%2Ffile.flac",
+        service: "plex",
+        name: "Echoes (Part 2 of 2)",
+        artist: "Pink Floyd",
+        album: "Meddle",
+        albumart: "",
+        duration: 700,
+        type: "track",
+        partOffsetMs: 600_000,
+        wholeDurationMs: 1_300_000,
+      });
+
+      expect(apiClient.reportTimeline).toHaveBeenCalledWith(expect.objectContaining({
+        ratingKey: "2001",
+        time: 600_000,
+        duration: 1_300_000,
+      }));
+      adapter.dispose();
+    });
+  });
+
+  // ── Plex Companion ───────────────────────────────────────────────
+
+  describe("companionPlayer", () => {
+    it("loads the controller's play queue into Volumio and plays the selected entry", async () => {
+      vi.mocked(mockService.getPlayQueue).mockResolvedValue({ ...stationQueueFixture, selectedItemId: "9002" });
+      const player = adapter.companionPlayer();
+
+      await player.playMedia({ key: "/library/metadata/2002", containerKey: "/playQueues/7001?own=1", machineIdentifier: "default-machine", offsetMs: 0 });
+
+      expect(mockService.getPlayQueue).toHaveBeenCalledWith("7001");
+      expect(commandRouter.volumioClearQueue).toHaveBeenCalled();
+      const queued = vi.mocked(commandRouter.addQueueItems).mock.calls[0]![0];
+      expect(queued.map((item) => item.playQueueItemID)).toEqual(["9001", "9002"]);
+      expect(commandRouter.volumioPlay).toHaveBeenCalledWith(1);
+      expect(mpdPlugin.seek).not.toHaveBeenCalled();
+    });
+
+    it("builds a play queue from the key and seeks to the offset", async () => {
+      const player = adapter.companionPlayer();
+
+      await player.playMedia({ key: "/library/metadata/2002", containerKey: null, machineIdentifier: null, offsetMs: 30_000 });
+
+      expect(mockService.createPlayQueue).toHaveBeenCalledWith("/library/metadata/2002");
+      expect(commandRouter.volumioPlay).toHaveBeenCalledWith(1);
+      expect(mpdPlugin.seek).toHaveBeenCalledWith(30_000);
+    });
+
+    it("plays from an additional server by machine identifier", async () => {
+      const otherService = createMockPlexService();
+      adapter.configure(mockService, connection, {
+        servers: [{ id: "abc123", name: "Basement", service: otherService }],
+      });
+
+      await adapter.companionPlayer().playMedia({ key: "/library/metadata/2001", containerKey: "/playQueues/7001", machineIdentifier: "abc123", offsetMs: 0 });
+
+      expect(otherService.getPlayQueue).toHaveBeenCalledWith("7001");
+      const queued = vi.mocked(commandRouter.addQueueItems).mock.calls[0]![0];
+      expect(queued[0]!.uri).toMatch(/^plex\/s\/abc123\/track\/2001\//);
+    });
+
+    it("rejects media from an unknown server", async () => {
+      await expect(
+        adapter.companionPlayer().playMedia({ key: "/library/metadata/2001", containerKey: null, machineIdentifier: "elsewhere", offsetMs: 0 }),
+      ).rejects.toThrow("Unknown Plex server: elsewhere");
+      expect(commandRouter.volumioClearQueue).not.toHaveBeenCalled();
+    });
+
+    it("maps setParameters to Volumio volume, random and repeat", async () => {
+      await adapter.companionPlayer().setParameters({ volume: 40, shuffle: true, repeat: 1 });
+
+      expect(commandRouter.volumiosetvolume).toHaveBeenCalledWith(40);
+      expect(commandRouter.volumioRandom).toHaveBeenCalledWith(true);
+      expect(commandRouter.volumioRepeat).toHaveBeenCalledWith(true, true);
+    });
+
+    it("reports the playing track from state pushes and notifies the listener", async () => {
+      const listener = vi.fn();
+      adapter.onPlaybackStateChange(listener);
+      await adapter.onStart();
+      await adapter.clearAddPlayTrack({
+        uri: "plex/track/2001/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac",
+        service: "plex",
+        name: "Airbag",
+        artist: "Radiohead",
+        album: "OK Computer",
+        albumart: "",
+        duration: 282,
+        type: "track",
+        playQueueID: "7001",
+        playQueueItemID: "9001",
+      });
+      const player = adapter.companionPlayer();
+      expect((await player.timeline()).state).toBe("stopped");
+
+      commandRouter.servicePushState({
+        status: "pause", service: "mpd", title: "Airbag", artist: "Radiohead", album: "OK Computer", albumart: "",
+        uri: "http://192.168.1.100:32400/library/parts/2001/file.flac?X-Plex-Token=test-token",
+        seek: 1_000, duration: 282, volume: 55, random: false, repeat: true, repeatSingle: false,
+      }, "mpd");
+
+      expect(listener).toHaveBeenCalledOnce();
+      expect(await player.timeline()).toEqual(expect.objectContaining({
+        state: "paused",
+        ratingKey: "2001",
+        durationMs: 282_000,
+        playQueueId: "7001",
+        playQueueItemId: "9001",
+        volume: 55,
+        repeat: 2,
+        server: { machineIdentifier: "default-machine", host: connection.host, port: connection.port, protocol: "http" },
+      }));
+      await adapter.onStop();
+    });
   });
 
   // ── Playback controls ────────────────────────────────────────────
@@ -856,6 +2259,155 @@ describe("VolumioAdapter", () => {
     });
   });
 
+  // ── Multiple servers ─────────────────────────────────────────────
+
+  describe("multiple servers", () => {
+    let otherService: ReturnType<typeof createMockPlexService>;
+
+    beforeEach(() => {
+      otherService = createMockPlexService();
+      vi.mocked(otherService.getStreamUrl).mockImplementation(
+        (streamKey: string) => `http://192.168.1.200:32400${streamKey}?X-Plex-Token=other-token`,
+      );
+      adapter.configure(mockService, connection, {
+        servers: [{ id: "abc123", name: "Basement", service: otherService }],
+      });
+    });
+
+    it("lists the other servers on the root page", async () => {
+      const result = (await adapter.handleBrowseUri("plex")) as NavigationPage;
+      const servers = result.navigation.lists[1]!;
+      expect(servers.title).toBe("Servers");
+      expect(servers.items).toEqual([expect.objectContaining({ title: "Basement", uri: "plex/s/abc123" })]);
+    });
+
+    it("browses a server's pages under its plex/s/{id} namespace", async () => {
+      const root = (await adapter.handleBrowseUri("plex/s/abc123")) as NavigationPage;
+      expect(root.navigation.prev.uri).toBe("plex");
+      expect(root.navigation.lists[0]!.items[1]!.uri).toBe("plex/s/abc123/albums");
+
+      const albums = (await adapter.handleBrowseUri("plex/s/abc123/albums")) as NavigationPage;
+      expect(otherService.getAlbumsPaginated).toHaveBeenCalled();
+      expect(mockService.getAlbumsPaginated).not.toHaveBeenCalled();
+      expect(albums.navigation.prev.uri).toBe("plex/s/abc123");
+      const albumItems = albums.navigation.lists.flatMap((list) => list.items);
+      expect(albumItems.every((item) => item.uri.startsWith("plex/s/abc123/"))).toBe(true);
+    });
+
+    it("queues a server's tracks with server-scoped URIs", async () => {
+      const items = (await adapter.explodeUri("plex/s/abc123/popular/500")) as QueueItem[];
+      expect(otherService.getPopularTracks).toHaveBeenCalledWith("500");
+      expect(items[0]!.uri).toBe("plex/s/abc123/track/2001/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac");
+    });
+
+    it("streams each track from the server it was queued from", async () => {
+      const track: QueueItem = {
+        uri: "plex/s/abc123/track/2001/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac",
+        service: "plex",
+        name: "Airbag",
+        artist: "Radiohead",
+        album: "OK Computer",
+        albumart: "",
+        duration: 282,
+        type: "track",
+      };
+      await adapter.clearAddPlayTrack(track);
+      expect(vi.mocked(mpdPlugin.sendMpdCommand)).toHaveBeenCalledWith(
+        'load "http://192.168.1.200:32400/library/parts/2001/file.flac?X-Plex-Token=other-token"', [],
+      );
+
+      await adapter.clearAddPlayTrack({ ...track, uri: "plex/track/2001/stream/%2Flibrary%2Fparts%2F2001%2Ffile.flac" });
+      expect(vi.mocked(mpdPlugin.sendMpdCommand)).toHaveBeenCalledWith(
+        'load "http://192.168.1.100:32400/library/parts/2001/file.flac?X-Plex-Token=test-token"', [],
+      );
+    });
+
+    it("searches every server, labelling results from the others", async () => {
+      vi.mocked(otherService.search).mockResolvedValue({ tracks: tracksFixture, albums: [], artists: [] });
+
+      const result = (await adapter.search({ value: "airbag" })) as SearchResultSection[];
+      const other = result[result.length - 1]!;
+      expect(other.title).toBe("Plex Tracks (Basement)");
+      expect(other.items[0]!.uri).toBe("plex/s/abc123/track/2001");
+    });
+
+    it("rejects URIs of servers that are not configured", async () => {
+      await expect(adapter.handleBrowseUri("plex/s/unknown/albums")).rejects.toThrow("Unknown Plex server: unknown");
+    });
+  });
+
+  // ── Library refresh ──────────────────────────────────────────────
+
+  describe("refreshLibrary", () => {
+    it("clears the response cache of every configured server", async () => {
+      const otherService = createMockPlexService();
+      adapter.configure(mockService, connection, {
+        servers: [{ id: "abc123", name: "Basement", service: otherService }],
+      });
+
+      await adapter.refreshLibrary();
+
+      expect(mockService.refreshLibrary).toHaveBeenCalledOnce();
+      expect(otherService.refreshLibrary).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe("handleNotification", () => {
+    const albumProcessed: PlexNotification = {
+      type: "timeline",
+      entries: [{ itemId: "1001", sectionId: "1", type: 9, state: 5, title: "OK Computer" }],
+    };
+
+    it("drops the cached responses for the changed item", () => {
+      adapter.handleNotification(null, albumProcessed);
+      adapter.dispose();
+
+      expect(mockService.refreshLibrary).toHaveBeenCalledWith({ sectionId: "1", itemId: "1001" });
+    });
+
+    it("ignores in-progress timeline states and playback notifications", () => {
+      adapter.handleNotification(null, { type: "timeline", entries: [{ itemId: "1001", sectionId: "1", type: 9, state: 3, title: null }] });
+      adapter.handleNotification(null, { type: "playing", sessions: [{ sessionKey: "1", ratingKey: "2001", key: "/library/metadata/2001", state: "playing", viewOffset: 0 }] });
+
+      expect(mockService.refreshLibrary).not.toHaveBeenCalled();
+    });
+
+    it("reports the update once per burst of changes, without re-rendering browse views", async () => {
+      vi.useFakeTimers();
+      try {
+        await adapter.handleBrowseUri("plex");
+        vi.mocked(mockService.getHomeHubs).mockClear();
+
+        adapter.handleNotification(null, albumProcessed);
+        adapter.handleNotification(null, {
+          type: "activity",
+          activities: [{ event: "ended", uuid: "a1", type: "library.update.section", title: null, progress: 100, sectionId: "1" }],
+        });
+        await vi.advanceTimersByTimeAsync(2_000);
+
+        expect(mockService.refreshLibrary).toHaveBeenCalledWith({ sectionId: "1", itemId: null });
+        expect(mockService.getHomeHubs).not.toHaveBeenCalled();
+        expect(commandRouter.pushConsoleMessage).toHaveBeenCalledOnce();
+        expect(commandRouter.pushConsoleMessage).toHaveBeenCalledWith("[Plex] Library updated");
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("drops only the changed server's cached responses", () => {
+      const otherService = createMockPlexService();
+      adapter.configure(mockService, connection, {
+        servers: [{ id: "abc123", name: "Basement", service: otherService }],
+      });
+
+      adapter.handleNotification("abc123", albumProcessed);
+      adapter.dispose();
+
+      expect(otherService.refreshLibrary).toHaveBeenCalledOnce();
+      expect(mockService.refreshLibrary).not.toHaveBeenCalled();
+    });
+  });
+
   // ── Search ───────────────────────────────────────────────────────
 
   describe("search", () => {
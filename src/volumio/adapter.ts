@@ -18,16 +18,28 @@ import type {
   SearchResultSection,
   BrowseSource,
   VolumioState,
+  PlaylistCommand,
 } from "./types.js";
-import { PlexApiClient } from "../plex/api-client.js";
+import { PlexApiClient, PlexAuthError } from "../plex/api-client.js";
 import { PlexService } from "../plex/plex-service.js";
+import type { RadioType, LibraryChange } from "../plex/plex-service.js";
 import type { PlexConnection } from "../core/stream-resolver.js";
-import type { Track } from "../types/index.js";
+import { decideStream, DEFAULT_STREAMING_POLICY } from "../core/stream-policy.js";
+import type { StreamingPolicy } from "../core/stream-policy.js";
+import { isAlbumInOrder, plexGainDb, replayGainMode, volumeOffset } from "../core/normalization.js";
+import type { NormalizationMode, ReplayGainMode } from "../core/normalization.js";
+import { DEFAULT_RESUME_POLICY, resumeIndex, resumePosition, resumesTrack } from "../core/resume.js";
+import type { ResumePolicy } from "../core/resume.js";
+import { nextChapterStart, previousChapterStart } from "../core/chapters.js";
+import type { CompanionPlayer, PlayMediaRequest, PlayerParameters, PlayerTimeline } from "../plex/companion.js";
+import type { Track, Chapter, Playlist, PlayQueue, Lyrics, Loudness, PlexNotification } from "../types/index.js";
 import {
   encodePathSegment,
   decodePathSegment,
   shuffleArray,
   parsePaginationUri,
+  toServerUri,
+  parseServerUri,
 } from "./uri-utils.js";
 import {
   browseRoot,
@@ -36,16 +48,48 @@ import {
   browsePopularTracks,
   browseAlbums,
   browseAlbum,
+  browseTracks,
+  browseHiRes,
   browsePlaylists,
   browsePlaylist,
   browseShuffleAlbum,
   browseShufflePlaylist,
+  browseGenres,
+  browseGenre,
+  browseGenreArtists,
+  browseGenreAlbums,
+  browseRadio,
+  browseRatedTracks,
+  browseAudiobooks,
+  browseAuthor,
+  browseBook,
+  browsePodcasts,
+  browseShow,
+  browseChapters,
+  browseSimilarTracks,
   trackToNavItem,
+  serverList,
+  scopeToServer,
+  browseSignIn,
+  MORE_LIKE_THIS_COUNT,
 } from "./browse-handlers.js";
-import type { BrowseOptions } from "./browse-handlers.js";
+import type { BrowseOptions, NowPlaying, ServerSummary, SpokenWordLibraries } from "./browse-handlers.js";
 
 const SERVICE_NAME = "plex";
 const DEFAULT_PAGE_SIZE = 100;
+const HUB_ITEM_COUNT = 12;
+/** Top up a radio station once fewer than this many tracks are left in the queue. */
+const RADIO_LOW_WATER = 3;
+/** Number of station tracks requested per top-up. */
+const RADIO_REFILL_COUNT = 10;
+/** Audiobook chapters and podcast episodes pick up where they were left off, whatever their length. */
+const SPOKEN_WORD_RESUME: ResumePolicy = { mode: "always", minMinutes: 0 };
+/** Wait this long after a library notification before reporting it, so a scan's burst of events is reported once. */
+const LIBRARY_UPDATE_DELAY_MS = 2_000;
+/** Plex metadata types whose changes affect browse views: artist, album, track, playlist. */
+const BROWSABLE_TYPES = new Set([8, 9, 10, 15]);
+/** Timeline states after which an item's new metadata is final: 5 = processed, 9 = deleted. */
+const SETTLED_STATES = new Set([5, 9]);
 
 /** Minimal interface for kew-compatible promise library (Volumio's libQ). */
 export interface KewLib {
@@ -53,6 +97,132 @@ export interface KewLib {
   resolve(v?: unknown): PromiseLike<unknown>;
 }
 
+/** A Plex server configured alongside the default one; its content lives under plex/s/{id}/…. */
+export interface PlexServerEntry extends ServerSummary {
+  service: PlexService;
+  /** Used for timeline reports of tracks played from this server */
+  apiClient?: PlexApiClient;
+}
+
+/** Lyrics of the playing track, as returned by getLyrics. */
+export interface CurrentLyrics {
+  /** Plex ratingKey of the track the lyrics belong to */
+  trackId: string;
+  lyrics: Lyrics;
+  /** Estimated playback position the current line was picked for */
+  positionMs: number;
+  /** Index into lyrics.lines of the line being sung; -1 before the first line and for unsynced lyrics */
+  currentLine: number;
+}
+
+/** A station queued from plex/radio/… — tracked so the Volumio queue can be topped up as it plays. */
+interface RadioSession {
+  /** Server the station plays from; null for the default server */
+  serverId: string | null;
+  playQueueId: string;
+  /** playQueueItemID of the last station entry already added to the Volumio queue */
+  lastItemId: string;
+  /** Plex ratingKeys of the station's tracks, used to recognise them during playback */
+  trackIds: Set<string>;
+  refilling: boolean;
+}
+
+/** A track's place in a server-side play queue, reported back to Plex with each timeline update. */
+interface PlayQueueRef {
+  id: string;
+  itemId: string;
+}
+
+function playQueueRefOf(item: QueueItem): PlayQueueRef | null {
+  return item.playQueueID && item.playQueueItemID ? { id: item.playQueueID, itemId: item.playQueueItemID } : null;
+}
+
+/** Where a queued part sits within its whole track; Plex reports and resumes positions in the whole track. */
+interface PartRef {
+  offsetMs: number;
+  wholeDurationMs: number;
+}
+
+function partRefOf(item: QueueItem): PartRef | null {
+  return item.partOffsetMs !== undefined && item.wholeDurationMs !== undefined
+    ? { offsetMs: item.partOffsetMs, wholeDurationMs: item.wholeDurationMs }
+    : null;
+}
+
+/** The quality fields of the playback state for a Plex stream. */
+type StreamQuality = Pick<VolumioState, "trackType" | "samplerate" | "bitdepth" | "streamMode">;
+
+/** How a Plex track is normalized: MPD's replay gain mode, and a volume offset for files without ReplayGain tags. */
+interface TrackNormalization {
+  mode: ReplayGainMode;
+  /** MPD volume steps from Plex's loudness analysis; 0 when MPD applies the file's own tags */
+  volumeOffset: number;
+}
+
+function loudnessOf(item: QueueItem): Pick<Loudness, "gain" | "albumGain" | "peak" | "albumPeak"> | null {
+  if (item.trackGain === undefined) return null;
+  return { gain: item.trackGain, albumGain: item.albumGain ?? null, peak: item.trackPeak ?? null, albumPeak: item.albumPeak ?? null };
+}
+
+/** Whether MPD finds ReplayGain tags in a file; files it can't read count as untagged. */
+async function hasReplayGainTags(mpdPlugin: MpdPlugin, url: string): Promise<boolean> {
+  try {
+    const comments = (await mpdPlugin.sendMpdCommand(`readcomments "${url}"`, [])) as Record<string, unknown> | undefined;
+    return Object.keys(comments ?? {}).some((key) => /^replaygain_/i.test(key));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Plex ratingKey addressed by a track, album, or artist URI, or null for
+ * URIs that do not map to a single library item.
+ */
+function ratingKeyOfUri(uri: string): string | null {
+  const trackMatch = uri.match(/^plex\/track\/(\d+)(\/|$)/);
+  if (trackMatch) return trackMatch[1]!;
+  const parts = uri.split("/");
+  if ((parts[1] === "album" || parts[1] === "artist") && parts[2]) {
+    const key = decodePathSegment(parts.slice(2).join("/"));
+    return key.match(/^\/library\/metadata\/(\d+)/)?.[1] ?? null;
+  }
+  return null;
+}
+
+/** Index of the last synced line starting at or before `positionMs`, or -1. */
+function currentLyricLine(lyrics: Lyrics, positionMs: number): number {
+  if (!lyrics.synced) return -1;
+  let current = -1;
+  lyrics.lines.forEach((line, index) => {
+    if (line.timeMs !== null && line.timeMs <= positionMs) current = index;
+  });
+  return current;
+}
+
+/**
+ * The library changes a notification reports: browsable items that finished
+ * processing or were deleted, and library tasks (scans, refreshes) that ended.
+ * Progress updates and playback notifications change nothing we cache.
+ */
+function libraryChangesOf(notification: PlexNotification): LibraryChange[] {
+  switch (notification.type) {
+    case "timeline":
+      return notification.entries
+        .filter((entry) => BROWSABLE_TYPES.has(entry.type) && SETTLED_STATES.has(entry.state))
+        .map((entry) => ({ sectionId: entry.sectionId, itemId: entry.itemId }));
+    case "activity":
+      return notification.activities
+        .filter((activity) => activity.event === "ended" && activity.type.startsWith("library."))
+        .map((activity) => ({ sectionId: activity.sectionId, itemId: null }));
+    default:
+      return [];
+  }
+}
+
+function isRadioType(value: string | undefined): value is RadioType {
+  return value === "artist" || value === "album" || value === "track";
+}
+
 /** Convert a native Promise to a kew promise (required by Volumio). */
 function jsPromiseToKew<T>(libQ: KewLib, promise: Promise<T>): unknown {
   const defer = libQ.defer();
@@ -70,24 +240,54 @@ export class VolumioAdapter {
   private plexService: PlexService | null = null;
   private apiClient: PlexApiClient | null = null;
   private connection: PlexConnection | null = null;
+  private servers = new Map<string, PlexServerEntry>();
   private shuffleEnabled = false;
   private pageSize = DEFAULT_PAGE_SIZE;
   private gaplessPlayback = true;
   private crossfadeEnabled = false;
   private crossfadeDuration = 5;
+  private streamingPolicy: StreamingPolicy = DEFAULT_STREAMING_POLICY;
+  private normalization: NormalizationMode = "off";
+  // Last replay gain mode sent to MPD, null while MPD has its own mode, and
+  // the volume steps added for a file without ReplayGain tags. Both are
+  // global, so MPD's own mode and volume are given back once playback
+  // leaves Plex.
+  private mpdReplayGainMode: ReplayGainMode | null = null;
+  private savedReplayGainMode: string | null = null;
+  private appliedVolumeOffset = 0;
+  private resumePolicy: ResumePolicy = DEFAULT_RESUME_POLICY;
+  private chapterSkip = false;
   private playbackReporting = false;
   private playbackTimer: ReturnType<typeof setInterval> | null = null;
   private nextTrackId: string | null = null;
+  private nextServerId: string | null = null;
+  private nextPlayQueue: PlayQueueRef | null = null;
+  private nextPart: PartRef | null = null;
+  private nextNormalization: TrackNormalization | null = null;
+  private nextQuality: StreamQuality = {};
+  private nextStartMs = 0;
 
   // Playback position tracking for scrobbling
   private currentTrackId: string | null = null;
+  private currentServerId: string | null = null;
   private currentTrackDurationMs = 0;
+  private currentPlayQueue: PlayQueueRef | null = null;
+  private currentPart: PartRef | null = null;
   private playbackStartTime: number | null = null; // Date.now() when play/resume started
   private pausedPositionMs = 0;                    // confirmed position when paused or seeked
 
   private originalServicePushState: VolumioCoreCommand["servicePushState"] | null = null;
-  private currentQuality: { trackType?: string; samplerate?: string; bitdepth?: string } = {};
+  private currentQuality: StreamQuality = {};
   private currentStreamUri: string | null = null;
+  private radioSession: RadioSession | null = null;
+  private lyricsCache: { serverId: string | null; trackId: string; lyrics: Lyrics | null } | null = null;
+  /** Chapter markers of the playing track, once loaded */
+  private currentChapters: { trackId: string; chapters: Chapter[] } | null = null;
+  /** Last state pushed for a Plex track, as Volumio saw it; feeds Companion timelines */
+  private lastPlexState: VolumioState | null = null;
+  private playbackStateListener: (() => void) | null = null;
+  private authErrorListener: ((serverId: string | null, error: PlexAuthError) => void) | null = null;
+  private libraryUpdateTimer: ReturnType<typeof setTimeout> | null = null;
 
   private readonly browseSource: BrowseSource = {
     name: "Plex",
@@ -131,16 +331,21 @@ export class VolumioAdapter {
   /** Stop background tasks before this adapter instance is replaced during reconfiguration. */
   dispose(): void {
     this.stopPlaybackTimer();
+    this.cancelLibraryUpdateMessage();
   }
 
   /** Called when the plugin is disabled — remove browse source, clean up. */
   onStop(): unknown {
     this.logger.info("[Plex] onStop");
     this.stopPlaybackTimer();
+    this.cancelLibraryUpdateMessage();
+    this.leaveNormalization();
     this.commandRouter.volumioRemoveToBrowseSources(this.browseSource);
     this.removeStateMaskHook();
+    this.radioSession = null;
     this.plexService = null;
     this.connection = null;
+    this.servers.clear();
     return this.libQ.resolve();
   }
 
@@ -151,17 +356,26 @@ export class VolumioAdapter {
 
   // ── Configure (for external config injection in tests/setup) ───────
 
-  /** Set up the PlexService and connection from external config. */
-  configure(plexService: PlexService, connection: PlexConnection, options?: { shuffle?: boolean; pageSize?: number; gaplessPlayback?: boolean; crossfadeEnabled?: boolean; crossfadeDuration?: number; scrobble?: boolean; apiClient?: PlexApiClient }): void {
+  /**
+   * Set up the PlexService and connection from external config. `plexService`
+   * is the default server; `options.servers` adds further servers, browsed
+   * under plex/s/{id}.
+   */
+  configure(plexService: PlexService, connection: PlexConnection, options?: { shuffle?: boolean; pageSize?: number; gaplessPlayback?: boolean; crossfadeEnabled?: boolean; crossfadeDuration?: number; streaming?: StreamingPolicy; normalization?: NormalizationMode; resume?: ResumePolicy; chapterSkip?: boolean; scrobble?: boolean; apiClient?: PlexApiClient; servers?: PlexServerEntry[] }): void {
     const wasReporting = this.playbackReporting;
     this.plexService = plexService;
     this.connection = connection;
     this.apiClient = options?.apiClient ?? null;
+    this.servers = new Map((options?.servers ?? []).map((server) => [server.id, server]));
     this.shuffleEnabled = options?.shuffle ?? false;
     this.pageSize = options?.pageSize ?? DEFAULT_PAGE_SIZE;
     this.gaplessPlayback = options?.gaplessPlayback ?? true;
     this.crossfadeEnabled = options?.crossfadeEnabled ?? false;
     this.crossfadeDuration = options?.crossfadeDuration ?? 5;
+    this.streamingPolicy = options?.streaming ?? DEFAULT_STREAMING_POLICY;
+    this.normalization = options?.normalization ?? "off";
+    this.resumePolicy = options?.resume ?? DEFAULT_RESUME_POLICY;
+    this.chapterSkip = options?.chapterSkip ?? false;
     this.playbackReporting = options?.scrobble ?? false;
 
     if (!this.playbackReporting) {
@@ -176,50 +390,151 @@ export class VolumioAdapter {
 
   /**
    * Handle browse navigation. URI scheme:
-   * - plex                          → root (Artists, Albums, Playlists)
+   * - plex                          → root (Artists, Albums, Playlists, Genres + home hubs)
    * - plex/artists                  → artists (first page)
    * - plex/artists@{libKey}:{offset}→ artists (paginated)
+   * - plex/artists~{sort}+{filters} → artists (sorted, filtered; see uri-utils)
    * - plex/artist/{albumsKey}       → albums by artist (+ popular tracks folder)
    * - plex/popular/{artistId}       → popular tracks for artist
    * - plex/albums                   → albums (first page)
    * - plex/albums@{libKey}:{offset} → albums (paginated)
+   * - plex/albums~{sort}+{filters} → albums (sorted, filtered)
    * - plex/album/{trackListKey}     → tracks in album
+   * - plex/tracks                   → every track (first page)
+   * - plex/tracks~{sort}+{filters}@{libKey}:{offset} → tracks (sorted, filtered, paginated)
+   * - plex/hires                    → hi-res tracks grouped by quality tier
    * - plex/playlists                → list playlists
    * - plex/playlist/{itemsKey}      → tracks in playlist (first page)
    * - plex/playlist/{itemsKey}@{offset} → tracks in playlist (paginated)
    * - plex/shuffle-album/{key}      → shuffled album tracks
    * - plex/shuffle-playlist/{key}   → shuffled playlist tracks
+   * - plex/genres                   → genres of every music library
+   * - plex/genre/{libKey}/{genreId} → genre page (Artists, Albums)
+   * - plex/genre/{libKey}/{genreId}/artists[@{offset}] → artists in genre (paginated)
+   * - plex/genre/{libKey}/{genreId}/albums[@{offset}]  → albums in genre (paginated)
+   * - plex/radio/{artist|album|track}/{id} → radio station preview
+   * - plex/rated                    → top-rated tracks
+   * - plex/audiobooks               → authors in audiobook libraries
+   * - plex/audiobooks/author/{albumsKey}     → the author's books
+   * - plex/audiobooks/book/{trackListKey}    → the book's chapters
+   * - plex/podcasts                 → shows in podcast libraries
+   * - plex/podcasts/show/{showId}   → the show's episodes
+   * - plex/chapters/{trackId}       → the track's chapters
+   * - plex/similar/track/{trackId}  → sonically similar tracks ("More Like This")
+   * - plex/s/{machineId}/…          → any of the above on another configured server
    */
   handleBrowseUri(uri: string): unknown {
     this.logger.info(`[Plex] handleBrowseUri: ${uri}`);
     return jsPromiseToKew(this.libQ, this._handleBrowseUri(uri));
   }
 
-  private async _handleBrowseUri(uri: string): Promise<NavigationPage> {
-    const service = this.requireService();
+  private async _handleBrowseUri(scopedUri: string): Promise<NavigationPage> {
+    const { serverId, uri } = parseServerUri(scopedUri);
+    try {
+      const page = await this.browse(this.serviceFor(serverId), serverId, uri);
+      return serverId === null ? page : scopeToServer(page, serverId);
+    } catch (error: unknown) {
+      if (!(error instanceof PlexAuthError)) throw error;
+      this.reportAuthError(serverId, error);
+      return browseSignIn(scopedUri, serverId === null ? null : this.servers.get(serverId)?.name ?? null);
+    }
+  }
+
+  private async browse(service: PlexService, serverId: string | null, uri: string): Promise<NavigationPage> {
     const parts = uri.split("/");
     const options: BrowseOptions = { pageSize: this.pageSize, shuffleEnabled: this.shuffleEnabled };
 
     // plex
     if (uri === "plex") {
-      return browseRoot();
+      // Hubs are a bonus — a failing hubs endpoint must not take the root page down with it.
+      const hubs = await service.getHomeHubs(HUB_ITEM_COUNT, this.resumePolicy).catch((err: unknown) => {
+        this.logger.warn(`[Plex] Failed to load home hubs: ${err}`);
+        return [];
+      });
+      const spokenWord = await this.spokenWordLibraries(service);
+      const page = browseRoot(service, hubs, this.currentServerId === serverId ? this.nowPlaying() : null, spokenWord);
+      if (serverId === null && this.servers.size > 0) {
+        page.navigation.lists.splice(1, 0, serverList([...this.servers.values()]));
+      }
+      return page;
     }
 
-    // plex/artists, plex/artists@{libKey}:{offset}, plex/artists~{sort}, plex/artists~{sort}@{libKey}:{offset}
-    if (uri === "plex/artists" || uri.startsWith("plex/artists@") || uri.startsWith("plex/artists~")) {
+    // plex/artists[~{sort}][+{filters}][@{libKey}:{offset}]
+    if (uri === "plex/artists" || /^plex\/artists[@~+]/.test(uri)) {
       return browseArtists(service, parsePaginationUri(uri), options);
     }
 
-    // plex/albums, plex/albums@{libKey}:{offset}, plex/albums~{sort}, plex/albums~{sort}@{libKey}:{offset}
-    if (uri === "plex/albums" || uri.startsWith("plex/albums@") || uri.startsWith("plex/albums~")) {
+    // plex/albums[~{sort}][+{filters}][@{libKey}:{offset}]
+    if (uri === "plex/albums" || /^plex\/albums[@~+]/.test(uri)) {
       return browseAlbums(service, parsePaginationUri(uri), options);
     }
 
+    // plex/tracks[~{sort}][+{filters}][@{libKey}:{offset}]
+    if (uri === "plex/tracks" || /^plex\/tracks[@~+]/.test(uri)) {
+      return browseTracks(service, parsePaginationUri(uri), options);
+    }
+
+    // plex/hires
+    if (uri === "plex/hires") {
+      return browseHiRes(service, options);
+    }
+
     // plex/playlists
     if (uri === "plex/playlists") {
       return browsePlaylists(service);
     }
 
+    // plex/genres
+    if (uri === "plex/genres") {
+      return browseGenres(service);
+    }
+
+    // plex/rated
+    if (uri === "plex/rated") {
+      return browseRatedTracks(service, options);
+    }
+
+    // plex/audiobooks, plex/audiobooks/author/{albumsKey...}, plex/audiobooks/book/{trackListKey...}
+    if (parts[1] === "audiobooks") {
+      if (parts.length === 2) return browseAudiobooks(service);
+      const key = decodePathSegment(parts.slice(3).join("/"));
+      if (parts[2] === "author" && key) return browseAuthor(service, key);
+      if (parts[2] === "book" && key) return browseBook(service, key);
+    }
+
+    // plex/podcasts, plex/podcasts/show/{showId}
+    if (parts[1] === "podcasts") {
+      if (parts.length === 2) return browsePodcasts(service);
+      if (parts[2] === "show" && parts[3]) return browseShow(service, parts[3]);
+    }
+
+    // plex/chapters/{trackId}
+    if (parts[1] === "chapters" && parts[2]) {
+      return browseChapters(service, parts[2]);
+    }
+
+    // plex/similar/track/{trackId}
+    if (parts[1] === "similar" && parts[2] === "track" && parts[3]) {
+      return browseSimilarTracks(service, parts[3]);
+    }
+
+    // plex/genre/{libKey}/{genreId}, plex/genre/{libKey}/{genreId}/{artists|albums}[@{offset}]
+    if (parts[1] === "genre" && parts[2] && parts[3]) {
+      const libraryKey = decodePathSegment(parts[2]);
+      const genreId = decodePathSegment(parts[3]);
+      if (!parts[4]) {
+        return browseGenre(libraryKey, genreId);
+      }
+      const [view, offsetPart] = parts[4].split("@");
+      const offset = parseInt(offsetPart ?? "", 10) || 0;
+      if (view === "artists") {
+        return browseGenreArtists(service, libraryKey, genreId, offset, options);
+      }
+      if (view === "albums") {
+        return browseGenreAlbums(service, libraryKey, genreId, offset, options);
+      }
+    }
+
     // plex/artist/{albumsKey...}  (key may contain slashes, encoded as __)
     if (parts[1] === "artist" && parts[2]) {
       const albumsKey = decodePathSegment(parts.slice(2).join("/"));
@@ -231,6 +546,11 @@ export class VolumioAdapter {
       return browsePopularTracks(service, parts[2]);
     }
 
+    // plex/radio/{type}/{id}
+    if (parts[1] === "radio" && isRadioType(parts[2]) && parts[3]) {
+      return browseRadio(service, parts[2], parts[3]);
+    }
+
     // plex/shuffle-album/{trackListKey...}
     if (parts[1] === "shuffle-album" && parts[2]) {
       const trackListKey = decodePathSegment(parts.slice(2).join("/"));
@@ -272,55 +592,194 @@ export class VolumioAdapter {
     return jsPromiseToKew(this.libQ, this._explodeUri(uri));
   }
 
-  private async _explodeUri(uri: string): Promise<QueueItem[]> {
-    const service = this.requireService();
+  private async _explodeUri(scopedUri: string): Promise<QueueItem[]> {
+    const { serverId, uri } = parseServerUri(scopedUri);
+    const items = await this.explode(this.serviceFor(serverId), serverId, uri);
+    return items.map((item) => ({ ...item, uri: toServerUri(item.uri, serverId) }));
+  }
+
+  private async explode(service: PlexService, serverId: string | null, uri: string): Promise<QueueItem[]> {
     const parts = uri.split("/");
 
     // plex/track/{trackId}
     if (parts[1] === "track" && parts[2]) {
       const playable = await service.getPlayableTrack(parts[2]);
-      return [this.trackToQueueItem(service, playable)];
+      return this.trackToQueueItems(service, playable);
+    }
+
+    // plex/chapters/{trackId}/{startMs} — the track, played from the start of a chapter
+    if (parts[1] === "chapters" && parts[2] && parts[3]) {
+      const playable = await service.getPlayableTrack(parts[2]);
+      const [first, ...rest] = this.trackToQueueItems(service, playable);
+      return first ? [{ ...first, startMs: parseInt(parts[3], 10) || 0 }, ...rest] : [];
+    }
+
+    // plex/similar/track/{trackId} — a "More Like This" set
+    if (parts[1] === "similar" && parts[2] === "track" && parts[3]) {
+      const tracks = await service.getSonicallySimilarTracks(parts[3], MORE_LIKE_THIS_COUNT);
+      return tracks.filter((track) => track.streamKey).flatMap((track) => this.trackToQueueItems(service, track));
+    }
+
+    // plex/audiobooks/chapter/{trackId}, plex/podcasts/episode/{trackId}
+    if (((parts[1] === "audiobooks" && parts[2] === "chapter") || (parts[1] === "podcasts" && parts[2] === "episode")) && parts[3]) {
+      const playable = await service.getPlayableTrack(parts[3]);
+      return this.spokenWordQueueItems(service, [playable]);
+    }
+
+    // plex/audiobooks/book/{trackListKey...} — from the chapter that was left off
+    if (parts[1] === "audiobooks" && parts[2] === "book" && parts[3]) {
+      const chapters = await service.getAlbumTracks(decodePathSegment(parts.slice(3).join("/")));
+      return this.spokenWordQueueItems(service, chapters.slice(Math.max(resumeIndex(chapters), 0)));
+    }
+
+    // plex/audiobooks/author/{albumsKey...} — every book by the author
+    if (parts[1] === "audiobooks" && parts[2] === "author" && parts[3]) {
+      const books = await service.getArtistAlbums(decodePathSegment(parts.slice(3).join("/")));
+      const chapterLists = await Promise.all(books.map((book) => service.getAlbumTracks(book.trackListKey)));
+      return this.spokenWordQueueItems(service, chapterLists.flat());
+    }
+
+    // plex/podcasts/show/{showId} — every episode
+    if (parts[1] === "podcasts" && parts[2] === "show" && parts[3]) {
+      return this.spokenWordQueueItems(service, await service.getArtistTracks(parts[3]));
+    }
+
+    // plex/artist/{albumsKey...} — every album by the artist, in album order
+    if (parts[1] === "artist" && parts[2]) {
+      const albumsKey = decodePathSegment(parts.slice(2).join("/"));
+      const albums = await service.getArtistAlbums(albumsKey);
+      const trackLists = await Promise.all(albums.map((album) => service.getAlbumTracks(album.trackListKey)));
+      return trackLists.flat().filter((track) => track.streamKey).flatMap((track) => this.trackToQueueItems(service, track));
     }
 
     // plex/popular/{artistId}
     if (parts[1] === "popular" && parts[2]) {
       const tracks = await service.getPopularTracks(parts[2]);
-      return tracks.filter((track) => track.streamKey).map((track) => this.trackToQueueItem(service, track));
+      return tracks.filter((track) => track.streamKey).flatMap((track) => this.trackToQueueItems(service, track));
+    }
+
+    // plex/tracks~{sort}+{filters}@{libKey}:{offset} — the page of tracks as browsed
+    if (uri === "plex/tracks" || /^plex\/tracks[@~+]/.test(uri)) {
+      const pagination = parsePaginationUri(uri);
+      const libraryKey = pagination.libraryKey ?? (await service.getLibraries())[0]?.id;
+      if (!libraryKey) return [];
+      const page = await service.getTracksPaginated(libraryKey, pagination.offset, this.pageSize,
+        pagination.sort ?? undefined, pagination.filters);
+      return page.items.filter((track) => track.streamKey).flatMap((track) => this.trackToQueueItems(service, track));
+    }
+
+    // plex/rated
+    if (uri === "plex/rated") {
+      const tracks = await service.getTopRatedTracks(this.pageSize);
+      return tracks.filter((track) => track.streamKey).flatMap((track) => this.trackToQueueItems(service, track));
+    }
+
+    // plex/radio/{type}/{id}[/{playQueueId}] — the previewed station, or a fresh one; remembered so it can be topped up as it plays
+    if (parts[1] === "radio" && isRadioType(parts[2]) && parts[3]) {
+      const queue = await this.stationQueue(service, parts[3], parts[4]);
+      const lastItem = queue.items[queue.items.length - 1];
+      this.radioSession = lastItem
+        ? {
+            serverId,
+            playQueueId: queue.id,
+            lastItemId: lastItem.itemId,
+            trackIds: new Set(queue.items.map((item) => item.track.id)),
+            refilling: false,
+          }
+        : null;
+      return this.playQueueToQueueItems(service, queue);
     }
 
     // plex/shuffle-album/{trackListKey...}
     if (parts[1] === "shuffle-album" && parts[2]) {
       const trackListKey = decodePathSegment(parts.slice(2).join("/"));
-      const tracks = await service.getAlbumTracks(trackListKey);
-      shuffleArray(tracks);
-      return tracks.filter((track) => track.streamKey).map((track) => this.trackToQueueItem(service, track));
+      return this.explodeViaPlayQueue(service, trackListKey, true, () => service.getAlbumTracks(trackListKey));
     }
 
     // plex/shuffle-playlist/{itemsKey...}
     if (parts[1] === "shuffle-playlist" && parts[2]) {
       const itemsKey = decodePathSegment(parts.slice(2).join("/"));
-      const tracks = await service.getPlaylistTracks(itemsKey);
-      shuffleArray(tracks);
-      return tracks.filter((track) => track.streamKey).map((track) => this.trackToQueueItem(service, track));
+      return this.explodeViaPlayQueue(service, itemsKey, true, () => service.getPlaylistTracks(itemsKey));
     }
 
     // plex/album/{trackListKey...}
     if (parts[1] === "album" && parts[2]) {
       const trackListKey = decodePathSegment(parts.slice(2).join("/"));
-      const tracks = await service.getAlbumTracks(trackListKey);
-      return tracks.filter((track) => track.streamKey).map((track) => this.trackToQueueItem(service, track));
+      return this.explodeViaPlayQueue(service, trackListKey, false, () => service.getAlbumTracks(trackListKey));
     }
 
     // plex/playlist/{itemsKey...}
     if (parts[1] === "playlist" && parts[2]) {
       const itemsKey = decodePathSegment(parts.slice(2).join("/"));
-      const tracks = await service.getPlaylistTracks(itemsKey);
-      return tracks.filter((track) => track.streamKey).map((track) => this.trackToQueueItem(service, track));
+      return this.explodeViaPlayQueue(service, itemsKey, false, () => service.getPlaylistTracks(itemsKey));
+    }
+
+    // plex/genre/{libKey}/{genreId}
+    if (parts[1] === "genre" && parts[2] && parts[3]) {
+      const tracks = await service.getGenreTracks(decodePathSegment(parts[2]), decodePathSegment(parts[3]));
+      return tracks.filter((track) => track.streamKey).flatMap((track) => this.trackToQueueItems(service, track));
     }
 
     throw new Error(`Cannot explode URI: ${uri}`);
   }
 
+  /**
+   * Queue an album or playlist through a play queue created on the server, so
+   * other Plex clients can follow along. Falls back to a locally built list
+   * (shuffled here when requested) if Plex refuses to create the queue.
+   */
+  private async explodeViaPlayQueue(
+    service: PlexService,
+    key: string,
+    shuffle: boolean,
+    loadTracks: () => Promise<Track[]>,
+  ): Promise<QueueItem[]> {
+    let queue: PlayQueue;
+    try {
+      queue = await service.createPlayQueue(key, { shuffle });
+    } catch (err) {
+      this.logger.warn(`[Plex] Failed to create play queue, queueing locally: ${err}`);
+      const tracks = await loadTracks();
+      if (shuffle) shuffleArray(tracks);
+      return tracks.filter((track) => track.streamKey).flatMap((track) => this.trackToQueueItems(service, track));
+    }
+    return this.playQueueToQueueItems(service, queue);
+  }
+
+  private playQueueToQueueItems(service: PlexService, queue: PlayQueue): QueueItem[] {
+    return queue.items
+      .filter((item) => item.track.streamKey)
+      .flatMap((item) => this.trackToQueueItems(service, item.track).map((queueItem) => ({
+        ...queueItem,
+        playQueueID: queue.id,
+        playQueueItemID: item.itemId,
+      })));
+  }
+
+  /** Queue items for audiobook chapters or podcast episodes, marked to resume where they were left off. */
+  private spokenWordQueueItems(service: PlexService, tracks: Track[]): QueueItem[] {
+    return tracks
+      .filter((track) => track.streamKey)
+      .flatMap((track) => this.trackToQueueItems(service, track))
+      .map((item) => ({ ...item, resume: true }));
+  }
+
+  /** Which spoken-word libraries get a root folder. Unknown when the libraries can't be listed, so none. */
+  private async spokenWordLibraries(service: PlexService): Promise<SpokenWordLibraries> {
+    try {
+      const [audiobooks, podcasts] = await Promise.all([service.getLibraries("audiobooks"), service.getLibraries("podcasts")]);
+      return { audiobooks: audiobooks.length > 0, podcasts: podcasts.length > 0 };
+    } catch (err) {
+      this.logger.warn(`[Plex] Failed to load libraries: ${err}`);
+      return { audiobooks: false, podcasts: false };
+    }
+  }
+
+  /** Queue items for a track's preferred version, one per file of a multi-part version. */
+  private trackToQueueItems(service: PlexService, track: Track): QueueItem[] {
+    return service.playableParts(track).map((part) => this.trackToQueueItem(service, part));
+  }
+
   private trackToQueueItem(service: PlexService, track: Track): QueueItem {
     const item: QueueItem = {
       uri: `plex/track/${track.id}/stream/${encodePathSegment(track.streamKey)}`,
@@ -335,6 +794,14 @@ export class VolumioAdapter {
     if (track.trackType) item.trackType = track.trackType;
     if (track.samplerate) item.samplerate = track.samplerate;
     if (track.bitdepth) item.bitdepth = track.bitdepth;
+    if (track.partOffsetMs !== undefined) item.partOffsetMs = track.partOffsetMs;
+    if (track.wholeDurationMs !== undefined) item.wholeDurationMs = track.wholeDurationMs;
+    if (track.loudness) {
+      item.trackGain = track.loudness.gain;
+      if (track.loudness.albumGain !== null) item.albumGain = track.loudness.albumGain;
+      if (track.loudness.peak !== null) item.trackPeak = track.loudness.peak;
+      if (track.loudness.albumPeak !== null) item.albumPeak = track.loudness.albumPeak;
+    }
     return item;
   }
 
@@ -347,8 +814,8 @@ export class VolumioAdapter {
   }
 
   private async _goto(data: { type: "album" | "artist"; uri?: string }): Promise<NavigationPage> {
-    const service = this.requireService();
-    const uri = data.uri ?? "";
+    const { serverId, uri } = parseServerUri(data.uri ?? "");
+    const service = this.serviceFor(serverId);
 
     // Extract track ID from "plex/track/{id}/stream/..."
     const match = uri.match(/^plex\/track\/(\d+)\//);
@@ -360,9 +827,9 @@ export class VolumioAdapter {
     const { albumBrowseKey, artistBrowseKey } = await service.getTrackBrowseKeys(trackId);
 
     if (data.type === "album") {
-      return this._handleBrowseUri(`plex/album/${encodePathSegment(albumBrowseKey)}`);
+      return this._handleBrowseUri(toServerUri(`plex/album/${encodePathSegment(albumBrowseKey)}`, serverId));
     } else {
-      return this._handleBrowseUri(`plex/artist/${encodePathSegment(artistBrowseKey)}`);
+      return this._handleBrowseUri(toServerUri(`plex/artist/${encodePathSegment(artistBrowseKey)}`, serverId));
     }
   }
 
@@ -375,23 +842,26 @@ export class VolumioAdapter {
   }
 
   private async _clearAddPlayTrack(track: QueueItem): Promise<void> {
+    const { url: streamUrl, transcoded } = this.resolveStreamUrl(track);
+
     // Store quality metadata so the state hook can re-inject it on every MPD state push.
-    this.currentQuality = {
-      ...(track.trackType && { trackType: track.trackType }),
-      ...(track.samplerate && { samplerate: track.samplerate }),
-      ...(track.bitdepth && { bitdepth: track.bitdepth }),
-    };
+    this.currentQuality = this.streamQuality(track, transcoded);
 
-    // Capture track identity for scrobbling. URI format: plex/track/{id}/stream/{key}
-    const trackMatch = track.uri.match(/^plex\/track\/(\d+)\//);
+    // Capture track identity for scrobbling. URI format: [plex/s/{serverId}/]plex/track/{id}/stream/{key}
+    const { serverId, uri } = parseServerUri(track.uri);
+    const trackMatch = uri.match(/^plex\/track\/(\d+)\//);
     this.currentTrackId = trackMatch ? trackMatch[1]! : null;
+    this.currentServerId = serverId;
     this.currentTrackDurationMs = (track.duration ?? 0) * 1000;
+    this.currentPlayQueue = playQueueRefOf(track);
+    this.currentPart = partRefOf(track);
     this.currentStreamUri = null; // cleared so the next state push doesn't trigger a false transition
     this.pausedPositionMs = 0;
     this.playbackStartTime = null;
+    this.loadChapters(serverId, this.currentTrackId);
+    const startAtMs = track.startMs ?? (await this.resumeOffset(serverId, this.currentTrackId, track));
 
     const mpdPlugin = this.getMpdPlugin();
-    const streamUrl = this.resolveStreamUrl(track.uri);
 
     // Clear MPD queue
     await mpdPlugin.sendMpdCommand("stop", []);
@@ -400,6 +870,8 @@ export class VolumioAdapter {
     // Set crossfade (independent of gapless playback)
     const xfade = this.crossfadeEnabled ? this.crossfadeDuration : 0;
     await mpdPlugin.sendMpdCommand(`crossfade ${xfade}`, []);
+    const position = this.commandRouter.stateMachine.currentPosition;
+    await this.applyNormalization(mpdPlugin, await this.normalizationFor(mpdPlugin, track, position, streamUrl, transcoded));
 
     // Try load first (handles playlists/streams), fall back to addid
     let songId: string | undefined;
@@ -421,8 +893,81 @@ export class VolumioAdapter {
     this.commandRouter.stateMachine.setConsumeUpdateService("mpd", true, false);
     await mpdPlugin.sendMpdCommand("play", []);
     this.playbackStartTime = Date.now();
-    this.sendTimeline("playing", 0);
+    if (startAtMs > 0) {
+      this.logger.info(`[Plex] Starting ${track.name} at ${startAtMs}ms`);
+      try {
+        await this.seek(startAtMs);
+      } catch (err) {
+        this.logger.warn(`[Plex] Could not seek into ${track.name}: ${err}`);
+      }
+    } else {
+      this.sendTimeline("playing", 0);
+    }
     this.startPlaybackTimer();
+    this.refillRadio(this.currentServerId, this.currentTrackId);
+  }
+
+  /**
+   * Where Plex says a track was left off, when the resume policy picks it up
+   * there (spoken word always is); 0 otherwise. Tracks the policy doesn't
+   * resume cost no request. A part of a multi-part track resumes only when
+   * the offset falls within it.
+   */
+  private async resumeOffset(serverId: string | null, trackId: string | null, track: QueueItem): Promise<number> {
+    const policy = track.resume ? SPOKEN_WORD_RESUME : this.resumePolicy;
+    const durationMs = (track.duration ?? 0) * 1000;
+    const part = partRefOf(track);
+    const wholeDurationMs = part?.wholeDurationMs ?? durationMs;
+    if (trackId === null || !resumesTrack(policy, wholeDurationMs)) return 0;
+    try {
+      const viewOffset = await this.serviceFor(serverId).getViewOffset(trackId);
+      const position = resumePosition(policy, wholeDurationMs, viewOffset) - (part?.offsetMs ?? 0);
+      return position > 0 && position < durationMs ? position : 0;
+    } catch (err) {
+      this.logger.warn(`[Plex] Could not look up where ${track.name} was left off: ${err}`);
+      return 0;
+    }
+  }
+
+  /**
+   * Load the chapter markers of the track that just started, for skipping by
+   * chapter and the root page's "Chapters" folder. Not awaited: playback
+   * doesn't wait on it, and a track that has moved on by the time the
+   * markers arrive drops them.
+   */
+  private loadChapters(serverId: string | null, trackId: string | null): void {
+    this.currentChapters = null;
+    if (trackId === null) return;
+    Promise.resolve().then(() => this.serviceFor(serverId).getTrack(trackId)).then(
+      (track) => {
+        if (this.currentTrackId === trackId) this.currentChapters = { trackId, chapters: track.chapters };
+      },
+      (err: unknown) => this.logger.warn(`[Plex] Could not load chapters of track ${trackId}: ${err}`),
+    );
+  }
+
+  /** Chapter markers of the playing track; empty until loaded or when it has none. */
+  private playingChapters(): Chapter[] {
+    const chapters = this.currentChapters;
+    return chapters !== null && chapters.trackId === this.currentTrackId ? chapters.chapters : [];
+  }
+
+  /** The playing Plex track, for the root page. */
+  private nowPlaying(): NowPlaying | null {
+    if (!this.currentTrackId) return null;
+    return { trackId: this.currentTrackId, chaptered: this.playingChapters().length > 0 };
+  }
+
+  /** A transcode is reported as its target format; the source's rate and depth no longer apply. */
+  private streamQuality(track: QueueItem, transcoded: boolean): StreamQuality {
+    return transcoded
+      ? { trackType: this.streamingPolicy.format, streamMode: "transcode" }
+      : {
+          ...(track.trackType && { trackType: track.trackType }),
+          ...(track.samplerate && { samplerate: track.samplerate }),
+          ...(track.bitdepth && { bitdepth: track.bitdepth }),
+          streamMode: "direct",
+        };
   }
 
   /** Pre-buffer the next track into the MPD queue for gapless playback. */
@@ -438,9 +983,15 @@ export class VolumioAdapter {
     }
 
     const mpdPlugin = this.getMpdPlugin();
-    const streamUrl = this.resolveStreamUrl(track.uri);
+    const { url: streamUrl, transcoded } = this.resolveStreamUrl(track);
+    const { serverId, uri } = parseServerUri(track.uri);
+    const trackMatch = uri.match(/^plex\/track\/(\d+)\//);
+    const trackId = trackMatch ? trackMatch[1]! : null;
 
     try {
+      const position = this.commandRouter.stateMachine.currentPosition + 1;
+      const normalization = await this.normalizationFor(mpdPlugin, track, position, streamUrl, transcoded);
+      const startAtMs = track.startMs ?? (await this.resumeOffset(serverId, trackId, track));
       const resp = (await mpdPlugin.sendMpdCommand(`addid "${streamUrl}"`, [])) as { Id?: string };
       const songId = resp?.Id;
 
@@ -450,15 +1001,119 @@ export class VolumioAdapter {
 
       await mpdPlugin.sendMpdCommand("consume 1", []);
       this.commandRouter.stateMachine.prefetchDone = true;
-      const nextMatch = track.uri.match(/^plex\/track\/(\d+)\//);
-      this.nextTrackId = nextMatch ? nextMatch[1]! : null;
+      this.nextTrackId = trackId;
+      this.nextServerId = serverId;
+      this.nextPlayQueue = playQueueRefOf(track);
+      this.nextPart = partRefOf(track);
+      // MPD's mode and volume are global: they change when the track starts, not while the current one plays.
+      this.nextNormalization = normalization;
+      this.nextQuality = this.streamQuality(track, transcoded);
+      // MPD can only seek a track once it plays, so a resume waits for the gapless advance.
+      this.nextStartMs = startAtMs;
       this.logger.info(`[Plex] Prefetched next track: ${track.name}`);
+      this.refillRadio(this.nextServerId, this.nextTrackId);
     } catch (err) {
       this.logger.error(`[Plex] Prefetch failed: ${err}`);
       this.commandRouter.stateMachine.prefetchDone = false;
     }
   }
 
+  /**
+   * The replay gain mode the normalization setting calls for at the queue
+   * entry at `position`, or null while normalization is off.
+   */
+  private replayGainModeAt(position: number): ReplayGainMode | null {
+    if (this.normalization === "off") return null;
+    const albumInOrder = isAlbumInOrder(
+      this.commandRouter.volumioGetQueue(),
+      position,
+      this.commandRouter.stateMachine.currentRandom,
+    );
+    return replayGainMode(this.normalization, albumInOrder);
+  }
+
+  /**
+   * How to normalize a track about to play at queue entry `position`, or
+   * null while normalization is off. Files with ReplayGain tags are left to
+   * MPD; for the others (transcodes lose their tags) Plex's loudness
+   * analysis sets a volume offset.
+   */
+  private async normalizationFor(
+    mpdPlugin: MpdPlugin,
+    track: QueueItem,
+    position: number,
+    streamUrl: string,
+    transcoded: boolean,
+  ): Promise<TrackNormalization | null> {
+    const mode = this.replayGainModeAt(position);
+    if (mode === null) return null;
+    const loudness = loudnessOf(track);
+    if (loudness === null || (!transcoded && (await hasReplayGainTags(mpdPlugin, streamUrl)))) {
+      return { mode, volumeOffset: 0 };
+    }
+    return { mode, volumeOffset: volumeOffset(plexGainDb(mode, loudness)) };
+  }
+
+  /** Normalize the Plex track starting now; null gives MPD back its own mode and volume. */
+  private async applyNormalization(mpdPlugin: MpdPlugin, normalization: TrackNormalization | null): Promise<void> {
+    if (normalization === null) {
+      await this.restoreNormalization(mpdPlugin);
+      return;
+    }
+    await this.applyReplayGainMode(mpdPlugin, normalization.mode);
+    await this.applyVolumeOffset(mpdPlugin, normalization.volumeOffset);
+  }
+
+  /**
+   * Put MPD in a replay gain mode; MPD applies the ReplayGain tags of the
+   * file being played. The mode MPD had before is saved the first time.
+   */
+  private async applyReplayGainMode(mpdPlugin: MpdPlugin, mode: ReplayGainMode): Promise<void> {
+    if (mode === this.mpdReplayGainMode) return;
+    if (this.savedReplayGainMode === null) {
+      const status = (await mpdPlugin.sendMpdCommand("replaygain_status", [])) as { replay_gain_mode?: string } | undefined;
+      this.savedReplayGainMode = status?.replay_gain_mode ?? "off";
+    }
+    await mpdPlugin.sendMpdCommand(`replay_gain_mode ${mode}`, []);
+    this.mpdReplayGainMode = mode;
+    this.logger.info(`[Plex] Replay gain mode: ${mode}`);
+  }
+
+  /**
+   * Move MPD's volume so it sits `offset` steps from where the user set it.
+   * Only the difference to the offset already applied is added, so the
+   * user's own changes are kept. Skipped when MPD has no mixer.
+   */
+  private async applyVolumeOffset(mpdPlugin: MpdPlugin, offset: number): Promise<void> {
+    const change = offset - this.appliedVolumeOffset;
+    if (change === 0) return;
+    const status = (await mpdPlugin.sendMpdCommand("status", [])) as { volume?: string } | undefined;
+    const volume = Number(status?.volume);
+    if (!Number.isFinite(volume) || volume < 0) return;
+    await mpdPlugin.sendMpdCommand(`setvol ${Math.min(100, Math.max(0, volume + change))}`, []);
+    this.appliedVolumeOffset = offset;
+    this.logger.info(`[Plex] Volume offset: ${offset}`);
+  }
+
+  /** Give MPD back the replay gain mode and volume it had before Plex changed them. */
+  private async restoreNormalization(mpdPlugin: MpdPlugin): Promise<void> {
+    await this.applyVolumeOffset(mpdPlugin, 0);
+    const saved = this.savedReplayGainMode;
+    if (saved === null) return;
+    this.savedReplayGainMode = null;
+    this.mpdReplayGainMode = null;
+    await mpdPlugin.sendMpdCommand(`replay_gain_mode ${saved}`, []);
+    this.logger.info(`[Plex] Replay gain mode restored: ${saved}`);
+  }
+
+  /** Restore MPD's replay gain mode and volume in the background once playback has left Plex. */
+  private leaveNormalization(): void {
+    if (this.savedReplayGainMode === null && this.appliedVolumeOffset === 0) return;
+    Promise.resolve()
+      .then(() => this.restoreNormalization(this.getMpdPlugin()))
+      .catch((err: unknown) => this.logger.warn(`[Plex] Could not restore MPD's replay gain mode and volume: ${err}`));
+  }
+
   /** Set title/artist/album tags on an MPD queue entry by song ID. */
   private async mpdAddTags(
     mpdPlugin: MpdPlugin,
@@ -473,25 +1128,38 @@ export class VolumioAdapter {
     await mpdPlugin.sendMpdCommandArray(commands);
   }
 
-  /** Resolve a queue item URI to the actual stream URL for MPD.
+  /** Resolve a queue item to the actual stream URL for MPD, on the server the item came from,
+   *  played directly or transcoded as the streaming policy decides.
    *  Accepts both plex/track/{id}/stream/{key} and legacy plex/stream/{key} URIs. */
-  private resolveStreamUrl(uri: string): string {
+  private resolveStreamUrl(track: QueueItem): { url: string; transcoded: boolean } {
+    const { serverId, uri } = parseServerUri(track.uri);
+    let streamKey: string | null = null;
     // New format: plex/track/{id}/stream/{encodedKey}
     const newPrefix = "plex/track/";
-    if (uri.startsWith(newPrefix)) {
-      const streamIdx = uri.indexOf("/stream/");
-      if (streamIdx !== -1) {
-        const streamKey = decodePathSegment(uri.slice(streamIdx + "/stream/".length));
-        return this.requireService().getStreamUrl(streamKey);
-      }
+    const streamIdx = uri.indexOf("/stream/");
+    if (uri.startsWith(newPrefix) && streamIdx !== -1) {
+      streamKey = decodePathSegment(uri.slice(streamIdx + "/stream/".length));
     }
     // Legacy format: plex/stream/{encodedKey}
     const legacyPrefix = "plex/stream/";
     if (uri.startsWith(legacyPrefix)) {
-      const streamKey = decodePathSegment(uri.slice(legacyPrefix.length));
-      return this.requireService().getStreamUrl(streamKey);
+      streamKey = decodePathSegment(uri.slice(legacyPrefix.length));
+    }
+    if (streamKey === null) {
+      return { url: track.uri, transcoded: false };
     }
-    return uri;
+
+    const service = this.serviceFor(serverId);
+    const decision = decideStream(this.streamingPolicy, {
+      connectionKind: service.getConnectionKind(),
+      codec: track.trackType ?? null,
+    });
+    if (decision.mode === "direct") {
+      return { url: service.getStreamUrl(streamKey), transcoded: false };
+    }
+    this.logger.info(`[Plex] Transcoding ${track.name} to ${this.streamingPolicy.format} (${decision.reason})`);
+    const { format, maxBitrateKbps } = this.streamingPolicy;
+    return { url: service.getStreamUrl(streamKey, { format, maxBitrateKbps }), transcoded: true };
   }
 
   /** Stop playback. */
@@ -552,15 +1220,29 @@ export class VolumioAdapter {
     return this.getMpdPlugin().seek(position);
   }
 
-  /** Skip to the next track. */
+  /** Skip to the next track, or to the next chapter when skipping by chapter. */
   next(): unknown {
+    const chapterStart = this.chapterSkip ? nextChapterStart(this.playingChapters(), this.estimatePositionMs()) : null;
+    if (chapterStart !== null) {
+      this.logger.info(`[Plex] next: chapter at ${chapterStart}ms`);
+      return this.seek(chapterStart);
+    }
     this.logger.info("[Plex] next");
     this.commandRouter.stateMachine.setConsumeUpdateService("mpd", true, false);
     return this.getMpdPlugin().next();
   }
 
-  /** Go back to the previous track. */
+  /**
+   * Go back to the previous track. When skipping by chapter, restart the
+   * current chapter or go back to the one before instead, until the opening
+   * seconds of the first chapter.
+   */
   previous(): unknown {
+    const chapterStart = this.chapterSkip ? previousChapterStart(this.playingChapters(), this.estimatePositionMs()) : null;
+    if (chapterStart !== null) {
+      this.logger.info(`[Plex] previous: chapter at ${chapterStart}ms`);
+      return this.seek(chapterStart);
+    }
     this.logger.info("[Plex] previous");
     this.commandRouter.stateMachine.setConsumeUpdateService(undefined);
     return this.commandRouter.stateMachine.previous();
@@ -568,14 +1250,32 @@ export class VolumioAdapter {
 
   // ── Search ─────────────────────────────────────────────────────────
 
-  /** Search Plex for tracks and albums matching the query. */
+  /** Search every configured Plex server for tracks and albums matching the query. */
   search(query: SearchQuery): unknown {
     this.logger.info(`[Plex] search: ${query.value}`);
     return jsPromiseToKew(this.libQ, this._search(query));
   }
 
   private async _search(query: SearchQuery): Promise<SearchResultSection[]> {
-    const service = this.requireService();
+    const sections = await this.searchServer(this.requireService(), query);
+    // Other servers are searched alongside; one that is unreachable only loses its own results.
+    const others = await Promise.all([...this.servers.values()].map((server) =>
+      this.searchServer(server.service, query).then(
+        (found) => found.map((section) => ({
+          ...section,
+          title: `${section.title} (${server.name})`,
+          items: section.items.map((item) => ({ ...item, uri: toServerUri(item.uri, server.id) })),
+        })),
+        (err: unknown) => {
+          this.logger.warn(`[Plex] Search failed on ${server.name}: ${err}`);
+          return [];
+        },
+      )
+    ));
+    return [...sections, ...others.flat()];
+  }
+
+  private async searchServer(service: PlexService, query: SearchQuery): Promise<SearchResultSection[]> {
     const results = await service.search(query.value);
     const sections: SearchResultSection[] = [];
 
@@ -619,6 +1319,345 @@ export class VolumioAdapter {
     return sections;
   }
 
+  // ── Playlists (Volumio playlist hooks) ─────────────────────────────
+
+  /**
+   * Add a track, album, or artist to the Plex playlist titled `data.name`,
+   * creating the playlist when none has that title yet.
+   */
+  addToPlaylist(data: PlaylistCommand): unknown {
+    this.logger.info(`[Plex] addToPlaylist: ${data.name} ← ${data.uri}`);
+    return jsPromiseToKew(this.libQ, this._addToPlaylist(data));
+  }
+
+  private async _addToPlaylist(data: PlaylistCommand): Promise<void> {
+    const { serverId, uri } = parseServerUri(data.uri ?? "");
+    const service = this.serviceFor(serverId);
+    const ratingKey = ratingKeyOfUri(uri);
+    if (!ratingKey) {
+      throw new Error(`Cannot add to playlist: ${data.uri}`);
+    }
+    const playlist = (await service.getPlaylists()).find((p) => p.title === data.name);
+    if (playlist) {
+      await service.addToPlaylist(playlist.id, [ratingKey]);
+    } else {
+      await service.createPlaylist(data.name, [ratingKey]);
+    }
+  }
+
+  /** Remove a track (by its queue or browse URI) from the Plex playlist titled `data.name`. */
+  removeFromPlaylist(data: PlaylistCommand): unknown {
+    this.logger.info(`[Plex] removeFromPlaylist: ${data.name} → ${data.uri}`);
+    return jsPromiseToKew(this.libQ, this._removeFromPlaylist(data));
+  }
+
+  private async _removeFromPlaylist(data: PlaylistCommand): Promise<void> {
+    const { serverId, uri } = parseServerUri(data.uri ?? "");
+    const service = this.serviceFor(serverId);
+    const trackId = ratingKeyOfUri(uri);
+    const playlist = await this.findPlaylist(service, data.name);
+    const tracks = await service.getPlaylistTracks(playlist.itemsKey);
+    const entry = tracks.find((track) => track.id === trackId);
+    if (!entry?.playlistItemId) {
+      throw new Error(`Track not found in playlist ${data.name}: ${data.uri}`);
+    }
+    await service.removeFromPlaylist(playlist.id, entry.playlistItemId);
+  }
+
+  /**
+   * Save the Plex tracks of the current Volumio queue as a new playlist on the
+   * default server. Tracks queued from other servers cannot be part of it and are skipped.
+   */
+  saveQueueToPlaylist(data: PlaylistCommand): unknown {
+    this.logger.info(`[Plex] saveQueueToPlaylist: ${data.name}`);
+    return jsPromiseToKew(this.libQ, this._saveQueueToPlaylist(data));
+  }
+
+  private async _saveQueueToPlaylist(data: PlaylistCommand): Promise<Playlist> {
+    const service = this.requireService();
+    const trackIds = this.commandRouter.volumioGetQueue()
+      .filter((item) => item.service === SERVICE_NAME)
+      .map((item) => parseServerUri(item.uri))
+      .filter((scoped) => scoped.serverId === null)
+      .map((scoped) => ratingKeyOfUri(scoped.uri))
+      .filter((id): id is string => id !== null);
+    if (trackIds.length === 0) {
+      throw new Error("The queue holds no Plex tracks to save");
+    }
+    return service.createPlaylist(data.name, trackIds);
+  }
+
+  /** Move the playlist entry at index `from` to index `to`. */
+  movePlaylistItem(data: PlaylistCommand & { from: number; to: number }): unknown {
+    this.logger.info(`[Plex] movePlaylistItem: ${data.name} ${data.from} → ${data.to}`);
+    return jsPromiseToKew(this.libQ, this._movePlaylistItem(data));
+  }
+
+  private async _movePlaylistItem(data: PlaylistCommand & { from: number; to: number }): Promise<void> {
+    const service = this.requireService();
+    const playlist = await this.findPlaylist(service, data.name);
+    const entryIds = (await service.getPlaylistTracks(playlist.itemsKey)).map((track) => track.playlistItemId);
+    const [moved] = entryIds.splice(data.from, 1);
+    if (!moved) {
+      throw new Error(`No entry at position ${data.from} in playlist ${data.name}`);
+    }
+    // Plex moves an entry *after* another one; index 0 means "to the top".
+    const after = data.to > 0 ? entryIds[Math.min(data.to, entryIds.length) - 1] : undefined;
+    await service.movePlaylistItem(playlist.id, moved, after);
+  }
+
+  /** Rename the Plex playlist titled `data.name` to `data.newName`. */
+  renamePlaylist(data: PlaylistCommand & { newName: string }): unknown {
+    this.logger.info(`[Plex] renamePlaylist: ${data.name} → ${data.newName}`);
+    return jsPromiseToKew(this.libQ, this._renamePlaylist(data));
+  }
+
+  private async _renamePlaylist(data: PlaylistCommand & { newName: string }): Promise<void> {
+    const service = this.requireService();
+    const playlist = await this.findPlaylist(service, data.name);
+    await service.renamePlaylist(playlist.id, data.newName);
+  }
+
+  /** Delete the Plex playlist titled `data.name`. */
+  deletePlaylist(data: PlaylistCommand): unknown {
+    this.logger.info(`[Plex] deletePlaylist: ${data.name}`);
+    return jsPromiseToKew(this.libQ, this._deletePlaylist(data));
+  }
+
+  private async _deletePlaylist(data: PlaylistCommand): Promise<void> {
+    const service = this.requireService();
+    const playlist = await this.findPlaylist(service, data.name);
+    await service.deletePlaylist(playlist.id);
+  }
+
+  private async findPlaylist(service: PlexService, name: string): Promise<Playlist> {
+    const playlist = (await service.getPlaylists()).find((p) => p.title === name);
+    if (!playlist) {
+      throw new Error(`Playlist not found: ${name}`);
+    }
+    return playlist;
+  }
+
+  // ── Favourites (Volumio heart button) ───────────────────────────────
+
+  /** Mark a track, album, or artist as loved — a 5-star rating in Plex. */
+  addToFavourites(data: { uri: string; service?: string }): unknown {
+    this.logger.info(`[Plex] addToFavourites: ${data.uri}`);
+    return jsPromiseToKew(this.libQ, this.rateUri(data.uri, 5));
+  }
+
+  /** Clear the Plex rating of a track, album, or artist. */
+  removeFromFavourites(data: { uri: string; service?: string }): unknown {
+    this.logger.info(`[Plex] removeFromFavourites: ${data.uri}`);
+    return jsPromiseToKew(this.libQ, this.rateUri(data.uri, 0));
+  }
+
+  private async rateUri(scopedUri: string, stars: number): Promise<void> {
+    const { serverId, uri } = parseServerUri(scopedUri);
+    const ratingKey = ratingKeyOfUri(uri);
+    if (!ratingKey) {
+      throw new Error(`Cannot rate: ${scopedUri}`);
+    }
+    await this.serviceFor(serverId).rate(ratingKey, stars);
+  }
+
+  // ── Lyrics ─────────────────────────────────────────────────────────
+
+  /**
+   * Lyrics of the playing track, with the line at the estimated playback
+   * position. Resolves to null when nothing is playing or Plex has no lyrics.
+   * Lyrics are fetched once per track, so this is cheap to poll.
+   */
+  getLyrics(): unknown {
+    return jsPromiseToKew(this.libQ, this._getLyrics());
+  }
+
+  private async _getLyrics(): Promise<CurrentLyrics | null> {
+    const trackId = this.currentTrackId;
+    const serverId = this.currentServerId;
+    if (!trackId) return null;
+
+    let cached = this.lyricsCache;
+    if (cached?.trackId !== trackId || cached.serverId !== serverId) {
+      cached = { serverId, trackId, lyrics: await this.serviceFor(serverId).getLyrics(trackId) };
+      this.lyricsCache = cached;
+    }
+    if (!cached.lyrics) return null;
+
+    const positionMs = this.estimatePositionMs();
+    return { trackId, lyrics: cached.lyrics, positionMs, currentLine: currentLyricLine(cached.lyrics, positionMs) };
+  }
+
+  // ── Library refresh ────────────────────────────────────────────────
+
+  /** Drop the cached responses of every configured server, so browsing reloads from Plex. */
+  refreshLibrary(): unknown {
+    this.logger.info("[Plex] refreshLibrary");
+    const services = [this.requireService(), ...[...this.servers.values()].map((server) => server.service)];
+    for (const service of services) {
+      const metrics = service.getCacheMetrics();
+      if (metrics) {
+        this.logger.info(
+          `[Plex] Cache: ${metrics.hits} hits, ${metrics.misses} misses ` +
+          `(${Math.round(metrics.hitRate * 100)}% hit rate), ${metrics.entries} entries`,
+        );
+      }
+      service.refreshLibrary();
+    }
+    return this.libQ.resolve();
+  }
+
+  /**
+   * React to a notification from a server's notifications feed (`serverId`
+   * null for the default server): drop the cached responses that a library
+   * change affects, so the next browse shows it. The console message is
+   * debounced so a library scan logs once rather than for every item.
+   *
+   * The open browse view isn't re-rendered: Volumio can only push a page to
+   * every connected UI, including ones browsing other sources.
+   */
+  handleNotification(serverId: string | null, notification: PlexNotification): void {
+    const changes = libraryChangesOf(notification);
+    if (changes.length === 0) return;
+
+    const service = serverId === null ? this.plexService : this.servers.get(serverId)?.service;
+    if (!service) return;
+    for (const change of changes) {
+      service.refreshLibrary(change);
+    }
+    this.scheduleLibraryUpdateMessage();
+  }
+
+  private scheduleLibraryUpdateMessage(): void {
+    if (this.libraryUpdateTimer !== null) return;
+    this.libraryUpdateTimer = setTimeout(() => {
+      this.libraryUpdateTimer = null;
+      this.commandRouter.pushConsoleMessage("[Plex] Library updated");
+    }, LIBRARY_UPDATE_DELAY_MS);
+  }
+
+  private cancelLibraryUpdateMessage(): void {
+    if (this.libraryUpdateTimer !== null) {
+      clearTimeout(this.libraryUpdateTimer);
+      this.libraryUpdateTimer = null;
+    }
+  }
+
+  // ── Plex Companion ─────────────────────────────────────────────────
+
+  /**
+   * Player controls for the Plex Companion server. Remote commands go
+   * through the same paths as Volumio's own controls: playMedia fills the
+   * Volumio queue and plays it (ending in clearAddPlayTrack), and the
+   * transport commands call pause/resume/seek/next/previous/stop.
+   */
+  companionPlayer(): CompanionPlayer {
+    return {
+      playMedia: (request) => this.companionPlayMedia(request),
+      play: async () => { await this.resume(); },
+      pause: async () => { await this.pause(); },
+      stop: async () => { await this.stop(); },
+      skipNext: async () => { await this.next(); },
+      skipPrevious: async () => { await this.previous(); },
+      seekTo: async (offsetMs) => { await this.seek(offsetMs); },
+      setParameters: (parameters) => this.companionSetParameters(parameters),
+      timeline: () => this.companionTimeline(),
+    };
+  }
+
+  /** Register a callback run after every state push for a Plex track (null to remove it). */
+  onPlaybackStateChange(listener: (() => void) | null): void {
+    this.playbackStateListener = listener;
+  }
+
+  /** Register a callback run when a server refuses the token (null to remove it). */
+  onAuthError(listener: ((serverId: string | null, error: PlexAuthError) => void) | null): void {
+    this.authErrorListener = listener;
+  }
+
+  private reportAuthError(serverId: string | null, error: PlexAuthError): void {
+    this.logger.warn(`[Plex] ${serverId ?? "Default server"} refused the token: ${error.message}`);
+    this.authErrorListener?.(serverId, error);
+  }
+
+  private async companionPlayMedia(request: PlayMediaRequest): Promise<void> {
+    this.logger.info(`[Plex] Companion playMedia: ${request.key} (${request.containerKey ?? "no play queue"})`);
+    const serverId = await this.serverIdOfMachine(request.machineIdentifier);
+    const service = this.serviceFor(serverId);
+
+    const playQueueId = request.containerKey?.match(/^\/playQueues\/(\d+)/)?.[1];
+    const queue = playQueueId !== undefined
+      ? await service.getPlayQueue(playQueueId)
+      : await service.createPlayQueue(request.key);
+    const items = this.playQueueToQueueItems(service, queue)
+      .map((item) => ({ ...item, uri: toServerUri(item.uri, serverId) }));
+    if (items.length === 0) {
+      throw new Error(`Nothing playable in ${request.containerKey ?? request.key}`);
+    }
+
+    // Start at the entry the controller selected, or else the first entry for the requested track.
+    const ratingKey = request.key.match(/^\/library\/metadata\/(\d+)/)?.[1];
+    const isRequested = (item: QueueItem) => ratingKey === undefined || ratingKeyOfUri(parseServerUri(item.uri).uri) === ratingKey;
+    let index = items.findIndex((item) => item.playQueueItemID === queue.selectedItemId && isRequested(item));
+    if (index === -1) index = Math.max(0, items.findIndex(isRequested));
+
+    await this.commandRouter.volumioClearQueue();
+    await this.commandRouter.addQueueItems(items);
+    await this.commandRouter.volumioPlay(index);
+    if (request.offsetMs > 0) {
+      await this.seek(request.offsetMs);
+    }
+  }
+
+  private async companionSetParameters(parameters: PlayerParameters): Promise<void> {
+    if (parameters.volume !== undefined) {
+      await this.commandRouter.volumiosetvolume(parameters.volume);
+    }
+    if (parameters.shuffle !== undefined) {
+      await this.commandRouter.volumioRandom(parameters.shuffle);
+    }
+    if (parameters.repeat !== undefined) {
+      await this.commandRouter.volumioRepeat(parameters.repeat !== 0, parameters.repeat === 1);
+    }
+  }
+
+  /** Playback state for Companion timelines, from the last state push and the tracked track identity. */
+  private async companionTimeline(): Promise<PlayerTimeline> {
+    const state = this.lastPlexState;
+    const settings = {
+      volume: state?.volume ?? 100,
+      shuffle: state?.random ?? false,
+      repeat: state?.repeatSingle ? 1 : state?.repeat ? 2 : 0,
+    } as const;
+    const trackId = this.currentTrackId;
+    if (!state || state.status === "stop" || !trackId) {
+      return {
+        state: "stopped", timeMs: 0, durationMs: 0, ratingKey: null,
+        playQueueId: null, playQueueItemId: null, server: null, ...settings,
+      };
+    }
+
+    const service = this.serviceFor(this.currentServerId);
+    const { host, port, https } = service.getConnection();
+    return {
+      state: state.status === "play" ? "playing" : "paused",
+      timeMs: this.estimatePositionMs(),
+      durationMs: this.currentTrackDurationMs,
+      ratingKey: trackId,
+      playQueueId: this.currentPlayQueue?.id ?? null,
+      playQueueItemId: this.currentPlayQueue?.itemId ?? null,
+      server: { machineIdentifier: await service.getMachineIdentifier(), host, port, protocol: https ? "https" : "http" },
+      ...settings,
+    };
+  }
+
+  /** The configured server with a machineIdentifier: null for the default server (or when not given). */
+  private async serverIdOfMachine(machineIdentifier: string | null): Promise<string | null> {
+    if (machineIdentifier === null || this.servers.has(machineIdentifier)) return machineIdentifier;
+    if (await this.requireService().getMachineIdentifier() === machineIdentifier) return null;
+    throw new Error(`Unknown Plex server: ${machineIdentifier}`);
+  }
+
   // ── State push ─────────────────────────────────────────────────────
 
   /** Push playback state to Volumio's state machine. */
@@ -636,13 +1675,19 @@ export class VolumioAdapter {
 
   /** Send a timeline report to Plex. No-ops if reporting is disabled or no track is active. */
   private sendTimeline(state: "playing" | "paused" | "stopped", timeMs?: number): void {
-    if (!this.playbackReporting || !this.apiClient || !this.currentTrackId) return;
-    const time = Math.min(timeMs ?? this.estimatePositionMs(), this.currentTrackDurationMs);
-    this.apiClient.reportTimeline({
+    const apiClient = this.currentServerId === null
+      ? this.apiClient
+      : this.servers.get(this.currentServerId)?.apiClient ?? null;
+    if (!this.playbackReporting || !apiClient || !this.currentTrackId) return;
+    // Parts of a multi-part track are reported as positions in the whole track.
+    const part = this.currentPart;
+    const time = (part?.offsetMs ?? 0) + Math.min(timeMs ?? this.estimatePositionMs(), this.currentTrackDurationMs);
+    apiClient.reportTimeline({
       ratingKey: this.currentTrackId,
       state,
       time,
-      duration: this.currentTrackDurationMs,
+      duration: part?.wholeDurationMs ?? this.currentTrackDurationMs,
+      ...(this.currentPlayQueue && { playQueue: this.currentPlayQueue }),
     }).catch((err: unknown) =>
       this.logger.warn(`[Plex] Timeline report failed: ${err}`)
     );
@@ -663,6 +1708,53 @@ export class VolumioAdapter {
     }
   }
 
+  // ── Radio helpers ──────────────────────────────────────────────────
+
+  /** The station a preview page started, or a fresh one when there is none or it can't be reopened. */
+  private async stationQueue(service: PlexService, ratingKey: string, playQueueId: string | undefined): Promise<PlayQueue> {
+    if (playQueueId) {
+      try {
+        return await service.openStationQueue(playQueueId);
+      } catch (err) {
+        this.logger.warn(`[Plex] Could not reopen station ${playQueueId}, starting a new one: ${err}`);
+      }
+    }
+    return service.createStationQueue(ratingKey);
+  }
+
+  /**
+   * Append more station tracks to the Volumio queue when a radio track starts
+   * and fewer than RADIO_LOW_WATER tracks are left after it. Runs in the
+   * background; failures are logged and retried on the next track.
+   */
+  private refillRadio(serverId: string | null, trackId: string | null): void {
+    const session = this.radioSession;
+    if (!session || session.refilling || !trackId || session.serverId !== serverId || !session.trackIds.has(trackId)) return;
+
+    const remaining = this.commandRouter.volumioGetQueue().length - 1 - this.commandRouter.stateMachine.currentPosition;
+    if (remaining >= RADIO_LOW_WATER) return;
+
+    session.refilling = true;
+    this._refillRadio(session)
+      .catch((err: unknown) => this.logger.warn(`[Plex] Radio refill failed: ${err}`))
+      .finally(() => { session.refilling = false; });
+  }
+
+  private async _refillRadio(session: RadioSession): Promise<void> {
+    const service = this.serviceFor(session.serverId);
+    const queue = await service.getPlayQueueWindow(session.playQueueId, session.lastItemId, RADIO_REFILL_COUNT);
+    const lastItem = queue.items[queue.items.length - 1];
+    if (!lastItem || this.radioSession !== session) return;
+
+    const items = this.playQueueToQueueItems(service, queue)
+      .map((item) => ({ ...item, uri: toServerUri(item.uri, session.serverId) }));
+    await this.commandRouter.addQueueItems(items);
+
+    session.lastItemId = lastItem.itemId;
+    for (const item of queue.items) session.trackIds.add(item.track.id);
+    this.logger.info(`[Plex] Radio: queued ${items.length} more track(s)`);
+  }
+
   // ── Internal helpers ───────────────────────────────────────────────
 
   private requireService(): PlexService {
@@ -672,6 +1764,16 @@ export class VolumioAdapter {
     return this.plexService;
   }
 
+  /** Service of the server a URI was scoped to — the default server's for unscoped URIs. */
+  private serviceFor(serverId: string | null): PlexService {
+    if (serverId === null) return this.requireService();
+    const server = this.servers.get(serverId);
+    if (!server) {
+      throw new Error(`Unknown Plex server: ${serverId}`);
+    }
+    return server.service;
+  }
+
   private getMpdPlugin(): MpdPlugin {
     const plugin = this.commandRouter.pluginManager.getPlugin("music_service", "mpd");
     if (!plugin) {
@@ -698,10 +1800,32 @@ export class VolumioAdapter {
           if (this.nextTrackId) {
             // Gapless advance: adopt the prefetched track's identity.
             this.currentTrackId = this.nextTrackId;
+            this.currentServerId = this.nextServerId;
+            this.currentPlayQueue = this.nextPlayQueue;
+            this.currentPart = this.nextPart;
+            this.currentQuality = this.nextQuality;
+            const normalization = this.nextNormalization;
+            const startAtMs = this.nextStartMs;
             this.nextTrackId = null;
+            this.nextServerId = null;
+            this.nextPlayQueue = null;
+            this.nextPart = null;
+            this.nextNormalization = null;
+            this.nextQuality = {};
+            this.nextStartMs = 0;
+            Promise.resolve()
+              .then(() => this.applyNormalization(this.getMpdPlugin(), normalization))
+              .catch((err: unknown) => this.logger.warn(`[Plex] Could not normalize the next track: ${err}`));
             this.pausedPositionMs = state.seek ?? 0;
             this.playbackStartTime = Date.now();
+            if (startAtMs > 0) {
+              this.logger.info(`[Plex] Starting track ${this.currentTrackId} at ${startAtMs}ms`);
+              Promise.resolve()
+                .then(() => this.seek(startAtMs))
+                .catch((err: unknown) => this.logger.warn(`[Plex] Could not seek into track ${this.currentTrackId}: ${err}`));
+            }
             this.startPlaybackTimer();
+            this.loadChapters(this.currentServerId, this.currentTrackId);
           } else {
             // Unknown transition — stop reporting until clearAddPlayTrack fires.
             this.currentTrackId = null;
@@ -715,6 +1839,11 @@ export class VolumioAdapter {
         if (typeof state.duration === "number" && state.duration > 0) {
           this.currentTrackDurationMs = state.duration * 1000;
         }
+        this.lastPlexState = state;
+        this.playbackStateListener?.();
+      } else if (state.uri) {
+        // Something other than Plex is playing.
+        this.leaveNormalization();
       }
       return original(state, serviceName);
     };
@@ -9,10 +9,12 @@ import type {
   NavigationList,
   NavigationListItem,
 } from "./types.js";
-import type { PlexService } from "../plex/plex-service.js";
-import type { Track } from "../types/index.js";
-import { encodePathSegment, shuffleArray } from "./uri-utils.js";
+import type { PlexService, RadioType } from "../plex/plex-service.js";
+import type { Track, Artist, Album, Hub, PaginatedResult, LibraryFilter } from "../types/index.js";
+import { encodePathSegment, shuffleArray, toServerUri, listingUri } from "./uri-utils.js";
 import type { PaginationState } from "./uri-utils.js";
+import { HI_RES_TIERS, qualityBadge } from "../core/audio-quality.js";
+import { resumeIndex } from "../core/resume.js";
 
 const SERVICE_NAME = "plex";
 
@@ -41,7 +43,66 @@ export const ALBUM_SORT_OPTIONS = [
   { label: "Recently Added (Oldest)",  sort: "addedAt:asc" },
 ] as const;
 
-export function browseRoot(): NavigationPage {
+export const TRACK_SORT_OPTIONS = [
+  { label: "By Title (A → Z)",        sort: "titleSort:asc" },
+  { label: "By Artist (A → Z)",       sort: "artist.titleSort:asc" },
+  { label: "Most Played",             sort: "viewCount:desc" },
+  { label: "Recently Played",         sort: "lastViewedAt:desc" },
+  { label: "Recently Added (Newest)", sort: "addedAt:desc" },
+  { label: "Recently Added (Oldest)", sort: "addedAt:asc" },
+  { label: "Highest Rated",           sort: "userRating:desc" },
+] as const;
+
+/** Filters offered next to the sort options of the artist and album listings. */
+export const FILTER_OPTIONS: ReadonlyArray<{ label: string; filter: LibraryFilter }> = [
+  ...[1960, 1970, 1980, 1990, 2000, 2010, 2020].map((decade) => ({
+    label: `${decade}s`,
+    filter: { field: "decade", operator: "=" as const, value: String(decade) },
+  })),
+  ...["FLAC", "ALAC", "MP3", "AAC"].map((codec) => ({
+    label: codec,
+    filter: { field: "audioCodec", operator: "=" as const, value: codec.toLowerCase() },
+  })),
+  { label: "Unplayed", filter: { field: "unwatched", operator: null, value: null } },
+];
+
+export const RADIO_TITLES: Record<RadioType, string> = {
+  artist: "Artist Radio",
+  album: "Album Radio",
+  track: "Track Radio",
+};
+
+/** Number of similar artists or albums listed on an artist or album page. */
+const SIMILAR_ITEM_COUNT = 12;
+
+/** Number of tracks in a "More Like This" set. */
+export const MORE_LIKE_THIS_COUNT = 50;
+
+/** Which spoken-word libraries the server has, each getting a root folder. */
+export interface SpokenWordLibraries {
+  audiobooks: boolean;
+  podcasts: boolean;
+}
+
+/** The Plex track that is playing, and whether it has chapter markers. */
+export interface NowPlaying {
+  trackId: string;
+  chaptered: boolean;
+}
+
+/**
+ * Build the Plex root page: the fixed browse folders followed by one list
+ * per home hub (Recently Added, Recently Played, Continue Listening).
+ * Audiobooks and Podcasts folders are added when libraries are marked as such.
+ * While a Plex track is playing, "Track Radio" and "More Like This" folders
+ * seeded from it are added, and a "Chapters" folder when the track has chapters.
+ */
+export function browseRoot(
+  service: PlexService,
+  hubs: Hub[],
+  nowPlaying: NowPlaying | null,
+  spokenWord: SpokenWordLibraries = { audiobooks: false, podcasts: false },
+): NavigationPage {
   const items: NavigationListItem[] = [
     {
       service: SERVICE_NAME,
@@ -57,6 +118,20 @@ export function browseRoot(): NavigationPage {
       uri: "plex/albums",
       icon: "fa fa-music",
     },
+    {
+      service: SERVICE_NAME,
+      type: "folder",
+      title: "Tracks",
+      uri: "plex/tracks",
+      icon: "fa fa-file-audio-o",
+    },
+    {
+      service: SERVICE_NAME,
+      type: "folder",
+      title: "Hi-Res",
+      uri: "plex/hires",
+      icon: "fa fa-diamond",
+    },
     {
       service: SERVICE_NAME,
       type: "folder",
@@ -64,8 +139,73 @@ export function browseRoot(): NavigationPage {
       uri: "plex/playlists",
       icon: "fa fa-list",
     },
+    {
+      service: SERVICE_NAME,
+      type: "folder",
+      title: "Genres",
+      uri: "plex/genres",
+      icon: "fa fa-tags",
+    },
+    {
+      service: SERVICE_NAME,
+      type: "folder",
+      title: "Top Rated",
+      uri: "plex/rated",
+      icon: "fa fa-star",
+    },
   ];
 
+  if (spokenWord.audiobooks) {
+    items.push({
+      service: SERVICE_NAME,
+      type: "folder",
+      title: "Audiobooks",
+      uri: "plex/audiobooks",
+      icon: "fa fa-book",
+    });
+  }
+  if (spokenWord.podcasts) {
+    items.push({
+      service: SERVICE_NAME,
+      type: "folder",
+      title: "Podcasts",
+      uri: "plex/podcasts",
+      icon: "fa fa-rss",
+    });
+  }
+
+  if (nowPlaying) {
+    items.push({
+      service: SERVICE_NAME,
+      type: "folder",
+      title: RADIO_TITLES.track,
+      uri: `plex/radio/track/${nowPlaying.trackId}`,
+      icon: "fa fa-podcast",
+    });
+    items.push({
+      service: SERVICE_NAME,
+      type: "folder",
+      title: "More Like This",
+      uri: `plex/similar/track/${nowPlaying.trackId}`,
+      icon: "fa fa-magic",
+    });
+  }
+  if (nowPlaying?.chaptered) {
+    items.push({
+      service: SERVICE_NAME,
+      type: "folder",
+      title: "Chapters",
+      uri: `plex/chapters/${nowPlaying.trackId}`,
+      icon: "fa fa-bookmark",
+    });
+  }
+
+  const hubLists: NavigationList[] = hubs.map((hub) => ({
+    title: hub.title,
+    availableListViews: ["list", "grid"],
+    items: hubToNavItems(service, hub),
+  }));
+
   return {
     navigation: {
       prev: { uri: "/" },
@@ -76,11 +216,34 @@ export function browseRoot(): NavigationPage {
           availableListViews: ["list", "grid"],
           items,
         },
+        ...hubLists,
       ],
     },
   };
 }
 
+/** Turn a hub's albums, artists, and tracks into browsable navigation items. */
+function hubToNavItems(service: PlexService, hub: Hub): NavigationListItem[] {
+  return [
+    ...hub.albums.map((album) => ({
+      service: SERVICE_NAME,
+      type: "folder" as const,
+      title: album.title,
+      artist: albumArtistLine(album),
+      ...(album.artworkUrl ? { albumart: service.getArtworkUrl(album.artworkUrl) } : {}),
+      uri: `plex/album/${encodePathSegment(album.trackListKey)}`,
+    })),
+    ...hub.artists.map((artist) => ({
+      service: SERVICE_NAME,
+      type: "folder" as const,
+      title: artist.title,
+      ...(artist.artworkUrl ? { albumart: service.getArtworkUrl(artist.artworkUrl) } : {}),
+      uri: `plex/artist/${encodePathSegment(artist.albumsKey)}`,
+    })),
+    ...hub.tracks.map((track) => trackToNavItem(service, track)),
+  ];
+}
+
 export async function browseArtists(
   service: PlexService,
   pagination: PaginationState,
@@ -96,10 +259,9 @@ export async function browseArtists(
   }
 
   const sort = pagination.sort ?? undefined;
-  const sortPart = sort ? `~${sort}` : "";
-  const baseUri = `plex/artists${sortPart}`;
+  const baseUri = listingUri("plex/artists", pagination.sort, pagination.filters);
 
-  const result = await service.getArtistsPaginated(libraryKey, pagination.offset, options.pageSize, sort);
+  const result = await service.getArtistsPaginated(libraryKey, pagination.offset, options.pageSize, sort, pagination.filters);
 
   const sortList: NavigationList = {
     title: "Sort by",
@@ -108,7 +270,7 @@ export async function browseArtists(
       service: SERVICE_NAME,
       type: "folder" as const,
       title: option.label,
-      uri: `plex/artists~${option.sort}`,
+      uri: listingUri("plex/artists", option.sort, pagination.filters),
       icon: "fa fa-sort",
     })),
   };
@@ -165,6 +327,7 @@ export async function browseArtists(
       prev: { uri: "plex" },
       lists: [
         sortList,
+        filterList("plex/artists", pagination),
         {
           title: "Artists",
           icon: "fa fa-microphone",
@@ -176,12 +339,19 @@ export async function browseArtists(
   };
 }
 
+/**
+ * An artist's albums, followed by Popular Tracks and Artist Radio folders
+ * and a list of similar artists.
+ */
 export async function browseArtist(service: PlexService, albumsKey: string): Promise<NavigationPage> {
-  const albums = await service.getArtistAlbums(albumsKey);
-
   // Extract artist ratingKey from albumsKey (e.g. "/library/metadata/123/children" → "123")
   const artistId = albumsKey.split("/").slice(-2, -1)[0];
 
+  const [albums, similarArtists] = await Promise.all([
+    service.getArtistAlbums(albumsKey),
+    artistId ? optional(service.getSimilarArtists(artistId, SIMILAR_ITEM_COUNT)) : [],
+  ]);
+
   const items: NavigationListItem[] = albums.map((album) => ({
     service: SERVICE_NAME,
     type: "folder" as const,
@@ -191,7 +361,7 @@ export async function browseArtist(service: PlexService, albumsKey: string): Pro
     uri: `plex/album/${encodePathSegment(album.trackListKey)}`,
   }));
 
-  // Add "Popular Tracks" folder after the albums
+  // Add "Popular Tracks" and "Artist Radio" folders after the albums
   if (artistId) {
     items.push({
       service: SERVICE_NAME,
@@ -200,18 +370,40 @@ export async function browseArtist(service: PlexService, albumsKey: string): Pro
       uri: `plex/popular/${artistId}`,
       icon: "fa fa-fire",
     });
+    items.push({
+      service: SERVICE_NAME,
+      type: "folder",
+      title: RADIO_TITLES.artist,
+      uri: `plex/radio/artist/${artistId}`,
+      icon: "fa fa-podcast",
+    });
+  }
+
+  const lists: NavigationList[] = [
+    {
+      title: albums[0]?.artist ?? "Artist",
+      availableListViews: ["list", "grid"],
+      items,
+    },
+  ];
+  if (similarArtists.length > 0) {
+    lists.push({
+      title: "Similar Artists",
+      availableListViews: ["list", "grid"],
+      items: similarArtists.map((artist) => ({
+        service: SERVICE_NAME,
+        type: "folder" as const,
+        title: artist.title,
+        ...(artist.artworkUrl ? { albumart: service.getArtworkUrl(artist.artworkUrl) } : {}),
+        uri: `plex/artist/${encodePathSegment(artist.albumsKey)}`,
+      })),
+    });
   }
 
   return {
     navigation: {
       prev: { uri: "plex/artists" },
-      lists: [
-        {
-          title: albums[0]?.artist ?? "Artist",
-          availableListViews: ["list", "grid"],
-          items,
-        },
-      ],
+      lists,
     },
   };
 }
@@ -238,6 +430,30 @@ export async function browsePopularTracks(service: PlexService, artistId: string
   };
 }
 
+export async function browseRatedTracks(service: PlexService, options: BrowseOptions): Promise<NavigationPage> {
+  const tracks = await service.getTopRatedTracks(options.pageSize);
+
+  return {
+    navigation: {
+      prev: { uri: "plex" },
+      info: {
+        service: SERVICE_NAME,
+        type: "song",
+        uri: "plex/rated",
+        albumart: "",
+      },
+      lists: [
+        {
+          title: "Top Rated",
+          icon: "fa fa-star",
+          availableListViews: ["list"],
+          items: tracks.map((track) => trackToNavItem(service, track)),
+        },
+      ],
+    },
+  };
+}
+
 export async function browseAlbums(
   service: PlexService,
   pagination: PaginationState,
@@ -253,10 +469,9 @@ export async function browseAlbums(
   }
 
   const sort = pagination.sort ?? undefined;
-  const sortPart = sort ? `~${sort}` : "";
-  const baseUri = `plex/albums${sortPart}`;
+  const baseUri = listingUri("plex/albums", pagination.sort, pagination.filters);
 
-  const result = await service.getAlbumsPaginated(libraryKey, pagination.offset, options.pageSize, sort);
+  const result = await service.getAlbumsPaginated(libraryKey, pagination.offset, options.pageSize, sort, pagination.filters);
 
   const sortList: NavigationList = {
     title: "Sort by",
@@ -265,7 +480,7 @@ export async function browseAlbums(
       service: SERVICE_NAME,
       type: "folder" as const,
       title: option.label,
-      uri: `plex/albums~${option.sort}`,
+      uri: listingUri("plex/albums", option.sort, pagination.filters),
       icon: "fa fa-sort",
     })),
   };
@@ -290,7 +505,7 @@ export async function browseAlbums(
     service: SERVICE_NAME,
     type: "folder" as const,
     title: album.title,
-    artist: album.artist,
+    artist: albumArtistLine(album),
     ...(album.artworkUrl ? { albumart: service.getArtworkUrl(album.artworkUrl) } : {}),
     uri: `plex/album/${encodePathSegment(album.trackListKey)}`,
   })));
@@ -323,6 +538,7 @@ export async function browseAlbums(
       prev: { uri: "plex" },
       lists: [
         sortList,
+        filterList("plex/albums", pagination),
         {
           title: "Albums",
           availableListViews: ["list", "grid"],
@@ -333,12 +549,156 @@ export async function browseAlbums(
   };
 }
 
+/**
+ * One page of every track in a library. The info header makes the page
+ * queueable as shown (sorted, from its offset) via explodeUri.
+ */
+export async function browseTracks(
+  service: PlexService,
+  pagination: PaginationState,
+  options: BrowseOptions,
+): Promise<NavigationPage> {
+  const libraries = await service.getLibraries();
+  let libraryKey = pagination.libraryKey;
+  if (libraryKey === null) {
+    libraryKey = libraries[0]?.id ?? null;
+    if (!libraryKey) {
+      return { navigation: { prev: { uri: "plex" }, lists: [{ title: "Tracks", availableListViews: ["list"], items: [] }] } };
+    }
+  }
+
+  const sort = pagination.sort ?? undefined;
+  const baseUri = listingUri("plex/tracks", pagination.sort, pagination.filters);
+  const pageUri = pagination.libraryKey === null ? baseUri : `${baseUri}@${libraryKey}:${pagination.offset}`;
+
+  const result = await service.getTracksPaginated(libraryKey, pagination.offset, options.pageSize, sort, pagination.filters);
+
+  const sortList: NavigationList = {
+    title: "Sort by",
+    availableListViews: ["list"],
+    items: TRACK_SORT_OPTIONS.map((option) => ({
+      service: SERVICE_NAME,
+      type: "folder" as const,
+      title: option.label,
+      uri: listingUri("plex/tracks", option.sort, pagination.filters),
+      icon: "fa fa-sort",
+    })),
+  };
+
+  const items: NavigationListItem[] = [];
+
+  if (pagination.offset > 0) {
+    const prevOffset = Math.max(0, pagination.offset - options.pageSize);
+    const prevUri = prevOffset === 0
+      ? baseUri
+      : `${baseUri}@${libraryKey}:${prevOffset}`;
+    items.push({
+      service: SERVICE_NAME,
+      type: "item",
+      title: "Previous page",
+      uri: prevUri,
+      icon: "fa fa-arrow-circle-up",
+    });
+  }
+
+  items.push(...result.items.map((track) => trackToNavItem(service, track)));
+
+  const nextOffset = pagination.offset + result.items.length;
+  if (nextOffset < result.totalSize) {
+    items.push({
+      service: SERVICE_NAME,
+      type: "item",
+      title: "Load more...",
+      uri: `${baseUri}@${libraryKey}:${nextOffset}`,
+      icon: "fa fa-arrow-circle-down",
+    });
+  } else {
+    const currentLibIndex = libraries.findIndex((l) => l.id === libraryKey);
+    const nextLib = libraries[currentLibIndex + 1];
+    if (nextLib) {
+      items.push({
+        service: SERVICE_NAME,
+        type: "item",
+        title: "Load more...",
+        uri: `${baseUri}@${nextLib.id}:0`,
+        icon: "fa fa-arrow-circle-down",
+      });
+    }
+  }
+
+  return {
+    navigation: {
+      prev: { uri: "plex" },
+      info: {
+        service: SERVICE_NAME,
+        type: "song",
+        uri: pageUri,
+        albumart: "",
+      },
+      lists: [
+        sortList,
+        {
+          title: "Tracks",
+          availableListViews: ["list"],
+          items,
+        },
+      ],
+    },
+  };
+}
+
+/** Tracks shown per tier on the Hi-Res page; "More..." opens the whole tier. */
+const HI_RES_PREVIEW_SIZE = 25;
+
+/**
+ * Hi-res tracks of the first library, one list per quality tier. Each tier is
+ * its own server query, and its "More..." item opens the All Tracks listing
+ * with the tier's filters so it can be sorted, paged and queued.
+ */
+export async function browseHiRes(service: PlexService, options: BrowseOptions): Promise<NavigationPage> {
+  const libraries = await service.getLibraries();
+  const libraryKey = libraries[0]?.id;
+  const limit = Math.min(HI_RES_PREVIEW_SIZE, options.pageSize);
+  const results = libraryKey
+    ? await Promise.all(HI_RES_TIERS.map((tier) => service.getTracksPaginated(libraryKey, 0, limit, undefined, tier.filters)))
+    : [];
+
+  const lists: NavigationList[] = [];
+  HI_RES_TIERS.forEach((tier, index) => {
+    const result = results[index];
+    if (!result || result.items.length === 0) return;
+    const items = result.items.map((track) => trackToNavItem(service, track));
+    if (result.totalSize > result.items.length) {
+      items.push({
+        service: SERVICE_NAME,
+        type: "folder",
+        title: "More...",
+        uri: listingUri("plex/tracks", null, tier.filters),
+        icon: "fa fa-arrow-circle-right",
+      });
+    }
+    lists.push({ title: `${tier.label} (${result.totalSize})`, availableListViews: ["list"], items });
+  });
+
+  if (lists.length === 0) {
+    lists.push({ title: "No hi-res tracks found", availableListViews: ["list"], items: [] });
+  }
+
+  return { navigation: { prev: { uri: "plex" }, lists } };
+}
+
 export async function browseAlbum(
   service: PlexService,
   trackListKey: string,
   options: BrowseOptions,
 ): Promise<NavigationPage> {
-  const tracks = await service.getAlbumTracks(trackListKey);
+  // Extract album ratingKey from trackListKey (e.g. "/library/metadata/1001/children" → "1001")
+  const albumId = trackListKey.split("/").slice(-2, -1)[0];
+
+  const [tracks, similarAlbums] = await Promise.all([
+    service.getAlbumTracks(trackListKey),
+    albumId ? optional(service.getSonicallySimilarAlbums(albumId, SIMILAR_ITEM_COUNT)) : [],
+  ]);
 
   const lists: NavigationList[] = [];
 
@@ -355,12 +715,44 @@ export async function browseAlbum(
     });
   }
 
+  // Badge the album when every track shares the same hi-res format.
+  const badges = new Set(tracks.map(qualityBadge));
+  const [albumBadge] = badges.size === 1 ? badges : [null];
+  const albumTitle = tracks[0]?.album ?? "Album";
   lists.push({
-    title: tracks[0]?.album ?? "Album",
+    title: albumBadge ? `${albumTitle} · ${albumBadge}` : albumTitle,
     availableListViews: ["list"],
     items: tracks.map((track) => trackToNavItem(service, track)),
   });
 
+  if (albumId) {
+    lists.push({
+      availableListViews: ["list"],
+      items: [{
+        service: SERVICE_NAME,
+        type: "folder",
+        title: RADIO_TITLES.album,
+        uri: `plex/radio/album/${albumId}`,
+        icon: "fa fa-podcast",
+      }],
+    });
+  }
+
+  if (similarAlbums.length > 0) {
+    lists.push({
+      title: "Sonically Similar",
+      availableListViews: ["list", "grid"],
+      items: similarAlbums.map((album) => ({
+        service: SERVICE_NAME,
+        type: "folder" as const,
+        title: album.title,
+        artist: album.artist,
+        ...(album.artworkUrl ? { albumart: service.getArtworkUrl(album.artworkUrl) } : {}),
+        uri: `plex/album/${encodePathSegment(album.trackListKey)}`,
+      })),
+    });
+  }
+
   const firstTrack = tracks[0];
   const info: NavigationInfo | undefined = firstTrack
     ? {
@@ -493,6 +885,208 @@ export async function browsePlaylist(
   };
 }
 
+export async function browseGenres(service: PlexService): Promise<NavigationPage> {
+  const libraries = await service.getLibraries();
+  const genresByLibrary = await Promise.all(
+    libraries.map((lib) => service.getGenres(lib.id)),
+  );
+
+  // One list per library so genres with the same name in different libraries stay apart
+  const lists: NavigationList[] = libraries.map((lib, index) => ({
+    title: libraries.length > 1 ? `Genres — ${lib.title}` : "Genres",
+    icon: "fa fa-tags",
+    availableListViews: ["list", "grid"],
+    items: (genresByLibrary[index] ?? []).map((genre) => ({
+      service: SERVICE_NAME,
+      type: "folder" as const,
+      title: genre.title,
+      uri: `plex/genre/${encodePathSegment(genre.libraryId)}/${encodePathSegment(genre.id)}`,
+      icon: "fa fa-tag",
+    })),
+  }));
+
+  return {
+    navigation: {
+      prev: { uri: "plex" },
+      lists,
+    },
+  };
+}
+
+export function browseGenre(libraryKey: string, genreId: string): NavigationPage {
+  const genreUri = `plex/genre/${encodePathSegment(libraryKey)}/${encodePathSegment(genreId)}`;
+
+  return {
+    navigation: {
+      prev: { uri: "plex/genres" },
+      // The info header makes the whole genre queueable via explodeUri
+      info: {
+        service: SERVICE_NAME,
+        type: "song",
+        uri: genreUri,
+        albumart: "",
+      },
+      lists: [
+        {
+          availableListViews: ["list"],
+          items: [
+            {
+              service: SERVICE_NAME,
+              type: "folder",
+              title: "Artists",
+              uri: `${genreUri}/artists`,
+              icon: "fa fa-microphone",
+            },
+            {
+              service: SERVICE_NAME,
+              type: "folder",
+              title: "Albums",
+              uri: `${genreUri}/albums`,
+              icon: "fa fa-music",
+            },
+          ],
+        },
+      ],
+    },
+  };
+}
+
+export async function browseGenreArtists(
+  service: PlexService,
+  libraryKey: string,
+  genreId: string,
+  offset: number,
+  options: BrowseOptions,
+): Promise<NavigationPage> {
+  const genreUri = `plex/genre/${encodePathSegment(libraryKey)}/${encodePathSegment(genreId)}`;
+  const result = await service.getGenreArtistsPaginated(libraryKey, genreId, offset, options.pageSize);
+
+  const items = pageItems(`${genreUri}/artists`, result, options, (artist: Artist) => ({
+    service: SERVICE_NAME,
+    type: "folder" as const,
+    title: artist.title,
+    ...(artist.artworkUrl ? { albumart: service.getArtworkUrl(artist.artworkUrl) } : {}),
+    uri: `plex/artist/${encodePathSegment(artist.albumsKey)}`,
+  }));
+
+  return {
+    navigation: {
+      prev: { uri: genreUri },
+      lists: [
+        {
+          title: "Artists",
+          icon: "fa fa-microphone",
+          availableListViews: ["list", "grid"],
+          items,
+        },
+      ],
+    },
+  };
+}
+
+export async function browseGenreAlbums(
+  service: PlexService,
+  libraryKey: string,
+  genreId: string,
+  offset: number,
+  options: BrowseOptions,
+): Promise<NavigationPage> {
+  const genreUri = `plex/genre/${encodePathSegment(libraryKey)}/${encodePathSegment(genreId)}`;
+  const result = await service.getGenreAlbumsPaginated(libraryKey, genreId, offset, options.pageSize);
+
+  const items = pageItems(`${genreUri}/albums`, result, options, (album: Album) => ({
+    service: SERVICE_NAME,
+    type: "folder" as const,
+    title: album.title,
+    artist: albumArtistLine(album),
+    ...(album.artworkUrl ? { albumart: service.getArtworkUrl(album.artworkUrl) } : {}),
+    uri: `plex/album/${encodePathSegment(album.trackListKey)}`,
+  }));
+
+  return {
+    navigation: {
+      prev: { uri: genreUri },
+      lists: [
+        {
+          title: "Albums",
+          availableListViews: ["list", "grid"],
+          items,
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * Preview a radio station: starts a station play queue on the server and
+ * lists its first tracks. The info header carries the queue's id, so
+ * explodeUri queues the station that was previewed.
+ */
+export async function browseRadio(service: PlexService, type: RadioType, id: string): Promise<NavigationPage> {
+  const queue = await service.createStationQueue(id);
+  const radioUri = `plex/radio/${type}/${id}/${queue.id}`;
+
+  const prevUri =
+    type === "artist" ? `plex/artist/${encodePathSegment(`/library/metadata/${id}/children`)}`
+    : type === "album" ? `plex/album/${encodePathSegment(`/library/metadata/${id}/children`)}`
+    : "plex";
+
+  const firstTrack = queue.items[0]?.track;
+
+  return {
+    navigation: {
+      prev: { uri: prevUri },
+      info: {
+        service: SERVICE_NAME,
+        type: "song",
+        uri: radioUri,
+        albumart: firstTrack?.artworkUrl ? service.getArtworkUrl(firstTrack.artworkUrl) : "",
+      },
+      lists: [
+        {
+          title: RADIO_TITLES[type],
+          icon: "fa fa-podcast",
+          availableListViews: ["list"],
+          items: queue.items.map((item) => trackToNavItem(service, item.track)),
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * The tracks that sound most like a track, from Plex's sonic analysis.
+ * The page header queues them all as a "More Like This" set.
+ */
+export async function browseSimilarTracks(service: PlexService, trackId: string): Promise<NavigationPage> {
+  const tracks = await service.getSonicallySimilarTracks(trackId, MORE_LIKE_THIS_COUNT);
+
+  const firstTrack = tracks[0];
+  const info: NavigationInfo | undefined = firstTrack
+    ? {
+        service: SERVICE_NAME,
+        type: "song",
+        uri: `plex/similar/track/${trackId}`,
+        albumart: firstTrack.artworkUrl ? service.getArtworkUrl(firstTrack.artworkUrl) : "",
+      }
+    : undefined;
+
+  return {
+    navigation: {
+      prev: { uri: "plex" },
+      ...(info && { info }),
+      lists: [
+        {
+          title: tracks.length > 0 ? "More Like This" : "No sonically similar tracks found",
+          icon: "fa fa-magic",
+          availableListViews: ["list"],
+          items: tracks.map((track) => trackToNavItem(service, track)),
+        },
+      ],
+    },
+  };
+}
+
 export async function browseShuffleAlbum(service: PlexService, trackListKey: string): Promise<NavigationPage> {
   const tracks = await service.getAlbumTracks(trackListKey);
   shuffleArray(tracks);
@@ -564,15 +1158,367 @@ export async function browseShufflePlaylist(service: PlexService, itemsKey: stri
   };
 }
 
+// ── Audiobooks and podcasts ──────────────────────────────────────────
+
+/** Authors across every audiobook library. */
+export async function browseAudiobooks(service: PlexService): Promise<NavigationPage> {
+  const authors = await service.getAllArtists("audiobooks");
+  return {
+    navigation: {
+      prev: { uri: "plex" },
+      lists: [{
+        title: authors.length > 0 ? "Audiobooks" : "No audiobooks found",
+        icon: "fa fa-book",
+        availableListViews: ["list", "grid"],
+        items: authors.map((author) => ({
+          service: SERVICE_NAME,
+          type: "folder" as const,
+          title: author.title,
+          ...(author.artworkUrl ? { albumart: service.getArtworkUrl(author.artworkUrl) } : {}),
+          uri: `plex/audiobooks/author/${encodePathSegment(author.albumsKey)}`,
+        })),
+      }],
+    },
+  };
+}
+
+/** An author's books. */
+export async function browseAuthor(service: PlexService, albumsKey: string): Promise<NavigationPage> {
+  const books = await service.getArtistAlbums(albumsKey);
+  return {
+    navigation: {
+      prev: { uri: "plex/audiobooks" },
+      lists: [{
+        title: books[0]?.artist ?? "Author",
+        availableListViews: ["list", "grid"],
+        items: books.map((book) => ({
+          service: SERVICE_NAME,
+          type: "folder" as const,
+          title: book.title,
+          artist: book.artist,
+          ...(book.artworkUrl ? { albumart: service.getArtworkUrl(book.artworkUrl) } : {}),
+          uri: `plex/audiobooks/book/${encodePathSegment(book.trackListKey)}`,
+        })),
+      }],
+    },
+  };
+}
+
+/**
+ * A book's chapters, headed by a "Continue" entry for the chapter that was
+ * left off. Chapters play from `plex/audiobooks/chapter/{id}`, which always
+ * resumes where the chapter was left off. A book that is a single file also
+ * gets a "Chapters" folder with the file's chapter markers.
+ */
+export async function browseBook(service: PlexService, trackListKey: string): Promise<NavigationPage> {
+  const chapters = await service.getAlbumTracks(trackListKey);
+  const chapterItem = (chapter: Track): NavigationListItem => ({
+    ...trackToNavItem(service, chapter),
+    uri: `plex/audiobooks/chapter/${chapter.id}`,
+  });
+  const page = spokenWordPage(service, {
+    prev: "plex/audiobooks",
+    uri: `plex/audiobooks/book/${encodePathSegment(trackListKey)}`,
+    title: chapters[0]?.album ?? "Book",
+    tracks: chapters,
+    toItem: chapterItem,
+  });
+  const [file] = chapters;
+  if (file && chapters.length === 1) {
+    const lists = page.navigation.lists;
+    lists[lists.length - 1]?.items.push({
+      service: SERVICE_NAME,
+      type: "folder",
+      title: "Chapters",
+      uri: `plex/chapters/${file.id}`,
+      icon: "fa fa-bookmark",
+    });
+  }
+  return page;
+}
+
+/**
+ * The chapter markers of a track. Each entry plays the track from the
+ * start of its chapter.
+ */
+export async function browseChapters(service: PlexService, trackId: string): Promise<NavigationPage> {
+  const track = await service.getTrack(trackId);
+  const albumart = track.artworkUrl ? service.getArtworkUrl(track.artworkUrl) : "";
+  return {
+    navigation: {
+      prev: { uri: "plex" },
+      info: {
+        service: SERVICE_NAME,
+        type: "song",
+        uri: `plex/track/${track.id}`,
+        albumart,
+        album: track.album,
+        artist: track.artist,
+      },
+      lists: [{
+        title: track.chapters.length > 0 ? track.title : "No chapters found",
+        icon: "fa fa-bookmark",
+        availableListViews: ["list"],
+        items: track.chapters.map((chapter) => ({
+          service: SERVICE_NAME,
+          type: "song" as const,
+          title: chapter.title,
+          artist: track.artist,
+          album: `${track.title} · ${formatPosition(chapter.startMs)}`,
+          ...(albumart && { albumart }),
+          uri: `plex/chapters/${track.id}/${chapter.startMs}`,
+          duration: Math.round((chapter.endMs - chapter.startMs) / 1000),
+        })),
+      }],
+    },
+  };
+}
+
+/** Shows across every podcast library. */
+export async function browsePodcasts(service: PlexService): Promise<NavigationPage> {
+  const shows = await service.getAllArtists("podcasts");
+  return {
+    navigation: {
+      prev: { uri: "plex" },
+      lists: [{
+        title: shows.length > 0 ? "Podcasts" : "No podcasts found",
+        icon: "fa fa-rss",
+        availableListViews: ["list", "grid"],
+        items: shows.map((show) => ({
+          service: SERVICE_NAME,
+          type: "folder" as const,
+          title: show.title,
+          ...(show.artworkUrl ? { albumart: service.getArtworkUrl(show.artworkUrl) } : {}),
+          uri: `plex/podcasts/show/${show.id}`,
+        })),
+      }],
+    },
+  };
+}
+
+/** A show's episodes, headed by a "Continue" entry for an episode that was left off. */
+export async function browseShow(service: PlexService, showId: string): Promise<NavigationPage> {
+  const episodes = await service.getArtistTracks(showId);
+  const episodeItem = (episode: Track): NavigationListItem => ({
+    ...trackToNavItem(service, episode),
+    uri: `plex/podcasts/episode/${episode.id}`,
+  });
+  return spokenWordPage(service, {
+    prev: "plex/podcasts",
+    uri: `plex/podcasts/show/${showId}`,
+    title: episodes[0]?.artist ?? "Show",
+    tracks: episodes,
+    toItem: episodeItem,
+  });
+}
+
+/** The page of a book or show: a "Continue" list when an item was left off, then every item. */
+function spokenWordPage(
+  service: PlexService,
+  page: { prev: string; uri: string; title: string; tracks: Track[]; toItem: (track: Track) => NavigationListItem },
+): NavigationPage {
+  const lists: NavigationList[] = [];
+  const resumeAt = page.tracks[resumeIndex(page.tracks)];
+  if (resumeAt) {
+    const item = page.toItem(resumeAt);
+    lists.push({
+      title: "Continue",
+      icon: "fa fa-play-circle",
+      availableListViews: ["list"],
+      items: [{ ...item, title: `${item.title} (${formatPosition(resumeAt.viewOffset ?? 0)})` }],
+    });
+  }
+  lists.push({ title: page.title, availableListViews: ["list"], items: page.tracks.map(page.toItem) });
+
+  const first = page.tracks[0];
+  const info: NavigationInfo | undefined = first
+    ? {
+        service: SERVICE_NAME,
+        type: "song",
+        uri: page.uri,
+        albumart: first.artworkUrl ? service.getArtworkUrl(first.artworkUrl) : "",
+        album: first.album,
+        artist: first.artist,
+      }
+    : undefined;
+
+  return { navigation: { prev: { uri: page.prev }, ...(info && { info }), lists } };
+}
+
+/**
+ * Similar items are an extra: servers without sonic analysis (or a Plex
+ * Pass) reject these requests, and the page shows without them.
+ */
+function optional<T>(items: Promise<T[]>): Promise<T[]> {
+  return items.catch(() => []);
+}
+
+/** A position in milliseconds as "m:ss" or "h:mm:ss". */
+function formatPosition(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  const [h, m, s] = [Math.floor(total / 3600), Math.floor(total / 60) % 60, total % 60];
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
+
+/** A configured server other than the default one, browsed under plex/s/{id}. */
+export interface ServerSummary {
+  /** The server's machineIdentifier */
+  id: string;
+  name: string;
+}
+
+/**
+ * Shown instead of a browse page when the server refuses our token. The item
+ * retries the page the user asked for, so it works again once they've signed in.
+ */
+export function browseSignIn(uri: string, serverName: string | null): NavigationPage {
+  return {
+    navigation: {
+      prev: { uri: uri === "plex" ? "/" : "plex" },
+      lists: [
+        {
+          title: "Sign in to Plex",
+          icon: "fa fa-sign-in",
+          availableListViews: ["list"],
+          items: [
+            {
+              service: SERVICE_NAME,
+              type: "folder",
+              title: `${serverName ?? "Your Plex server"} no longer accepts the saved sign-in`,
+              artist: "Open Settings > Plugins > Plex and use Login with Plex, then tap here to try again",
+              uri,
+              icon: "fa fa-refresh",
+            },
+          ],
+        },
+      ],
+    },
+  };
+}
+
+/** The "Servers" list appended to the default server's root page. */
+export function serverList(servers: ServerSummary[]): NavigationList {
+  return {
+    title: "Servers",
+    icon: "fa fa-server",
+    availableListViews: ["list", "grid"],
+    items: servers.map((server) => ({
+      service: SERVICE_NAME,
+      type: "folder",
+      title: server.name,
+      uri: toServerUri("plex", server.id),
+      icon: "fa fa-server",
+    })),
+  };
+}
+
+/**
+ * Rewrite every URI of a page built for a non-default server into that
+ * server's plex/s/{id}/… namespace. The server's root page leads back to the
+ * Plex root, where the server list lives.
+ */
+export function scopeToServer(page: NavigationPage, serverId: string): NavigationPage {
+  const { prev, info, lists } = page.navigation;
+  return {
+    navigation: {
+      prev: { uri: prev.uri === "/" ? "plex" : toServerUri(prev.uri, serverId) },
+      ...(info && { info: { ...info, uri: toServerUri(info.uri, serverId) } }),
+      lists: lists.map((list) => ({
+        ...list,
+        items: list.items.map((item) => ({ ...item, uri: toServerUri(item.uri, serverId) })),
+      })),
+    },
+  };
+}
+
 export function trackToNavItem(service: PlexService, track: Track): NavigationListItem {
+  const badge = qualityBadge(track);
   return {
     service: SERVICE_NAME,
     type: "song",
     title: track.title,
     artist: track.artist,
-    album: track.album,
+    album: badge ? `${track.album} · ${badge}` : track.album,
     ...(track.artworkUrl ? { albumart: service.getArtworkUrl(track.artworkUrl) } : {}),
     uri: `plex/track/${track.id}`,
     duration: Math.round(track.duration / 1000),
   };
 }
+
+/** The artist line of an album in a listing, followed by its hi-res badge when it has one. */
+function albumArtistLine(album: Album): string {
+  return album.qualityBadge ? `${album.artist} · ${album.qualityBadge}` : album.artist;
+}
+
+/**
+ * The "Filter by" chooser of a listing. Picking an option sets that field's
+ * filter (replacing any other value for it) and keeps the sort; picking an
+ * active option again removes it.
+ */
+function filterList(base: string, pagination: PaginationState): NavigationList {
+  const { sort, filters } = pagination;
+  const isActive = (filter: LibraryFilter) =>
+    filters.some((f) => f.field === filter.field && f.operator === filter.operator && f.value === filter.value);
+
+  const items: NavigationListItem[] = FILTER_OPTIONS.map(({ label, filter }) => {
+    const others = filters.filter((f) => f.field !== filter.field);
+    return {
+      service: SERVICE_NAME,
+      type: "folder" as const,
+      title: label,
+      uri: listingUri(base, sort, isActive(filter) ? others : [...others, filter]),
+      icon: isActive(filter) ? "fa fa-check-square-o" : "fa fa-square-o",
+    };
+  });
+  if (filters.length > 0) {
+    items.push({
+      service: SERVICE_NAME,
+      type: "folder",
+      title: "Clear filters",
+      uri: listingUri(base, sort, []),
+      icon: "fa fa-times",
+    });
+  }
+
+  return { title: "Filter by", icon: "fa fa-filter", availableListViews: ["list"], items };
+}
+
+/**
+ * Wrap one page of results in "Previous page" / "Load more..." items.
+ * Page URIs take the form `{baseUri}@{offset}`, with the first page at plain `baseUri`.
+ */
+function pageItems<T>(
+  baseUri: string,
+  result: PaginatedResult<T>,
+  options: BrowseOptions,
+  toItem: (item: T) => NavigationListItem,
+): NavigationListItem[] {
+  const items: NavigationListItem[] = [];
+
+  if (result.offset > 0) {
+    const prevOffset = Math.max(0, result.offset - options.pageSize);
+    items.push({
+      service: SERVICE_NAME,
+      type: "item",
+      title: "Previous page",
+      uri: prevOffset === 0 ? baseUri : `${baseUri}@${prevOffset}`,
+      icon: "fa fa-arrow-circle-up",
+    });
+  }
+
+  items.push(...result.items.map(toItem));
+
+  const nextOffset = result.offset + result.items.length;
+  if (nextOffset < result.totalSize) {
+    items.push({
+      service: SERVICE_NAME,
+      type: "item",
+      title: "Load more...",
+      uri: `${baseUri}@${nextOffset}`,
+      icon: "fa fa-arrow-circle-down",
+    });
+  }
+
+  return items;
+}
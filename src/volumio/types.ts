@@ -29,6 +29,18 @@ export interface VolumioCoreCommand {
   servicePushState(state: VolumioState, serviceName: string): void;
   volumioAddToBrowseSources(source: BrowseSource): void;
   volumioRemoveToBrowseSources(source: BrowseSource): void;
+  /** Current contents of Volumio's play queue. */
+  volumioGetQueue(): QueueItem[];
+  /** Append items to the end of Volumio's play queue. */
+  addQueueItems(items: QueueItem[]): PromiseLike<unknown>;
+  /** Empty Volumio's play queue. */
+  volumioClearQueue(): PromiseLike<unknown>;
+  /** Play the queue from the item at `index`, through the owning service's clearAddPlayTrack. */
+  volumioPlay(index?: number): PromiseLike<unknown>;
+  /** Set the output volume (0–100). */
+  volumiosetvolume(volume: number): PromiseLike<unknown>;
+  volumioRandom(enabled: boolean): PromiseLike<unknown>;
+  volumioRepeat(repeat: boolean, repeatSingle: boolean): PromiseLike<unknown>;
 
   stateMachine: VolumioStateMachine;
   pluginManager: VolumioPluginManager;
@@ -39,6 +51,10 @@ export interface VolumioStateMachine {
   setConsumeUpdateService(service: string | undefined, state?: boolean, remove?: boolean): void;
   previous(): PromiseLike<unknown>;
   prefetchDone: boolean;
+  /** Index of the playing track in the queue. */
+  currentPosition: number;
+  /** Whether the queue is played shuffled. */
+  currentRandom: boolean;
 }
 
 /** Volumio plugin manager — used to get references to other plugins. */
@@ -82,6 +98,12 @@ export interface VolumioState {
   samplerate?: string;
   bitdepth?: string;
   trackType?: string;
+  /** Whether the Plex track is played from the original file or transcoded */
+  streamMode?: "direct" | "transcode";
+  volume?: number;
+  random?: boolean;
+  repeat?: boolean;
+  repeatSingle?: boolean;
 }
 
 // ── Queue ────────────────────────────────────────────────────────────
@@ -99,6 +121,26 @@ export interface QueueItem {
   trackType?: string;
   samplerate?: string;
   bitdepth?: string;
+  /** Plex play queue the item was queued from (absent for locally built queues) */
+  playQueueID?: string;
+  /** The item's entry within that play queue */
+  playQueueItemID?: string;
+  /** Resume where it was left off whatever the resume policy — set on audiobook chapters and podcast episodes */
+  resume?: boolean;
+  /** Start playback this many milliseconds in — set when playing from a chapter */
+  startMs?: number;
+  /** Where the part starts within the whole track, in milliseconds — set on the parts of a multi-part track */
+  partOffsetMs?: number;
+  /** Duration of the whole track, in milliseconds — set on the parts of a multi-part track */
+  wholeDurationMs?: number;
+  /** Plex's track gain in dB — set when Plex has analysed the track's loudness */
+  trackGain?: number;
+  /** Plex's album gain in dB — set when the album was analysed as a whole */
+  albumGain?: number;
+  /** Track peak as a linear sample value (1.0 = full scale) */
+  trackPeak?: number;
+  /** Album peak as a linear sample value */
+  albumPeak?: number;
 }
 
 // ── Browse navigation ────────────────────────────────────────────────
@@ -156,6 +198,19 @@ export interface NavigationListItem {
   duration?: number;
 }
 
+// ── Playlists ────────────────────────────────────────────────────────
+
+/**
+ * Payload of Volumio's playlist commands ("Add to Playlist", "Remove from
+ * playlist", "Save queue as playlist", ...). `name` is the playlist title;
+ * `uri` is the browse or queue URI the command applies to.
+ */
+export interface PlaylistCommand {
+  name: string;
+  service?: string;
+  uri?: string;
+}
+
 // ── Search ───────────────────────────────────────────────────────────
 
 /** The query object passed to the search method. */
@@ -1,3 +1,5 @@
+import type { LibraryFilter, FilterOperator } from "../types/index.js";
+
 // ── URI encoding helpers ─────────────────────────────────────────────
 // Plex keys contain slashes (e.g. "/library/metadata/1001/children").
 // We encode them for safe embedding in our URI scheme using percent-encoding.
@@ -18,6 +20,28 @@ export function decodePathSegment(encoded: string): string {
   return encoded.replace(/__/g, "/");
 }
 
+// ── Server-scoped URIs ───────────────────────────────────────────────
+// With several servers configured, URIs of every server but the default one
+// carry its machineIdentifier: plex/s/{machineId}/albums, plex/s/{machineId}/track/….
+// Unscoped URIs keep addressing the default server, so queues and favourites
+// saved before multi-server support still resolve.
+
+const SERVER_URI = /^plex\/s\/([^/]+)(\/.*)?$/;
+
+/** Scope a plex/… URI to a server; a null serverId (the default server) leaves it unchanged. */
+export function toServerUri(uri: string, serverId: string | null): string {
+  if (serverId === null) return uri;
+  if (uri === "plex") return `plex/s/${serverId}`;
+  return uri.startsWith("plex/") ? `plex/s/${serverId}/${uri.slice("plex/".length)}` : uri;
+}
+
+/** Split a possibly server-scoped URI into its serverId (null when unscoped) and the plain plex/… URI. */
+export function parseServerUri(uri: string): { serverId: string | null; uri: string } {
+  const match = uri.match(SERVER_URI);
+  if (!match) return { serverId: null, uri };
+  return { serverId: match[1]!, uri: `plex${match[2] ?? ""}` };
+}
+
 /** Fisher-Yates in-place shuffle. */
 export function shuffleArray<T>(array: T[]): void {
   for (let i = array.length - 1; i > 0; i--) {
@@ -26,33 +50,73 @@ export function shuffleArray<T>(array: T[]): void {
   }
 }
 
+// ── Listing URIs ─────────────────────────────────────────────────────
+// Paged library listings take the form {base}[~{sort}][+{filters}][@{libKey}[:{offset}]],
+// e.g. plex/albums~titleSort:asc+decade=1970,unwatched@1:100. Filters are
+// comma-separated `field{op}value` conditions or bare flags; values are
+// percent-encoded, so none of + , @ or an operator can appear in one raw.
+
 export interface PaginationState {
   libraryKey: string | null;
   offset: number;
   sort: string | null;
+  filters: LibraryFilter[];
 }
 
+const FILTER = /^([\w.]+)(>=|<=|!=|=|>|<)(.*)$/;
+const FLAG = /^[\w.]+$/;
+
 export function parsePaginationUri(uri: string): PaginationState {
-  const tildeIndex = uri.indexOf("~");
   const atIndex = uri.indexOf("@");
+  const head = atIndex === -1 ? uri : uri.slice(0, atIndex);
+  const plusIndex = head.indexOf("+");
+  const sortPart = plusIndex === -1 ? head : head.slice(0, plusIndex);
+  const filters = plusIndex === -1 ? [] : parseFilters(head.slice(plusIndex + 1));
 
-  let sort: string | null = null;
-  if (tildeIndex !== -1) {
-    const sortEnd = atIndex !== -1 ? atIndex : uri.length;
-    sort = uri.slice(tildeIndex + 1, sortEnd) || null;
-  }
+  const tildeIndex = sortPart.indexOf("~");
+  const sort = tildeIndex === -1 ? null : sortPart.slice(tildeIndex + 1) || null;
 
   if (atIndex === -1) {
-    return { libraryKey: null, offset: 0, sort };
+    return { libraryKey: null, offset: 0, sort, filters };
   }
   const paginationPart = uri.slice(atIndex + 1);
   const colonIndex = paginationPart.indexOf(":");
   if (colonIndex === -1) {
-    return { libraryKey: paginationPart, offset: 0, sort };
+    return { libraryKey: paginationPart, offset: 0, sort, filters };
   }
   return {
     libraryKey: paginationPart.slice(0, colonIndex),
     offset: parseInt(paginationPart.slice(colonIndex + 1), 10) || 0,
     sort,
+    filters,
   };
 }
+
+/** The URI of a listing's first page: `{base}[~{sort}][+{filters}]`. */
+export function listingUri(base: string, sort: string | null, filters: LibraryFilter[]): string {
+  const sortPart = sort ? `~${sort}` : "";
+  const filterPart = filters.length > 0 ? `+${filters.map(formatFilter).join(",")}` : "";
+  return `${base}${sortPart}${filterPart}`;
+}
+
+/** Conditions that can't be read are dropped rather than failing the page. */
+function parseFilters(section: string): LibraryFilter[] {
+  const filters: LibraryFilter[] = [];
+  for (const condition of section.split(",")) {
+    const match = condition.match(FILTER);
+    if (match) {
+      try {
+        filters.push({ field: match[1]!, operator: match[2] as FilterOperator, value: decodeURIComponent(match[3]!) });
+      } catch {
+        // Malformed percent-encoding.
+      }
+    } else if (FLAG.test(condition)) {
+      filters.push({ field: condition, operator: null, value: null });
+    }
+  }
+  return filters;
+}
+
+function formatFilter({ field, operator, value }: LibraryFilter): string {
+  return operator === null || value === null ? field : `${field}${operator}${encodeURIComponent(value)}`;
+}